@@ -0,0 +1,117 @@
+// Zamanlanmış tarama sonrası gerileme uyarıları: değerlendirme, alerts tablosuna kayıt ve e-posta/webhook teslimi
+import { alertSettingsFromRow, evaluateAlerts, validateAlertSettings } from './rules.js';
+import { createTransports } from './transports.js';
+
+// Ayardaki hedef alanı → transport adı
+const TARGETS = { email: 'email', webhookUrl: 'webhook' };
+
+export class AlertNotifier {
+  constructor({ supabase, transports = createTransports() }) {
+    this.supabase = supabase;
+    this.transports = transports;
+  }
+
+  // Geçersiz kaydedilmiş ayarlar uyarıları tamamen kapatmaz, varsayılanlara dönülür
+  settingsFor(code) {
+    try {
+      return validateAlertSettings(code.alert_settings);
+    } catch (error) {
+      console.warn(`[WARN] Invalid alert settings for ${code.website_url}, using defaults:`, error.code);
+      return alertSettingsFromRow(null);
+    }
+  }
+
+  // Karşılaştırma için sitenin son erişilebilir raporu (erişilemeyen taramaların raporu atlanır)
+  async previousReport(job) {
+    const { userId, websiteUrl } = job.input;
+    const { data, error } = await this.supabase
+      .from('seo_reports')
+      .select('id, score, report_data, created_at')
+      .eq('user_id', userId)
+      .eq('website_url', websiteUrl)
+      .neq('id', job.id)
+      .order('created_at', { ascending: false })
+      .limit(5);
+    if (error) throw new Error(error.message);
+    return (data || []).find(row => row.report_data?.reachable !== false) || null;
+  }
+
+  // Site erişilemez kaldığı sürece her taramada yeniden uyarı gönderilmez
+  async alreadyReportedUnreachable(trackingCodeId, since) {
+    let query = this.supabase
+      .from('alerts')
+      .select('id')
+      .eq('tracking_code_id', trackingCodeId)
+      .eq('type', 'unreachable')
+      .limit(1);
+    if (since) query = query.gt('created_at', since);
+    const { data, error } = await query;
+    if (error) throw new Error(error.message);
+    return !!data?.length;
+  }
+
+  async deliver(delivery, settings) {
+    const results = [];
+    for (const [field, name] of Object.entries(TARGETS)) {
+      const target = settings[field];
+      const transport = this.transports.get(name);
+      if (!target) continue;
+      if (!transport) {
+        results.push({ channel: name, target, ok: false, error: `${name}-not-configured`, at: new Date().toISOString() });
+        continue;
+      }
+      try {
+        await transport.send(delivery, target);
+        results.push({ channel: name, target, ok: true, at: new Date().toISOString() });
+      } catch (error) {
+        console.error(`[ERROR] Alert delivery via ${name} failed for ${delivery.websiteUrl}:`, error.code || error.message);
+        results.push({ channel: name, target, ok: false, error: error.code || error.message, at: new Date().toISOString() });
+      }
+    }
+    return results;
+  }
+
+  async process(job) {
+    const { trackingCodeId, userId, websiteUrl } = job.input;
+    const { data: code, error } = await this.supabase
+      .from('tracking_codes')
+      .select('id, website_url, alert_settings')
+      .eq('id', trackingCodeId)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    if (!code) return [];
+
+    const settings = this.settingsFor(code);
+    if (!settings.enabled) return [];
+
+    const previous = await this.previousReport(job);
+    const report = job.status === 'completed' ? { id: job.id, score: job.result.score, report_data: job.result.reportData } : null;
+    let alerts = evaluateAlerts({ settings, job, report, previous });
+    if (alerts.some(alert => alert.type === 'unreachable') && await this.alreadyReportedUnreachable(code.id, previous?.created_at)) {
+      alerts = alerts.filter(alert => alert.type !== 'unreachable');
+    }
+    if (!alerts.length) return [];
+
+    const createdAt = job.finishedAt || new Date().toISOString();
+    const delivery = { websiteUrl, trackingCodeId: code.id, reportId: report?.id || null, alerts, createdAt };
+    const deliveries = await this.deliver(delivery, settings);
+
+    const rows = alerts.map(alert => ({
+      user_id: userId,
+      tracking_code_id: code.id,
+      report_id: report?.id || null,
+      website_url: websiteUrl,
+      type: alert.type,
+      severity: alert.severity,
+      message: alert.message,
+      details: alert.details,
+      deliveries,
+      created_at: createdAt
+    }));
+    const { error: insertError } = await this.supabase.from('alerts').insert(rows);
+    if (insertError) throw new Error(insertError.message);
+
+    console.log(`[INFO] ${alerts.length} alert(s) raised for ${websiteUrl}: ${alerts.map(alert => alert.type).join(', ')}`);
+    return rows;
+  }
+}
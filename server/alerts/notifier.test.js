@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { AlertNotifier } from './notifier.js';
+
+const delivery = {
+  websiteUrl: 'https://example.com',
+  trackingCodeId: 'code-1',
+  reportId: 'report-1',
+  alerts: [{ type: 'score-drop', severity: 'warning', message: 'SEO skoru 10 puan düştü', details: {} }],
+  createdAt: '2025-10-20T09:00:00.000Z'
+};
+
+// Gönderilenleri kaydeden sahte kanal; fail verilirse hata fırlatır
+const fakeTransport = (name, fail = null) => {
+  const sent = [];
+  return {
+    name,
+    sent,
+    async send(payload, target) {
+      if (fail) throw Object.assign(new Error(fail.message), { code: fail.code });
+      sent.push({ payload, target });
+      return {};
+    }
+  };
+};
+
+describe('AlertNotifier.deliver', () => {
+  it('sends to every configured target and records the result', async () => {
+    const email = fakeTransport('email');
+    const webhook = fakeTransport('webhook');
+    const notifier = new AlertNotifier({ supabase: null, transports: new Map([['email', email], ['webhook', webhook]]) });
+
+    const results = await notifier.deliver(delivery, { email: 'seo@ornek.com', webhookUrl: 'https://hooks.ornek.com/seo' });
+    expect(results.map(({ channel, target, ok }) => ({ channel, target, ok }))).toEqual([
+      { channel: 'email', target: 'seo@ornek.com', ok: true },
+      { channel: 'webhook', target: 'https://hooks.ornek.com/seo', ok: true }
+    ]);
+    expect(email.sent[0].payload).toBe(delivery);
+    expect(webhook.sent[0].target).toBe('https://hooks.ornek.com/seo');
+  });
+
+  it('skips empty targets and reports channels the server has not configured', async () => {
+    const webhook = fakeTransport('webhook');
+    const notifier = new AlertNotifier({ supabase: null, transports: new Map([['webhook', webhook]]) });
+
+    const results = await notifier.deliver(delivery, { email: 'seo@ornek.com', webhookUrl: null });
+    expect(results).toMatchObject([{ channel: 'email', ok: false, error: 'email-not-configured' }]);
+    expect(webhook.sent).toEqual([]);
+  });
+
+  it('keeps delivering when one channel fails', async () => {
+    const email = fakeTransport('email', { code: 'ECONNECTION', message: 'SMTP down' });
+    const webhook = fakeTransport('webhook');
+    const notifier = new AlertNotifier({ supabase: null, transports: new Map([['email', email], ['webhook', webhook]]) });
+
+    const results = await notifier.deliver(delivery, { email: 'seo@ornek.com', webhookUrl: 'https://hooks.ornek.com/seo' });
+    expect(results).toMatchObject([
+      { channel: 'email', ok: false, error: 'ECONNECTION' },
+      { channel: 'webhook', ok: true }
+    ]);
+  });
+});
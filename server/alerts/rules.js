@@ -0,0 +1,121 @@
+// Gerileme uyarıları: takip kodu bazında eşikler ve yeni raporun önceki raporla karşılaştırılması
+export const ALERT_TYPES = ['score-drop', 'new-critical', 'unreachable', 'title-removed'];
+
+export const DEFAULT_ALERT_SETTINGS = {
+  enabled: true,
+  scoreDrop: 10,
+  newCritical: true,
+  unreachable: true,
+  titleRemoved: true,
+  email: null,
+  webhookUrl: null
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export class AlertSettingsError extends Error {
+  constructor(code, message) {
+    super(message);
+    this.name = 'AlertSettingsError';
+    this.code = code;
+  }
+}
+
+// Satırdaki alert_settings eksik anahtarlar için varsayılanlarla tamamlanır
+export const alertSettingsFromRow = (row) => ({ ...DEFAULT_ALERT_SETTINGS, ...(row?.alert_settings || {}) });
+
+export function validateAlertSettings(settings) {
+  const merged = { ...DEFAULT_ALERT_SETTINGS, ...(settings || {}) };
+  const scoreDrop = Number(merged.scoreDrop);
+  if (!Number.isInteger(scoreDrop) || scoreDrop < 1 || scoreDrop > 100) {
+    throw new AlertSettingsError('invalid-score-drop', 'Skor düşüş eşiği 1 ile 100 arasında bir tam sayı olmalı');
+  }
+  const email = typeof merged.email === 'string' && merged.email.trim() ? merged.email.trim() : null;
+  if (email && !EMAIL_PATTERN.test(email)) {
+    throw new AlertSettingsError('invalid-email', 'Geçersiz e-posta adresi');
+  }
+  let webhookUrl = null;
+  if (typeof merged.webhookUrl === 'string' && merged.webhookUrl.trim()) {
+    try {
+      const url = new URL(merged.webhookUrl.trim());
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') throw new Error('protocol');
+      webhookUrl = url.toString();
+    } catch {
+      throw new AlertSettingsError('invalid-webhook-url', 'Webhook adresi http:// ya da https:// ile başlayan geçerli bir URL olmalı');
+    }
+  }
+  return {
+    enabled: merged.enabled !== false,
+    scoreDrop,
+    newCritical: merged.newCritical !== false,
+    unreachable: merged.unreachable !== false,
+    titleRemoved: merged.titleRemoved !== false,
+    email,
+    webhookUrl
+  };
+}
+
+const failingCritical = (report) => (report?.report_data?.scoring?.rules || [])
+  .filter(rule => rule.severity === 'critical' && rule.status === 'fail');
+
+const titleOf = (report) => (report?.report_data?.audit?.title || '').trim() || null;
+
+// Sayfa indirilemediğinde tarama tamamlansa da HTML boş kalır (reportData.reachable === false)
+export const isUnreachable = (job) => job.status === 'failed' || job.result?.reportData?.reachable === false;
+
+// previous ve report seo_reports satırı biçimindedir (report_data); previous yoksa yalnızca erişilemezlik kontrol edilir
+export function evaluateAlerts({ settings, job, report, previous }) {
+  if (!settings.enabled) return [];
+  const alerts = [];
+
+  if (isUnreachable(job)) {
+    if (settings.unreachable) {
+      alerts.push({
+        type: 'unreachable',
+        severity: 'critical',
+        message: job.status === 'failed'
+          ? `Site taranamadı: ${job.error?.message || job.error?.code || 'bilinmeyen hata'}`
+          : 'Site yanıt vermedi ya da sayfa içeriği alınamadı',
+        details: { error: job.error?.code || null }
+      });
+    }
+    // Erişilemeyen sitenin skoru ve başlığı anlamlı değil
+    return alerts;
+  }
+  if (!previous || !report) return alerts;
+
+  const drop = previous.score - report.score;
+  if (drop >= settings.scoreDrop) {
+    alerts.push({
+      type: 'score-drop',
+      severity: drop >= settings.scoreDrop * 2 ? 'critical' : 'warning',
+      message: `SEO skoru ${drop} puan düştü (${previous.score} → ${report.score})`,
+      details: { before: previous.score, after: report.score, drop, threshold: settings.scoreDrop }
+    });
+  }
+
+  if (settings.newCritical) {
+    const before = new Set(failingCritical(previous).map(rule => rule.id));
+    const added = failingCritical(report).filter(rule => !before.has(rule.id));
+    if (added.length) {
+      alerts.push({
+        type: 'new-critical',
+        severity: 'critical',
+        message: `${added.length} yeni kritik sorun: ${added.map(rule => rule.message || rule.id).join('; ')}`,
+        details: { rules: added.map(rule => ({ id: rule.id, message: rule.message || null })) }
+      });
+    }
+  }
+
+  const previousTitle = titleOf(previous);
+  if (settings.titleRemoved && previousTitle && !titleOf(report)) {
+    alerts.push({
+      type: 'title-removed',
+      severity: 'critical',
+      message: `Sayfa başlığı (title) kaldırıldı; önceki başlık: "${previousTitle}"`,
+      details: { previousTitle }
+    });
+  }
+
+  return alerts;
+}
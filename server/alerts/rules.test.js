@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { AlertSettingsError, DEFAULT_ALERT_SETTINGS, evaluateAlerts, validateAlertSettings } from './rules.js';
+
+const settings = { ...DEFAULT_ALERT_SETTINGS };
+const completed = (reportData = {}) => ({ status: 'completed', result: { reportData } });
+const report = (score, { title = 'Ana Sayfa', critical = [] } = {}) => ({
+  id: `report-${score}`,
+  score,
+  report_data: {
+    audit: { title },
+    scoring: { rules: critical.map(id => ({ id, severity: 'critical', status: 'fail', message: `${id} bozuk` })) }
+  }
+});
+const typesOf = (alerts) => alerts.map(alert => alert.type);
+
+describe('validateAlertSettings', () => {
+  it('fills missing keys with defaults and trims targets', () => {
+    expect(validateAlertSettings({ email: ' seo@ornek.com ', webhookUrl: 'https://hooks.ornek.com/seo' })).toEqual({
+      ...DEFAULT_ALERT_SETTINGS,
+      email: 'seo@ornek.com',
+      webhookUrl: 'https://hooks.ornek.com/seo'
+    });
+  });
+
+  it('rejects invalid thresholds and targets with typed codes', () => {
+    const codeOf = (value) => {
+      try {
+        validateAlertSettings(value);
+      } catch (error) {
+        expect(error).toBeInstanceOf(AlertSettingsError);
+        return error.code;
+      }
+      return null;
+    };
+    expect(codeOf({ scoreDrop: 0 })).toBe('invalid-score-drop');
+    expect(codeOf({ scoreDrop: 2.5 })).toBe('invalid-score-drop');
+    expect(codeOf({ email: 'not-an-email' })).toBe('invalid-email');
+    expect(codeOf({ webhookUrl: 'ftp://hooks.ornek.com' })).toBe('invalid-webhook-url');
+    expect(codeOf({ webhookUrl: 'hooks.ornek.com' })).toBe('invalid-webhook-url');
+  });
+});
+
+describe('evaluateAlerts', () => {
+  it('raises score drops at the threshold and marks large drops critical', () => {
+    const [warning] = evaluateAlerts({ settings, job: completed(), report: report(70), previous: report(80) });
+    expect(warning).toMatchObject({ type: 'score-drop', severity: 'warning', details: { before: 80, after: 70, drop: 10 } });
+
+    const [critical] = evaluateAlerts({ settings, job: completed(), report: report(55), previous: report(80) });
+    expect(critical.severity).toBe('critical');
+
+    expect(evaluateAlerts({ settings, job: completed(), report: report(71), previous: report(80) })).toEqual([]);
+  });
+
+  it('reports only critical rules that were not failing before', () => {
+    const alerts = evaluateAlerts({
+      settings,
+      job: completed(),
+      report: report(80, { critical: ['title-missing', 'noindex'] }),
+      previous: report(80, { critical: ['title-missing'] })
+    });
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ type: 'new-critical', details: { rules: [{ id: 'noindex' }] } });
+  });
+
+  it('detects a removed title', () => {
+    const alerts = evaluateAlerts({ settings, job: completed(), report: report(80, { title: ' ' }), previous: report(80) });
+    expect(alerts[0]).toMatchObject({ type: 'title-removed', details: { previousTitle: 'Ana Sayfa' } });
+  });
+
+  it('raises only the unreachable alert for failed or empty scans', () => {
+    const failed = { status: 'failed', error: { code: 'timeout', message: 'Zaman aşımı' } };
+    expect(evaluateAlerts({ settings, job: failed, report: null, previous: report(80) })).toEqual([
+      { type: 'unreachable', severity: 'critical', message: 'Site taranamadı: Zaman aşımı', details: { error: 'timeout' } }
+    ]);
+    const empty = completed({ reachable: false });
+    expect(typesOf(evaluateAlerts({ settings, job: empty, report: report(0, { title: '' }), previous: report(80) }))).toEqual(['unreachable']);
+  });
+
+  it('honours disabled rules and the master switch', () => {
+    const quiet = { ...settings, newCritical: false, titleRemoved: false, unreachable: false };
+    const current = report(40, { title: '', critical: ['noindex'] });
+    expect(typesOf(evaluateAlerts({ settings: quiet, job: completed(), report: current, previous: report(80) }))).toEqual(['score-drop']);
+    expect(evaluateAlerts({ settings: { ...settings, enabled: false }, job: completed(), report: current, previous: report(80) })).toEqual([]);
+    expect(evaluateAlerts({ settings: quiet, job: { status: 'failed', error: {} }, report: null, previous: null })).toEqual([]);
+  });
+
+  it('skips comparisons without a previous report', () => {
+    expect(evaluateAlerts({ settings, job: completed(), report: report(10, { title: '' }), previous: null })).toEqual([]);
+  });
+});
@@ -0,0 +1,129 @@
+import http from 'node:http';
+import net from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createEmailTransport, createWebhookTransport, formatAlertEmail } from './transports.js';
+
+const delivery = {
+  websiteUrl: 'https://example.com',
+  trackingCodeId: 'code-1',
+  reportId: 'report-1',
+  alerts: [{ type: 'title-removed', severity: 'critical', message: 'Sayfa başlığı (title) kaldırıldı', details: {} }],
+  createdAt: '2025-10-20T09:00:00.000Z'
+};
+
+const servers = [];
+const listen = async (server) => {
+  servers.push(server);
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  return server.address().port;
+};
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(server => new Promise(resolve => server.close(resolve))));
+});
+
+// Webhook alıcısı: gövdeleri toplar, /redirect başka adrese yönlendirir
+async function webhookReceiver() {
+  const received = [];
+  const port = await listen(http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push({ path: req.url, headers: req.headers, body: body ? JSON.parse(body) : null });
+      if (req.url === '/redirect') {
+        res.writeHead(302, { Location: '/hook' });
+        return res.end();
+      }
+      res.writeHead(req.url === '/fail' ? 500 : 204);
+      res.end();
+    });
+  }));
+  return { received, base: `http://127.0.0.1:${port}` };
+}
+
+// Yalnızca nodemailer'ın kullandığı komutları yanıtlayan SMTP sunucusu
+async function smtpStandIn() {
+  const messages = [];
+  const port = await listen(net.createServer(socket => {
+    let buffer = '';
+    let data = null;
+    const envelope = { from: null, to: [] };
+    socket.write('220 localhost ESMTP\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      if (data !== null) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) return;
+        messages.push({ ...envelope, data: buffer.slice(0, end) });
+        buffer = buffer.slice(end + 5);
+        data = null;
+        socket.write('250 OK queued\r\n');
+      }
+      let newline;
+      while (data === null && (newline = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        const command = line.slice(0, 4).toUpperCase();
+        if (command === 'EHLO' || command === 'HELO') socket.write('250 localhost\r\n');
+        else if (command === 'MAIL') { envelope.from = line; socket.write('250 OK\r\n'); }
+        else if (command === 'RCPT') { envelope.to.push(line); socket.write('250 OK\r\n'); }
+        else if (command === 'DATA') { data = ''; socket.write('354 End data with <CR><LF>.<CR><LF>\r\n'); }
+        else if (command === 'QUIT') { socket.end('221 Bye\r\n'); }
+        else socket.write('250 OK\r\n');
+      }
+    });
+  }));
+  return { messages, url: `smtp://127.0.0.1:${port}` };
+}
+
+describe('createWebhookTransport', () => {
+  const allowAll = async () => {};
+
+  it('posts the alert as JSON to the target', async () => {
+    const { received, base } = await webhookReceiver();
+    const transport = createWebhookTransport({ assertUrl: allowAll, agent: new http.Agent() });
+
+    await expect(transport.send(delivery, `${base}/hook`)).resolves.toEqual({ status: 204 });
+    expect(received[0].headers['content-type']).toBe('application/json');
+    expect(received[0].body).toEqual({ event: 'seo.alert', ...delivery });
+  });
+
+  it('does not follow redirects and fails on error statuses', async () => {
+    const { received, base } = await webhookReceiver();
+    const transport = createWebhookTransport({ assertUrl: allowAll, agent: new http.Agent() });
+
+    await expect(transport.send(delivery, `${base}/redirect`)).rejects.toThrow('Webhook HTTP 302');
+    await expect(transport.send(delivery, `${base}/fail`)).rejects.toThrow('Webhook HTTP 500');
+    expect(received.map(request => request.path)).toEqual(['/redirect', '/fail']);
+  });
+
+  it('rejects private addresses with the default safety check', async () => {
+    const { received, base } = await webhookReceiver();
+    await expect(createWebhookTransport().send(delivery, `${base}/hook`)).rejects.toMatchObject({ name: 'UrlSafetyError', code: 'blocked-address' });
+    expect(received).toEqual([]);
+  });
+});
+
+describe('createEmailTransport', () => {
+  it('sends the formatted alert through SMTP', async () => {
+    const { messages, url } = await smtpStandIn();
+    const transport = createEmailTransport({ url, from: 'weeme.ai <alerts@weeme.ai>' });
+    try {
+      await transport.send(delivery, 'seo@ornek.com');
+    } finally {
+      transport.close();
+    }
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0].from).toContain('alerts@weeme.ai');
+    expect(messages[0].to).toEqual([expect.stringContaining('seo@ornek.com')]);
+    // Türkçe karakterler nedeniyle konu ve gövde MIME kodlanır; alıcı başlığı düz kalır
+    expect(messages[0].data).toContain('To: seo@ornek.com');
+    expect(messages[0].data).toContain('Subject: =?UTF-8?Q?=5Bweeme=2Eai=5D');
+  });
+
+  it('lists every alert with its severity label', () => {
+    const { text } = formatAlertEmail(delivery);
+    expect(text).toContain('- [Kritik] Sayfa başlığı (title) kaldırıldı');
+  });
+});
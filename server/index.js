@@ -8,6 +8,21 @@ import fetch from 'node-fetch';
 import { config } from 'dotenv';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { runAudit } from './scanner/pipeline.js';
+import { normalizeCompetitors, scanCompetitors, compareWithCompetitors } from './scanner/competitors.js';
+import { listRules } from './scanner/rules/index.js';
+import { assertSafeUrl, toSafetyResponse } from './scanner/safety.js';
+import { JobQueue } from './jobs/queue.js';
+import { createJobStore } from './jobs/stores.js';
+import { ScanScheduler } from './jobs/scheduler.js';
+import { scheduleFromRow, validateSchedule, nextRuns } from './jobs/schedule.js';
+import { getServiceClient } from './supabase.js';
+import { createBeaconIngestor, MAX_BEACON_BYTES } from './tracking/beacon.js';
+import { verifyInstallation, snippetIntegrity } from './tracking/verify.js';
+import { OWNERSHIP_METHODS, ownershipConfigured, ownershipInstructions, verifyOwnership } from './tracking/ownership.js';
+import { AlertNotifier } from './alerts/notifier.js';
+import { AlertSettingsError, validateAlertSettings } from './alerts/rules.js';
+import { createTransports } from './alerts/transports.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -31,6 +46,16 @@ const validateEnvironment = () => {
   } else {
     console.log('[STARTUP] ⚠️  OpenAI API Key: Not configured (fallback mode)');
   }
+
+  // Sahiplik token'ları sunucu sırrı olmadan tahmin edilebilir olurdu; üretimde sır zorunludur
+  if (ownershipConfigured()) {
+    console.log('[STARTUP] ✅ Ownership token secret: Configured');
+  } else if (isProduction) {
+    console.error('[STARTUP] ❌ OWNERSHIP_TOKEN_SECRET is required in production');
+    process.exit(1);
+  } else {
+    console.log('[STARTUP] ⚠️  Ownership token secret: Not configured (ownership verification disabled)');
+  }
   console.log('[STARTUP] Environment validation complete\n');
 };
 
@@ -76,10 +101,29 @@ const limiter = rateLimit({
   max: isProduction ? 50 : 100,
   message: { error: 'Too many requests, please try again later' },
   standardHeaders: true,
-  legacyHeaders: false
+  legacyHeaders: false,
+  // İş durumu sorguları, SSE bağlantıları ve müşteri sitelerinden gelen seo.js trafiği tarama kotasından sayılmaz
+  skip: (req) => (req.method === 'GET' && req.path.startsWith('/api/scans/')) || req.path === '/seo.js' || req.path === '/api/beacon'
 });
 app.use(limiter);
 
+// Beacon'lar ziyaretçi IP'si başına ayrı sınırlanır
+const beaconLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 60,
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+// Test uyarıları dışarıya e-posta/webhook isteği ürettiğinden IP başına sıkı sınırlanır
+const alertTestLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 5,
+  message: { error: 'Too many test alerts, please try again later' },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
 // Trust proxy in production
 if (isProduction) {
   app.set('trust proxy', 1);
@@ -89,6 +133,18 @@ if (isProduction) {
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
+// Takip kodu betiği müşteri sitelerinden yüklenir (helmet'in same-origin CORP başlığı gevşetilir)
+app.get('/seo.js', (req, res) => {
+  res.sendFile(path.join(__dirname, 'public/seo.js'), {
+    maxAge: '1h',
+    headers: {
+      'Content-Type': 'application/javascript; charset=utf-8',
+      'Cross-Origin-Resource-Policy': 'cross-origin',
+      'Access-Control-Allow-Origin': '*'
+    }
+  });
+});
+
 // Serve static files in production
 if (isProduction) {
   const staticPath = path.join(__dirname, '../dist');
@@ -105,6 +161,8 @@ if (isProduction) {
 
 const PORT = process.env.API_PORT || 8787;
 const OPENAI_KEY = process.env.OPENAI_API_KEY;
+// Supabase service role istemcisi (zamanlayıcı, beacon kaydı); yapılandırılmamışsa null
+const serviceClient = getServiceClient();
 
 // Validate environment on startup
 validateEnvironment();
@@ -162,119 +220,287 @@ async function callOpenAI(messages, maxTokens = 2000) {
   }
 }
 
-// Site içeriğini fetch et
-async function fetchSiteContent(url) {
+// Health check
+app.get('/health', (req, res) => {
+  res.json({
+    status: 'healthy',
+    timestamp: new Date().toISOString(),
+    openai: OPENAI_KEY ? 'configured' : 'fallback_mode'
+  });
+});
+
+// Skor kuralları (site bazında açılıp kapatılabilir)
+app.get('/api/seo-rules', (req, res) => {
+  res.json({ ok: true, rules: listRules(req.query.lang === 'en' ? 'en' : 'tr') });
+});
+
+// seo.js gözlemleri: sendBeacon text/plain gönderir, yanıt gövdesi okunmaz
+const beaconIngestor = serviceClient
+  ? createBeaconIngestor({ supabase: serviceClient, requireOwnership: process.env.BEACON_REQUIRE_OWNERSHIP !== 'false' })
+  : null;
+
+app.post('/api/beacon', beaconLimiter, express.text({ type: 'text/plain', limit: MAX_BEACON_BYTES }), async (req, res) => {
+  if (!beaconIngestor) return res.status(503).json({ error: 'Beacon storage not configured' });
   try {
-    // URL validation ve normalization
-    let normalizedUrl;
-    try {
-      // URL'i normalize et
-      if (!url.startsWith('http://') && !url.startsWith('https://')) {
-        normalizedUrl = `https://${url}`;
-      } else {
-        normalizedUrl = url;
-      }
-      
-      // URL'in geçerli olduğunu kontrol et
-      const urlObj = new URL(normalizedUrl);
-      if (!urlObj.hostname || urlObj.hostname.length < 3) {
-        throw new Error('Invalid hostname');
-      }
-    } catch (urlError) {
-      console.error('[ERROR] Invalid URL format:', url, urlError.message);
-      return null;
-    }
-    
-    console.log('[INFO] Fetching content from:', normalizedUrl);
-    
-    const response = await fetch(url, {
-      timeout: 10000,
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.5',
-        'Accept-Encoding': 'gzip, deflate',
-        'Connection': 'keep-alive'
-      }
-    });
-    
-    if (!response.ok) {
-      console.error('[ERROR] HTTP error:', response.status, response.statusText);
-      return null;
-    }
-    
-    const html = await response.text();
-    console.log('[SUCCESS] Content fetched, length:', html.length);
-    return html.substring(0, 50000); // İlk 50k karakter
+    await beaconIngestor.ingest(req.body, { origin: req.get('origin'), userAgent: req.get('user-agent') });
+    res.status(204).end();
   } catch (error) {
-    console.error('[ERROR] Failed to fetch site:', normalizedUrl, error.message);
-    return null;
+    if (error.name === 'BeaconError') return res.status(error.status).json({ error: 'invalid_beacon', code: error.code, message: error.message });
+    console.error('[ERROR] Beacon ingestion failed:', error.message);
+    res.status(500).json({ error: 'Beacon ingestion failed' });
   }
-}
+});
 
-// HTML analizi
-function analyzeHTML(html, url) {
-  if (!html) {
-    return {
-      title: null,
-      metaDescription: null,
-      h1Tags: [],
-      hasSSL: url.startsWith('https://'),
-      hasOG: false,
-      imageCount: 0,
-      linkCount: 0
-    };
+// Kurumsal kurulum kodundaki integrity değeri
+app.get('/api/tracking/snippet', (req, res) => {
+  res.json({ ok: true, path: '/seo.js', integrity: snippetIntegrity() });
+});
+
+// Kurulum doğrulaması: site indirilir ve takip koduna ait seo.js betiği aranır.
+// Supabase yapılandırılmışsa adres takip kodunun kayıtlı sitesidir ve sonuç installation_* sütunlarına yazılır
+app.post('/api/tracking-codes/verify', async (req, res) => {
+  const { trackingCodeId, websiteUrl, code } = req.body || {};
+  if (typeof code !== 'string' || !code) return res.status(400).json({ error: 'code is required' });
+  if (serviceClient && (typeof trackingCodeId !== 'string' || !trackingCodeId)) return res.status(400).json({ error: 'trackingCodeId is required' });
+
+  try {
+    let row = null;
+    if (serviceClient) {
+      const { data, error: loadError } = await serviceClient
+        .from('tracking_codes')
+        .select('id, website_url')
+        .eq('id', trackingCodeId)
+        .eq('code', code)
+        .maybeSingle();
+      if (loadError) throw new Error(loadError.message);
+      if (!data) return res.status(404).json({ error: 'Tracking code not found' });
+      row = data;
+    }
+    const { input, error } = await validateScanRequest({ url: row ? row.website_url : websiteUrl });
+    if (error) return res.status(error.status).json(error.body);
+
+    const verification = await verifyInstallation(input.url, code);
+    console.log(`[INFO] Installation check for ${input.url}: ${verification.status}${verification.reason ? ` (${verification.reason})` : ''}`);
+
+    // Kurulum alanlarını yalnızca sunucu yazar (istemci güncellemeleri veritabanı tetikleyicisiyle yok sayılır)
+    if (row) {
+      const { error: saveError } = await serviceClient
+        .from('tracking_codes')
+        .update({
+          installation_status: verification.status,
+          installation_checked_at: verification.checkedAt,
+          installation_error: verification.reason
+        })
+        .eq('id', row.id)
+        .eq('website_url', row.website_url);
+      if (saveError) console.error('[ERROR] Installation result could not be saved:', saveError.message);
+    }
+    res.json({ ok: true, verification });
+  } catch (verifyError) {
+    console.error('[ERROR] Installation check failed:', trackingCodeId || websiteUrl, verifyError.message);
+    res.status(500).json({ error: 'Verification failed', message: verifyError.message });
   }
+});
 
-  const analysis = {
-    title: null,
-    metaDescription: null,
-    h1Tags: [],
-    hasSSL: url.startsWith('https://'),
-    hasOG: false,
-    imageCount: 0,
-    linkCount: 0
-  };
+// Sahiplik doğrulaması: token takip kodundan türetilir; yöntemler DNS TXT, meta etiketi ve HTML dosyası
+app.post('/api/ownership/instructions', async (req, res) => {
+  const { websiteUrl, code } = req.body || {};
+  if (typeof code !== 'string' || !code) return res.status(400).json({ error: 'code is required' });
+  if (!ownershipConfigured()) return res.status(503).json({ error: 'Ownership verification not configured' });
+  const { input, error } = await validateScanRequest({ url: websiteUrl });
+  if (error) return res.status(error.status).json(error.body);
+  res.json({ ok: true, instructions: ownershipInstructions(input.url, code) });
+});
 
-  // Title
-  const titleMatch = html.match(/<title[^>]*>([^<]+)<\/title>/i);
-  if (titleMatch) analysis.title = titleMatch[1].trim();
+app.post('/api/ownership/verify', async (req, res) => {
+  const { trackingCodeId, code, method } = req.body || {};
+  if (typeof trackingCodeId !== 'string' || !trackingCodeId) return res.status(400).json({ error: 'trackingCodeId is required' });
+  if (typeof code !== 'string' || !code) return res.status(400).json({ error: 'code is required' });
+  if (method && !OWNERSHIP_METHODS.includes(method)) return res.status(400).json({ error: 'Invalid verification method' });
+  if (!serviceClient) return res.status(503).json({ error: 'Ownership storage not configured' });
+  if (!ownershipConfigured()) return res.status(503).json({ error: 'Ownership verification not configured' });
 
-  // Meta description
-  const metaMatch = html.match(/<meta[^>]*name=["']description["'][^>]*content=["']([^"']+)["']/i);
-  if (metaMatch) analysis.metaDescription = metaMatch[1].trim();
+  try {
+    // Doğrulanan adres istemcinin gönderdiği değil, takip kodunun kayıtlı sitesidir
+    const { data: row, error: loadError } = await serviceClient
+      .from('tracking_codes')
+      .select('id, website_url')
+      .eq('id', trackingCodeId)
+      .eq('code', code)
+      .maybeSingle();
+    if (loadError) throw new Error(loadError.message);
+    if (!row) return res.status(404).json({ error: 'Tracking code not found' });
+
+    const { input, error } = await validateScanRequest({ url: row.website_url });
+    if (error) return res.status(error.status).json(error.body);
+
+    const verification = await verifyOwnership(input.url, code, { method });
+    console.log(`[INFO] Ownership check for ${input.url}: ${verification.status}${verification.reason ? ` (${verification.reason})` : ''}`);
+
+    // Sahiplik alanlarını yalnızca sunucu yazar (istemci güncellemeleri veritabanı tetikleyicisiyle yok sayılır).
+    // Doğrulama sürerken site adresi değiştiyse sonuç yeni adrese yazılmaz
+    const { error: saveError } = await serviceClient
+      .from('tracking_codes')
+      .update({
+        ownership_method: verification.method,
+        ownership_verified_at: verification.status === 'verified' ? verification.checkedAt : null,
+        ownership_checked_at: verification.checkedAt,
+        ownership_error: verification.reason
+      })
+      .eq('id', row.id)
+      .eq('website_url', row.website_url);
+    if (saveError) console.error('[ERROR] Ownership result could not be saved:', saveError.message);
+    res.json({ ok: true, verification });
+  } catch (verifyError) {
+    console.error('[ERROR] Ownership check failed:', trackingCodeId, verifyError.message);
+    res.status(500).json({ error: 'Verification failed', message: verifyError.message });
+  }
+});
 
-  // H1 tags
-  const h1Matches = html.match(/<h1[^>]*>([^<]+)<\/h1>/gi);
-  if (h1Matches) {
-    analysis.h1Tags = h1Matches.map(h1 => h1.replace(/<[^>]*>/g, '').trim());
+// Tarama takvimini doğrula ve sonraki çalışma zamanlarını döndür (Dashboard nextScan'i buradan alır)
+app.post('/api/scan-schedule/preview', (req, res) => {
+  try {
+    const schedule = validateSchedule(scheduleFromRow(req.body));
+    res.json({ ok: true, schedule, nextRuns: nextRuns(schedule, 3) });
+  } catch (error) {
+    if (error.name !== 'ScheduleError') throw error;
+    res.status(400).json({ error: 'invalid_schedule', code: error.code, message: error.message });
   }
+});
 
-  // Open Graph
-  analysis.hasOG = html.includes('property="og:') || html.includes('property=\'og:');
+// Uyarı ayarlarını doğrula ve normalleştir (Dashboard kaydetmeden önce çağırır)
+const parseAlertSettings = (settings, res) => {
+  try {
+    return validateAlertSettings(settings);
+  } catch (error) {
+    if (!(error instanceof AlertSettingsError)) throw error;
+    res.status(400).json({ error: 'invalid_alert_settings', code: error.code, message: error.message });
+    return null;
+  }
+};
 
-  // Images and links
-  analysis.imageCount = (html.match(/<img[^>]*>/gi) || []).length;
-  analysis.linkCount = (html.match(/<a[^>]*href/gi) || []).length;
+app.post('/api/alerts/settings', (req, res) => {
+  const settings = parseAlertSettings(req.body?.settings, res);
+  if (settings) res.json({ ok: true, settings });
+});
 
-  return analysis;
-}
+// Takip kodunun kayıtlı e-posta/webhook hedeflerine örnek bir uyarı gönder; hedefler istek gövdesinden alınmaz
+app.post('/api/alerts/test', alertTestLimiter, async (req, res) => {
+  const { trackingCodeId, code } = req.body || {};
+  if (typeof trackingCodeId !== 'string' || !trackingCodeId) return res.status(400).json({ error: 'trackingCodeId is required' });
+  if (typeof code !== 'string' || !code) return res.status(400).json({ error: 'code is required' });
+  if (!serviceClient) return res.status(503).json({ error: 'Alert storage not configured' });
 
-// Health check
-app.get('/health', (req, res) => {
-  res.json({
-    status: 'healthy',
-    timestamp: new Date().toISOString(),
-    openai: OPENAI_KEY ? 'configured' : 'fallback_mode'
-  });
+  try {
+    const { data: row, error: loadError } = await serviceClient
+      .from('tracking_codes')
+      .select('id, website_url, alert_settings')
+      .eq('id', trackingCodeId)
+      .eq('code', code)
+      .maybeSingle();
+    if (loadError) throw new Error(loadError.message);
+    if (!row) return res.status(404).json({ error: 'Tracking code not found' });
+
+    const settings = parseAlertSettings(row.alert_settings, res);
+    if (!settings) return;
+    if (!settings.email && !settings.webhookUrl) {
+      return res.status(400).json({ error: 'invalid_alert_settings', code: 'no-targets', message: 'Kayıtlı bir e-posta ya da webhook adresi yok' });
+    }
+    const deliveries = await alertNotifier.deliver({
+      websiteUrl: row.website_url,
+      trackingCodeId: row.id,
+      reportId: null,
+      test: true,
+      alerts: [{ type: 'score-drop', severity: 'warning', message: 'Bu bir test uyarısıdır; bildirim ayarlarınız çalışıyor.', details: {} }],
+      createdAt: new Date().toISOString()
+    }, settings);
+    res.json({ ok: deliveries.every(delivery => delivery.ok), deliveries });
+  } catch (testError) {
+    console.error('[ERROR] Test alert failed:', trackingCodeId, testError.message);
+    res.status(500).json({ error: 'Test alert failed', message: testError.message });
+  }
 });
 
-// SEO Scan endpoint
-app.post('/api/seo-scan', async (req, res) => {
-  const { url } = req.body;
+// Hesap gerektiren uç noktalarda oturumsuz istek reddedilir (yalnızca yerel geliştirme için SCAN_REQUIRE_AUTH=false)
+const requireScanAuth = !!serviceClient && process.env.SCAN_REQUIRE_AUTH !== 'false';
+
+// İsteği yapan hesap: Authorization başlığındaki Supabase erişim token'ı service role ile doğrulanır.
+// Başlık yoksa { account: null }; geçersiz token ya da kayıtsız kullanıcı hata döner
+async function loadRequestAccount(req) {
+  const [scheme, token] = (req.get('authorization') || '').split(' ');
+  if (scheme !== 'Bearer' || !token || !serviceClient) return { account: null };
+
+  const { data, error: authError } = await serviceClient.auth.getUser(token);
+  if (authError || !data?.user) return { error: { status: 401, body: { error: 'Invalid session', code: 'auth-required' } } };
+
+  const { data: account, error } = await serviceClient
+    .from('users')
+    .select('id, membership_type, credits, require_site_ownership')
+    .eq('id', data.user.id)
+    .maybeSingle();
+  if (error) {
+    console.error('[ERROR] Account lookup failed:', data.user.id, error.message);
+    return { error: { status: 500, body: { error: 'Account lookup failed' } } };
+  }
+  if (!account) return { error: { status: 401, body: { error: 'Account not found', code: 'auth-required' } } };
+  return { account };
+}
+
+const ownershipRequired = { status: 403, body: { error: 'ownership_required', code: 'ownership-unverified', message: 'Ajans modunda yalnızca sahipliği doğrulanmış siteler taranabilir' } };
+
+// Ajans modu (users.require_site_ownership): sahipliği doğrulanmamış siteler taranmaz.
+// Kural takip kodunun sahibine ve isteği yapan hesaba birlikte uygulanır
+async function loadScanTrackingCode(trackingCodeId, account) {
+  const { data: code, error } = await serviceClient
+    .from('tracking_codes')
+    .select('id, user_id, website_url, ownership_verified_at, users(require_site_ownership)')
+    .eq('id', trackingCodeId)
+    .maybeSingle();
+  if (error) {
+    console.error('[ERROR] Tracking code lookup failed:', trackingCodeId, error.message);
+    return { error: { status: 500, body: { error: 'Tracking code lookup failed' } } };
+  }
+  if (!code || (account && code.user_id !== account.id)) return { error: { status: 404, body: { error: 'Tracking code not found' } } };
+  if ((account?.require_site_ownership || code.users?.require_site_ownership) && !code.ownership_verified_at) {
+    return { error: ownershipRequired };
+  }
+  return { code };
+}
+
+// Hesaba bağlı tarama isteği: oturum ve ajans modu istek gövdesinden bağımsız olarak uygulanır
+async function authorizeScanRequest(req) {
+  const { account, error } = await loadRequestAccount(req);
+  if (error) return { error };
+  if (!account && requireScanAuth) return { error: { status: 401, body: { error: 'Authentication required', code: 'auth-required' } } };
+  if (account?.membership_type === 'Free' && account.credits <= 0) {
+    return { error: { status: 402, body: { error: 'Insufficient credits', code: 'insufficient-credits' } } };
+  }
+  const { input, error: invalid } = await validateScanRequest(req.body, { account });
+  if (invalid) return { error: invalid };
+  // Kredi iş tamamlanırken hesaptan düşülür (runScanJob)
+  return { input: account ? { ...input, trigger: 'manual', userId: account.id } : input };
+}
+
+// Tarama isteğini doğrula: { error: { status, body } } ya da kuyruğa alınacak { input }.
+// account verilirse (hesaba bağlı istek) takip kodu o hesaba ait olmalıdır
+async function validateScanRequest(reqBody, { account = null } = {}) {
+  const { trackingCodeId, crawl, disabledRules, competitors, lang = 'tr' } = reqBody || {};
+  let { url } = reqBody || {};
+
+  // Takip koduyla gelen taramada adres kayıttan alınır; ajans hesabı yalnızca doğrulanmış takip kodunu tarayabilir
+  if (trackingCodeId && serviceClient) {
+    const { code, error } = await loadScanTrackingCode(trackingCodeId, account);
+    if (error) return { error };
+    url = code.website_url;
+  } else if (account?.require_site_ownership) {
+    return { error: ownershipRequired };
+  }
   
   if (!url) {
-    return res.status(400).json({ error: 'URL is required' });
+    return { error: { status: 400, body: { error: 'URL is required' } } };
+  }
+  if (typeof url !== 'string') {
+    return { error: { status: 400, body: { error: 'Invalid URL format' } } };
   }
 
   // URL validation
@@ -288,36 +514,67 @@ app.post('/api/seo-scan', async (req, res) => {
     
     const urlObj = new URL(normalizedUrl);
     if (!urlObj.hostname || urlObj.hostname.length < 3) {
-      return res.status(400).json({ error: 'Invalid URL format' });
+      return { error: { status: 400, body: { error: 'Invalid URL format' } } };
     }
   } catch (urlError) {
     console.error('[ERROR] URL validation failed:', url, urlError.message);
-    return res.status(400).json({ error: 'Invalid URL format' });
+    return { error: { status: 400, body: { error: 'Invalid URL format' } } };
   }
-  console.log(`[INFO] Starting SEO scan for: ${normalizedUrl}`);
 
+  // SSRF koruması: özel/yerel ağlara çözümlenen adresler taranmaz
   try {
-    // 1. Site içeriğini fetch et
-    const html = await fetchSiteContent(normalizedUrl);
-    const analysis = analyzeHTML(html, normalizedUrl);
-    
-    console.log('[INFO] HTML analysis completed:', {
-      hasTitle: !!analysis.title,
-      hasMetaDesc: !!analysis.metaDescription,
-      h1Count: analysis.h1Tags.length,
-      hasSSL: analysis.hasSSL,
-      hasOG: analysis.hasOG
-    });
+    await assertSafeUrl(normalizedUrl);
+  } catch (safetyError) {
+    console.error('[ERROR] Unsafe scan target rejected:', normalizedUrl, safetyError.code);
+    return { error: { status: 400, body: toSafetyResponse(safetyError) } };
+  }
+
+  return { input: { url: normalizedUrl, crawl, disabledRules, competitors, lang } };
+}
+
+// Tek bir tarama işinin tamamı; stage(id) Dashboard'a aşama bazlı ilerleme bildirir
+async function performScan({ url: normalizedUrl, crawl, disabledRules, competitors, lang = 'tr' }, { stage = async () => {} } = {}) {
+  console.log(`[INFO] Starting SEO scan for: ${normalizedUrl}`);
 
-    // 2. OpenAI ile detaylı analiz
-    let aiAnalysis = null;
-    if (OPENAI_KEY && OPENAI_KEY.startsWith('sk-') && !OPENAI_KEY.includes('your-actual-openai-api-key-here')) {
-      const prompt = `Sen 15+ yıl deneyimli bir SEO uzmanısın. Google'da çalışmış, Fortune 500 şirketlerine danışmanlık yapmışsın.
+  // 1. Site içeriğini fetch et ve denetimleri çalıştır; rakipler aynı anda paralel denetlenir
+  const competitorUrls = normalizeCompetitors(competitors, normalizedUrl);
+  const competitorsPromise = competitorUrls.length
+    ? scanCompetitors(competitorUrls, { disabledRules, lang })
+    : Promise.resolve(null);
+  const scan = await runAudit(normalizedUrl, { crawl, disabledRules, lang, onStage: stage });
+  if (competitorUrls.length) await stage('competitors');
+  const competitorRows = await competitorsPromise;
+  const { html, audit, analysis, schema, accessibility, content, indexability, security, alternates, linkCheck, mobile, scoring } = scan;
+  const crawlResult = scan.crawl;
+  const performanceResult = scan.performance;
+  const competitorComparison = competitorRows ? compareWithCompetitors(scan, competitorRows) : null;
+  const headingOutline = audit.headings.slice(0, 15).map(h => `${'  '.repeat(h.level - 1)}H${h.level}: ${h.text.substring(0, 80)}`).join('\n');
+  
+  console.log('[INFO] HTML analysis completed:', {
+    hasTitle: !!analysis.title,
+    hasMetaDesc: !!analysis.metaDescription,
+    h1Count: analysis.h1Tags.length,
+    hasSSL: analysis.hasSSL,
+    hasOG: analysis.hasOG,
+    hasCanonical: !!audit.canonical,
+    fetcher: scan.fetcher.name,
+    structuredData: audit.structuredData.types,
+    invalidSchemaItems: schema.invalidCount,
+    performanceScore: performanceResult?.score ?? null,
+    robotsTxt: indexability?.robots.found ?? null,
+    sitemapUrls: indexability?.sitemaps.urlCount ?? null
+  });
+
+  // 2. OpenAI ile detaylı analiz
+  await stage('ai');
+  let aiAnalysis = null;
+  if (OPENAI_KEY && OPENAI_KEY.startsWith('sk-') && !OPENAI_KEY.includes('your-actual-openai-api-key-here')) {
+    const prompt = `Sen 15+ yıl deneyimli bir SEO uzmanısın. Google'da çalışmış, Fortune 500 şirketlerine danışmanlık yapmışsın.
 
 GÖREV: Bu web sitesini 2024 SEO standartlarına göre analiz et.
 
 URL: ${normalizedUrl}
-HTML İçerik: ${html ? html.substring(0, 8000) : 'İçerik alınamadı'}
+HTML İçerik${scan.fetcher.name !== 'http' ? ' (JavaScript render edilmiş)' : ''}: ${html ? html.substring(0, 8000) : 'İçerik alınamadı'}
 
 ANALİZ VERİLERİ:
 - Title: ${analysis.title || 'YOK'}
@@ -325,9 +582,46 @@ ANALİZ VERİLERİ:
 - H1 Etiketleri: ${analysis.h1Tags.join(', ') || 'YOK'}
 - SSL: ${analysis.hasSSL ? 'VAR' : 'YOK'}
 - Open Graph: ${analysis.hasOG ? 'VAR' : 'YOK'}
-- Görsel Sayısı: ${analysis.imageCount}
-- Link Sayısı: ${analysis.linkCount}
-
+- Görsel Sayısı: ${analysis.imageCount} (alt text eksik: ${audit.images.missingAlt}, kapsama: %${audit.images.coverage})
+- Link Sayısı: ${analysis.linkCount} (iç: ${audit.links.internal.length}, dış: ${audit.links.external.length}, nofollow: ${audit.links.nofollowCount})
+- HTML lang: ${audit.lang || 'YOK'}
+- Canonical: ${audit.canonical || 'YOK'}
+- Hreflang: ${audit.hreflang.map(h => `${h.lang} → ${h.href}`).join(', ') || 'YOK'}
+${alternates ? `- Canonical/hreflang tutarlılığı: canonical ${alternates.canonical.issues.join(', ') || 'OK'}; hreflang ${alternates.hreflang.present ? alternates.hreflang.issues.join(', ') || 'OK' : 'YOK'}
+` : ''}${content ? `- İçerik: ${content.wordCount} kelime (${content.language}), okunabilirlik ${content.readability.score ?? '—'}/100${content.thinContent ? ', ZAYIF İÇERİK' : ''}
+- Öne çıkan terimler: ${content.topKeywords.slice(0, 8).map(k => `${k.term} (${k.count})`).join(', ') || 'YOK'}
+` : ''}${security ? `- Güvenlik skoru: ${security.score}/100 (eksik/zayıf: ${security.checks.filter(c => c.status === 'fail' || c.status === 'warn').map(c => c.id).join(', ') || 'yok'}${security.certificate?.daysRemaining != null ? `; sertifika bitişine ${security.certificate.daysRemaining} gün` : ''})
+` : ''}${mobile ? `- Mobil uyumluluk: ${mobile.score}/100 (viewport: ${mobile.viewport ? mobile.viewport.content : 'YOK'}; sabit genişlik: ${mobile.fixedWidths.length}; küçük yazı: ${mobile.smallFonts.length}; mobil UA farkları: ${mobile.served.differences.join(', ') || 'yok'})
+` : ''}${accessibility ? `- Erişilebilirlik skoru: ${accessibility.score}/100 (${accessibility.checks.filter(c => c.status === 'fail').map(c => `${c.id}: ${c.failed}/${c.total}`).join(', ') || 'sorun yok'})
+` : ''}${linkCheck ? `- Bağlantı kontrolü (${linkCheck.checked} bağlantı): ${linkCheck.broken.length} kırık, ${linkCheck.redirectChains.length} yönlendirme zinciri, ${linkCheck.mixedContent.length} mixed content
+` : ''}${competitorComparison?.gaps.length ? `- Rakiplere göre eksikler: ${competitorComparison.gaps.map(g => g.message).join('; ')}
+` : ''}- Robots meta: ${audit.meta.robots || 'YOK'}
+- Structured Data: ${audit.structuredData.types.join(', ') || 'YOK'}${audit.structuredData.jsonLdErrors ? ` (${audit.structuredData.jsonLdErrors} geçersiz JSON-LD bloğu)` : ''}
+- Structured Data doğrulaması: ${schema.items.length ? schema.items.map(item => `${item.type} ${item.valid ? 'GEÇERLİ' : `(eksik zorunlu alanlar: ${item.missingRequired.join(', ')})`}`).join('; ') : 'desteklenen tip yok'}
+
+${performanceResult ? `PERFORMANS ÖLÇÜMLERİ (gerçek fetch):
+- TTFB: ${performanceResult.metrics.document.ttfbMs} ms
+- HTML aktarım boyutu: ${Math.round(performanceResult.metrics.document.transferBytes / 1024)} KB (sıkıştırma: ${performanceResult.metrics.document.encoding || 'YOK'})
+- Render-blocking: ${performanceResult.metrics.renderBlocking.scripts} script, ${performanceResult.metrics.renderBlocking.stylesheets} stylesheet
+- Görsel ağırlığı: ${Math.round(performanceResult.metrics.images.bytes / 1024)} KB (${performanceResult.metrics.images.count} görsel)
+- Toplam ölçülen ağırlık: ${Math.round(performanceResult.metrics.totalBytes / 1024)} KB
+- Performans skoru: ${performanceResult.score}/100
+` : ''}
+${indexability ? `ROBOTS.TXT / SITEMAP:
+- robots.txt: ${indexability.robots.found ? `VAR (${indexability.robots.blockedPaths.length} Disallow kuralı${indexability.robots.blocksSite ? ', TÜM SİTE ENGELLİ' : ''})` : 'YOK'}
+- Sitemap: ${indexability.sitemaps.found ? `VAR (${indexability.sitemaps.urlCount} URL, robots.txt referansı: ${indexability.sitemaps.referencedInRobots ? 'VAR' : 'YOK'})` : 'YOK'}
+- Sorunlu sitemap URL'leri: ${indexability.sitemaps.invalidUrls.length} geçersiz, ${indexability.sitemaps.blockedUrlCount} robots ile engelli, ${indexability.sitemaps.unreachable.length}/${indexability.sitemaps.checkedUrls} erişilemiyor
+` : ''}
+BAŞLIK HİYERARŞİSİ:
+${headingOutline || 'YOK'}
+${crawlResult ? `
+SİTE GENELİ TARAMA (${crawlResult.summary.pagesCrawled} sayfa):
+- Title eksik sayfa: ${crawlResult.summary.missingTitle.length}
+- Meta description eksik sayfa: ${crawlResult.summary.missingMetaDescription.length}
+- H1 eksik sayfa: ${crawlResult.summary.missingH1.length}
+- Tekrarlanan title grubu: ${crawlResult.summary.duplicateTitles.length}
+- Hatalı sayfa: ${crawlResult.summary.pagesFailed}
+` : ''}
 2024 SEO KRİTERLERİ:
 - Core Web Vitals optimizasyonu
 - E-A-T (Expertise, Authoritativeness, Trustworthiness)
@@ -346,145 +640,279 @@ JSON formatında dön:
   "technicalSEO": "değerlendirme"
 }`;
 
-      const aiResponse = await callOpenAI([
-        {
-          role: 'system',
-          content: 'Sen Google\'da 15+ yıl çalışmış, Fortune 500 şirketlerine SEO danışmanlığı yapan bir uzmansın. 2024 algoritma güncellemelerini çok iyi biliyorsun. Objektif, detaylı ve uygulanabilir analizler yaparsın.'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ], 1500);
-
-      if (aiResponse) {
-        try {
-          aiAnalysis = JSON.parse(aiResponse);
-          console.log('[SUCCESS] AI analysis completed');
-        } catch (parseError) {
-          console.error('[ERROR] Failed to parse AI response:', parseError.message);
-          console.error('[ERROR] AI response was:', aiResponse.substring(0, 500));
-        }
+    const aiResponse = await callOpenAI([
+      {
+        role: 'system',
+        content: 'Sen Google\'da 15+ yıl çalışmış, Fortune 500 şirketlerine SEO danışmanlığı yapan bir uzmansın. 2024 algoritma güncellemelerini çok iyi biliyorsun. Objektif, detaylı ve uygulanabilir analizler yaparsın.'
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ], 1500);
+
+    if (aiResponse) {
+      try {
+        aiAnalysis = JSON.parse(aiResponse);
+        console.log('[SUCCESS] AI analysis completed');
+      } catch (parseError) {
+        console.error('[ERROR] Failed to parse AI response:', parseError.message);
+        console.error('[ERROR] AI response was:', aiResponse.substring(0, 500));
       }
-    } else {
-      console.log('[INFO] OpenAI API key not available or invalid, using fallback analysis');
     }
+  } else {
+    console.log('[INFO] OpenAI API key not available or invalid, using fallback analysis');
+  }
 
-    // 3. Fallback analizi (AI çalışmazsa)
-    if (!aiAnalysis) {
-      console.log('[INFO] Using fallback analysis');
-      
-      let score = 50;
-      const positives = [];
-      const negatives = [];
-      const suggestions = [];
-
-      // Scoring logic
-      if (analysis.title) {
-        score += 10;
-        positives.push(`Title etiketi mevcut: "${analysis.title.substring(0, 60)}..."`);
-        if (analysis.title.length < 30) {
-          negatives.push('Title çok kısa (30 karakterden az)');
-          suggestions.push('Title etiketini 50-60 karakter arasında optimize edin');
-        } else if (analysis.title.length > 60) {
-          negatives.push('Title çok uzun (60 karakterden fazla)');
-          suggestions.push('Title etiketini 50-60 karakter arasında kısaltın');
-        }
-      } else {
-        negatives.push('Title etiketi eksik');
-        suggestions.push('Her sayfa için benzersiz ve açıklayıcı title etiketi ekleyin');
-      }
+  // 3. Fallback analizi (AI çalışmazsa) - kural motoru sonucu kullanılır
+  if (!aiAnalysis) {
+    console.log('[INFO] Using fallback analysis (rule engine)');
+
+    aiAnalysis = {
+      score: scoring.score,
+      positives: scoring.positives,
+      negatives: scoring.negatives,
+      suggestions: scoring.suggestions,
+      ruleRefs: scoring.refs,
+      coreWebVitals: 'Detaylı analiz için Pro üyelik gerekli',
+      mobileOptimization: mobile ? `Mobil uyumluluk skoru: ${mobile.score}/100` : 'Responsive tasarım kontrolü önerilir',
+      technicalSEO: 'Sitemap ve robots.txt kontrolü yapılmalı'
+    };
+  } else {
+    // Eksik zorunlu schema alanları AI yanıtından bağımsız olarak negatiflerde yer almalı
+    const schemaResult = scoring.rules.find(r => r.id === 'structured-data-valid' && r.status === 'fail');
+    if (schemaResult) {
+      aiAnalysis.negatives = [...(aiAnalysis.negatives || []), schemaResult.message];
+    }
+  }
 
-      if (analysis.metaDescription) {
-        score += 8;
-        positives.push('Meta description mevcut');
-        if (analysis.metaDescription.length < 120) {
-          suggestions.push('Meta description\'ı 150-160 karakter arasında genişletin');
+  // 4. Rapor oluştur
+  await stage('report');
+  const report = {
+    score: aiAnalysis.score,
+    positives: aiAnalysis.positives || [],
+    negatives: aiAnalysis.negatives || [],
+    suggestions: aiAnalysis.suggestions || [],
+    reportData: {
+      metaTags: !!analysis.title && !!analysis.metaDescription,
+      headings: analysis.h1Tags.length > 0,
+      images: analysis.imageCount > 0,
+      performance: performanceResult ? performanceResult.score : null,
+      mobileOptimization: mobile ? mobile.score >= 70 : null,
+      mobile,
+      sslCertificate: security?.certificate && !security.certificate.error ? security.certificate.authorized && security.certificate.daysRemaining >= 0 : analysis.hasSSL,
+      pageSpeed: performanceResult ? performanceResult.score : null,
+      performanceMetrics: performanceResult ? {
+        score: performanceResult.score,
+        penalties: performanceResult.penalties,
+        measuredAt: performanceResult.measuredAt,
+        ...performanceResult.metrics
+      } : null,
+      keywords: content ? content.topKeywords.slice(0, 5).map(k => k.term) : [],
+      content,
+      audit: {
+        lang: audit.lang,
+        title: audit.title,
+        meta: audit.meta,
+        canonical: audit.canonical,
+        hreflang: audit.hreflang,
+        headings: audit.headings,
+        images: audit.images,
+        links: {
+          internalCount: audit.links.internal.length,
+          externalCount: audit.links.external.length,
+          nofollowCount: audit.links.nofollowCount,
+          internal: audit.links.internal.slice(0, 100),
+          external: audit.links.external.slice(0, 100)
+        },
+        structuredData: {
+          types: audit.structuredData.types,
+          jsonLdErrors: audit.structuredData.jsonLdErrors,
+          microdata: audit.structuredData.microdata,
+          validation: schema
         }
-      } else {
-        negatives.push('Meta description eksik');
-        suggestions.push('150-160 karakter arası meta description ekleyin');
-      }
+      },
+      coreWebVitals: aiAnalysis.coreWebVitals,
+      technicalSEO: aiAnalysis.technicalSEO,
+      indexability,
+      alternates,
+      linkCheck,
+      accessibility,
+      security,
+      competitors: competitorComparison,
+      fetcher: scan.fetcher,
+      // Ana sayfa indirilemediyse denetimler boş HTML üzerinde çalışmıştır (gerileme uyarıları bunu kullanır)
+      reachable: !!html,
+      scoring: {
+        score: scoring.score,
+        lang: scoring.lang,
+        categories: scoring.categories,
+        rules: scoring.rules
+      },
+      ruleRefs: aiAnalysis.ruleRefs || null,
+      crawl: crawlResult ? {
+        startUrl: crawlResult.startUrl,
+        options: crawlResult.options,
+        robotsTxt: crawlResult.robotsTxt,
+        truncated: crawlResult.truncated,
+        durationMs: crawlResult.durationMs,
+        summary: crawlResult.summary,
+        pages: crawlResult.pages
+      } : null
+    }
+  };
 
-      if (analysis.h1Tags.length > 0) {
-        score += 8;
-        positives.push(`H1 etiketi mevcut: ${analysis.h1Tags.length} adet`);
-        if (analysis.h1Tags.length > 1) {
-          negatives.push('Birden fazla H1 etiketi var');
-          suggestions.push('Her sayfada sadece bir H1 etiketi kullanın');
-        }
-      } else {
-        negatives.push('H1 etiketi eksik');
-        suggestions.push('Ana sayfaya benzersiz H1 etiketi ekleyin');
-      }
+  console.log(`[SUCCESS] SEO scan completed for ${normalizedUrl} - Score: ${report.score}`);
+  return report;
+}
 
-      if (analysis.hasSSL) {
-        score += 10;
-        positives.push('SSL sertifikası aktif (HTTPS)');
-      } else {
-        negatives.push('SSL sertifikası yok (HTTP)');
-        suggestions.push('SSL sertifikası alın ve HTTPS\'e geçin');
-      }
+const SCAN_STAGES = ['fetch', 'analyze', 'checks', 'competitors', 'ai', 'report'];
 
-      if (analysis.hasOG) {
-        score += 5;
-        positives.push('Open Graph meta etiketleri mevcut');
-      } else {
-        negatives.push('Open Graph meta etiketleri eksik');
-        suggestions.push('Sosyal medya paylaşımları için OG etiketleri ekleyin');
-      }
+// Hesaba bağlı manuel taramada Free kredisi, iş tamamlanmadan önce veritabanında tek koşullu UPDATE ile düşülür;
+// istemci 'done' olayından sonra bakiyeyi okuduğunda düşüm yapılmış olur. Zamanlanmış taramaları scheduler işler
+async function runScanJob(input, context) {
+  const report = await performScan(input, context);
+  if (input.trigger === 'manual' && input.userId && serviceClient) {
+    const { error } = await serviceClient.rpc('consume_scan_credit', { target_user_id: input.userId });
+    if (error) console.error('[ERROR] Scan credit could not be consumed:', input.userId, error.message);
+  }
+  return report;
+}
 
-      if (analysis.imageCount > 0) {
-        score += 3;
-        positives.push(`${analysis.imageCount} görsel tespit edildi`);
-        suggestions.push('Tüm görsellere alt text ekleyin');
-      }
+const scanQueue = new JobQueue({
+  store: createJobStore(),
+  concurrency: Number(process.env.SCAN_CONCURRENCY) || 2,
+  handler: runScanJob
+});
+scanQueue.recover().catch(error => console.error('[ERROR] Job recovery failed:', error.message));
+
+// Gerileme uyarıları zamanlanmış taramalarla çalışır; teslim kanalları test uç noktasıyla paylaşılır
+const alertNotifier = new AlertNotifier({ supabase: serviceClient, transports: createTransports() });
+
+// Zamanlanmış taramalar yalnızca service role anahtarı tanımlıysa çalışır
+const scheduler = serviceClient && process.env.SCAN_SCHEDULER !== 'false'
+  ? new ScanScheduler({
+    queue: scanQueue,
+    supabase: serviceClient,
+    alerts: alertNotifier,
+    stages: SCAN_STAGES,
+    interval: Number(process.env.SCAN_SCHEDULER_INTERVAL) || undefined,
+    prepare: (code) => validateScanRequest({
+      url: code.website_url,
+      disabledRules: code.disabled_rules || [],
+      competitors: code.competitors || []
+    })
+  })
+  : null;
+
+// Başarısız iş için HTTP yanıtı; güvenlik katmanı hataları tipli kodlarıyla döner
+const failedJobResponse = (job) => {
+  const { name, code, message } = job.error || {};
+  if (name === 'UrlSafetyError') {
+    return { status: code === 'timeout' ? 504 : 422, body: { error: 'unsafe_url', code, message, url: job.input.url } };
+  }
+  return { status: 500, body: { error: 'Scan failed', message, url: job.input.url } };
+};
 
-      // Ensure score is within reasonable range
-      score = Math.min(Math.max(score, 45), 90);
-
-      aiAnalysis = {
-        score,
-        positives,
-        negatives,
-        suggestions,
-        coreWebVitals: 'Detaylı analiz için Pro üyelik gerekli',
-        mobileOptimization: 'Responsive tasarım kontrolü önerilir',
-        technicalSEO: 'Sitemap ve robots.txt kontrolü yapılmalı'
-      };
+// SEO Scan endpoint (senkron): iş kuyruğa alınır ve tamamlanınca rapor döner
+app.post('/api/seo-scan', async (req, res) => {
+  try {
+    const { input, error } = await authorizeScanRequest(req);
+    if (error) return res.status(error.status).json(error.body);
+
+    const job = await scanQueue.wait((await scanQueue.enqueue(input, { stages: SCAN_STAGES })).id);
+    if (job.status === 'failed') {
+      console.error('[ERROR] SEO scan failed for', input.url, ':', job.error.name, job.error.message);
+      const failed = failedJobResponse(job);
+      return res.status(failed.status).json(failed.body);
     }
+    res.json({ ok: true, jobId: job.id, report: job.result });
+  } catch (scanError) {
+    console.error('[ERROR] SEO scan request failed:', scanError.message);
+    res.status(500).json({ error: 'Scan failed', message: scanError.message });
+  }
+});
 
-    // 4. Rapor oluştur
-    const report = {
-      score: aiAnalysis.score,
-      positives: aiAnalysis.positives || [],
-      negatives: aiAnalysis.negatives || [],
-      suggestions: aiAnalysis.suggestions || [],
-      reportData: {
-        metaTags: !!analysis.title && !!analysis.metaDescription,
-        headings: analysis.h1Tags.length > 0,
-        images: analysis.imageCount > 0,
-        performance: Math.floor(Math.random() * 20) + 70,
-        mobileOptimization: true,
-        sslCertificate: analysis.hasSSL,
-        pageSpeed: Math.floor(Math.random() * 20) + 70,
-        keywords: analysis.title ? analysis.title.split(' ').slice(0, 5) : [],
-        coreWebVitals: aiAnalysis.coreWebVitals,
-        technicalSEO: aiAnalysis.technicalSEO
-      }
-    };
+// Asenkron tarama: iş kimliği hemen döner, ilerleme /api/scans/:id ve /events ile izlenir
+app.post('/api/scans', async (req, res) => {
+  try {
+    const { input, error } = await authorizeScanRequest(req);
+    if (error) return res.status(error.status).json(error.body);
+
+    const job = await scanQueue.enqueue(input, { stages: SCAN_STAGES });
+    res.status(202).json({ ok: true, job });
+  } catch (enqueueError) {
+    console.error('[ERROR] Scan job could not be queued:', enqueueError.message);
+    res.status(500).json({ error: 'Scan job could not be queued', message: enqueueError.message });
+  }
+});
+
+app.get('/api/scans/:id', async (req, res) => {
+  try {
+    const job = await scanQueue.get(req.params.id);
+    if (!job) return res.status(404).json({ error: 'Scan job not found' });
+    res.json({ ok: true, job });
+  } catch (error) {
+    console.error('[ERROR] Scan job read failed:', req.params.id, error.message);
+    res.status(500).json({ error: 'Scan job could not be read', message: error.message });
+  }
+});
 
-    console.log(`[SUCCESS] SEO scan completed for ${normalizedUrl} - Score: ${report.score}`);
-    res.json({ ok: true, report });
+// Server-Sent Events: her durum değişikliğinde `progress`, bitişte `done` olayı gönderilir.
+// Dinleyici ilk okumadan önce bağlanır; okuma sırasında gelen güncellemeler kaçırılmaz
+app.get('/api/scans/:id/events', async (req, res) => {
+  const id = req.params.id;
+  let ready = false;
+  let closed = false;
+  let missed = null;
+
+  const send = (current) => {
+    if (closed) return;
+    const finished = current.status === 'completed' || current.status === 'failed';
+    res.write(`event: ${finished ? 'done' : 'progress'}\ndata: ${JSON.stringify(current)}\n\n`);
+    if (finished) close();
+  };
+  const listener = (current) => {
+    if (current.id !== id) return;
+    if (ready) send(current);
+    else missed = current;
+  };
+  let heartbeat = null;
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    scanQueue.off('update', listener);
+    res.end();
+  };
 
+  scanQueue.on('update', listener);
+  let job;
+  try {
+    job = await scanQueue.get(id);
   } catch (error) {
-    console.error('[ERROR] SEO scan failed for', normalizedUrl, ':', error.name, error.message);
-    res.status(500).json({ 
-      error: 'Scan failed',
-      message: error.message,
-      url: normalizedUrl
-    });
+    scanQueue.off('update', listener);
+    console.error('[ERROR] Scan job read failed:', id, error.message);
+    return res.status(500).json({ error: 'Scan job could not be read', message: error.message });
+  }
+  if (!job) {
+    scanQueue.off('update', listener);
+    return res.status(404).json({ error: 'Scan job not found' });
   }
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  heartbeat = setInterval(() => res.write(': ping\n\n'), 15000);
+  req.on('close', close);
+  ready = true;
+  // Okuma sırasında yayınlanan güncelleme daha yeniyse onunla başlanır
+  send(missed && missed.updatedAt >= job.updatedAt ? missed : job);
 });
 
 // AI Suggestions endpoint
@@ -816,21 +1244,36 @@ const server = app.listen(PORT, () => {
   console.log('🚀 ===================================');
   console.log('');
   console.log('📊 Available endpoints:');
-  console.log('   POST /api/seo-scan - SEO site analysis');
+  console.log('   POST /api/seo-scan - SEO site analysis (multi-page crawl)');
+  console.log('   POST /api/scans - Queue a scan job (GET /api/scans/:id, /api/scans/:id/events)');
+  console.log('   GET  /api/seo-rules - Scoring rule registry');
+  console.log('   GET  /seo.js - Tracking snippet (POST /api/beacon - page observations)');
+  console.log('   POST /api/tracking-codes/verify - Check that the tracking snippet is installed');
+  console.log('   POST /api/ownership/verify - Verify site ownership (DNS TXT, meta tag, HTML file)');
+  console.log('   POST /api/alerts/test - Send a test alert to email/webhook targets');
+  console.log('   POST /api/scan-schedule/preview - Validate a scan schedule and list upcoming runs');
   console.log('   POST /api/seo-suggestions - AI SEO recommendations');
   console.log('   POST /api/ai-content - AI content generation');
   console.log('   GET  /health - Health check');
   console.log('');
+  if (scheduler) {
+    scheduler.start();
+    console.log(`[STARTUP] ✅ Scan scheduler running (every ${scheduler.interval / 1000}s)`);
+  } else {
+    console.log('[STARTUP] ⚠️  Scan scheduler disabled (SUPABASE_SERVICE_ROLE_KEY missing or SCAN_SCHEDULER=false)');
+  }
 });
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('[INFO] Shutting down gracefully');
+  scheduler?.stop();
   server.close(() => process.exit(0));
 });
 
 process.on('SIGINT', () => {
   console.log('[INFO] Shutting down gracefully');  
+  scheduler?.stop();
   server.close(() => process.exit(0));
 });
 
@@ -0,0 +1,161 @@
+// Süreç içi tarama iş kuyruğu: sınırlı eşzamanlılık, aşama bazlı ilerleme ve değiştirilebilir saklama arka ucu
+import { EventEmitter } from 'node:events';
+import { randomUUID } from 'node:crypto';
+import { createMemoryStore } from './stores.js';
+
+export const JOB_STATUSES = ['queued', 'running', 'completed', 'failed'];
+const FINISHED = new Set(['completed', 'failed']);
+const DEFAULT_TTL = 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL = 10 * 60 * 1000;
+
+const now = () => new Date().toISOString();
+
+// Hata, istemcinin tipine göre davranabilmesi için ad ve kodla saklanır
+const serializeError = (error) => ({
+  name: error?.name || 'Error',
+  code: error?.code || 'scan-failed',
+  message: error?.message || String(error)
+});
+
+export class JobQueue extends EventEmitter {
+  constructor({ handler, store = createMemoryStore(), concurrency = 2, ttl = DEFAULT_TTL } = {}) {
+    super();
+    if (typeof handler !== 'function') throw new Error('JobQueue requires a handler');
+    this.handler = handler;
+    this.store = store;
+    this.concurrency = Math.max(1, concurrency);
+    this.ttl = ttl;
+    this.pending = [];
+    this.running = 0;
+    this.setMaxListeners(0);
+
+    // Bitmiş işler TTL sonunda silinir; zamanlayıcı süreci ayakta tutmaz
+    this.pruneTimer = setInterval(() => this.prune().catch(() => {}), PRUNE_INTERVAL);
+    this.pruneTimer.unref();
+  }
+
+  // Önceki süreçten kalan işler: kuyruktakiler yeniden sıraya alınır, yarıda kalanlar başarısız sayılır
+  async recover() {
+    for (const job of await this.store.list()) {
+      if (job.status === 'queued') {
+        this.pending.push(job.id);
+      } else if (job.status === 'running') {
+        await this.update(job, { status: 'failed', error: { name: 'Error', code: 'interrupted', message: 'Sunucu yeniden başlatıldı' }, finishedAt: now() });
+      }
+    }
+    this.drain();
+  }
+
+  async enqueue(input, { stages = [] } = {}) {
+    const job = {
+      id: randomUUID(),
+      status: 'queued',
+      input,
+      stage: null,
+      stages: stages.map(id => ({ id, status: 'pending', startedAt: null, finishedAt: null })),
+      progress: 0,
+      result: null,
+      error: null,
+      createdAt: now(),
+      updatedAt: now(),
+      startedAt: null,
+      finishedAt: null
+    };
+    await this.store.save(job);
+    this.emit('update', job);
+    this.pending.push(job.id);
+    this.drain();
+    return job;
+  }
+
+  get(id) {
+    return this.store.get(id);
+  }
+
+  // İş bittiğinde (completed/failed) son durumuyla çözülür.
+  // Dinleyici saklama okumasından önce bağlanır; okuma sırasında biten iş kaçırılmaz
+  wait(id) {
+    return new Promise((resolve, reject) => {
+      const finish = (job) => {
+        this.off('update', listener);
+        resolve(job);
+      };
+      const listener = (job) => {
+        if (job.id === id && FINISHED.has(job.status)) finish(job);
+      };
+      this.on('update', listener);
+      this.store.get(id).then(current => {
+        if (!current || FINISHED.has(current.status)) finish(current);
+      }, error => {
+        this.off('update', listener);
+        reject(error);
+      });
+    });
+  }
+
+  async update(job, changes) {
+    Object.assign(job, changes, { updatedAt: now() });
+    await this.store.save(job);
+    this.emit('update', job);
+    return job;
+  }
+
+  drain() {
+    while (this.running < this.concurrency && this.pending.length) {
+      const id = this.pending.shift();
+      this.running++;
+      this.run(id)
+        .catch(error => console.error('[ERROR] Job runner failed:', id, error.message))
+        .finally(() => {
+          this.running--;
+          this.drain();
+        });
+    }
+  }
+
+  async run(id) {
+    const job = await this.store.get(id);
+    if (!job || job.status !== 'queued') return;
+    await this.update(job, { status: 'running', startedAt: now() });
+
+    // Handler aşama değiştikçe stage(id) çağırır; önceki aşama tamamlanmış sayılır
+    const stage = async (stageId) => {
+      const timestamp = now();
+      for (const item of job.stages) {
+        if (item.status === 'running') Object.assign(item, { status: 'done', finishedAt: timestamp });
+      }
+      let item = job.stages.find(s => s.id === stageId);
+      if (!item) {
+        item = { id: stageId, status: 'pending', startedAt: null, finishedAt: null };
+        job.stages.push(item);
+      }
+      Object.assign(item, { status: 'running', startedAt: timestamp });
+      const done = job.stages.filter(s => s.status === 'done').length;
+      await this.update(job, { stage: stageId, progress: Math.round((done / job.stages.length) * 100) });
+    };
+
+    try {
+      const result = await this.handler(job.input, { id, stage });
+      const timestamp = now();
+      for (const item of job.stages) {
+        if (item.status !== 'pending') Object.assign(item, { status: 'done', finishedAt: item.finishedAt || timestamp });
+        else item.status = 'skipped';
+      }
+      await this.update(job, { status: 'completed', stage: null, progress: 100, result, finishedAt: timestamp });
+    } catch (error) {
+      for (const item of job.stages) {
+        if (item.status === 'running') Object.assign(item, { status: 'failed', finishedAt: now() });
+      }
+      await this.update(job, { status: 'failed', error: serializeError(error), finishedAt: now() });
+    }
+  }
+
+  async prune() {
+    const cutoff = Date.now() - this.ttl;
+    for (const job of await this.store.list()) {
+      if (FINISHED.has(job.status) && new Date(job.finishedAt).getTime() < cutoff) {
+        await this.store.remove(job.id);
+      }
+    }
+  }
+}
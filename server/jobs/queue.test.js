@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { JobQueue } from './queue.js';
+import { createMemoryStore } from './stores.js';
+
+describe('JobQueue.wait', () => {
+  it('resolves with the final job', async () => {
+    const queue = new JobQueue({ handler: async (input) => ({ echo: input.value }) });
+    const job = await queue.enqueue({ value: 1 });
+    const done = await queue.wait(job.id);
+    expect(done).toMatchObject({ status: 'completed', result: { echo: 1 } });
+  });
+
+  it('does not miss a job that finishes while the store is being read', async () => {
+    const store = createMemoryStore();
+    const queue = new JobQueue({ handler: async () => 'ok', store });
+    const job = await queue.enqueue({});
+    await queue.wait(job.id);
+
+    // Okuma sırasında işin bittiği durum: store eski durumu döner, bitiş olayı okuma bitmeden yayınlanır
+    const stale = { ...job, status: 'running' };
+    store.get = async () => {
+      queue.emit('update', { ...job, status: 'failed' });
+      return stale;
+    };
+    await expect(queue.wait(job.id)).resolves.toMatchObject({ status: 'failed' });
+    expect(queue.listenerCount('update')).toBe(0);
+  });
+
+  it('rejects when the store cannot be read', async () => {
+    const store = createMemoryStore();
+    store.get = async () => { throw new SyntaxError('Unexpected token'); };
+    const queue = new JobQueue({ handler: async () => null, store });
+    await expect(queue.wait('broken')).rejects.toThrow(SyntaxError);
+    expect(queue.listenerCount('update')).toBe(0);
+  });
+});
@@ -0,0 +1,213 @@
+// Tarama takvimi: sıklık (daily/weekly/biweekly/monthly) ya da 5 alanlı cron ifadesi,
+// tercih edilen saat aralığı (yerel saat, gece yarısını aşabilir) ve site bazında saat dilimi
+export const SCAN_FREQUENCIES = ['daily', 'weekly', 'biweekly', 'monthly', 'custom'];
+export const DEFAULT_TIMEZONE = 'Europe/Istanbul';
+
+const FREQUENCY_DAYS = { daily: 1, weekly: 7, biweekly: 14, monthly: 30 };
+// Sunucuyu yormamak için cron taramaları arasında en az bu kadar süre olmalı
+const MIN_CRON_INTERVAL = 60 * 60 * 1000;
+const SEARCH_DAYS = 366;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)(:[0-5]\d)?$/;
+
+export class ScheduleError extends Error {
+  constructor(code, message) {
+    super(message);
+    this.name = 'ScheduleError';
+    this.code = code;
+  }
+}
+
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'dayOfMonth', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'dayOfWeek', min: 0, max: 7 }
+];
+
+// "*", "5", "1-5", "*/15", "10-40/10" ve virgülle ayrılmış listeler desteklenir
+function parseCronField(value, { name, min, max }) {
+  const values = new Set();
+  for (const part of value.split(',')) {
+    const match = part.match(/^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/);
+    if (!match) throw new ScheduleError('invalid-cron', `Geçersiz cron alanı (${name}): ${part}`);
+    const [from, to] = match[1] === '*' ? [min, max] : match[1].split('-').map(Number);
+    const end = to ?? (match[2] ? max : from);
+    const step = match[2] ? Number(match[2]) : 1;
+    if (from < min || end > max || from > end || step < 1) {
+      throw new ScheduleError('invalid-cron', `Cron alanı aralık dışında (${name}): ${part}`);
+    }
+    for (let n = from; n <= end; n += step) values.add(n);
+  }
+  return values;
+}
+
+export function parseCron(expression) {
+  const parts = String(expression || '').trim().split(/\s+/);
+  if (parts.length !== 5) throw new ScheduleError('invalid-cron', 'Cron ifadesi 5 alandan oluşmalı: dakika saat gün ay haftanın-günü');
+  const [minutes, hours, days, months, weekdays] = parts.map((part, i) => parseCronField(part, CRON_FIELDS[i]));
+  // 7 de pazar günüdür
+  if (weekdays.has(7)) weekdays.add(0);
+  return {
+    minutes: [...minutes].sort((a, b) => a - b),
+    hours: [...hours].sort((a, b) => a - b),
+    days,
+    months,
+    weekdays,
+    // Klasik cron: gün ve haftanın günü birlikte kısıtlıysa biri eşleşmesi yeterli
+    anyDay: parts[2] !== '*' && parts[4] !== '*'
+  };
+}
+
+const toMinutes = (time) => {
+  const [, h, m] = time.match(TIME_PATTERN);
+  return Number(h) * 60 + Number(m);
+};
+
+// Saat dilimindeki duvar saati
+function localParts(date, timezone) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric'
+    }).formatToParts(date).map(p => [p.type, Number(p.value)])
+  );
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute };
+}
+
+const offsetAt = (ms, timezone) => {
+  const p = localParts(new Date(ms), timezone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute) - Math.floor(ms / 60000) * 60000;
+};
+
+// Yerel saatten UTC'ye; yaz saati geçişinde ofset bir kez daha düzeltilir
+function fromLocal({ year, month, day, hour, minute }, timezone) {
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const first = offsetAt(guess, timezone);
+  const second = offsetAt(guess - first, timezone);
+  return new Date(guess - second);
+}
+
+const addLocalDays = ({ year, month, day }, days) => {
+  const d = new Date(Date.UTC(year, month - 1, day + days));
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate(), weekday: d.getUTCDay() };
+};
+
+const inWindow = (minutes, window) => {
+  if (!window) return true;
+  const [start, end] = window;
+  return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+};
+
+// Tablo satırı ya da Dashboard gövdesinden ortak takvim nesnesi
+export function scheduleFromRow(row = {}) {
+  return {
+    frequency: row.scan_frequency ?? row.scanFrequency ?? 'weekly',
+    cron: row.scan_cron ?? row.scanCron ?? null,
+    windowStart: row.scan_window_start ?? row.scanWindowStart ?? null,
+    windowEnd: row.scan_window_end ?? row.scanWindowEnd ?? null,
+    timezone: row.timezone || DEFAULT_TIMEZONE
+  };
+}
+
+export function validateSchedule(schedule) {
+  const { frequency, cron, windowStart, windowEnd, timezone } = schedule;
+  if (!SCAN_FREQUENCIES.includes(frequency)) throw new ScheduleError('invalid-frequency', `Geçersiz tarama sıklığı: ${frequency}`);
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+  } catch {
+    throw new ScheduleError('invalid-timezone', `Geçersiz saat dilimi: ${timezone}`);
+  }
+  if (!!windowStart !== !!windowEnd) throw new ScheduleError('invalid-window', 'Saat aralığı için başlangıç ve bitiş birlikte girilmeli');
+  if (windowStart && (!TIME_PATTERN.test(windowStart) || !TIME_PATTERN.test(windowEnd) || toMinutes(windowStart) === toMinutes(windowEnd))) {
+    throw new ScheduleError('invalid-window', 'Saat aralığı SS:DD biçiminde ve farklı saatler olmalı');
+  }
+  if (frequency === 'custom') {
+    if (!cron) throw new ScheduleError('invalid-cron', 'Özel takvim için cron ifadesi gerekli');
+    parseCron(cron);
+    const runs = nextRuns(schedule, 3);
+    if (!runs.length) throw new ScheduleError('invalid-cron', 'Cron ifadesi seçilen saat aralığında hiç çalışmıyor');
+    for (let i = 1; i < runs.length; i++) {
+      if (new Date(runs[i]) - new Date(runs[i - 1]) < MIN_CRON_INTERVAL) {
+        throw new ScheduleError('cron-too-frequent', 'Taramalar arasında en az 1 saat olmalı');
+      }
+    }
+  }
+  return {
+    frequency,
+    cron: frequency === 'custom' ? cron.trim() : null,
+    windowStart: windowStart ? windowStart.slice(0, 5) : null,
+    windowEnd: windowEnd ? windowEnd.slice(0, 5) : null,
+    timezone
+  };
+}
+
+function nextCronRun(cron, from, timezone, window) {
+  const start = localParts(from, timezone);
+  const startMinutes = start.hour * 60 + start.minute;
+  for (let offset = 0; offset <= SEARCH_DAYS; offset++) {
+    const date = addLocalDays(start, offset);
+    if (!cron.months.has(date.month)) continue;
+    const dayMatch = cron.days.has(date.day);
+    const weekdayMatch = cron.weekdays.has(date.weekday);
+    if (cron.anyDay ? !(dayMatch || weekdayMatch) : !(dayMatch && weekdayMatch)) continue;
+    for (const hour of cron.hours) {
+      for (const minute of cron.minutes) {
+        const minutes = hour * 60 + minute;
+        if (offset === 0 && minutes <= startMinutes) continue;
+        if (!inWindow(minutes, window)) continue;
+        return fromLocal({ ...date, hour, minute }, timezone);
+      }
+    }
+  }
+  return null;
+}
+
+// Aralıklı sıklıkta saat korunur; saat aralık dışındaysa aralığın başlangıcına kaydırılır
+function nextIntervalRun(days, from, timezone, window) {
+  const start = localParts(from, timezone);
+  const date = addLocalDays(start, days);
+  const minutes = start.hour * 60 + start.minute;
+  const time = inWindow(minutes, window) ? minutes : window[0];
+  return fromLocal({ ...date, hour: Math.floor(time / 60), minute: time % 60 }, timezone);
+}
+
+const windowOf = ({ windowStart, windowEnd }) => (windowStart && windowEnd ? [toMinutes(windowStart), toMinutes(windowEnd)] : null);
+
+export function nextScanDate(schedule, from = new Date()) {
+  const { frequency, cron, timezone = DEFAULT_TIMEZONE } = schedule;
+  const window = windowOf(schedule);
+  const next = frequency === 'custom' && cron
+    ? nextCronRun(parseCron(cron), from, timezone, window)
+    : nextIntervalRun(FREQUENCY_DAYS[frequency] || FREQUENCY_DAYS.weekly, from, timezone, window);
+  return next ? next.toISOString() : null;
+}
+
+export function nextRuns(schedule, count = 3, from = new Date()) {
+  const runs = [];
+  let cursor = from;
+  while (runs.length < count) {
+    const next = nextScanDate(schedule, cursor);
+    if (!next) break;
+    runs.push(next);
+    cursor = new Date(next);
+  }
+  return runs;
+}
+
+export function isWithinWindow(schedule, date = new Date()) {
+  const window = windowOf(schedule);
+  if (!window) return true;
+  const { hour, minute } = localParts(date, schedule.timezone || DEFAULT_TIMEZONE);
+  return inWindow(hour * 60 + minute, window);
+}
+
+// Aralığın dışında vadesi gelen tarama, aralığın bir sonraki başlangıcına ertelenir
+export function nextWindowStart(schedule, from = new Date()) {
+  const window = windowOf(schedule);
+  if (!window) return from.toISOString();
+  const timezone = schedule.timezone || DEFAULT_TIMEZONE;
+  const start = localParts(from, timezone);
+  const minutes = start.hour * 60 + start.minute;
+  const date = addLocalDays(start, minutes < window[0] ? 0 : 1);
+  return fromLocal({ ...date, hour: Math.floor(window[0] / 60), minute: window[0] % 60 }, timezone).toISOString();
+}
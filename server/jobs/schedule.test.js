@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { ScheduleError, isWithinWindow, nextRuns, nextScanDate, nextWindowStart, parseCron, validateSchedule } from './schedule.js';
+
+const at = (iso) => new Date(iso);
+
+describe('parseCron', () => {
+  it('expands ranges, steps and lists', () => {
+    const cron = parseCron('*/15 9-17/4 1,15 * 1-5');
+    expect(cron.minutes).toEqual([0, 15, 30, 45]);
+    expect(cron.hours).toEqual([9, 13, 17]);
+    expect([...cron.days]).toEqual([1, 15]);
+    expect(cron.anyDay).toBe(true);
+  });
+
+  it('treats 7 as sunday', () => {
+    expect(parseCron('0 0 * * 7').weekdays.has(0)).toBe(true);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCron('0 0 * *')).toThrow(ScheduleError);
+    expect(() => parseCron('60 0 * * *')).toThrow(/aralık dışında/);
+  });
+});
+
+describe('nextScanDate', () => {
+  it('keeps the local time for interval schedules', () => {
+    // İstanbul UTC+3: 10:30 yerel saat
+    expect(nextScanDate({ frequency: 'daily', timezone: 'Europe/Istanbul' }, at('2025-10-20T07:30:00Z'))).toBe('2025-10-21T07:30:00.000Z');
+    expect(nextScanDate({ frequency: 'weekly', timezone: 'UTC' }, at('2025-10-20T07:30:00Z'))).toBe('2025-10-27T07:30:00.000Z');
+  });
+
+  it('moves interval runs outside the window to the window start', () => {
+    const schedule = { frequency: 'daily', windowStart: '02:00', windowEnd: '05:00', timezone: 'UTC' };
+    expect(nextScanDate(schedule, at('2025-10-20T14:00:00Z'))).toBe('2025-10-21T02:00:00.000Z');
+    expect(nextScanDate(schedule, at('2025-10-20T03:15:00Z'))).toBe('2025-10-21T03:15:00.000Z');
+  });
+
+  it('finds the next cron run in the site timezone', () => {
+    const schedule = { frequency: 'custom', cron: '0 3 * * 1', timezone: 'Europe/Istanbul' };
+    // 2025-10-20 pazartesi 03:00 İstanbul = 00:00 UTC; saat geçtiği için bir sonraki pazartesi
+    expect(nextScanDate(schedule, at('2025-10-20T06:00:00Z'))).toBe('2025-10-27T00:00:00.000Z');
+  });
+
+  it('skips cron runs that fall outside the window', () => {
+    const schedule = { frequency: 'custom', cron: '0 */6 * * *', windowStart: '05:00', windowEnd: '13:00', timezone: 'UTC' };
+    expect(nextRuns(schedule, 3, at('2025-10-20T00:30:00Z'))).toEqual([
+      '2025-10-20T06:00:00.000Z',
+      '2025-10-20T12:00:00.000Z',
+      '2025-10-21T06:00:00.000Z'
+    ]);
+  });
+
+  it('handles daylight saving transitions', () => {
+    // Berlin 26 Ekim 2025'te UTC+2'den UTC+1'e geçer; yerel 04:00 korunur
+    const schedule = { frequency: 'daily', timezone: 'Europe/Berlin' };
+    expect(nextScanDate(schedule, at('2025-10-25T02:00:00Z'))).toBe('2025-10-26T03:00:00.000Z');
+  });
+
+  it('returns null when the cron never matches', () => {
+    expect(nextScanDate({ frequency: 'custom', cron: '0 0 31 2 *', timezone: 'UTC' }, at('2025-10-20T00:00:00Z'))).toBeNull();
+  });
+});
+
+describe('windows', () => {
+  const overnight = { windowStart: '22:00', windowEnd: '04:00', timezone: 'UTC' };
+
+  it('supports windows that cross midnight', () => {
+    expect(isWithinWindow(overnight, at('2025-10-20T23:30:00Z'))).toBe(true);
+    expect(isWithinWindow(overnight, at('2025-10-20T03:59:00Z'))).toBe(true);
+    expect(isWithinWindow(overnight, at('2025-10-20T04:00:00Z'))).toBe(false);
+    expect(isWithinWindow({ timezone: 'UTC' }, at('2025-10-20T12:00:00Z'))).toBe(true);
+  });
+
+  it('postpones to the next window start', () => {
+    expect(nextWindowStart(overnight, at('2025-10-20T12:00:00Z'))).toBe('2025-10-20T22:00:00.000Z');
+    const morning = { windowStart: '02:00', windowEnd: '05:00', timezone: 'UTC' };
+    expect(nextWindowStart(morning, at('2025-10-20T12:00:00Z'))).toBe('2025-10-21T02:00:00.000Z');
+    expect(nextWindowStart(morning, at('2025-10-20T01:00:00Z'))).toBe('2025-10-20T02:00:00.000Z');
+  });
+});
+
+describe('validateSchedule', () => {
+  it('normalizes a valid schedule', () => {
+    expect(validateSchedule({ frequency: 'custom', cron: ' 0 3 * * * ', windowStart: '02:00:00', windowEnd: '05:00', timezone: 'UTC' }))
+      .toEqual({ frequency: 'custom', cron: '0 3 * * *', windowStart: '02:00', windowEnd: '05:00', timezone: 'UTC' });
+  });
+
+  it('rejects invalid input with typed codes', () => {
+    const codeOf = (schedule) => {
+      try {
+        validateSchedule({ timezone: 'UTC', ...schedule });
+      } catch (error) {
+        return error.code;
+      }
+      return null;
+    };
+    expect(codeOf({ frequency: 'hourly' })).toBe('invalid-frequency');
+    expect(codeOf({ frequency: 'daily', timezone: 'Mars/Olympus' })).toBe('invalid-timezone');
+    expect(codeOf({ frequency: 'daily', windowStart: '02:00' })).toBe('invalid-window');
+    expect(codeOf({ frequency: 'custom', cron: '*/30 * * * *' })).toBe('cron-too-frequent');
+    expect(codeOf({ frequency: 'custom', cron: '0 3 * * *', windowStart: '05:00', windowEnd: '06:00' })).toBe('invalid-cron');
+  });
+});
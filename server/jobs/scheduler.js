@@ -0,0 +1,216 @@
+// Zamanlanmış taramalar: next_scan zamanı gelen takip kodları iş kuyruğuna alınır,
+// tamamlanan işler seo_reports tablosuna yazılır ve last_scan/next_scan ilerletilir.
+// last_scan/next_scan yalnızca burada yazılır; takvimi değişen satırlar next_scan = NULL ile gelir ve planlanır
+import { nextScanDate, scheduleFromRow, isWithinWindow, nextWindowStart, validateSchedule } from './schedule.js';
+
+const DEFAULT_INTERVAL = 60 * 1000;
+const DEFAULT_BATCH = 20;
+// Beklenmeyen hatada satır bu kadar ertelenir; diğer sitelerin taranmasını engellemez
+const RETRY_DELAY = 60 * 60 * 1000;
+
+export class ScanScheduler {
+  // prepare(code) kuyruğa alınacak tarama girdisini döner ({ input } ya da { error })
+  // alerts: biten her iş için gerileme uyarılarını değerlendiren AlertNotifier (isteğe bağlı)
+  constructor({ queue, supabase, prepare, alerts = null, stages = [], interval = DEFAULT_INTERVAL, batchSize = DEFAULT_BATCH }) {
+    this.queue = queue;
+    this.supabase = supabase;
+    this.prepare = prepare;
+    this.alerts = alerts;
+    this.stages = stages;
+    this.interval = interval;
+    this.batchSize = batchSize;
+    this.timer = null;
+    this.ticking = false;
+    this.onJobUpdate = (job) => {
+      if (job.input?.trigger !== 'scheduled' || (job.status !== 'completed' && job.status !== 'failed')) return;
+      this.finish(job).catch(error => console.error('[ERROR] Scheduled scan bookkeeping failed:', job.id, error.message));
+    };
+  }
+
+  start() {
+    if (this.timer) return;
+    // Yeniden başlatmada kurtarılan zamanlanmış işlerin sonucu da aynı dinleyiciyle kaydedilir
+    this.queue.on('update', this.onJobUpdate);
+    this.timer = setInterval(() => this.tick(), this.interval);
+    this.timer.unref();
+    this.tick();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = null;
+    this.queue.off('update', this.onJobUpdate);
+  }
+
+  async tick() {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      await this.plan();
+      const { data: codes, error } = await this.supabase
+        .from('tracking_codes')
+        .select('*, users(membership_type, credits, require_site_ownership)')
+        .eq('is_active', true)
+        .lte('next_scan', new Date().toISOString())
+        .order('next_scan', { ascending: true })
+        .limit(this.batchSize);
+      if (error) throw new Error(error.message);
+
+      // Aynı turda bir Free kullanıcının birden fazla sitesi varsa kredi bir kez daha harcanmasın
+      const credits = new Map();
+      for (const code of codes || []) {
+        try {
+          await this.schedule(code, credits);
+        } catch (error) {
+          console.error(`[ERROR] Scheduling failed for ${code.website_url}:`, error.message);
+          await this.claim(code, { next_scan: new Date(Date.now() + RETRY_DELAY).toISOString() })
+            .catch(claimError => console.error('[ERROR] Scheduled scan could not be postponed:', code.id, claimError.message));
+        }
+      }
+    } catch (error) {
+      console.error('[ERROR] Scheduler tick failed:', error.message);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  // Yeni eklenen, takvimi değişen ya da devam ettirilen satırların (next_scan = NULL) sonraki taraması hesaplanır
+  async plan() {
+    const { data: codes, error } = await this.supabase
+      .from('tracking_codes')
+      .select('*')
+      .eq('is_active', true)
+      .is('next_scan', null)
+      .limit(this.batchSize);
+    if (error) throw new Error(error.message);
+
+    for (const code of codes || []) {
+      let next = null;
+      try {
+        next = nextScanDate(validateSchedule(scheduleFromRow(code)));
+      } catch (scheduleError) {
+        if (scheduleError.name !== 'ScheduleError') throw scheduleError;
+        console.warn(`[WARN] Invalid scan schedule for ${code.website_url} (${scheduleError.code}), pausing`);
+      }
+      // Satırı aynı anda başka bir sunucu planladıysa güncelleme boş geçer
+      const { error: planError } = await this.supabase
+        .from('tracking_codes')
+        .update(next ? { next_scan: next } : { is_active: false })
+        .eq('id', code.id)
+        .is('next_scan', null);
+      if (planError) console.error('[ERROR] Scan could not be planned:', code.id, planError.message);
+    }
+  }
+
+  // next_scan önce ilerletilir; satır başka bir tur/sunucu tarafından alındıysa güncelleme boş döner
+  async claim(code, changes) {
+    const { data: claimed, error } = await this.supabase
+      .from('tracking_codes')
+      .update(changes)
+      .eq('id', code.id)
+      .eq('next_scan', code.next_scan)
+      .select('id');
+    if (error) throw new Error(error.message);
+    return !!claimed?.length;
+  }
+
+  async schedule(code, credits) {
+    // Geçersiz takvim (cron, saat dilimi, saat aralığı) düzeltilene kadar site duraklatılır
+    let schedule;
+    try {
+      schedule = validateSchedule(scheduleFromRow(code));
+    } catch (error) {
+      if (error.name !== 'ScheduleError') throw error;
+      console.warn(`[WARN] Invalid scan schedule for ${code.website_url} (${error.code}), pausing`);
+      await this.claim(code, { is_active: false });
+      return;
+    }
+    // Tercih edilen saat aralığı dışında vadesi gelen tarama aralığın başına ertelenir
+    if (!isWithinWindow(schedule)) {
+      await this.claim(code, { next_scan: nextWindowStart(schedule) });
+      return;
+    }
+    const next = nextScanDate(schedule);
+    if (!next) {
+      console.warn(`[WARN] Scan schedule has no upcoming run, pausing ${code.website_url}`);
+      await this.claim(code, { is_active: false });
+      return;
+    }
+    if (!(await this.claim(code, { next_scan: next }))) return;
+
+    const user = code.users;
+    if (!user) {
+      console.warn('[WARN] Scheduled scan skipped, user not found:', code.id);
+      return;
+    }
+    // Ajans hesapları yalnızca sahipliği doğrulanmış siteleri otomatik tarar
+    if (user.require_site_ownership && !code.ownership_verified_at) {
+      console.log(`[INFO] Scheduled scan skipped for ${code.website_url}: ownership not verified`);
+      return;
+    }
+    if (user.membership_type === 'Free') {
+      const remaining = credits.has(code.user_id) ? credits.get(code.user_id) : user.credits;
+      if (remaining <= 0) {
+        console.log(`[INFO] Scheduled scan skipped for ${code.website_url}: insufficient credits`);
+        return;
+      }
+      credits.set(code.user_id, remaining - 1);
+    }
+
+    const { input, error: invalid } = await this.prepare(code);
+    if (invalid) {
+      console.warn(`[WARN] Scheduled scan skipped for ${code.website_url}:`, invalid.body.code || invalid.body.error);
+      return;
+    }
+    const job = await this.queue.enqueue(
+      { ...input, trigger: 'scheduled', trackingCodeId: code.id, userId: code.user_id, websiteUrl: code.website_url },
+      { stages: this.stages }
+    );
+    console.log(`[INFO] Scheduled scan queued for ${code.website_url}: ${job.id}`);
+  }
+
+  // Tamamlanan iş Dashboard'un kaydettiği raporla aynı biçimde saklanır
+  async finish(job) {
+    const { trackingCodeId, userId, websiteUrl } = job.input;
+    if (job.status === 'failed') {
+      console.error(`[ERROR] Scheduled scan failed for ${websiteUrl}:`, job.error?.code, job.error?.message);
+      await this.processAlerts(job);
+      return;
+    }
+
+    const report = job.result;
+    const { error: reportError } = await this.supabase.from('seo_reports').upsert({
+      id: job.id,
+      user_id: userId,
+      website_url: websiteUrl,
+      score: report.score,
+      positives: report.positives,
+      negatives: report.negatives,
+      suggestions: report.suggestions,
+      report_data: report.reportData,
+      created_at: job.finishedAt
+    });
+    if (reportError) throw new Error(reportError.message);
+
+    const { error: codeError } = await this.supabase
+      .from('tracking_codes')
+      .update({ last_scan: job.finishedAt })
+      .eq('id', trackingCodeId);
+    if (codeError) throw new Error(codeError.message);
+
+    // Free üyelikte her tarama bir kredi harcar (manuel taramadaki kuralla aynı).
+    // Düşüm veritabanında tek koşullu UPDATE ile yapılır; eşzamanlı işler aynı bakiyeyi ezemez
+    const { error: creditError } = await this.supabase.rpc('consume_scan_credit', { target_user_id: userId });
+    if (creditError) throw new Error(creditError.message);
+
+    console.log(`[SUCCESS] Scheduled report saved for ${websiteUrl} - Score: ${report.score}`);
+    await this.processAlerts(job);
+  }
+
+  // Uyarılar rapor kaydedildikten sonra değerlendirilir; alerts.report_id kayıtlı rapora işaret eder.
+  // Uyarı hatası rapor ve kredi kaydını geri almaz
+  async processAlerts(job) {
+    if (!this.alerts) return;
+    await this.alerts.process(job).catch(error => console.error('[ERROR] Alert evaluation failed:', job.input.websiteUrl, error.message));
+  }
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { ScanScheduler } from './scheduler.js';
+
+// Supabase istemcisinin scheduler'ın kullandığı kısmı: çağrılar sırayla kaydedilir.
+// due: vadesi gelen, unplanned: next_scan'i boş tracking_codes satırları; güncellemeler her zaman satırı "alır"
+function fakeSupabase({ due = [], unplanned = [] } = {}) {
+  const calls = [];
+  const query = (table) => {
+    const methods = [];
+    const chain = {
+      then: (resolve) => {
+        if (methods.includes('lte')) return resolve({ data: due, error: null });
+        if (methods.includes('is') && !methods.includes('update')) return resolve({ data: unplanned, error: null });
+        if (methods.includes('update') && methods.includes('select')) return resolve({ data: [{ id: 'claimed' }], error: null });
+        return resolve({ data: null, error: null });
+      }
+    };
+    for (const method of ['select', 'update', 'upsert', 'insert', 'eq', 'is', 'lte', 'order', 'limit', 'single']) {
+      chain[method] = (...args) => {
+        calls.push({ table, method, args });
+        methods.push(method);
+        return chain;
+      };
+    }
+    return chain;
+  };
+  return {
+    calls,
+    from: query,
+    rpc: async (name, args) => {
+      calls.push({ rpc: name, args });
+      return { data: 2, error: null };
+    }
+  };
+}
+
+const completedJob = {
+  id: 'job-1',
+  status: 'completed',
+  finishedAt: '2025-10-20T09:00:00.000Z',
+  input: { trigger: 'scheduled', trackingCodeId: 'code-1', userId: 'user-1', websiteUrl: 'https://example.com' },
+  result: { score: 80, positives: [], negatives: [], suggestions: [], reportData: {} }
+};
+
+describe('ScanScheduler.finish', () => {
+  it('consumes the credit through the atomic database function', async () => {
+    const supabase = fakeSupabase();
+    const scheduler = new ScanScheduler({ queue: null, supabase, prepare: null });
+    await scheduler.finish(completedJob);
+
+    expect(supabase.calls.find(c => c.method === 'upsert')).toMatchObject({ table: 'seo_reports' });
+    expect(supabase.calls.filter(c => c.rpc)).toEqual([{ rpc: 'consume_scan_credit', args: { target_user_id: 'user-1' } }]);
+    // Bakiye sunucuda okunup geri yazılmaz
+    expect(supabase.calls.some(c => c.table === 'users')).toBe(false);
+  });
+
+  it('evaluates alerts only after the report is saved', async () => {
+    const supabase = fakeSupabase();
+    const alerts = { process: async (job) => supabase.calls.push({ alerts: job.id }) };
+    const scheduler = new ScanScheduler({ queue: null, supabase, prepare: null, alerts });
+    await scheduler.finish(completedJob);
+
+    const order = supabase.calls.map(c => (c.alerts ? 'alerts' : c.method === 'upsert' ? 'report' : null)).filter(Boolean);
+    expect(order).toEqual(['report', 'alerts']);
+  });
+
+  it('does not touch credits when the scan failed', async () => {
+    const supabase = fakeSupabase();
+    const processed = [];
+    const alerts = { process: async (job) => processed.push(job.status) };
+    const scheduler = new ScanScheduler({ queue: null, supabase, prepare: null, alerts });
+    await scheduler.finish({ ...completedJob, status: 'failed', result: null, error: { code: 'unreachable' } });
+    expect(supabase.calls).toEqual([]);
+    // Başarısız tarama yine de erişilemezlik uyarısı için değerlendirilir
+    expect(processed).toEqual(['failed']);
+  });
+});
+
+describe('ScanScheduler.tick', () => {
+  const row = (id, overrides = {}) => ({
+    id,
+    user_id: 'user-1',
+    website_url: `https://${id}.example.com`,
+    next_scan: '2025-10-20T00:00:00.000Z',
+    scan_frequency: 'daily',
+    timezone: 'UTC',
+    users: { membership_type: 'Pro', credits: 0, require_site_ownership: false },
+    ...overrides
+  });
+  const queueStub = () => {
+    const queued = [];
+    return { queued, enqueue: async (input) => { queued.push(input.trackingCodeId); return { id: `job-${queued.length}` }; } };
+  };
+  const prepare = async (code) => ({ input: { url: code.website_url } });
+  const updatesOf = (supabase, id) => supabase.calls
+    .filter((call, i, calls) => call.method === 'update' && calls[i + 1]?.args[1] === id)
+    .map(call => call.args[0]);
+
+  it('pauses a row with an invalid schedule and keeps scheduling the others', async () => {
+    const supabase = fakeSupabase({ due: [row('bad', { scan_frequency: 'custom', scan_cron: 'nonsense' }), row('good')] });
+    const queue = queueStub();
+    await new ScanScheduler({ queue, supabase, prepare }).tick();
+
+    expect(queue.queued).toEqual(['good']);
+    expect(updatesOf(supabase, 'bad')).toEqual([{ is_active: false }]);
+  });
+
+  it('plans rows without next_scan and pauses the ones with an invalid schedule', async () => {
+    const supabase = fakeSupabase({ unplanned: [row('new', { next_scan: null }), row('bad', { next_scan: null, timezone: 'Mars/Base' })] });
+    const queue = queueStub();
+    await new ScanScheduler({ queue, supabase, prepare }).tick();
+
+    const [planned] = updatesOf(supabase, 'new');
+    expect(new Date(planned.next_scan).getTime()).toBeGreaterThan(Date.now());
+    expect(updatesOf(supabase, 'bad')).toEqual([{ is_active: false }]);
+    // Planlama tarama başlatmaz
+    expect(queue.queued).toEqual([]);
+  });
+
+  it('postpones a row whose scheduling throws unexpectedly', async () => {
+    const supabase = fakeSupabase({ due: [row('broken'), row('good')] });
+    const queue = queueStub();
+    const failing = async (code) => {
+      if (code.id === 'broken') throw new Error('boom');
+      return prepare(code);
+    };
+    await new ScanScheduler({ queue, supabase, prepare: failing }).tick();
+
+    expect(queue.queued).toEqual(['good']);
+    const [, postponed] = updatesOf(supabase, 'broken');
+    expect(new Date(postponed.next_scan).getTime()).toBeGreaterThan(Date.now());
+  });
+});
@@ -0,0 +1,71 @@
+// Tarama işleri için saklama arka uçları
+//
+// Her store { save(job), get(id), list(), remove(id) } arayüzünü async olarak sağlar.
+// JOB_STORE=memory (varsayılan) süreç içinde tutar; JOB_STORE=file işleri JOB_STORE_DIR altında
+// JSON olarak saklar ve sunucu yeniden başladığında da erişilebilir kılar.
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+export function createMemoryStore() {
+  const jobs = new Map();
+  return {
+    name: 'memory',
+    async save(job) {
+      jobs.set(job.id, structuredClone(job));
+    },
+    async get(id) {
+      const job = jobs.get(id);
+      return job ? structuredClone(job) : null;
+    },
+    async list() {
+      return [...jobs.values()].map(job => structuredClone(job));
+    },
+    async remove(id) {
+      jobs.delete(id);
+    }
+  };
+}
+
+export function createFileStore(dir) {
+  // İş kimlikleri dosya adı olarak kullanıldığından yalnızca güvenli karakterlere izin verilir
+  const isValidId = (id) => /^[\w-]+$/.test(id);
+  const fileOf = (id) => path.join(dir, `${id}.json`);
+  const ready = fs.mkdir(dir, { recursive: true });
+
+  return {
+    name: 'file',
+    async save(job) {
+      await ready;
+      // Yarım yazılmış dosya okunmasın diye önce geçici dosyaya yaz
+      const tmp = `${fileOf(job.id)}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(job));
+      await fs.rename(tmp, fileOf(job.id));
+    },
+    async get(id) {
+      await ready;
+      if (!isValidId(id)) return null;
+      try {
+        return JSON.parse(await fs.readFile(fileOf(id), 'utf8'));
+      } catch (error) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+    async list() {
+      await ready;
+      const files = (await fs.readdir(dir)).filter(name => name.endsWith('.json'));
+      const jobs = await Promise.all(files.map(name => this.get(path.basename(name, '.json'))));
+      return jobs.filter(Boolean);
+    },
+    async remove(id) {
+      await ready;
+      if (!isValidId(id)) return;
+      await fs.rm(fileOf(id), { force: true });
+    }
+  };
+}
+
+export function createJobStore(type = process.env.JOB_STORE || 'memory') {
+  if (type === 'file') return createFileStore(process.env.JOB_STORE_DIR || path.resolve('.jobs'));
+  return createMemoryStore();
+}
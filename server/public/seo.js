@@ -0,0 +1,81 @@
+/*! weeme.ai seo.js — sayfa meta verisini ve gerçek kullanıcı zamanlamalarını /api/beacon'a bildirir */
+(function () {
+  'use strict';
+
+  var script = document.currentScript;
+  if (!script || !window.JSON) return;
+
+  var siteId = script.getAttribute('data-site-id');
+  if (!siteId) return;
+  // Do Not Track açıksa hiçbir şey gönderilmez
+  if (navigator.doNotTrack === '1' || window.doNotTrack === '1') return;
+
+  var endpoint = script.getAttribute('data-endpoint') || new URL('/api/beacon', script.src).toString();
+  var sent = false;
+  var vitals = { lcp: null, cls: 0, fcp: null };
+
+  var attr = function (selector, name) {
+    var el = document.querySelector(selector);
+    return el ? el.getAttribute(name) : null;
+  };
+
+  var round = function (value) {
+    return typeof value === 'number' && isFinite(value) ? Math.round(value) : null;
+  };
+
+  // Largest Contentful Paint, Cumulative Layout Shift ve First Contentful Paint gözlemcileri
+  var observe = function (type, callback) {
+    try {
+      new PerformanceObserver(function (list) {
+        list.getEntries().forEach(callback);
+      }).observe({ type: type, buffered: true });
+    } catch (e) {
+      // Eski tarayıcılar bu metriği desteklemiyor
+    }
+  };
+  if (window.PerformanceObserver) {
+    observe('largest-contentful-paint', function (entry) { vitals.lcp = entry.startTime; });
+    observe('layout-shift', function (entry) { if (!entry.hadRecentInput) vitals.cls += entry.value; });
+    observe('paint', function (entry) { if (entry.name === 'first-contentful-paint') vitals.fcp = entry.startTime; });
+  }
+
+  var collect = function () {
+    var nav = performance.getEntriesByType && performance.getEntriesByType('navigation')[0];
+    return {
+      siteId: siteId,
+      url: location.href,
+      referrer: document.referrer || null,
+      title: document.title,
+      metaDescription: attr('meta[name="description"]', 'content'),
+      robots: attr('meta[name="robots"]', 'content'),
+      canonical: attr('link[rel="canonical"]', 'href'),
+      lang: document.documentElement.getAttribute('lang'),
+      h1Count: document.getElementsByTagName('h1').length,
+      viewport: { width: window.innerWidth, height: window.innerHeight },
+      timing: {
+        ttfb: nav ? round(nav.responseStart - nav.startTime) : null,
+        domContentLoaded: nav ? round(nav.domContentLoadedEventEnd - nav.startTime) : null,
+        load: nav && nav.loadEventEnd ? round(nav.loadEventEnd - nav.startTime) : null,
+        fcp: round(vitals.fcp),
+        lcp: round(vitals.lcp),
+        cls: Math.round(vitals.cls * 1000) / 1000
+      }
+    };
+  };
+
+  // Sayfa gizlendiğinde bir kez gönderilir; text/plain gövde CORS preflight gerektirmez
+  var send = function () {
+    if (sent) return;
+    sent = true;
+    var body = JSON.stringify(collect());
+    if (navigator.sendBeacon && navigator.sendBeacon(endpoint, body)) return;
+    if (window.fetch) {
+      fetch(endpoint, { method: 'POST', body: body, keepalive: true, mode: 'no-cors', headers: { 'Content-Type': 'text/plain' } });
+    }
+  };
+
+  document.addEventListener('visibilitychange', function () {
+    if (document.visibilityState === 'hidden') send();
+  });
+  window.addEventListener('pagehide', send);
+})();
@@ -0,0 +1,193 @@
+// Erişilebilirlik denetimi (statik HTML üzerinden yapılabilen kontroller)
+import { parseDocument } from './audit.js';
+
+const cleanText = (value) => (value || '').replace(/\s+/g, ' ').trim();
+
+// Kontrol ağırlıkları; skor = geçen oran × ağırlık / toplam ağırlık
+const CHECK_WEIGHTS = {
+  'image-alt': 25,
+  'form-labels': 20,
+  'html-lang': 10,
+  'heading-order': 15,
+  'link-names': 15,
+  'button-names': 10,
+  'color-contrast': 5
+};
+
+const NAMED_COLORS = {
+  black: [0, 0, 0], white: [255, 255, 255], red: [255, 0, 0], green: [0, 128, 0], blue: [0, 0, 255],
+  yellow: [255, 255, 0], gray: [128, 128, 128], grey: [128, 128, 128], silver: [192, 192, 192],
+  orange: [255, 165, 0], purple: [128, 0, 128], navy: [0, 0, 128], lightgray: [211, 211, 211],
+  lightgrey: [211, 211, 211], darkgray: [169, 169, 169], darkgrey: [169, 169, 169], whitesmoke: [245, 245, 245]
+};
+
+// #rgb, #rrggbb, rgb()/rgba() ve temel renk adlarını [r, g, b] olarak çöz
+export function parseColor(value) {
+  const color = (value || '').trim().toLowerCase();
+  if (NAMED_COLORS[color]) return NAMED_COLORS[color];
+
+  let match = color.match(/^#([0-9a-f]{3})$/);
+  if (match) return match[1].split('').map(c => parseInt(c + c, 16));
+  match = color.match(/^#([0-9a-f]{6})$/);
+  if (match) return [0, 2, 4].map(i => parseInt(match[1].substr(i, 2), 16));
+  match = color.match(/^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)(?:[\s,/]+([\d.]+))?\s*\)$/);
+  if (match && (match[4] === undefined || Number(match[4]) === 1)) return match.slice(1, 4).map(Number);
+  return null;
+}
+
+const luminance = ([r, g, b]) => {
+  const channel = (c) => {
+    const v = c / 255;
+    return v <= 0.03928 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+};
+
+// WCAG kontrast oranı (1–21)
+export function contrastRatio(foreground, background) {
+  const [light, dark] = [luminance(foreground), luminance(background)].sort((a, b) => b - a);
+  return Math.round(((light + 0.05) / (dark + 0.05)) * 100) / 100;
+}
+
+const parseStyle = (style) => Object.fromEntries(
+  (style || '').split(';')
+    .map(rule => rule.split(':'))
+    .filter(parts => parts.length >= 2)
+    .map(([prop, ...rest]) => [prop.trim().toLowerCase(), rest.join(':').replace(/!important/i, '').trim()])
+);
+
+// Bağlantı/buton için erişilebilir ad: metin, aria-label, title ya da alt'lı görsel
+function accessibleName(el, root) {
+  const labelledBy = el.getAttribute('aria-labelledby');
+  if (labelledBy) {
+    const text = labelledBy.split(/\s+/).map(id => cleanText(root.getElementById(id)?.text)).join(' ').trim();
+    if (text) return text;
+  }
+  return cleanText(el.getAttribute('aria-label'))
+    || cleanText(el.text)
+    || el.querySelectorAll('img[alt]').map(img => cleanText(img.getAttribute('alt'))).join(' ').trim()
+    || cleanText(el.querySelector('svg title')?.text)
+    || cleanText(el.getAttribute('title'))
+    || cleanText(el.getAttribute('value'))
+    || cleanText(el.getAttribute('alt'));
+}
+
+const describe = (el) => {
+  const id = el.getAttribute('id');
+  const name = el.getAttribute('name');
+  const href = el.getAttribute('href');
+  return `<${el.tagName.toLowerCase()}${id ? ` id="${id}"` : ''}${name ? ` name="${name}"` : ''}${href ? ` href="${href}"` : ''}>`;
+};
+
+function checkImages(root) {
+  const images = root.querySelectorAll('img');
+  const missing = images.filter(img => img.getAttribute('alt') === undefined && img.getAttribute('role') !== 'presentation');
+  return { total: images.length, failed: missing.length, samples: missing.slice(0, 10).map(img => img.getAttribute('src') || describe(img)) };
+}
+
+function checkFormLabels(root) {
+  const labelFor = new Set(root.querySelectorAll('label[for]').map(label => label.getAttribute('for')));
+  const fields = root.querySelectorAll('input, select, textarea')
+    .filter(el => !['hidden', 'submit', 'button', 'reset', 'image'].includes((el.getAttribute('type') || '').toLowerCase()));
+
+  const insideLabel = (el) => {
+    for (let node = el.parentNode; node; node = node.parentNode) {
+      if (node.tagName?.toLowerCase() === 'label') return true;
+    }
+    return false;
+  };
+
+  const unlabeled = fields.filter(el => !(
+    (el.getAttribute('id') && labelFor.has(el.getAttribute('id')))
+    || insideLabel(el)
+    || cleanText(el.getAttribute('aria-label'))
+    || el.getAttribute('aria-labelledby')
+    || cleanText(el.getAttribute('title'))
+  ));
+
+  return { total: fields.length, failed: unlabeled.length, samples: unlabeled.slice(0, 10).map(describe) };
+}
+
+// Başlık seviyesinde atlama (ör. H2 → H4) var mı
+function checkHeadingOrder(root) {
+  const levels = root.querySelectorAll('h1, h2, h3, h4, h5, h6').map(el => ({ level: Number(el.tagName.substring(1)), text: cleanText(el.text) }));
+  const skips = [];
+  for (let i = 1; i < levels.length; i++) {
+    if (levels[i].level > levels[i - 1].level + 1) {
+      skips.push(`H${levels[i - 1].level} → H${levels[i].level}: ${levels[i].text.substring(0, 60)}`);
+    }
+  }
+  return { total: Math.max(levels.length - 1, 0), failed: skips.length, samples: skips.slice(0, 10) };
+}
+
+function checkNames(root, selector) {
+  const elements = root.querySelectorAll(selector).filter(el => el.getAttribute('aria-hidden') !== 'true');
+  const empty = elements.filter(el => !accessibleName(el, root));
+  return { total: elements.length, failed: empty.length, samples: empty.slice(0, 10).map(describe) };
+}
+
+// Yalnızca aynı inline style içinde hem yazı hem arka plan rengi verilmiş öğeler ölçülebilir
+function checkContrast(root) {
+  const measured = [];
+  for (const el of root.querySelectorAll('[style]')) {
+    const style = parseStyle(el.getAttribute('style'));
+    const fg = parseColor(style.color);
+    const bg = parseColor(style['background-color'] || style.background);
+    if (!fg || !bg || !cleanText(el.text)) continue;
+
+    const size = parseFloat(style['font-size']) || 16;
+    const bold = /^(bold|[6-9]00)$/.test(style['font-weight'] || '');
+    const large = size >= 24 || (bold && size >= 18.66);
+    const ratio = contrastRatio(fg, bg);
+    measured.push({ el, ratio, required: large ? 3 : 4.5 });
+  }
+
+  const low = measured.filter(m => m.ratio < m.required);
+  return {
+    total: measured.length,
+    failed: low.length,
+    samples: low.slice(0, 10).map(m => `${describe(m.el)} ${cleanText(m.el.text).substring(0, 40)} (${m.ratio}:1, gereken ${m.required}:1)`)
+  };
+}
+
+export function auditAccessibility(html) {
+  const root = parseDocument(html);
+  const htmlEl = root.querySelector('html');
+  const lang = cleanText(htmlEl?.getAttribute('lang'));
+
+  const raw = {
+    'image-alt': checkImages(root),
+    'form-labels': checkFormLabels(root),
+    'html-lang': { total: 1, failed: lang ? 0 : 1, samples: [] },
+    'heading-order': checkHeadingOrder(root),
+    'link-names': checkNames(root, 'a[href]'),
+    'button-names': checkNames(root, 'button, [role="button"], input[type="button"], input[type="image"]'),
+    'color-contrast': checkContrast(root)
+  };
+
+  let earned = 0;
+  let total = 0;
+  const checks = Object.entries(raw).map(([id, result]) => {
+    const applicable = result.total > 0;
+    const ratio = applicable ? 1 - result.failed / result.total : 1;
+    if (applicable) {
+      earned += CHECK_WEIGHTS[id] * ratio;
+      total += CHECK_WEIGHTS[id];
+    }
+    return {
+      id,
+      status: !applicable ? 'skipped' : result.failed === 0 ? 'pass' : 'fail',
+      total: result.total,
+      failed: result.failed,
+      samples: result.samples
+    };
+  });
+
+  return {
+    score: total > 0 ? Math.round((earned / total) * 100) : 100,
+    lang: lang || null,
+    checks,
+    issueCount: checks.reduce((sum, c) => sum + c.failed, 0),
+    checkedAt: new Date().toISOString()
+  };
+}
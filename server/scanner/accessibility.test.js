@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { auditAccessibility, contrastRatio, parseColor } from './accessibility.js';
+
+const checkOf = (audit, id) => audit.checks.find(check => check.id === id);
+
+describe('parseColor', () => {
+  it('reads hex, rgb() and named colors', () => {
+    expect(parseColor('#fff')).toEqual([255, 255, 255]);
+    expect(parseColor(' #1A2b3C ')).toEqual([26, 43, 60]);
+    expect(parseColor('rgb(10, 20, 30)')).toEqual([10, 20, 30]);
+    expect(parseColor('rgba(10 20 30 / 1)')).toEqual([10, 20, 30]);
+    expect(parseColor('Navy')).toEqual([0, 0, 128]);
+  });
+
+  it('ignores translucent and unknown colors it cannot measure', () => {
+    expect(parseColor('rgba(0, 0, 0, 0.5)')).toBeNull();
+    expect(parseColor('var(--text)')).toBeNull();
+    expect(parseColor(undefined)).toBeNull();
+  });
+});
+
+describe('contrastRatio', () => {
+  it('matches the WCAG reference values in either order', () => {
+    expect(contrastRatio([0, 0, 0], [255, 255, 255])).toBe(21);
+    expect(contrastRatio([255, 255, 255], [0, 0, 0])).toBe(21);
+    expect(contrastRatio([118, 118, 118], [255, 255, 255])).toBe(4.54);
+    expect(contrastRatio([128, 128, 128], [128, 128, 128])).toBe(1);
+  });
+});
+
+describe('auditAccessibility', () => {
+  it('scores a clean page as 100 and skips checks with nothing to measure', () => {
+    const audit = auditAccessibility('<html lang="tr"><body><h1>Başlık</h1><h2>Alt</h2><a href="/">Ana sayfa</a><img src="/a.png" alt=""></body></html>');
+    expect(audit).toMatchObject({ score: 100, lang: 'tr', issueCount: 0 });
+    expect(checkOf(audit, 'form-labels').status).toBe('skipped');
+    expect(checkOf(audit, 'image-alt').status).toBe('pass');
+  });
+
+  it('accepts every way of labelling a form field', () => {
+    const audit = auditAccessibility(`
+      <label for="email">E-posta</label><input id="email">
+      <label>Ad <input name="name"></label>
+      <input aria-label="Ara">
+      <span id="l">Telefon</span><input aria-labelledby="l">
+      <select title="Ülke"></select>
+      <input type="hidden" name="token"><input type="submit">
+      <textarea name="message"></textarea>`);
+    expect(checkOf(audit, 'form-labels')).toMatchObject({ total: 6, failed: 1, samples: ['<textarea name="message">'] });
+  });
+
+  it('finds skipped heading levels but allows going back up', () => {
+    const audit = auditAccessibility('<h1>A</h1><h3>B</h3><h2>C</h2><h1>D</h1><h2>E</h2><h5>F</h5>');
+    expect(checkOf(audit, 'heading-order')).toMatchObject({ total: 5, failed: 2, samples: ['H1 → H3: B', 'H2 → H5: F'] });
+  });
+
+  it('resolves accessible names for links and buttons', () => {
+    const audit = auditAccessibility(`
+      <a href="/a"><img src="/logo.png" alt="Logo"></a>
+      <a href="/b"><svg><title>Sepet</title></svg></a>
+      <span id="n">Kapat</span><button aria-labelledby="n"></button>
+      <a href="/c" aria-hidden="true"></a>
+      <a href="/d"><i class="icon"></i></a>
+      <div role="button"></div>
+      <input type="button" value="Gönder">`);
+    expect(checkOf(audit, 'link-names')).toMatchObject({ total: 3, failed: 1, samples: ['<a href="/d">'] });
+    expect(checkOf(audit, 'button-names')).toMatchObject({ total: 3, failed: 1, samples: ['<div>'] });
+  });
+
+  it('measures contrast only where both colors are inline and uses the large-text threshold', () => {
+    const audit = auditAccessibility(`
+      <p style="color: #777; background-color: #fff">Düşük kontrast</p>
+      <p style="color:#777;background:#fff;font-size:24px">Büyük yazı</p>
+      <p style="color:#777;background:#fff;font-size:19px;font-weight:700">Kalın yazı</p>
+      <p style="color: #777">Arka plan bilinmiyor</p>
+      <p style="color:#000;background:#fff"></p>`);
+    const contrast = checkOf(audit, 'color-contrast');
+    expect(contrast).toMatchObject({ total: 3, failed: 1 });
+    expect(contrast.samples[0]).toBe('<p> Düşük kontrast (4.48:1, gereken 4.5:1)');
+  });
+
+  it('weights the score by check and counts every issue', () => {
+    // Dört görselden birinde alt yok (25 × 0,75) ve dil eksik (10 × 0)
+    const audit = auditAccessibility('<html><body><img src="/a.png"><img src="/b.png" alt="B"><img src="/c.png" role="presentation"><img src="/d.png" alt="D"></body></html>');
+    expect(checkOf(audit, 'image-alt')).toMatchObject({ total: 4, failed: 1, samples: ['/a.png'] });
+    expect(audit.lang).toBeNull();
+    expect(audit.score).toBe(Math.round(((25 * 0.75) / 35) * 100));
+    expect(audit.issueCount).toBe(2);
+  });
+});
@@ -0,0 +1,26 @@
+// HTML analizi - DOM denetiminden (audit.js) türetilen özet alanlar
+import { auditHTML } from './audit.js';
+
+// Denetim sonucunu rapor/crawler'ın kullandığı kompakt analiz şekline indir
+export function toAnalysis(audit, url = audit.url) {
+  return {
+    title: audit.title,
+    metaDescription: audit.meta.description || null,
+    h1Tags: audit.headings.filter(h => h.level === 1).map(h => h.text),
+    hasSSL: url.startsWith('https://'),
+    hasOG: audit.metaTags.some(tag => tag.key.startsWith('og:')),
+    imageCount: audit.images.total,
+    imagesMissingAlt: audit.images.missingAlt,
+    linkCount: audit.links.internal.length + audit.links.external.length,
+    internalLinkCount: audit.links.internal.length,
+    externalLinkCount: audit.links.external.length,
+    canonical: audit.canonical,
+    lang: audit.lang,
+    hreflangCount: audit.hreflang.length,
+    structuredDataTypes: audit.structuredData.types
+  };
+}
+
+export function analyzeHTML(html, url) {
+  return toAnalysis(auditHTML(html, url), url);
+}
@@ -0,0 +1,242 @@
+// DOM tabanlı SEO denetimi (regex yerine gerçek HTML parser)
+import { parse } from 'node-html-parser';
+
+const PARSER_OPTIONS = {
+  lowerCaseTagName: true,
+  comment: false,
+  blockTextElements: {
+    script: true,
+    noscript: true,
+    style: true,
+    pre: true
+  }
+};
+
+const cleanText = (value) => (value || '').replace(/\s+/g, ' ').trim();
+
+export function parseDocument(html) {
+  return parse(html || '', PARSER_OPTIONS);
+}
+
+const emptyAudit = (url) => ({
+  url,
+  lang: null,
+  title: null,
+  metaTags: [],
+  meta: {},
+  canonical: null,
+  hreflang: [],
+  headings: [],
+  headingTree: [],
+  images: { total: 0, withAlt: 0, emptyAlt: 0, missingAlt: 0, coverage: 100, missingAltSources: [] },
+  links: { internal: [], external: [], nofollowCount: 0 },
+  structuredData: { jsonLd: [], jsonLdErrors: 0, microdata: [], microdataItems: [], types: [] }
+});
+
+const resolveUrl = (href, baseUrl) => {
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return null;
+  }
+};
+
+// <meta> etiketlerinin tamamı; anahtar name > property > http-equiv sırasıyla seçilir
+function extractMetaTags(root) {
+  return root.querySelectorAll('meta').map(el => {
+    const key = el.getAttribute('name') || el.getAttribute('property') || el.getAttribute('http-equiv') || (el.hasAttribute('charset') ? 'charset' : null);
+    const content = el.getAttribute('content') ?? el.getAttribute('charset') ?? null;
+    return key ? { key: key.toLowerCase(), content: content !== null ? cleanText(content) : null } : null;
+  }).filter(Boolean);
+}
+
+// Başlıkları düz liste ve iç içe ağaç olarak döndür
+function buildHeadings(root) {
+  const headings = root.querySelectorAll('h1, h2, h3, h4, h5, h6').map(el => ({
+    level: Number(el.tagName.substring(1)),
+    text: cleanText(el.text)
+  }));
+
+  const tree = [];
+  const stack = [];
+  for (const heading of headings) {
+    const node = { ...heading, children: [] };
+    while (stack.length && stack[stack.length - 1].level >= node.level) stack.pop();
+    (stack.length ? stack[stack.length - 1].children : tree).push(node);
+    stack.push(node);
+  }
+
+  return { headings, tree };
+}
+
+function auditImages(root, baseUrl) {
+  const images = root.querySelectorAll('img');
+  const result = { total: images.length, withAlt: 0, emptyAlt: 0, missingAlt: 0, coverage: 100, missingAltSources: [] };
+
+  for (const img of images) {
+    const alt = img.getAttribute('alt');
+    if (alt === undefined) {
+      result.missingAlt++;
+      if (result.missingAltSources.length < 20) {
+        result.missingAltSources.push(resolveUrl(img.getAttribute('src') || '', baseUrl) || img.getAttribute('src') || '');
+      }
+    } else if (!alt.trim()) {
+      // alt="" dekoratif görseller için geçerlidir
+      result.emptyAlt++;
+    } else {
+      result.withAlt++;
+    }
+  }
+
+  if (result.total > 0) {
+    result.coverage = Math.round(((result.total - result.missingAlt) / result.total) * 100);
+  }
+  return result;
+}
+
+function auditLinks(root, baseUrl) {
+  const origin = new URL(baseUrl).origin;
+  const internal = [];
+  const external = [];
+  const seen = new Set();
+  let nofollowCount = 0;
+
+  for (const a of root.querySelectorAll('a[href]')) {
+    const href = (a.getAttribute('href') || '').trim();
+    if (!href || href.startsWith('#') || /^(mailto|tel|javascript|data):/i.test(href)) continue;
+
+    const resolved = resolveUrl(href, baseUrl);
+    if (!resolved) continue;
+
+    const parsed = new URL(resolved);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') continue;
+    parsed.hash = '';
+    const url = parsed.toString();
+
+    const rel = (a.getAttribute('rel') || '').toLowerCase();
+    const nofollow = rel.split(/\s+/).includes('nofollow');
+    if (nofollow) nofollowCount++;
+
+    if (seen.has(url)) continue;
+    seen.add(url);
+
+    const link = { url, text: cleanText(a.text).substring(0, 120), nofollow };
+    (parsed.origin === origin ? internal : external).push(link);
+  }
+
+  return { internal, external, nofollowCount };
+}
+
+const typeName = (t) => String(t).replace(/^https?:\/\/schema\.org\//i, '');
+
+function microdataValue(el) {
+  const tag = el.tagName.toLowerCase();
+  if (el.getAttribute('content') !== undefined) return cleanText(el.getAttribute('content'));
+  if (['a', 'link', 'area'].includes(tag)) return el.getAttribute('href') || '';
+  if (['img', 'audio', 'video', 'source', 'iframe', 'embed'].includes(tag)) return el.getAttribute('src') || '';
+  if (tag === 'meta') return '';
+  if (tag === 'time') return el.getAttribute('datetime') || cleanText(el.text);
+  if (tag === 'data' || tag === 'meter') return el.getAttribute('value') || cleanText(el.text);
+  return cleanText(el.text);
+}
+
+// itemscope içindeki itemprop'ları (iç içe scope'lar hariç) { '@type', prop: değer } nesnesine çevir
+function readMicrodataItem(scope) {
+  const item = { '@type': (scope.getAttribute('itemtype') || '').split(/\s+/).filter(Boolean).map(typeName) };
+  const values = {};
+
+  const visit = (node) => {
+    for (const child of node.childNodes) {
+      if (child.nodeType !== 1) continue;
+      const isScope = child.getAttribute('itemscope') !== undefined;
+      const prop = child.getAttribute('itemprop');
+      if (prop) {
+        const value = isScope ? readMicrodataItem(child) : microdataValue(child);
+        for (const name of prop.split(/\s+/).filter(Boolean)) (values[name] ||= []).push(value);
+      }
+      if (!isScope) visit(child);
+    }
+  };
+  visit(scope);
+
+  for (const [name, list] of Object.entries(values)) {
+    item[name] = list.length === 1 ? list[0] : list;
+  }
+  return item;
+}
+
+// JSON-LD blokları ve microdata itemtype'ları
+function extractStructuredData(root) {
+  const jsonLd = [];
+  let jsonLdErrors = 0;
+
+  for (const script of root.querySelectorAll('script[type="application/ld+json"]')) {
+    try {
+      const data = JSON.parse(script.text.trim());
+      const items = Array.isArray(data) ? data : data['@graph'] ? data['@graph'] : [data];
+      jsonLd.push(...items.filter(item => item && typeof item === 'object'));
+    } catch {
+      jsonLdErrors++;
+    }
+  }
+
+  const microdata = root.querySelectorAll('[itemscope][itemtype]').map(el => ({
+    type: el.getAttribute('itemtype'),
+    properties: el.querySelectorAll('[itemprop]').map(p => p.getAttribute('itemprop'))
+  }));
+
+  // Üst düzey microdata öğeleri JSON-LD ile aynı şekle çevrilir (doğrulama için)
+  const microdataItems = root.querySelectorAll('[itemscope][itemtype]')
+    .filter(el => el.getAttribute('itemprop') === undefined)
+    .map(readMicrodataItem);
+  const types = new Set();
+  for (const item of jsonLd) {
+    for (const t of [].concat(item['@type'] || [])) types.add(typeName(t));
+  }
+  for (const item of microdata) {
+    for (const t of (item.type || '').split(/\s+/).filter(Boolean)) types.add(typeName(t));
+  }
+
+  return { jsonLd, jsonLdErrors, microdata, microdataItems, types: [...types] };
+}
+
+export function auditDocument(root, url) {
+  const audit = emptyAudit(url);
+  const htmlEl = root.querySelector('html');
+
+  audit.lang = cleanText(htmlEl?.getAttribute('lang') || htmlEl?.getAttribute('xml:lang')) || null;
+  audit.title = cleanText(root.querySelector('title')?.text) || null;
+
+  audit.metaTags = extractMetaTags(root);
+  for (const tag of audit.metaTags) {
+    if (!(tag.key in audit.meta)) audit.meta[tag.key] = tag.content;
+  }
+
+  const linkEls = root.querySelectorAll('link[rel]');
+  const relOf = (el) => (el.getAttribute('rel') || '').toLowerCase().split(/\s+/);
+
+  const canonicalEl = linkEls.find(el => relOf(el).includes('canonical'));
+  audit.canonical = canonicalEl ? resolveUrl(canonicalEl.getAttribute('href') || '', url) : null;
+
+  audit.hreflang = linkEls
+    .filter(el => relOf(el).includes('alternate') && el.getAttribute('hreflang'))
+    .map(el => ({
+      lang: el.getAttribute('hreflang').trim(),
+      href: resolveUrl(el.getAttribute('href') || '', url)
+    }));
+
+  const { headings, tree } = buildHeadings(root);
+  audit.headings = headings;
+  audit.headingTree = tree;
+
+  audit.images = auditImages(root, url);
+  audit.links = auditLinks(root, url);
+  audit.structuredData = extractStructuredData(root);
+
+  return audit;
+}
+
+export function auditHTML(html, url) {
+  if (!html) return emptyAudit(url);
+  return auditDocument(parseDocument(html), url);
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { auditHTML } from './audit.js';
+import { analyzeHTML } from './analyze.js';
+
+const URL_ = 'https://example.com/blog/post';
+
+describe('auditHTML', () => {
+  it('reads title, lang, meta tags and canonical from markup regex would miss', () => {
+    const audit = auditHTML(`<!DOCTYPE html>
+      <HTML LANG="tr"><head>
+        <title>
+          Ürün   Sayfası
+        </title>
+        <meta content="Açıklama" name="Description">
+        <meta name="description" content="İkinci açıklama">
+        <meta property="og:title" content="OG">
+        <meta charset="utf-8">
+        <link rel="Canonical alternate" href="/blog/post?ref=1">
+        <!-- <title>Yorumdaki başlık</title> -->
+        <script>var html = '<title>Betikteki başlık</title>';</script>
+      </head><body></body></HTML>`, URL_);
+
+    expect(audit).toMatchObject({ lang: 'tr', title: 'Ürün Sayfası', canonical: 'https://example.com/blog/post?ref=1' });
+    // İlk description kazanır; tüm etiketler metaTags içinde kalır
+    expect(audit.meta).toMatchObject({ description: 'Açıklama', 'og:title': 'OG', charset: 'utf-8' });
+    expect(audit.metaTags.filter(tag => tag.key === 'description')).toHaveLength(2);
+  });
+
+  it('builds a nested heading tree that tolerates skipped levels', () => {
+    const { headings, headingTree } = auditHTML('<h1>A</h1><h3>B</h3><h2>C</h2><h4>D</h4><h1>E</h1>', URL_);
+    expect(headings.map(h => `${h.level}${h.text}`)).toEqual(['1A', '3B', '2C', '4D', '1E']);
+    expect(headingTree.map(node => node.text)).toEqual(['A', 'E']);
+    expect(headingTree[0].children.map(node => node.text)).toEqual(['B', 'C']);
+    expect(headingTree[0].children[1].children.map(node => node.text)).toEqual(['D']);
+  });
+
+  it('counts empty alt as decorative and only missing alt against coverage', () => {
+    const { images } = auditHTML('<img src="/a.png" alt="Logo"><img src="/b.png" alt=""><img src="c.png"><img src="/d.png" alt="  ">', URL_);
+    expect(images).toMatchObject({ total: 4, withAlt: 1, emptyAlt: 2, missingAlt: 1, coverage: 75 });
+    expect(images.missingAltSources).toEqual(['https://example.com/blog/c.png']);
+  });
+
+  it('splits internal and external links, dropping fragments, duplicates and non-http schemes', () => {
+    const { links } = auditHTML(`
+      <a href="/about">Hakkımızda</a>
+      <a href="/about#team">Ekip</a>
+      <a href="https://other.com/" rel="nofollow sponsored">Dış</a>
+      <a href="#top">Yukarı</a>
+      <a href="mailto:a@example.com">Posta</a>
+      <a href="javascript:void(0)">JS</a>
+      <a href="http://example.com/">Başka origin</a>`, URL_);
+
+    expect(links.internal.map(link => link.url)).toEqual(['https://example.com/about']);
+    expect(links.external.map(link => link.url)).toEqual(['https://other.com/', 'http://example.com/']);
+    expect(links).toMatchObject({ nofollowCount: 1 });
+    expect(links.external[0].nofollow).toBe(true);
+  });
+
+  it('collects JSON-LD graphs, counts invalid blocks and reads microdata', () => {
+    const { structuredData } = auditHTML(`
+      <script type="application/ld+json">{"@context":"https://schema.org","@graph":[{"@type":"Organization","name":"A"},{"@type":["WebSite","Thing"]}]}</script>
+      <script type="application/ld+json">{ bozuk json </script>
+      <div itemscope itemtype="https://schema.org/Product">
+        <span itemprop="name">Ayakkabı</span>
+        <div itemprop="offers" itemscope itemtype="https://schema.org/Offer"><meta itemprop="price" content="10"></div>
+      </div>`, URL_);
+
+    expect(structuredData.jsonLd).toHaveLength(2);
+    expect(structuredData.jsonLdErrors).toBe(1);
+    expect(structuredData.types).toEqual(expect.arrayContaining(['Organization', 'WebSite', 'Thing', 'Product', 'Offer']));
+    expect(structuredData.microdataItems).toEqual([
+      { '@type': ['Product'], name: 'Ayakkabı', offers: { '@type': ['Offer'], price: '10' } }
+    ]);
+  });
+
+  it('returns an empty audit for empty input', () => {
+    expect(auditHTML('', URL_)).toMatchObject({ title: null, headings: [], images: { total: 0, coverage: 100 } });
+  });
+});
+
+describe('analyzeHTML', () => {
+  it('summarizes the audit for reports', () => {
+    const analysis = analyzeHTML('<title>T</title><meta property="og:type" content="x"><h1>Bir</h1><h1>İki</h1><a href="/x">x</a>', 'http://example.com/');
+    expect(analysis).toMatchObject({ title: 'T', metaDescription: null, h1Tags: ['Bir', 'İki'], hasSSL: false, hasOG: true, internalLinkCount: 1 });
+  });
+});
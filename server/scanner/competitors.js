@@ -0,0 +1,178 @@
+// Rakip karşılaştırması: aynı denetim rakip URL'lerde çalışır, metrikler yan yana konur
+import { runAudit } from './pipeline.js';
+import { mapWithConcurrency } from './concurrency.js';
+
+export const COMPETITOR_LIMIT = Number(process.env.COMPETITOR_LIMIT) || 3;
+const COMPETITOR_CONCURRENCY = 2;
+const TITLE_RANGE = [30, 60];
+const SCORE_MARGIN = 5;
+const WORD_COUNT_MARGIN = 1.2;
+
+// Geçerli, tekrarsız ve ana siteden farklı host'taki http(s) URL'leri; limit kadarı alınır
+export function normalizeCompetitors(list, siteUrl) {
+  if (!Array.isArray(list)) return [];
+  let siteHost = null;
+  try {
+    siteHost = new URL(siteUrl).hostname.replace(/^www\./, '');
+  } catch {
+    siteHost = null;
+  }
+
+  const seen = new Set();
+  const urls = [];
+  for (const raw of list) {
+    if (typeof raw !== 'string' || !raw.trim()) continue;
+    const value = raw.trim();
+    try {
+      const parsed = new URL(/^https?:\/\//i.test(value) ? value : `https://${value}`);
+      const host = parsed.hostname.replace(/^www\./, '');
+      if (host.length < 3 || host === siteHost || seen.has(host)) continue;
+      seen.add(host);
+      urls.push(parsed.toString());
+    } catch {
+      continue;
+    }
+    if (urls.length >= COMPETITOR_LIMIT) break;
+  }
+  return urls;
+}
+
+// Karşılaştırma matrisinin bir satırı
+export function summarizeScan(scan) {
+  const { analysis, audit, schema, performance, content, mobile, security, accessibility, linkCheck, scoring } = scan;
+  return {
+    url: scan.url,
+    fetched: !!scan.html,
+    score: scoring.score,
+    titleLength: analysis.title ? analysis.title.length : 0,
+    metaDescriptionLength: analysis.metaDescription ? analysis.metaDescription.length : 0,
+    h1Count: analysis.h1Tags.length,
+    schemaTypes: audit.structuredData.types,
+    schemaValid: schema.items.length > 0 && schema.invalidCount === 0,
+    performance: performance ? performance.score : null,
+    ttfbMs: performance ? performance.metrics.document.ttfbMs : null,
+    wordCount: content ? content.wordCount : null,
+    readability: content ? content.readability.score : null,
+    mobile: mobile ? mobile.score : null,
+    security: security ? security.score : null,
+    accessibility: accessibility ? accessibility.score : null,
+    brokenLinks: linkCheck ? linkCheck.broken.length : null,
+    error: scan.html ? null : 'fetch-failed'
+  };
+}
+
+// Rakipler site taraması yapılmadan (crawl: false) tek sayfa olarak denetlenir
+export async function scanCompetitors(urls, { disabledRules, lang } = {}) {
+  return mapWithConcurrency(urls, COMPETITOR_CONCURRENCY, async (url) => {
+    try {
+      return summarizeScan(await runAudit(url, { crawl: false, disabledRules, lang }));
+    } catch (error) {
+      console.error('[ERROR] Competitor scan failed:', url, error.message);
+      return { url, fetched: false, error: error.code || error.message };
+    }
+  });
+}
+
+const hostOf = (url) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+const median = (values) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+};
+
+// Rakiplerin önde olduğu ve müşterinin kapatması gereken farklar
+export function findGaps(site, competitors) {
+  const rivals = competitors.filter(c => c.fetched);
+  const gaps = [];
+  if (!rivals.length) return gaps;
+
+  // En iyi rakibin sitenin belirgin biçimde önünde olduğu 0–100 skorlar
+  const scoreMetrics = [
+    ['score', 'SEO skoru'],
+    ['performance', 'Performans skoru'],
+    ['mobile', 'Mobil uyumluluk skoru'],
+    ['security', 'Güvenlik skoru'],
+    ['accessibility', 'Erişilebilirlik skoru']
+  ];
+  for (const [metric, label] of scoreMetrics) {
+    const leader = rivals
+      .filter(c => c[metric] !== null && c[metric] !== undefined)
+      .sort((a, b) => b[metric] - a[metric])[0];
+    if (!leader || site[metric] === null || site[metric] === undefined) continue;
+    if (leader[metric] - site[metric] >= SCORE_MARGIN) {
+      gaps.push({
+        metric,
+        site: site[metric],
+        target: leader[metric],
+        leader: leader.url,
+        message: `${label}: ${hostOf(leader.url)} ${leader[metric]}/100, siz ${site[metric]}/100`
+      });
+    }
+  }
+
+  const [minTitle, maxTitle] = TITLE_RANGE;
+  const titleOk = (length) => length >= minTitle && length <= maxTitle;
+  const titleLeader = rivals.find(c => titleOk(c.titleLength));
+  if (!titleOk(site.titleLength) && titleLeader) {
+    gaps.push({
+      metric: 'titleLength',
+      site: site.titleLength,
+      target: `${minTitle}-${maxTitle}`,
+      leader: titleLeader.url,
+      message: `Title uzunluğu ${site.titleLength} karakter; ${hostOf(titleLeader.url)} önerilen ${minTitle}-${maxTitle} aralığında (${titleLeader.titleLength})`
+    });
+  }
+
+  // Rakiplerde olup sitede olmayan structured data tipleri
+  const siteTypes = new Set(site.schemaTypes);
+  const missingTypes = new Map();
+  for (const rival of rivals) {
+    for (const type of rival.schemaTypes) {
+      if (!siteTypes.has(type) && !missingTypes.has(type)) missingTypes.set(type, rival.url);
+    }
+  }
+  if (missingTypes.size) {
+    const types = [...missingTypes.keys()];
+    gaps.push({
+      metric: 'schema',
+      site: site.schemaTypes,
+      target: types,
+      leader: missingTypes.get(types[0]),
+      message: `Rakiplerde olup sizde olmayan structured data: ${types.join(', ')}`
+    });
+  }
+
+  const counts = rivals.map(c => c.wordCount).filter(count => typeof count === 'number');
+  if (counts.length && site.wordCount !== null) {
+    const target = median(counts);
+    if (target > site.wordCount * WORD_COUNT_MARGIN) {
+      const leader = rivals.reduce((best, c) => ((c.wordCount ?? 0) > (best.wordCount ?? 0) ? c : best));
+      gaps.push({
+        metric: 'wordCount',
+        site: site.wordCount,
+        target,
+        leader: leader.url,
+        message: `Rakip sayfalar ortalama ${target} kelime, sizin sayfanız ${site.wordCount} kelime`
+      });
+    }
+  }
+
+  return gaps;
+}
+
+export function compareWithCompetitors(siteScan, competitors) {
+  const site = summarizeScan(siteScan);
+  return {
+    site,
+    competitors,
+    gaps: findGaps(site, competitors),
+    comparedAt: new Date().toISOString()
+  };
+}
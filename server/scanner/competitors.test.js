@@ -0,0 +1,126 @@
+import http from 'node:http';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { COMPETITOR_LIMIT, compareWithCompetitors, findGaps, normalizeCompetitors, scanCompetitors } from './competitors.js';
+
+// summarizeScan çıktısı biçiminde karşılaştırma satırı
+const row = (overrides = {}) => ({
+  url: 'https://site.com/',
+  fetched: true,
+  score: 70,
+  titleLength: 45,
+  metaDescriptionLength: 140,
+  h1Count: 1,
+  schemaTypes: ['Organization'],
+  schemaValid: true,
+  performance: 80,
+  ttfbMs: 200,
+  wordCount: 500,
+  readability: 60,
+  mobile: 90,
+  security: 70,
+  accessibility: 85,
+  brokenLinks: 0,
+  error: null,
+  ...overrides
+});
+
+// compareWithCompetitors için en küçük site taraması
+const SITE_SCAN = {
+  url: 'https://site.com/',
+  html: '<p>x</p>',
+  analysis: { title: 'Site', metaDescription: null, h1Tags: [] },
+  audit: { structuredData: { types: [] } },
+  schema: { items: [], invalidCount: 0 },
+  content: { wordCount: 10, readability: { score: null } },
+  scoring: { score: 40 }
+};
+
+describe('normalizeCompetitors', () => {
+  it('adds a scheme, drops the site itself, duplicates and invalid entries and applies the limit', () => {
+    const urls = normalizeCompetitors([
+      'rakip1.com', ' https://www.site.com/blog ', 'http://rakip1.com/other', 42, '', 'http://a', 'https://exa mple.com',
+      'https://rakip2.com/kategori?x=1', 'www.rakip3.com', 'rakip4.com'
+    ], 'https://site.com');
+    expect(urls).toEqual(['https://rakip1.com/', 'https://rakip2.com/kategori?x=1', 'https://www.rakip3.com/', 'https://rakip4.com/'].slice(0, COMPETITOR_LIMIT));
+  });
+
+  it('accepts a missing or invalid site URL and rejects non-arrays', () => {
+    expect(normalizeCompetitors(['site.com'], 'geçersiz')).toEqual(['https://site.com/']);
+    expect(normalizeCompetitors('rakip.com', 'https://site.com')).toEqual([]);
+  });
+});
+
+describe('findGaps', () => {
+  it('reports scores where the best rival leads by the margin', () => {
+    const gaps = findGaps(row(), [
+      row({ url: 'https://rakip1.com/', score: 74, performance: 95 }),
+      row({ url: 'https://rakip2.com/', score: 60, performance: 99, security: null })
+    ]);
+    expect(gaps.map(gap => [gap.metric, gap.target, gap.leader])).toEqual([['performance', 99, 'https://rakip2.com/']]);
+    expect(gaps[0].message).toBe('Performans skoru: rakip2.com 99/100, siz 80/100');
+  });
+
+  it('compares title length, schema types and the median word count', () => {
+    const gaps = findGaps(row({ titleLength: 12, wordCount: 300 }), [
+      row({ url: 'https://rakip1.com/', titleLength: 70, schemaTypes: ['Organization', 'Product'], wordCount: 1200 }),
+      row({ url: 'https://rakip2.com/', titleLength: 50, schemaTypes: ['FAQPage', 'Product'], wordCount: 400 }),
+      row({ url: 'https://rakip3.com/', fetched: false, schemaTypes: ['Recipe'], wordCount: 5000 })
+    ]);
+    expect(gaps).toEqual([
+      expect.objectContaining({ metric: 'titleLength', site: 12, target: '30-60', leader: 'https://rakip2.com/' }),
+      expect.objectContaining({ metric: 'schema', target: ['Product', 'FAQPage'], leader: 'https://rakip1.com/' }),
+      expect.objectContaining({ metric: 'wordCount', site: 300, target: 800, leader: 'https://rakip1.com/' })
+    ]);
+  });
+
+  it('finds nothing without a reachable rival', () => {
+    expect(findGaps(row({ score: 10 }), [row({ score: 100, fetched: false })])).toEqual([]);
+  });
+});
+
+describe('competitor scans against a local site', () => {
+  const html = `<html lang="tr"><head><title>Rakip mağaza – el yapımı deri çanta modelleri</title>
+    <script type="application/ld+json">{"@type":"Organization","name":"Rakip","url":"https://rakip.com"}</script></head>
+    <body><h1>Deri çanta</h1><p>${'Deri çanta modelleri. '.repeat(20)}</p></body></html>`;
+  const server = http.createServer((req, res) => {
+    res.writeHead(req.url === '/' ? 200 : 404, { 'Content-Type': 'text/html' });
+    res.end(req.url === '/' ? html : '');
+  });
+  let base;
+
+  beforeAll(async () => {
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${server.address().port}`;
+  });
+  afterAll(() => new Promise(resolve => server.close(resolve)));
+  afterEach(() => vi.unstubAllEnvs());
+
+  it('summarizes each rival with the same audit pipeline', async () => {
+    vi.stubEnv('SCANNER_ALLOW_PRIVATE_HOSTS', 'true');
+    const [summary] = await scanCompetitors([`${base}/`]);
+
+    expect(summary).toMatchObject({
+      url: `${base}/`,
+      fetched: true,
+      titleLength: 45,
+      h1Count: 1,
+      schemaTypes: ['Organization'],
+      schemaValid: true,
+      wordCount: 62,
+      brokenLinks: 0,
+      error: null
+    });
+    expect(summary.score).toBeGreaterThan(0);
+
+    const comparison = compareWithCompetitors(SITE_SCAN, [summary]);
+    expect(comparison.site).toMatchObject({ url: 'https://site.com/', wordCount: 10, schemaTypes: [] });
+    expect(comparison.gaps.map(gap => gap.metric)).toEqual(expect.arrayContaining(['schema', 'wordCount']));
+  });
+
+  it('keeps a failed rival in the list instead of failing the scan', async () => {
+    // Özel adres izni olmadan sayfa indirilemez
+    const [summary] = await scanCompetitors([`${base}/`]);
+    expect(summary).toEqual({ url: `${base}/`, fetched: false, error: 'blocked-address' });
+  });
+});
+
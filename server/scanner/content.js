@@ -0,0 +1,156 @@
+// İçerik ve anahtar kelime analizi: boilerplate temizleme, n-gram, yerleşim, okunabilirlik
+import { parseDocument } from './audit.js';
+
+const THIN_CONTENT_WORDS = 300;
+const TOP_TERMS = 10;
+
+const TR_STOPWORDS = new Set((
+  'acaba ama ancak artık aslında az bana bazen bazı belki ben beni benim bile bir birkaç birçok biri birisi birşey biz bize bizi bizim ' +
+  'bu buna bunda bundan bunlar bunları bunların bunu bunun burada böyle bütün çok çünkü da daha de defa değil diye dolayı en fakat ' +
+  'gibi göre hem hep hepsi her herhangi hiç için ile ise işte kadar karşın kendi kendine ki kim kimse mi mı mu mü nasıl ne neden ' +
+  'nerede nereye niye niçin o olan olarak oldu olduğu olmak olması olsa olup onlar onları onların onu onun orada öyle sadece sanki ' +
+  'siz size sizi sizin şey şu şuna şunu tüm ve veya ya yani yine yok zaten üzere ayrıca sonra önce olur olan var değildir diğer ' +
+  'çok daha ise biraz şekilde tarafından her şey bile hala henüz'
+).split(/\s+/));
+
+const EN_STOPWORDS = new Set((
+  'a about above after again against all am an and any are as at be because been before being below between both but by can ' +
+  'could did do does doing down during each few for from further had has have having he her here hers herself him himself his how ' +
+  'i if in into is it its itself just me more most my myself no nor not now of off on once only or other our ours ourselves out ' +
+  'over own same she should so some such than that the their theirs them themselves then there these they this those through to ' +
+  'too under until up very was we were what when where which while who whom why will with you your yours yourself yourselves ' +
+  'also get got like may might must new one our us use used using via within without would'
+).split(/\s+/));
+
+// Boilerplate olarak kabul edilen bölgeler
+const BOILERPLATE_SELECTOR = 'script, style, noscript, template, svg, iframe, nav, header, footer, aside, form, [role="navigation"], [role="banner"], [role="contentinfo"], [aria-hidden="true"]';
+const BOILERPLATE_HINT = /(^|[\s_-])(nav|navbar|menu|footer|header|sidebar|cookie|breadcrumbs?|share|social|newsletter|related)([\s_-]|$)/i;
+
+const cleanText = (value) => (value || '').replace(/\s+/g, ' ').trim();
+
+// Karşılaştırmalar için Türkçe karakterleri ASCII'ye indir (URL slug'ları genelde böyledir)
+export const foldText = (value) => (value || '')
+  .toLocaleLowerCase('tr')
+  .replace(/ı/g, 'i').replace(/ğ/g, 'g').replace(/ü/g, 'u').replace(/ş/g, 's').replace(/ö/g, 'o').replace(/ç/g, 'c')
+  .normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+export const tokenize = (text) => (text || '').toLocaleLowerCase('tr').match(/[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu) || [];
+
+// Ana içerik metnini çıkar: <main>/<article> varsa onu, yoksa boilerplate'i atılmış <body>'yi kullan
+export function extractMainText(html) {
+  const root = parseDocument(html);
+  for (const el of root.querySelectorAll(BOILERPLATE_SELECTOR)) el.remove();
+  for (const el of root.querySelectorAll('[class], [id]')) {
+    if (['html', 'body', 'main', 'article'].includes(el.tagName.toLowerCase())) continue;
+    if (BOILERPLATE_HINT.test(`${el.getAttribute('class') || ''} ${el.getAttribute('id') || ''}`)) el.remove();
+  }
+
+  const main = root.querySelector('main') || root.querySelector('article') || root.querySelector('[role="main"]') || root.querySelector('body') || root;
+  // structuredText blok öğeler arasına satır sonu koyar; cümle sınırları korunur
+  return main.structuredText.split('\n').map(cleanText).filter(Boolean).join('\n');
+}
+
+export function detectLanguage(tokens, declared) {
+  const lang = (declared || '').toLowerCase().split('-')[0];
+  if (lang === 'tr' || lang === 'en') return lang;
+  const tr = tokens.filter(t => TR_STOPWORDS.has(t)).length;
+  const en = tokens.filter(t => EN_STOPWORDS.has(t)).length;
+  return tr >= en ? 'tr' : 'en';
+}
+
+const isStopword = (word, lang) => (lang === 'tr' ? TR_STOPWORDS : EN_STOPWORDS).has(word) || /^\d+$/.test(word) || word.length < 2;
+
+// Baş ve sonu stopword olmayan n-gram'ları say
+function countNgrams(tokens, n, lang) {
+  const counts = new Map();
+  for (let i = 0; i + n <= tokens.length; i++) {
+    const gram = tokens.slice(i, i + n);
+    if (isStopword(gram[0], lang) || isStopword(gram[n - 1], lang)) continue;
+    if (n === 1 && gram[0].length < 3) continue;
+    const key = gram.join(' ');
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+  return [...counts.entries()]
+    .filter(([, count]) => n === 1 || count > 1)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0], 'tr'))
+    .slice(0, TOP_TERMS)
+    .map(([term, count]) => ({ term, count, density: tokens.length ? Math.round((count * n / tokens.length) * 10000) / 100 : 0 }));
+}
+
+const countSyllables = (word, lang) => {
+  if (lang === 'tr') return Math.max(1, (word.match(/[aeıioöuü]/g) || []).length);
+  const groups = word.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '').match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups ? groups.length : 1);
+};
+
+// Türkçe için Ateşman, İngilizce için Flesch Reading Ease (0–100, yüksek = kolay)
+export function readability(text, tokens, lang) {
+  const sentences = Math.max(1, (text.match(/[.!?…]+(\s|$)|\n/g) || []).length);
+  const words = tokens.length;
+  if (words < 30) return { score: null, formula: lang === 'tr' ? 'atesman' : 'flesch', level: null, sentences, avgSentenceLength: null };
+
+  const syllables = tokens.reduce((sum, word) => sum + countSyllables(word, lang), 0);
+  const wordsPerSentence = words / sentences;
+  const syllablesPerWord = syllables / words;
+  const raw = lang === 'tr'
+    ? 198.825 - 40.175 * syllablesPerWord - 2.61 * wordsPerSentence
+    : 206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord;
+  const score = Math.round(Math.min(100, Math.max(0, raw)));
+
+  return {
+    score,
+    formula: lang === 'tr' ? 'atesman' : 'flesch',
+    level: score >= 70 ? 'easy' : score >= 50 ? 'medium' : score >= 30 ? 'hard' : 'very-hard',
+    sentences,
+    avgSentenceLength: Math.round(wordsPerSentence * 10) / 10
+  };
+}
+
+// Terimin title, H1, meta description ve URL'de geçip geçmediği (Türkçe karakterler katlanarak)
+export function keywordPlacement(term, { title, h1, metaDescription, url }) {
+  const needle = foldText(term);
+  const contains = (value) => !!value && foldText(value).includes(needle);
+  let path = '';
+  try {
+    path = decodeURIComponent(new URL(url).pathname).replace(/[-_/]+/g, ' ');
+  } catch {
+    path = '';
+  }
+  return {
+    term,
+    title: contains(title),
+    h1: h1.some(contains),
+    metaDescription: contains(metaDescription),
+    url: contains(path)
+  };
+}
+
+export function analyzeContent(html, { url, lang, title, h1Tags = [], metaDescription } = {}) {
+  const text = extractMainText(html);
+  const tokens = tokenize(text);
+  const language = detectLanguage(tokens, lang);
+
+  const unigrams = countNgrams(tokens, 1, language);
+  const bigrams = countNgrams(tokens, 2, language);
+  const trigrams = countNgrams(tokens, 3, language);
+
+  // Öne çıkan terimler: tekrar eden ifadeler tekil kelimelerden önce gelir
+  const topKeywords = [...bigrams.filter(b => b.count >= 3).slice(0, 3), ...unigrams]
+    .filter((item, index, list) => list.findIndex(other => other.term === item.term) === index)
+    .slice(0, TOP_TERMS);
+
+  const htmlLength = (html || '').length;
+
+  return {
+    language,
+    wordCount: tokens.length,
+    uniqueWords: new Set(tokens).size,
+    textRatio: htmlLength ? Math.round((text.length / htmlLength) * 1000) / 10 : 0,
+    readability: readability(text, tokens, language),
+    thinContent: tokens.length < THIN_CONTENT_WORDS,
+    topKeywords,
+    ngrams: { unigrams, bigrams, trigrams },
+    keywordPlacement: topKeywords.slice(0, 5).map(k => keywordPlacement(k.term, { title, h1: h1Tags, metaDescription, url })),
+    analyzedAt: new Date().toISOString()
+  };
+}
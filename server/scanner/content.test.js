@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeContent, detectLanguage, extractMainText, foldText, keywordPlacement, readability, tokenize } from './content.js';
+import { contentRules } from './rules/content.js';
+
+describe('text helpers', () => {
+  it('folds Turkish characters for slug comparisons', () => {
+    expect(foldText('İŞLEM Çağrı Gözlük')).toBe('islem cagri gozluk');
+  });
+
+  it('tokenizes with Turkish casing and keeps apostrophe suffixes', () => {
+    expect(tokenize("IŞIK İstanbul'da 24 saat, e-posta!")).toEqual(['ışık', "istanbul'da", '24', 'saat', 'e', 'posta']);
+  });
+
+  it('prefers the declared language and otherwise counts stopwords', () => {
+    expect(detectLanguage(['the', 'and', 'of'], 'tr-TR')).toBe('tr');
+    expect(detectLanguage(['the', 'shop', 'and', 've'], null)).toBe('en');
+    expect(detectLanguage(['bir', 've', 'the'], 'de')).toBe('tr');
+  });
+});
+
+describe('extractMainText', () => {
+  it('drops navigation, footers, scripts and boilerplate-named blocks', () => {
+    const text = extractMainText(`<html><body>
+      <header>Logo</header><nav>Menü</nav>
+      <div class="cookie-banner">Çerez</div>
+      <div id="main-content"><h1>Başlık</h1><p>Birinci paragraf.</p><p>İkinci paragraf.</p></div>
+      <script>var x = 1;</script>
+      <footer>Telif</footer>
+    </body></html>`);
+    expect(text).toBe('Başlık\nBirinci paragraf.\nİkinci paragraf.');
+  });
+
+  it('uses <main> when the page has one', () => {
+    expect(extractMainText('<body><div>Kenar</div><main><p>Ana metin</p></main></body>')).toBe('Ana metin');
+  });
+});
+
+describe('readability', () => {
+  const sentence = 'Kedi eve geldi. ';
+
+  it('needs at least 30 words', () => {
+    const text = sentence.repeat(9);
+    expect(readability(text, tokenize(text), 'tr')).toMatchObject({ score: null, formula: 'atesman', level: null });
+  });
+
+  it('rates short Turkish sentences as easy and long English ones as hard', () => {
+    const easy = sentence.repeat(12);
+    expect(readability(easy, tokenize(easy), 'tr')).toMatchObject({ formula: 'atesman', level: 'easy', sentences: 12, avgSentenceLength: 3 });
+
+    const hard = `${'Comprehensive organizational documentation necessitates considerable administrative coordination '.repeat(8)}.`;
+    expect(readability(hard, tokenize(hard), 'en')).toMatchObject({ formula: 'flesch', score: 0, level: 'very-hard', sentences: 1 });
+  });
+});
+
+describe('keywordPlacement', () => {
+  it('matches folded text in the title, headings, description and URL path', () => {
+    expect(keywordPlacement('deri çanta', {
+      title: 'DERİ ÇANTA modelleri',
+      h1: ['Kampanya', 'Deri çanta'],
+      metaDescription: 'El yapımı ürünler',
+      url: 'https://example.com/urunler/deri-canta'
+    })).toEqual({ term: 'deri çanta', title: true, h1: true, metaDescription: false, url: true });
+    expect(keywordPlacement('x', { h1: [], url: 'geçersiz' }).url).toBe(false);
+  });
+});
+
+describe('analyzeContent', () => {
+  const paragraph = 'El yapımı deri çanta modelleri ile tarzınızı tamamlayın. Deri çanta bakımı için ipuçları sunuyoruz. ';
+
+  it('finds repeated phrases before single words and checks their placement', () => {
+    const html = `<html lang="tr"><body><nav>Deri deri deri</nav><article>${`<p>${paragraph}</p>`.repeat(4)}</article></body></html>`;
+    const content = analyzeContent(html, { url: 'https://example.com/deri-canta', lang: 'tr', title: 'Deri Çanta', h1Tags: ['Çantalar'] });
+
+    expect(content).toMatchObject({ language: 'tr', wordCount: 56, thinContent: true });
+    expect(content.topKeywords[0]).toEqual({ term: 'deri çanta', count: 8, density: Math.round((16 / 56) * 10000) / 100 });
+    // Menüdeki tekrarlar sayılmaz; eşit sayılar Türkçe alfabeye göre sıralanır
+    expect(content.ngrams.unigrams.slice(0, 2).map(item => [item.term, item.count])).toEqual([['çanta', 8], ['deri', 8]]);
+    expect(content.keywordPlacement[0]).toEqual({ term: 'deri çanta', title: true, h1: false, metaDescription: false, url: true });
+  });
+
+  it('skips stopwords and numbers at phrase edges', () => {
+    const content = analyzeContent(`<p>${'ve bu 2024 için '.repeat(10)}kahve</p>`, { lang: 'tr' });
+    expect(content.ngrams.unigrams.map(item => item.term)).toEqual(['kahve']);
+    expect(content.ngrams.bigrams).toEqual([]);
+  });
+
+  it('handles an empty page', () => {
+    expect(analyzeContent('', {})).toMatchObject({ wordCount: 0, textRatio: 0, thinContent: true, topKeywords: [], keywordPlacement: [] });
+  });
+});
+
+describe('content rules', () => {
+  const check = (id, content) => contentRules.find(rule => rule.id === id).check({ content });
+
+  it('scales content length and readability credit', () => {
+    expect(check('content-length', { thinContent: true, wordCount: 150 })).toEqual({ passed: false, ratio: 0.5, params: { words: 150 } });
+    expect(check('readability', { readability: { score: 40, formula: 'atesman' } })).toEqual({ passed: false, ratio: 0.8, params: { score: 40, formula: 'Ateşman' } });
+    expect(check('readability', { readability: { score: null } })).toBeNull();
+  });
+
+  it('lists the fields missing the primary term', () => {
+    const result = check('keyword-placement', { keywordPlacement: [{ term: 'kahve', title: true, h1: false, metaDescription: false, url: true }] });
+    expect(result).toEqual({ passed: false, ratio: 1 / 3, params: { term: 'kahve', missing: 'H1, meta description' } });
+    expect(check('keyword-placement', { keywordPlacement: [] })).toBeNull();
+  });
+});
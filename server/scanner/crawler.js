@@ -0,0 +1,199 @@
+// Sınırlı, aynı-origin çok sayfalı site tarayıcısı
+import { fetchPage } from './fetch.js';
+import { auditHTML } from './audit.js';
+import { toAnalysis } from './analyze.js';
+import { loadRobots, isPathAllowed } from './robots.js';
+
+export const CRAWL_DEFAULTS = {
+  maxPages: Number(process.env.CRAWL_MAX_PAGES) || 20,
+  maxDepth: Number(process.env.CRAWL_MAX_DEPTH) || 2,
+  concurrency: Number(process.env.CRAWL_CONCURRENCY) || 4,
+  timeout: 10000,
+  respectRobots: true
+};
+
+// Kullanıcının gönderebileceği üst sınırlar
+export const CRAWL_LIMITS = {
+  maxPages: 500,
+  maxDepth: 10,
+  concurrency: 10
+};
+
+const SKIPPED_EXTENSIONS = /\.(jpe?g|png|gif|webp|svg|ico|pdf|zip|rar|gz|mp3|mp4|webm|avi|mov|css|js|json|xml|txt|woff2?|ttf|eot)$/i;
+
+const clamp = (value, fallback, min, max) => {
+  const n = Number(value);
+  if (value === undefined || value === null || !Number.isFinite(n) || n < min) return fallback;
+  return Math.min(Math.floor(n), max);
+};
+
+// İstek gövdesinden gelen crawl seçeneklerini sınırlar içinde normalize et
+export function resolveCrawlOptions(input = {}) {
+  return {
+    maxPages: clamp(input.maxPages, CRAWL_DEFAULTS.maxPages, 1, CRAWL_LIMITS.maxPages),
+    maxDepth: clamp(input.maxDepth, CRAWL_DEFAULTS.maxDepth, 0, CRAWL_LIMITS.maxDepth),
+    concurrency: clamp(input.concurrency, CRAWL_DEFAULTS.concurrency, 1, CRAWL_LIMITS.concurrency),
+    timeout: CRAWL_DEFAULTS.timeout,
+    respectRobots: input.respectRobots !== false
+  };
+}
+
+// Ziyaret anahtarı: hash'siz, sondaki / olmadan
+const canonicalKey = (url) => {
+  const u = new URL(url);
+  u.hash = '';
+  return u.toString().replace(/\/+$/, '');
+};
+
+// robots: tarama hattının önceden indirdiği fetchRobots sonucu; verilmezse burada indirilir
+export async function crawlSite(startUrl, options = {}, { robots: preloaded } = {}) {
+  const opts = resolveCrawlOptions(options);
+  const start = new URL(startUrl);
+  const origin = start.origin;
+  const startedAt = Date.now();
+
+  let robots = null;
+  if (opts.respectRobots) {
+    robots = preloaded ? (preloaded.found ? preloaded : null) : await loadRobots(origin, { timeout: opts.timeout });
+  }
+
+  // Başlangıç sayfası robots ile engellenmiş olsa da analiz edilir (kullanıcı açıkça istedi)
+  const queue = [{ url: start.toString(), depth: 0 }];
+  const seen = new Set([canonicalKey(start.toString())]);
+  const pages = [];
+  const blocked = [];
+  let active = 0;
+
+  console.log(`[INFO] Crawl started: ${origin} (maxPages=${opts.maxPages}, maxDepth=${opts.maxDepth}, concurrency=${opts.concurrency})`);
+
+  const enqueue = (url, depth) => {
+    if (depth > opts.maxDepth) return;
+
+    let parsed;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return;
+    }
+
+    if (parsed.origin !== origin || SKIPPED_EXTENSIONS.test(parsed.pathname)) return;
+
+    const key = canonicalKey(parsed.toString());
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    if (!isPathAllowed(robots, parsed.pathname + parsed.search)) {
+      blocked.push(parsed.toString());
+      return;
+    }
+
+    queue.push({ url: parsed.toString(), depth });
+  };
+
+  const crawlOne = async ({ url, depth }) => {
+    const page = await fetchPage(url, { timeout: opts.timeout });
+    const html = page.ok ? page.body : null;
+    const audit = html ? auditHTML(html, page.finalUrl) : null;
+
+    const result = {
+      url,
+      finalUrl: page.finalUrl,
+      depth,
+      status: page.status,
+      error: page.error,
+      analysis: audit ? toAnalysis(audit, page.finalUrl) : null
+    };
+    pages.push(result);
+
+    // Yönlendirme başka origin'e gittiyse linklerini takip etme
+    if (audit && depth < opts.maxDepth && new URL(page.finalUrl).origin === origin) {
+      for (const link of audit.links.internal) {
+        enqueue(link.url, depth + 1);
+      }
+    }
+  };
+
+  // Eşzamanlılık sınırlı iş havuzu: kuyruk boşalana ya da sayfa limiti dolana kadar
+  await new Promise((resolve) => {
+    const pump = () => {
+      if (queue.length === 0 && active === 0) {
+        resolve();
+        return;
+      }
+
+      while (active < opts.concurrency && queue.length > 0 && pages.length + active < opts.maxPages) {
+        const item = queue.shift();
+        active++;
+        crawlOne(item)
+          .catch(error => {
+            pages.push({ url: item.url, finalUrl: item.url, depth: item.depth, status: 0, error: error.message, analysis: null });
+          })
+          .finally(() => {
+            active--;
+            pump();
+          });
+      }
+
+      if (active === 0 && (queue.length === 0 || pages.length >= opts.maxPages)) {
+        resolve();
+      }
+    };
+    pump();
+  });
+
+  const durationMs = Date.now() - startedAt;
+  console.log(`[SUCCESS] Crawl finished: ${pages.length} pages in ${durationMs}ms`);
+
+  return {
+    startUrl: start.toString(),
+    options: opts,
+    robotsTxt: robots ? robots.url : null,
+    pages,
+    blockedByRobots: blocked,
+    truncated: queue.length > 0,
+    durationMs,
+    summary: summarizeCrawl(pages, blocked)
+  };
+}
+
+const findDuplicates = (pages, pick) => {
+  const groups = new Map();
+  for (const page of pages) {
+    const value = page.analysis && pick(page.analysis);
+    if (!value) continue;
+    const key = value.trim().toLowerCase();
+    if (!groups.has(key)) groups.set(key, { value, urls: [] });
+    groups.get(key).urls.push(page.url);
+  }
+  return [...groups.values()].filter(g => g.urls.length > 1);
+};
+
+// Site geneli özet
+export function summarizeCrawl(pages, blocked = []) {
+  const analyzed = pages.filter(p => p.analysis);
+  const failed = pages.filter(p => !p.analysis);
+  const avg = (pick) => analyzed.length
+    ? Math.round(analyzed.reduce((sum, p) => sum + pick(p.analysis), 0) / analyzed.length)
+    : 0;
+
+  return {
+    pagesCrawled: pages.length,
+    pagesAnalyzed: analyzed.length,
+    pagesFailed: failed.length,
+    blockedByRobots: blocked.length,
+    statusCounts: pages.reduce((acc, p) => {
+      const key = p.status ? `${Math.floor(p.status / 100)}xx` : 'error';
+      acc[key] = (acc[key] || 0) + 1;
+      return acc;
+    }, {}),
+    missingTitle: analyzed.filter(p => !p.analysis.title).map(p => p.url),
+    missingMetaDescription: analyzed.filter(p => !p.analysis.metaDescription).map(p => p.url),
+    missingH1: analyzed.filter(p => p.analysis.h1Tags.length === 0).map(p => p.url),
+    multipleH1: analyzed.filter(p => p.analysis.h1Tags.length > 1).map(p => p.url),
+    duplicateTitles: findDuplicates(analyzed, a => a.title),
+    duplicateMetaDescriptions: findDuplicates(analyzed, a => a.metaDescription),
+    brokenPages: failed.map(p => ({ url: p.url, status: p.status, error: p.error })),
+    avgImageCount: avg(a => a.imageCount),
+    avgLinkCount: avg(a => a.linkCount)
+  };
+}
@@ -0,0 +1,107 @@
+// Tarama sırasında kullanılan HTTP yardımcıları
+import { safeFetch, readBody, UrlSafetyError } from './safety.js';
+
+export const BROWSER_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+export const MOBILE_USER_AGENT = 'Mozilla/5.0 (Linux; Android 13; Pixel 7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36';
+export const CRAWLER_USER_AGENT = `${BROWSER_USER_AGENT} weeme-ai/1.0`;
+
+export const DEFAULT_HEADERS = {
+  'User-Agent': BROWSER_USER_AGENT,
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.5',
+  'Accept-Encoding': 'gzip, deflate',
+  'Connection': 'keep-alive'
+};
+
+export const MAX_HTML_LENGTH = 50000; // İlk 50k karakter
+
+// Site içeriğini fetch et. Güvenlik katmanının tipli hataları (engelli adres, zaman aşımı vb.)
+// çağırana iletilir; diğer hatalarda null döner.
+export async function fetchSiteContent(url) {
+  try {
+    // URL validation ve normalization
+    let normalizedUrl;
+    try {
+      // URL'i normalize et
+      if (!url.startsWith('http://') && !url.startsWith('https://')) {
+        normalizedUrl = `https://${url}`;
+      } else {
+        normalizedUrl = url;
+      }
+      
+      // URL'in geçerli olduğunu kontrol et
+      const urlObj = new URL(normalizedUrl);
+      if (!urlObj.hostname || urlObj.hostname.length < 3) {
+        throw new Error('Invalid hostname');
+      }
+    } catch (urlError) {
+      console.error('[ERROR] Invalid URL format:', url, urlError.message);
+      return null;
+    }
+    
+    console.log('[INFO] Fetching content from:', normalizedUrl);
+    
+    const { response } = await safeFetch(normalizedUrl, {
+      timeout: 10000,
+      headers: DEFAULT_HEADERS
+    });
+    
+    if (!response.ok) {
+      console.error('[ERROR] HTTP error:', response.status, response.statusText);
+      response.body?.resume?.();
+      return null;
+    }
+    
+    const { text: html } = await readBody(response);
+    console.log('[SUCCESS] Content fetched, length:', html.length);
+    return html.substring(0, MAX_HTML_LENGTH);
+  } catch (error) {
+    console.error('[ERROR] Failed to fetch site:', url, error.message);
+    if (error instanceof UrlSafetyError) throw error;
+    return null;
+  }
+}
+
+// Tek bir sayfayı durum bilgisiyle birlikte fetch et (crawler için).
+// Gövde yalnızca content-type `bodyTypes` listesinden biriyle eşleşirse okunur.
+export async function fetchPage(url, {
+  timeout = 10000,
+  userAgent = CRAWLER_USER_AGENT,
+  bodyTypes = ['html'],
+  maxLength = MAX_HTML_LENGTH
+} = {}) {
+  const page = {
+    url,
+    finalUrl: url,
+    status: 0,
+    ok: false,
+    contentType: null,
+    body: null,
+    error: null
+  };
+
+  try {
+    const { response, finalUrl } = await safeFetch(url, {
+      timeout,
+      headers: { ...DEFAULT_HEADERS, 'User-Agent': userAgent }
+    });
+
+    page.finalUrl = finalUrl;
+    page.status = response.status;
+    page.ok = response.ok;
+    page.contentType = response.headers.get('content-type');
+
+    const readable = !page.contentType || bodyTypes.some(type => page.contentType.includes(type));
+    if (response.ok && readable) {
+      const { text } = await readBody(response);
+      page.body = text.substring(0, maxLength);
+    } else {
+      // Gövdeyi tüketmeden bağlantıyı bırak
+      response.body?.resume?.();
+    }
+  } catch (error) {
+    page.error = error instanceof UrlSafetyError ? error.code : error.name === 'TimeoutError' ? 'timeout' : error.message;
+  }
+
+  return page;
+}
@@ -0,0 +1,133 @@
+import { EventEmitter } from 'node:events';
+import http from 'node:http';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createHeadlessFetcher } from './headless.js';
+import { httpFetcher } from './http.js';
+import { fetchDocument, looksLikeAppShell, registerFetcher } from './index.js';
+
+const ARTICLE = `<html><head><title>Fixture</title></head><body><h1>Merhaba</h1><p>${'kelime '.repeat(80)}</p></body></html>`;
+const SHELL = '<html><head><title>App</title><script src="/app.js"></script></head><body><div id="root"></div></body></html>';
+const RENDERED = `<html><head><title>App</title></head><body><h1>Render</h1><p>${'içerik '.repeat(80)}</p></body></html>`;
+
+// Yerel fixture sunucusu: statik sayfa, SPA kabuğu ve yönlendirme
+const server = http.createServer((req, res) => {
+  if (req.url === '/redirect') {
+    res.writeHead(301, { Location: '/' });
+    return res.end();
+  }
+  if (req.url === '/app.js') {
+    res.writeHead(200, { 'Content-Type': 'application/javascript' });
+    return res.end(`document.body.innerHTML = ${JSON.stringify('<h1>Render</h1><p>' + 'içerik '.repeat(80) + '</p>')};`);
+  }
+  res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+  res.end(req.url === '/shell' ? SHELL : ARTICLE);
+});
+let base;
+
+beforeAll(async () => {
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${server.address().port}`;
+});
+afterAll(() => new Promise(resolve => server.close(resolve)));
+afterEach(() => vi.unstubAllEnvs());
+
+describe('http fetcher', () => {
+  it('fetches server HTML from a local fixture and follows redirects', async () => {
+    vi.stubEnv('SCANNER_ALLOW_PRIVATE_HOSTS', 'true');
+    const { html } = await httpFetcher.fetch(`${base}/redirect`);
+    expect(html).toContain('<title>Fixture</title>');
+  });
+
+  it('refuses private addresses outside development', async () => {
+    vi.stubEnv('SCANNER_ALLOW_PRIVATE_HOSTS', 'false');
+    await expect(httpFetcher.fetch(`${base}/`)).rejects.toMatchObject({ code: 'blocked-address' });
+  });
+});
+
+describe('fetchDocument', () => {
+  it('detects app shells and records the render diff of a registered renderer', async () => {
+    vi.stubEnv('SCANNER_ALLOW_PRIVATE_HOSTS', 'true');
+    registerFetcher({ name: 'fixture', fetch: async () => ({ html: RENDERED }) });
+
+    expect(looksLikeAppShell(SHELL)).toBe(true);
+    expect(looksLikeAppShell(ARTICLE)).toBe(false);
+
+    const plain = await fetchDocument(`${base}/`, { mode: 'fixture' });
+    expect(plain.fetcher).toBe('fixture');
+    expect(plain.rawHtml).toContain('Fixture');
+    expect(plain.renderDiff.changed).toContain('title');
+
+    const unknown = await fetchDocument(`${base}/shell`, { mode: 'missing' });
+    expect(unknown).toMatchObject({ fetcher: 'http', fallbackReason: 'unknown-fetcher:missing' });
+  });
+
+  it('falls back to the raw HTML when rendering fails', async () => {
+    vi.stubEnv('SCANNER_ALLOW_PRIVATE_HOSTS', 'true');
+    registerFetcher({ name: 'broken', fetch: async () => ({ html: '' }) });
+    const result = await fetchDocument(`${base}/shell`, { mode: 'broken' });
+    expect(result).toMatchObject({ fetcher: 'http', fallbackReason: 'empty-render', html: SHELL });
+  });
+});
+
+// Chromium olmadan headless fetcher'ın güvenlik davranışını sınamak için sahte tarayıcı:
+// goto önce istekleri yayınlar, ardından yanıtları verilen uzak adreslerle bildirir
+function fakeBrowser(responses) {
+  const requests = [];
+  const page = Object.assign(new EventEmitter(), {
+    closed: false,
+    setUserAgent: async () => {},
+    setRequestInterception: async () => {},
+    url: () => responses[0].url,
+    content: async () => RENDERED,
+    close: async () => { page.closed = true; },
+    async goto() {
+      for (const { url } of responses) {
+        const request = { url: () => url, continue: vi.fn(), abort: vi.fn() };
+        requests.push(request);
+        page.emit('request', request);
+      }
+      await new Promise(resolve => setTimeout(resolve, 20));
+      for (const { url, ip } of responses) {
+        page.emit('response', { url: () => url, remoteAddress: () => ({ ip, port: 80 }), status: () => 200 });
+      }
+      return { status: () => 200 };
+    }
+  });
+  return { page, requests, launch: async () => ({ newPage: async () => page }) };
+}
+
+describe('headless fetcher', () => {
+  it('aborts subrequests to private addresses', async () => {
+    vi.stubEnv('SCANNER_ALLOW_PRIVATE_HOSTS', 'false');
+    const browser = fakeBrowser([{ url: 'http://93.184.215.14/', ip: '93.184.215.14' }, { url: 'http://127.0.0.1/admin', ip: '' }]);
+    const result = await createHeadlessFetcher({ launch: browser.launch }).fetch('http://93.184.215.14/');
+
+    expect(result.html).toContain('Render');
+    expect(browser.requests[0].continue).toHaveBeenCalled();
+    expect(browser.requests[1].abort).toHaveBeenCalledWith('blockedbyclient');
+    expect(browser.page.closed).toBe(true);
+  });
+
+  it('discards the render when Chromium connected to a private address (DNS rebinding)', async () => {
+    vi.stubEnv('SCANNER_ALLOW_PRIVATE_HOSTS', 'false');
+    const browser = fakeBrowser([{ url: 'http://93.184.215.14/', ip: '10.0.0.5' }]);
+    await expect(createHeadlessFetcher({ launch: browser.launch }).fetch('http://93.184.215.14/'))
+      .rejects.toMatchObject({ code: 'blocked-address' });
+  });
+});
+
+// Gerçek Chromium yalnızca puppeteer kuruluysa çalıştırılır
+const puppeteerAvailable = await import('puppeteer').then(() => true, () => false);
+
+describe.skipIf(!puppeteerAvailable)('headless fetcher with Chromium', () => {
+  it('renders the fixture app shell', async () => {
+    vi.stubEnv('SCANNER_ALLOW_PRIVATE_HOSTS', 'true');
+    const { headlessFetcher, closeBrowser } = await import('./headless.js');
+    try {
+      const { html } = await headlessFetcher.fetch(`${base}/shell`);
+      expect(html).toContain('<h1>Render</h1>');
+    } finally {
+      await closeBrowser();
+    }
+  }, 60000);
+});
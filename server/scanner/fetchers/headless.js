@@ -0,0 +1,80 @@
+// Headless tarayıcı fetcher'ı: sayfayı Chromium'da render edip son DOM'u alır.
+// puppeteer isteğe bağlıdır; yalnızca bu fetcher kullanıldığında dinamik olarak yüklenir.
+import { BROWSER_USER_AGENT, MAX_HTML_LENGTH } from '../fetch.js';
+import { assertSafeAddress, assertSafeUrl } from '../safety.js';
+
+const RENDER_TIMEOUT = Number(process.env.HEADLESS_TIMEOUT) || 20000;
+
+let browserPromise = null;
+
+// Tarayıcı süreç boyunca bir kez açılır, sayfalar arasında paylaşılır
+function getBrowser() {
+  if (!browserPromise) {
+    browserPromise = import('puppeteer')
+      .then(({ default: puppeteer }) => puppeteer.launch({
+        headless: true,
+        executablePath: process.env.HEADLESS_EXECUTABLE_PATH || undefined,
+        args: ['--no-sandbox', '--disable-dev-shm-usage']
+      }))
+      .catch(error => {
+        browserPromise = null;
+        throw error.code === 'ERR_MODULE_NOT_FOUND' ? new Error('puppeteer-not-installed') : error;
+      });
+  }
+  return browserPromise;
+}
+
+export async function closeBrowser() {
+  if (!browserPromise) return;
+  const browser = await browserPromise.catch(() => null);
+  browserPromise = null;
+  await browser?.close();
+}
+
+// launch: tarayıcıyı veren fonksiyon (testlerde sahte tarayıcı verilebilir)
+export function createHeadlessFetcher({ launch = getBrowser, timeout: defaultTimeout = RENDER_TIMEOUT } = {}) {
+  return {
+    name: 'headless',
+    async fetch(url, { timeout = defaultTimeout } = {}) {
+      await assertSafeUrl(url);
+      const browser = await launch();
+      const page = await browser.newPage();
+      // Chromium adı kendisi yeniden çözümler (DNS rebinding); yanıtın geldiği gerçek adres engelliyse
+      // render sonucu kullanılmaz
+      let blocked = null;
+      try {
+        await page.setUserAgent(BROWSER_USER_AGENT);
+        // Sayfanın yaptığı her http(s) isteği (yönlendirmeler dahil) güvenlik katmanından geçer
+        await page.setRequestInterception(true);
+        page.on('request', request => {
+          if (!/^https?:/i.test(request.url())) return request.continue();
+          assertSafeUrl(request.url()).then(() => request.continue(), () => request.abort('blockedbyclient'));
+        });
+        page.on('response', response => {
+          const ip = response.remoteAddress?.()?.ip;
+          if (!ip || blocked) return;
+          try {
+            assertSafeAddress(new URL(response.url()).hostname, ip);
+          } catch (error) {
+            blocked = error;
+            page.close().catch(() => {});
+          }
+        });
+        let response = null;
+        let html = '';
+        try {
+          response = await page.goto(url, { waitUntil: 'networkidle2', timeout });
+          html = await page.content();
+        } catch (error) {
+          if (!blocked) throw error;
+        }
+        if (blocked) throw blocked;
+        return { html: html.substring(0, MAX_HTML_LENGTH), finalUrl: page.url(), status: response ? response.status() : 0 };
+      } finally {
+        await page.close().catch(() => {});
+      }
+    }
+  };
+}
+
+export const headlessFetcher = createHeadlessFetcher();
@@ -0,0 +1,10 @@
+// Düz HTTP fetcher: sunucunun gönderdiği HTML'i JavaScript çalıştırmadan alır
+import { fetchSiteContent } from '../fetch.js';
+
+export const httpFetcher = {
+  name: 'http',
+  async fetch(url) {
+    const html = await fetchSiteContent(url);
+    return { html, finalUrl: url };
+  }
+};
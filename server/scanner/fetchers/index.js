@@ -0,0 +1,90 @@
+// Fetcher kayıt defteri ve render karşılaştırması
+//
+// Her fetcher { name, fetch(url, options) } biçimindedir; fetch { html, finalUrl } döner.
+// SCANNER_FETCHER: http (varsayılan), auto (yalnızca boş uygulama kabuğu görünen sayfaları render et)
+// ya da kayıtlı bir render fetcher'ının adı (ör. headless) — bu durumda her sayfa render edilir.
+import { auditHTML, parseDocument } from '../audit.js';
+import { extractMainText, tokenize } from '../content.js';
+import { httpFetcher } from './http.js';
+import { headlessFetcher } from './headless.js';
+
+export const DEFAULT_RENDERER = 'headless';
+const SHELL_MAX_WORDS = 50;
+
+const registry = new Map();
+
+export function registerFetcher(fetcher) {
+  if (!fetcher?.name || typeof fetcher.fetch !== 'function') {
+    throw new Error('Fetcher must have a name and a fetch function');
+  }
+  registry.set(fetcher.name, fetcher);
+}
+
+export const getFetcher = (name) => registry.get(name) || null;
+
+registerFetcher(httpFetcher);
+registerFetcher(headlessFetcher);
+
+export const fetcherMode = () => (process.env.SCANNER_FETCHER || 'http').toLowerCase();
+
+// Gövdesinde neredeyse metin olmayan ama script yükleyen sayfa (SPA kabuğu)
+export function looksLikeAppShell(html) {
+  if (!html) return false;
+  const root = parseDocument(html);
+  if (!root.querySelector('script[src]') && !root.querySelector('script:not([type="application/ld+json"])')) return false;
+  return tokenize(extractMainText(html)).length < SHELL_MAX_WORDS;
+}
+
+const snapshot = (html, url) => {
+  const audit = auditHTML(html, url);
+  return {
+    title: audit.title || null,
+    metaDescription: audit.meta.description || null,
+    h1: audit.headings.filter(h => h.level === 1).map(h => h.text),
+    canonical: audit.canonical || null,
+    wordCount: html ? tokenize(extractMainText(html)).length : 0,
+    linkCount: audit.links.internal.length + audit.links.external.length,
+    structuredDataTypes: audit.structuredData.types
+  };
+};
+
+// Ham (HTTP) ve render edilmiş HTML arasında SEO açısından önemli farklar
+export function compareRendered(rawHtml, renderedHtml, url) {
+  const raw = snapshot(rawHtml, url);
+  const rendered = snapshot(renderedHtml, url);
+  const changed = Object.keys(raw).filter(key => JSON.stringify(raw[key]) !== JSON.stringify(rendered[key]));
+  return { changed, raw, rendered };
+}
+
+export async function fetchDocument(url, { mode = fetcherMode() } = {}) {
+  const raw = await httpFetcher.fetch(url);
+  const result = {
+    html: raw.html,
+    rawHtml: raw.html,
+    fetcher: httpFetcher.name,
+    mode,
+    fallbackReason: null,
+    renderDiff: null
+  };
+  if (mode === httpFetcher.name) return result;
+  if (mode === 'auto' && !looksLikeAppShell(raw.html)) return result;
+
+  const renderer = getFetcher(mode === 'auto' ? DEFAULT_RENDERER : mode);
+  if (!renderer) {
+    result.fallbackReason = `unknown-fetcher:${mode}`;
+    return result;
+  }
+
+  // Render başarısız olursa ham HTML ile devam edilir; neden rapora yazılır
+  try {
+    const rendered = await renderer.fetch(url);
+    if (!rendered.html) throw new Error('empty-render');
+    result.html = rendered.html;
+    result.fetcher = renderer.name;
+    result.renderDiff = compareRendered(raw.html, rendered.html, url);
+  } catch (error) {
+    console.error(`[ERROR] ${renderer.name} fetch failed:`, error.message);
+    result.fallbackReason = error.name === 'TimeoutError' ? 'timeout' : error.message;
+  }
+  return result;
+}
@@ -0,0 +1,142 @@
+// hreflang ve canonical tutarlılık denetimi (alternatif sayfalar da getirilir)
+import { fetchPage } from './fetch.js';
+import { auditHTML } from './audit.js';
+import { mapWithConcurrency } from './concurrency.js';
+
+const ALTERNATE_LIMIT = 10;
+const ALTERNATE_CONCURRENCY = 4;
+const ALTERNATE_TIMEOUT = 8000;
+
+// ISO 639-1 dil kodları
+const LANGUAGES = new Set((
+  'aa ab ae af ak am an ar as av ay az ba be bg bh bi bm bn bo br bs ca ce ch co cr cs cu cv cy da de dv dz ee el en eo es et eu ' +
+  'fa ff fi fj fo fr fy ga gd gl gn gu gv ha he hi ho hr ht hu hy hz ia id ie ig ii ik io is it iu ja jv ka kg ki kj kk kl km kn ' +
+  'ko kr ks ku kv kw ky la lb lg li ln lo lt lu lv mg mh mi mk ml mn mr ms mt my na nb nd ne ng nl nn no nr nv ny oc oj om or os ' +
+  'pa pi pl ps pt qu rm rn ro ru rw sa sc sd se sg si sk sl sm sn so sq sr ss st su sv sw ta te tg th ti tk tl tn to tr ts tt tw ' +
+  'ty ug uk ur uz ve vi vo wa wo xh yi yo za zh zu'
+).split(' '));
+
+// ISO 3166-1 alpha-2 bölge kodları
+const REGIONS = new Set((
+  'ad ae af ag ai al am ao aq ar as at au aw ax az ba bb bd be bf bg bh bi bj bl bm bn bo bq br bs bt bv bw by bz ca cc cd cf cg ' +
+  'ch ci ck cl cm cn co cr cu cv cw cx cy cz de dj dk dm do dz ec ee eg eh er es et fi fj fk fm fo fr ga gb gd ge gf gg gh gi gl ' +
+  'gm gn gp gq gr gs gt gu gw gy hk hm hn hr ht hu id ie il im in io iq ir is it je jm jo jp ke kg kh ki km kn kp kr kw ky kz la ' +
+  'lb lc li lk lr ls lt lu lv ly ma mc md me mf mg mh mk ml mm mn mo mp mq mr ms mt mu mv mw mx my mz na nc ne nf ng ni nl no np ' +
+  'nr nu nz om pa pe pf pg ph pk pl pm pn pr ps pt pw py qa re ro rs ru rw sa sb sc sd se sg sh si sj sk sl sm sn so sr ss st sv ' +
+  'sx sy sz tc td tf tg th tj tk tl tm tn to tr tt tv tw tz ua ug um us uy uz va vc ve vg vi vn vu wf ws ye yt za zm zw'
+).split(' '));
+
+// hreflang değeri: dil[-Script][-BÖLGE] ya da x-default
+export function isValidHreflang(value) {
+  const code = (value || '').trim().toLowerCase();
+  if (code === 'x-default') return true;
+  const match = code.match(/^([a-z]{2})(?:-([a-z]{4}))?(?:-([a-z]{2}|\d{3}))?$/);
+  if (!match) return false;
+  return LANGUAGES.has(match[1]) && (!match[3] || /^\d{3}$/.test(match[3]) || REGIONS.has(match[3]));
+}
+
+const normalizeUrl = (value) => {
+  try {
+    const u = new URL(value);
+    u.hash = '';
+    return u.toString();
+  } catch {
+    return null;
+  }
+};
+
+function checkCanonical(pageUrl, audit) {
+  const canonical = audit.canonical ? normalizeUrl(audit.canonical) : null;
+  const result = {
+    url: canonical,
+    present: !!canonical,
+    selfReferencing: canonical === pageUrl,
+    crossOrigin: !!canonical && new URL(canonical).origin !== new URL(pageUrl).origin,
+    target: null,
+    issues: []
+  };
+
+  if (!canonical) result.issues.push('missing');
+  else if (!result.selfReferencing) result.issues.push('not-self-referencing');
+  if (result.crossOrigin) result.issues.push('cross-origin');
+  return result;
+}
+
+// Alternatif sayfayı getir: durum, geri dönüş bağlantısı ve kendi canonical'ı
+async function inspectAlternate(alternate, pageUrl, pageCanonical) {
+  const page = await fetchPage(alternate.href, { timeout: ALTERNATE_TIMEOUT });
+  const result = { ...alternate, status: page.status, error: page.error, reciprocal: false, canonical: null, canonicalMatches: null };
+  if (!page.ok || !page.body) return result;
+
+  const audit = auditHTML(page.body, page.finalUrl);
+  const returnTargets = new Set([pageUrl, pageCanonical].filter(Boolean));
+  result.reciprocal = audit.hreflang.some(h => returnTargets.has(normalizeUrl(h.href)));
+  result.canonical = audit.canonical ? normalizeUrl(audit.canonical) : null;
+  result.canonicalMatches = !result.canonical || result.canonical === alternate.href;
+  return result;
+}
+
+export async function checkHreflangAndCanonical(url, audit) {
+  const pageUrl = normalizeUrl(url);
+  const canonical = checkCanonical(pageUrl, audit);
+
+  // Canonical başka bir URL'yi gösteriyorsa hedefin erişilebilir ve kendi kendine kanonik olduğunu doğrula
+  if (canonical.present && !canonical.selfReferencing) {
+    const target = await fetchPage(canonical.url, { timeout: ALTERNATE_TIMEOUT });
+    const targetCanonical = target.ok && target.body ? auditHTML(target.body, target.finalUrl).canonical : null;
+    canonical.target = {
+      status: target.status,
+      error: target.error,
+      canonical: targetCanonical ? normalizeUrl(targetCanonical) : null
+    };
+    if (!target.ok) canonical.issues.push('target-unreachable');
+    else if (canonical.target.canonical && canonical.target.canonical !== canonical.url) canonical.issues.push('target-not-canonical');
+  }
+
+  const entries = audit.hreflang
+    .map(h => ({ lang: h.lang, href: h.href ? normalizeUrl(h.href) : null }))
+    .filter(h => h.href);
+
+  const hreflang = {
+    present: entries.length > 0,
+    count: entries.length,
+    xDefault: entries.some(h => h.lang.toLowerCase() === 'x-default'),
+    selfReference: entries.some(h => h.href === pageUrl || h.href === canonical.url),
+    invalidCodes: entries.filter(h => !isValidHreflang(h.lang)),
+    duplicateLangs: [],
+    alternates: [],
+    missingReturnLinks: [],
+    truncated: false,
+    issues: []
+  };
+
+  if (!hreflang.present) return { canonical, hreflang, checkedAt: new Date().toISOString() };
+
+  const byLang = new Map();
+  for (const h of entries) {
+    const key = h.lang.toLowerCase();
+    byLang.set(key, new Set([...(byLang.get(key) || []), h.href]));
+  }
+  hreflang.duplicateLangs = [...byLang.entries()].filter(([, urls]) => urls.size > 1).map(([lang]) => lang);
+
+  const others = [...new Map(entries
+    .filter(h => h.href !== pageUrl && h.href !== canonical.url)
+    .map(h => [h.href, h])).values()];
+  hreflang.truncated = others.length > ALTERNATE_LIMIT;
+  hreflang.alternates = await mapWithConcurrency(
+    others.slice(0, ALTERNATE_LIMIT),
+    ALTERNATE_CONCURRENCY,
+    alternate => inspectAlternate(alternate, pageUrl, canonical.url)
+  );
+  hreflang.missingReturnLinks = hreflang.alternates.filter(a => a.status >= 200 && a.status < 400 && !a.error && !a.reciprocal).map(a => a.href);
+
+  if (!hreflang.xDefault) hreflang.issues.push('missing-x-default');
+  if (!hreflang.selfReference) hreflang.issues.push('missing-self-reference');
+  if (hreflang.invalidCodes.length) hreflang.issues.push('invalid-codes');
+  if (hreflang.duplicateLangs.length) hreflang.issues.push('duplicate-langs');
+  if (hreflang.missingReturnLinks.length) hreflang.issues.push('missing-return-links');
+  if (hreflang.alternates.some(a => a.error || a.status >= 400)) hreflang.issues.push('alternate-unreachable');
+  if (hreflang.alternates.some(a => a.canonicalMatches === false)) hreflang.issues.push('alternate-canonical-mismatch');
+
+  return { canonical, hreflang, checkedAt: new Date().toISOString() };
+}
@@ -0,0 +1,103 @@
+import http from 'node:http';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { checkHreflangAndCanonical, isValidHreflang } from './hreflang.js';
+import { hreflangRules } from './rules/hreflang.js';
+import { auditHTML } from './audit.js';
+
+describe('isValidHreflang', () => {
+  it('accepts language, script and region subtags', () => {
+    expect(['tr', 'tr-TR', 'en-gb', 'zh-Hant-TW', 'es-419', 'x-default', ' EN '].every(isValidHreflang)).toBe(true);
+  });
+
+  it('rejects unknown codes and the common mistakes', () => {
+    expect(['en-UK', 'eng', 'xx', 'tr_TR', 'tr-', '', null].some(isValidHreflang)).toBe(false);
+  });
+});
+
+describe('checkHreflangAndCanonical against a local site', () => {
+  // Yol → HTML; listede olmayan yollar 404 döner
+  let pages = {};
+  const server = http.createServer((req, res) => {
+    const html = pages[req.url];
+    res.writeHead(html === undefined ? 404 : 200, { 'Content-Type': 'text/html' });
+    res.end(html ?? '');
+  });
+  let base;
+
+  const head = (...tags) => `<html><head>${tags.join('')}</head><body></body></html>`;
+  const alt = (lang, path) => `<link rel="alternate" hreflang="${lang}" href="${base}${path}">`;
+  const canonical = (path) => `<link rel="canonical" href="${base}${path}">`;
+  const check = (path) => checkHreflangAndCanonical(`${base}${path}`, auditHTML(pages[path], `${base}${path}`));
+
+  beforeAll(async () => {
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${server.address().port}`;
+  });
+  afterAll(() => new Promise(resolve => server.close(resolve)));
+  beforeEach(() => vi.stubEnv('SCANNER_ALLOW_PRIVATE_HOSTS', 'true'));
+  afterEach(() => vi.unstubAllEnvs());
+
+  it('passes a complete, reciprocal hreflang set', async () => {
+    const set = [alt('tr-TR', '/tr'), alt('en', '/en'), alt('x-default', '/tr')];
+    pages = { '/tr': head(canonical('/tr'), ...set), '/en': head(canonical('/en'), ...set) };
+
+    const result = await check('/tr');
+    expect(result.canonical).toMatchObject({ present: true, selfReferencing: true, issues: [] });
+    expect(result.hreflang).toMatchObject({ present: true, count: 3, xDefault: true, selfReference: true, issues: [] });
+    expect(result.hreflang.alternates).toEqual([expect.objectContaining({ href: `${base}/en`, status: 200, reciprocal: true, canonicalMatches: true })]);
+  });
+
+  it('reports missing return links, unreachable alternates and canonical mismatches', async () => {
+    pages = {
+      '/tr': head(canonical('/tr'), alt('tr', '/tr'), alt('tr', '/tr-2'), alt('en-UK', '/en'), alt('de', '/de'), alt('fr', '/fr')),
+      '/en': head(canonical('/en')),
+      '/fr': head(canonical('/tr'), alt('tr', '/tr'))
+    };
+
+    const { hreflang } = await check('/tr');
+    expect(hreflang.issues).toEqual([
+      'missing-x-default', 'invalid-codes', 'duplicate-langs', 'missing-return-links', 'alternate-unreachable', 'alternate-canonical-mismatch'
+    ]);
+    expect(hreflang.invalidCodes).toEqual([{ lang: 'en-UK', href: `${base}/en` }]);
+    expect(hreflang.duplicateLangs).toEqual(['tr']);
+    // Erişilemeyen sayfa geri bağlantı eksikleri arasında sayılmaz
+    expect(hreflang.missingReturnLinks).toEqual([`${base}/en`]);
+    expect(hreflang.alternates.find(a => a.href === `${base}/tr-2`)).toMatchObject({ status: 404, reciprocal: false });
+  });
+
+  it('follows a canonical that points elsewhere and checks its target', async () => {
+    pages = {
+      '/page': head(canonical('/moved')),
+      '/duplicate': head(canonical('/main')),
+      '/main': head(canonical('/other'))
+    };
+
+    expect((await check('/page')).canonical).toMatchObject({ selfReferencing: false, issues: ['not-self-referencing', 'target-unreachable'], target: { status: 404 } });
+    expect((await check('/duplicate')).canonical.issues).toEqual(['not-self-referencing', 'target-not-canonical']);
+
+    pages = { '/bare': head() };
+    expect((await check('/bare')).canonical.issues).toEqual(['missing']);
+  });
+});
+
+describe('hreflang rules', () => {
+  const check = (id, alternates) => hreflangRules.find(rule => rule.id === id).check({ alternates });
+
+  it('gives no credit for a broken canonical target and half for another page', () => {
+    const canonical = (issues) => ({ canonical: { present: true, url: 'https://example.com/a', issues } });
+    expect(check('canonical-self-reference', canonical(['not-self-referencing']))).toMatchObject({ passed: false, ratio: 0.5, params: { broken: false } });
+    expect(check('canonical-self-reference', canonical(['not-self-referencing', 'target-unreachable']))).toMatchObject({ ratio: 0, params: { broken: true } });
+    expect(check('canonical-self-reference', { canonical: { present: false } })).toBeNull();
+  });
+
+  it('scores reciprocity by the share of healthy alternates', () => {
+    const alternates = [
+      { reciprocal: true, status: 200, canonicalMatches: true },
+      { reciprocal: true, status: 200, canonicalMatches: false },
+      { reciprocal: false, status: 404, error: null },
+      { reciprocal: true, status: 200, canonicalMatches: null }
+    ];
+    expect(check('hreflang-reciprocal', { hreflang: { alternates } })).toEqual({ passed: false, ratio: 0.5, params: { bad: 2, total: 4 } });
+    expect(check('hreflang-reciprocal', { hreflang: { alternates: [] } })).toBeNull();
+  });
+});
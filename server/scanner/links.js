@@ -0,0 +1,99 @@
+// Kırık bağlantı, yönlendirme zinciri ve mixed content tespiti
+import fetch from 'node-fetch';
+import { DEFAULT_HEADERS, CRAWLER_USER_AGENT } from './fetch.js';
+import { mapWithConcurrency } from './concurrency.js';
+import { safeAgent } from './safety.js';
+
+export const LINK_CHECK_DEFAULTS = {
+  maxLinks: 100,
+  concurrency: 6,
+  timeout: 6000,
+  maxHops: 5
+};
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// Tek istek; HEAD desteklenmiyorsa GET ile tekrar dene (yönlendirmeler elle izlenir)
+async function requestOnce(url, timeout) {
+  const options = { redirect: 'manual', agent: safeAgent, headers: { ...DEFAULT_HEADERS, 'User-Agent': CRAWLER_USER_AGENT } };
+
+  let response = await fetch(url, { ...options, method: 'HEAD', signal: AbortSignal.timeout(timeout) });
+  if (response.status === 405 || response.status === 501 || response.status === 403) {
+    response = await fetch(url, { ...options, signal: AbortSignal.timeout(timeout) });
+  }
+  response.body?.resume?.();
+  return response;
+}
+
+// Bağlantıyı hop hop izle: { status, finalUrl, chain[{url, status}], error }
+export async function resolveLink(url, { timeout = LINK_CHECK_DEFAULTS.timeout, maxHops = LINK_CHECK_DEFAULTS.maxHops } = {}) {
+  const chain = [];
+  let current = url;
+
+  try {
+    for (let hop = 0; hop <= maxHops; hop++) {
+      const response = await requestOnce(current, timeout);
+      chain.push({ url: current, status: response.status });
+
+      const location = response.headers.get('location');
+      if (!REDIRECT_STATUSES.has(response.status) || !location) {
+        return { status: response.status, finalUrl: current, chain, error: null };
+      }
+
+      const next = new URL(location, current).toString();
+      if (chain.some(step => step.url === next)) {
+        return { status: response.status, finalUrl: next, chain, error: 'redirect-loop' };
+      }
+      current = next;
+    }
+    return { status: chain[chain.length - 1].status, finalUrl: current, chain, error: 'too-many-redirects' };
+  } catch (error) {
+    const timedOut = error.name === 'TimeoutError' || error.name === 'AbortError';
+    return { status: 0, finalUrl: current, chain, error: timedOut ? 'timeout' : error.message };
+  }
+}
+
+// Sayfadaki iç ve dış bağlantıları kontrol et
+export async function checkLinks(pageUrl, audit, options = {}) {
+  const opts = { ...LINK_CHECK_DEFAULTS, ...options };
+  const pageIsHttps = new URL(pageUrl).protocol === 'https:';
+
+  const links = [
+    ...audit.links.internal.map(link => ({ ...link, internal: true })),
+    ...audit.links.external.map(link => ({ ...link, internal: false }))
+  ];
+  const toCheck = links.slice(0, opts.maxLinks);
+
+  const results = await mapWithConcurrency(toCheck, opts.concurrency, async (link) => {
+    const resolved = await resolveLink(link.url, opts);
+    const redirects = resolved.chain.filter(step => REDIRECT_STATUSES.has(step.status)).length;
+    return {
+      url: link.url,
+      text: link.text,
+      internal: link.internal,
+      status: resolved.status,
+      finalUrl: resolved.finalUrl,
+      redirects,
+      chain: redirects > 0 ? resolved.chain : undefined,
+      error: resolved.error
+    };
+  });
+
+  const broken = results.filter(r => r.error || r.status >= 400);
+  const redirectChains = results.filter(r => !r.error && r.redirects > 1);
+  const mixedContent = pageIsHttps
+    ? results.filter(r => r.url.startsWith('http://') || (r.finalUrl && r.finalUrl.startsWith('http://')))
+    : [];
+
+  return {
+    total: links.length,
+    checked: results.length,
+    truncated: links.length > results.length,
+    okCount: results.filter(r => !r.error && r.status >= 200 && r.status < 300 && r.redirects === 0).length,
+    redirectedCount: results.filter(r => !r.error && r.redirects > 0).length,
+    broken: broken.map(({ url, text, internal, status, error }) => ({ url, text, internal, status, error })),
+    redirectChains: redirectChains.map(({ url, internal, chain, finalUrl }) => ({ url, internal, hops: chain.length - 1, chain, finalUrl })),
+    mixedContent: mixedContent.map(({ url, internal, finalUrl }) => ({ url, internal, finalUrl })),
+    checkedAt: new Date().toISOString()
+  };
+}
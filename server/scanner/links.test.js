@@ -0,0 +1,109 @@
+import http from 'node:http';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { checkLinks, resolveLink } from './links.js';
+import { linkRules } from './rules/links.js';
+import { auditHTML } from './audit.js';
+
+describe('link checks against a local site', () => {
+  const redirects = { '/moved': '/ok', '/r1': '/r2', '/r2': '/r3', '/r3': '/ok', '/loop-a': '/loop-b', '/loop-b': '/loop-a' };
+  const server = http.createServer((req, res) => {
+    if (redirects[req.url]) {
+      res.writeHead(301, { Location: redirects[req.url] });
+      return res.end();
+    }
+    // Yanıt vermeyen sunucu: zaman aşımı
+    if (req.url === '/slow') return;
+    if (req.url === '/ok') res.writeHead(200);
+    // HEAD'i reddeden sunucularda GET ile tekrar denenir
+    else if (req.url === '/head-forbidden') res.writeHead(req.method === 'HEAD' ? 403 : 200);
+    else res.writeHead(404);
+    res.end();
+  });
+  let base;
+
+  beforeAll(async () => {
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${server.address().port}`;
+  });
+  afterAll(() => {
+    server.closeAllConnections();
+    return new Promise(resolve => server.close(resolve));
+  });
+  beforeEach(() => vi.stubEnv('SCANNER_ALLOW_PRIVATE_HOSTS', 'true'));
+  afterEach(() => vi.unstubAllEnvs());
+
+  describe('resolveLink', () => {
+    it('follows redirects hop by hop', async () => {
+      expect(await resolveLink(`${base}/r1`)).toEqual({
+        status: 200,
+        finalUrl: `${base}/ok`,
+        chain: [
+          { url: `${base}/r1`, status: 301 },
+          { url: `${base}/r2`, status: 301 },
+          { url: `${base}/r3`, status: 301 },
+          { url: `${base}/ok`, status: 200 }
+        ],
+        error: null
+      });
+    });
+
+    it('stops on loops, long chains and timeouts', async () => {
+      expect(await resolveLink(`${base}/loop-a`)).toMatchObject({ finalUrl: `${base}/loop-a`, error: 'redirect-loop' });
+      expect(await resolveLink(`${base}/r1`, { maxHops: 1 })).toMatchObject({ status: 301, error: 'too-many-redirects' });
+      expect(await resolveLink(`${base}/slow`, { timeout: 200 })).toMatchObject({ status: 0, error: 'timeout' });
+    });
+
+    it('retries with GET when HEAD is refused', async () => {
+      expect(await resolveLink(`${base}/head-forbidden`)).toMatchObject({ status: 200, error: null });
+    });
+
+    it('does not reach private addresses unless allowed', async () => {
+      vi.unstubAllEnvs();
+      const result = await resolveLink(`${base}/ok`);
+      expect(result.status).toBe(0);
+      expect(result.error).toMatch(/engellendi/);
+    });
+  });
+
+  describe('checkLinks', () => {
+    it('summarizes broken links and multi-hop redirect chains', async () => {
+      const audit = auditHTML(`
+        <a href="/ok">Tamam</a><a href="/moved">Taşındı</a><a href="/r1">Zincir</a>
+        <a href="/gone">Kırık</a><a href="/loop-a">Döngü</a>`, `${base}/`);
+
+      const result = await checkLinks(`${base}/`, audit);
+      expect(result).toMatchObject({ total: 5, checked: 5, truncated: false, okCount: 1, redirectedCount: 2, mixedContent: [] });
+      expect(result.broken).toEqual([
+        { url: `${base}/gone`, text: 'Kırık', internal: true, status: 404, error: null },
+        { url: `${base}/loop-a`, text: 'Döngü', internal: true, status: 301, error: 'redirect-loop' }
+      ]);
+      expect(result.redirectChains).toEqual([expect.objectContaining({ url: `${base}/r1`, hops: 3, finalUrl: `${base}/ok` })]);
+    });
+
+    it('flags HTTP links on an HTTPS page and respects the link limit', async () => {
+      const audit = { links: { internal: [], external: [{ url: `${base}/ok`, text: 'a' }, { url: `${base}/moved`, text: 'b' }] } };
+
+      const result = await checkLinks('https://example.com/', audit, { maxLinks: 1 });
+      expect(result).toMatchObject({ total: 2, checked: 1, truncated: true });
+      expect(result.mixedContent).toEqual([{ url: `${base}/ok`, internal: false, finalUrl: `${base}/ok` }]);
+    });
+  });
+});
+
+describe('link rules', () => {
+  const check = (id, context) => linkRules.find(rule => rule.id === id).check(context);
+  const linkCheck = (overrides = {}) => ({ checked: 20, broken: [], redirectChains: [], mixedContent: [], ...overrides });
+
+  it('loses all credit once a fifth of the links are broken', () => {
+    const broken = (count) => Array.from({ length: count }, (_, i) => ({ internal: i === 0 }));
+    expect(check('broken-links', { linkCheck: linkCheck({ broken: broken(2) }) })).toEqual({ passed: false, ratio: 0.5, params: { broken: 2, internal: 1, checked: 20 } });
+    expect(check('broken-links', { linkCheck: linkCheck({ broken: broken(6) }) }).ratio).toBe(0);
+    expect(check('broken-links', { linkCheck: linkCheck({ checked: 0 }) })).toBeNull();
+  });
+
+  it('checks mixed content only on HTTPS pages', () => {
+    const context = { linkCheck: linkCheck({ mixedContent: [{}] }) };
+    expect(check('mixed-content-links', { ...context, url: 'https://example.com/' })).toEqual({ passed: false, params: { count: 1 } });
+    expect(check('mixed-content-links', { ...context, url: 'http://example.com/' })).toBeNull();
+  });
+});
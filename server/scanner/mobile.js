@@ -0,0 +1,197 @@
+// Mobil uyumluluk denetimi: viewport, sabit genişlikler, dokunma hedefleri, yazı boyutu ve mobil UA karşılaştırması
+import { fetchPage, MOBILE_USER_AGENT } from './fetch.js';
+import { parseDocument, auditDocument } from './audit.js';
+
+const FIXED_WIDTH_LIMIT = 480;
+const MIN_FONT_PX = 12;
+const MIN_TAP_TARGET_PX = 24;
+
+const cleanText = (value) => (value || '').replace(/\s+/g, ' ').trim();
+
+// CSS uzunluğunu px'e çevir (yalnızca px/em/rem/pt desteklenir)
+const toPx = (value) => {
+  const match = String(value || '').trim().match(/^([\d.]+)(px|em|rem|pt)?$/i);
+  if (!match) return null;
+  const number = Number(match[1]);
+  switch ((match[2] || 'px').toLowerCase()) {
+    case 'em':
+    case 'rem':
+      return number * 16;
+    case 'pt':
+      return number * (4 / 3);
+    default:
+      return number;
+  }
+};
+
+const declarations = (css) => [...(css || '').matchAll(/(?:^|[;{\s])(width|min-width|font-size|height|min-height)\s*:\s*([^;}!]+)/gi)]
+  .map(match => ({ prop: match[1].toLowerCase(), value: match[2].trim() }));
+
+// @media bloklarını çıkar; kalan kurallar tüm ekranlara uygulanır
+const stripMediaBlocks = (css) => {
+  let result = '';
+  let depth = 0;
+  let inMedia = false;
+  for (let i = 0; i < css.length; i++) {
+    if (!inMedia && css.startsWith('@media', i)) {
+      inMedia = true;
+      depth = 0;
+    }
+    const ch = css[i];
+    if (inMedia) {
+      if (ch === '{') depth++;
+      if (ch === '}' && --depth === 0) inMedia = false;
+      continue;
+    }
+    result += ch;
+  }
+  return result;
+};
+
+export function parseViewport(content) {
+  if (content === null || content === undefined) return null;
+  const values = Object.fromEntries(
+    content.split(/[,;]/)
+      .map(part => part.split('=').map(s => s.trim().toLowerCase()))
+      .filter(([key]) => key)
+  );
+  const maxScale = values['maximum-scale'] !== undefined ? Number(values['maximum-scale']) : null;
+  return {
+    content,
+    deviceWidth: values.width === 'device-width',
+    initialScale: values['initial-scale'] !== undefined ? Number(values['initial-scale']) : null,
+    zoomDisabled: values['user-scalable'] === 'no' || values['user-scalable'] === '0' || (maxScale !== null && maxScale < 2)
+  };
+}
+
+function checkLayout(root) {
+  const inlineFixed = [];
+  const smallFonts = [];
+
+  for (const el of root.querySelectorAll('[style]')) {
+    for (const { prop, value } of declarations(el.getAttribute('style'))) {
+      const px = toPx(value);
+      if (px === null) continue;
+      if ((prop === 'width' || prop === 'min-width') && px > FIXED_WIDTH_LIMIT) {
+        inlineFixed.push(`<${el.tagName.toLowerCase()}> ${prop}: ${value}`);
+      }
+      if (prop === 'font-size' && px < MIN_FONT_PX && cleanText(el.text)) {
+        smallFonts.push(`<${el.tagName.toLowerCase()}> font-size: ${value}`);
+      }
+    }
+  }
+
+  for (const table of root.querySelectorAll('table[width]')) {
+    const px = toPx(table.getAttribute('width'));
+    if (px !== null && px > FIXED_WIDTH_LIMIT) inlineFixed.push(`<table width="${table.getAttribute('width')}">`);
+  }
+
+  // <style> bloklarında medya sorgusu dışında kalan sabit genişlik / küçük yazı bildirimleri
+  const styleFixed = [];
+  for (const style of root.querySelectorAll('style')) {
+    for (const { prop, value } of declarations(stripMediaBlocks(style.text))) {
+      const px = toPx(value);
+      if (px === null) continue;
+      if ((prop === 'width' || prop === 'min-width') && px > FIXED_WIDTH_LIMIT) styleFixed.push(`${prop}: ${value}`);
+      if (prop === 'font-size' && px < MIN_FONT_PX) smallFonts.push(`<style> font-size: ${value}`);
+    }
+  }
+
+  return { fixedWidths: [...inlineFixed, ...styleFixed], smallFonts };
+}
+
+// Inline boyutu verilmiş bağlantı/butonlardan küçük olanlar (tam ölçüm render gerektirir; bu bir ipucudur)
+function checkTapTargets(root) {
+  const targets = root.querySelectorAll('a[href], button, input[type="button"], input[type="submit"], [role="button"]');
+  const small = [];
+  for (const el of targets) {
+    const sizes = Object.fromEntries(declarations(el.getAttribute('style')).map(d => [d.prop, toPx(d.value)]));
+    const height = sizes['min-height'] ?? sizes.height;
+    const width = sizes['min-width'] ?? sizes.width;
+    if ((height != null && height < MIN_TAP_TARGET_PX) || (width != null && width < MIN_TAP_TARGET_PX)) {
+      small.push(`<${el.tagName.toLowerCase()}> ${cleanText(el.text).substring(0, 40) || el.getAttribute('href') || ''}`.trim());
+    }
+  }
+  return { total: targets.length, small };
+}
+
+// Masaüstü ve mobil UA ile sunulan HTML'i karşılaştır
+function compareServed(desktopAudit, mobilePage, mobileAudit, url) {
+  if (!mobilePage.ok || !mobileAudit) {
+    return { fetched: false, status: mobilePage.status, error: mobilePage.error, differences: ['mobile-fetch-failed'] };
+  }
+
+  const differences = [];
+  if (new URL(mobilePage.finalUrl).host !== new URL(url).host) differences.push('separate-mobile-host');
+  if (desktopAudit.title && !mobileAudit.title) differences.push('title-missing');
+  else if (desktopAudit.title !== mobileAudit.title) differences.push('title-differs');
+
+  const h1 = (a) => a.headings.filter(h => h.level === 1).length;
+  if (h1(desktopAudit) > 0 && h1(mobileAudit) === 0) differences.push('h1-missing');
+  if (desktopAudit.meta.description && !mobileAudit.meta.description) differences.push('meta-description-missing');
+  if (desktopAudit.structuredData.types.length > mobileAudit.structuredData.types.length) differences.push('structured-data-missing');
+
+  const desktopLinks = desktopAudit.links.internal.length;
+  const mobileLinks = mobileAudit.links.internal.length;
+  if (desktopLinks > 10 && mobileLinks < desktopLinks * 0.5) differences.push('fewer-internal-links');
+
+  return {
+    fetched: true,
+    status: mobilePage.status,
+    finalUrl: mobilePage.finalUrl,
+    differences,
+    desktop: { title: desktopAudit.title, h1Count: h1(desktopAudit), internalLinks: desktopLinks },
+    mobile: { title: mobileAudit.title, h1Count: h1(mobileAudit), internalLinks: mobileLinks }
+  };
+}
+
+// Ceza tabanlı mobil skor
+export function scoreMobile({ viewport, layout, tapTargets, served }) {
+  const penalties = [];
+  const penalize = (id, points) => {
+    if (points > 0) penalties.push({ id, points });
+  };
+
+  penalize('viewport-missing', viewport ? 0 : 40);
+  penalize('viewport-width', viewport && !viewport.deviceWidth ? 20 : 0);
+  penalize('zoom-disabled', viewport?.zoomDisabled ? 10 : 0);
+  penalize('fixed-width', Math.min(layout.fixedWidths.length * 5, 20));
+  penalize('small-fonts', Math.min(layout.smallFonts.length * 3, 15));
+  penalize('tap-targets', Math.min(tapTargets.small.length * 2, 10));
+  penalize('mobile-fetch', served.fetched ? 0 : 10);
+  penalize('content-parity', Math.min(served.differences.filter(d => d !== 'mobile-fetch-failed' && d !== 'separate-mobile-host' && d !== 'title-differs').length * 5, 15));
+
+  return { score: Math.max(0, 100 - penalties.reduce((sum, p) => sum + p.points, 0)), penalties };
+}
+
+export async function auditMobile(url, desktopHtml) {
+  const mobilePage = await fetchPage(url, { userAgent: MOBILE_USER_AGENT, timeout: 15000 });
+  const mobileRoot = mobilePage.ok && mobilePage.body ? parseDocument(mobilePage.body) : null;
+  const desktopRoot = parseDocument(desktopHtml);
+
+  // Mobil tarayıcıya sunulan HTML değerlendirilir; alınamazsa masaüstü HTML'e düşülür
+  const root = mobileRoot || desktopRoot;
+  const viewportEl = root.querySelectorAll('meta').find(el => (el.getAttribute('name') || '').toLowerCase() === 'viewport');
+  const viewport = viewportEl ? parseViewport(viewportEl.getAttribute('content') || '') : null;
+  const layout = checkLayout(root);
+  const tapTargets = checkTapTargets(root);
+  const served = compareServed(
+    auditDocument(desktopRoot, url),
+    mobilePage,
+    mobileRoot ? auditDocument(mobileRoot, mobilePage.finalUrl) : null,
+    url
+  );
+
+  const { score, penalties } = scoreMobile({ viewport, layout, tapTargets, served });
+
+  return {
+    score,
+    penalties,
+    viewport,
+    fixedWidths: layout.fixedWidths.slice(0, 20),
+    smallFonts: layout.smallFonts.slice(0, 20),
+    tapTargets: { total: tapTargets.total, small: tapTargets.small.slice(0, 20), smallCount: tapTargets.small.length },
+    served,
+    checkedAt: new Date().toISOString()
+  };
+}
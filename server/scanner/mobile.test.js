@@ -0,0 +1,120 @@
+import http from 'node:http';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { auditMobile, parseViewport, scoreMobile } from './mobile.js';
+import { mobileRules } from './rules/mobile.js';
+
+describe('parseViewport', () => {
+  it('reads width and scale and detects disabled zoom', () => {
+    expect(parseViewport('width=device-width, initial-scale=1')).toEqual({
+      content: 'width=device-width, initial-scale=1', deviceWidth: true, initialScale: 1, zoomDisabled: false
+    });
+    expect(parseViewport('width=device-width; user-scalable=0').zoomDisabled).toBe(true);
+    expect(parseViewport('width=device-width, maximum-scale=1').zoomDisabled).toBe(true);
+    expect(parseViewport('width=device-width, maximum-scale=5').zoomDisabled).toBe(false);
+    expect(parseViewport('width=1024')).toMatchObject({ deviceWidth: false, initialScale: null });
+    expect(parseViewport(null)).toBeNull();
+  });
+});
+
+describe('scoreMobile', () => {
+  const clean = { viewport: parseViewport('width=device-width'), layout: { fixedWidths: [], smallFonts: [] }, tapTargets: { small: [] }, served: { fetched: true, differences: [] } };
+
+  it('caps each penalty and ignores differences that are not content gaps', () => {
+    expect(scoreMobile(clean)).toEqual({ score: 100, penalties: [] });
+    const result = scoreMobile({
+      viewport: null,
+      layout: { fixedWidths: Array(10).fill('x'), smallFonts: Array(2).fill('x') },
+      tapTargets: { small: Array(9).fill('x') },
+      served: { fetched: true, differences: ['title-differs', 'separate-mobile-host', 'h1-missing'] }
+    });
+    expect(result.penalties).toEqual([
+      { id: 'viewport-missing', points: 40 },
+      { id: 'fixed-width', points: 20 },
+      { id: 'small-fonts', points: 6 },
+      { id: 'tap-targets', points: 10 },
+      { id: 'content-parity', points: 5 }
+    ]);
+    expect(result.score).toBe(19);
+  });
+});
+
+describe('auditMobile against a local site', () => {
+  // Mobil kullanıcı ajanına ayrı HTML sunulabilir; null ise 500 döner
+  let pages = { desktop: '', mobile: '' };
+  const server = http.createServer((req, res) => {
+    const html = /Mobile/.test(req.headers['user-agent'] || '') ? pages.mobile : pages.desktop;
+    res.writeHead(html === null ? 500 : 200, { 'Content-Type': 'text/html' });
+    res.end(html ?? '');
+  });
+  let base;
+
+  const audit = (desktop, mobile = desktop) => {
+    pages = { desktop, mobile };
+    return auditMobile(`${base}/`, desktop);
+  };
+
+  beforeAll(async () => {
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${server.address().port}`;
+  });
+  afterAll(() => new Promise(resolve => server.close(resolve)));
+  beforeEach(() => vi.stubEnv('SCANNER_ALLOW_PRIVATE_HOSTS', 'true'));
+  afterEach(() => vi.unstubAllEnvs());
+
+  it('finds fixed widths, small fonts and small tap targets outside media queries', async () => {
+    const result = await audit(`<html><head>
+      <meta name="viewport" content="width=device-width, initial-scale=1">
+      <style>
+        .wrap { width: 960px; font-size: 0.5rem }
+        @media (min-width: 1024px) { .wide { min-width: 1200px; font-size: 10px } }
+        .ok { max-width: 1200px }
+      </style>
+    </head><body>
+      <div style="width: 600px">Geniş</div>
+      <table width="800"><tr><td>Tablo</td></tr></table>
+      <p style="font-size: 8pt">Küçük yazı</p>
+      <span style="font-size: 9px"></span>
+      <a href="/x" style="height: 20px">Bağlantı</a>
+      <button style="min-width: 48px; width: 10px">Tamam</button>
+    </body></html>`);
+
+    expect(result.viewport).toMatchObject({ deviceWidth: true, zoomDisabled: false });
+    expect(result.fixedWidths).toEqual(['<div> width: 600px', '<table width="800">', 'width: 960px']);
+    expect(result.smallFonts).toEqual(['<p> font-size: 8pt', '<style> font-size: 0.5rem']);
+    expect(result.tapTargets).toEqual({ total: 2, small: ['<a> Bağlantı'], smallCount: 1 });
+    expect(result.served).toMatchObject({ fetched: true, differences: [] });
+  });
+
+  it('audits the HTML served to the mobile user agent and reports content gaps', async () => {
+    const desktop = `<html><head><title>Mağaza</title><meta name="description" content="Açıklama">
+      <meta name="viewport" content="width=device-width"></head><body><h1>Mağaza</h1></body></html>`;
+    const mobile = '<html><head><title>Mobil</title></head><body></body></html>';
+
+    const result = await audit(desktop, mobile);
+    expect(result.viewport).toBeNull();
+    expect(result.served.differences).toEqual(['title-differs', 'h1-missing', 'meta-description-missing']);
+    expect(result.penalties).toContainEqual({ id: 'content-parity', points: 10 });
+  });
+
+  it('falls back to the desktop HTML when the mobile fetch fails', async () => {
+    const desktop = '<html><head><meta name="viewport" content="width=device-width, user-scalable=no"></head></html>';
+    const result = await audit(desktop, null);
+    expect(result.served).toMatchObject({ fetched: false, status: 500, differences: ['mobile-fetch-failed'] });
+    expect(result.viewport.zoomDisabled).toBe(true);
+    expect(result.penalties).toEqual([{ id: 'zoom-disabled', points: 10 }, { id: 'mobile-fetch', points: 10 }]);
+  });
+});
+
+describe('mobile rules', () => {
+  const check = (id, mobile) => mobileRules.find(rule => rule.id === id).check({ mobile });
+
+  it('gives half credit for a device-width viewport that disables zoom', () => {
+    expect(check('viewport-meta', { viewport: parseViewport('width=device-width, maximum-scale=1') })).toEqual({ passed: false, ratio: 0.5, params: { missing: false, zoomDisabled: true } });
+    expect(check('viewport-meta', { viewport: null })).toMatchObject({ passed: false, ratio: 0, params: { missing: true } });
+  });
+
+  it('skips parity when the mobile page was not fetched and ignores title changes', () => {
+    expect(check('mobile-content-parity', { served: { fetched: false, differences: ['mobile-fetch-failed'] } })).toBeNull();
+    expect(check('mobile-content-parity', { served: { fetched: true, differences: ['title-differs', 'h1-missing'] } })).toEqual({ passed: false, params: { gaps: 'h1-missing' } });
+  });
+});
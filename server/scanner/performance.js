@@ -0,0 +1,222 @@
+// Gerçek fetch ölçümlerinden performans metrikleri ve deterministik skor
+import { DEFAULT_HEADERS } from './fetch.js';
+import { parseDocument } from './audit.js';
+import { mapWithConcurrency } from './concurrency.js';
+import { readBody, safeFetch, UrlSafetyError } from './safety.js';
+
+const RESOURCE_LIMIT = 40;
+const RESOURCE_CONCURRENCY = 6;
+const RESOURCE_TIMEOUT = 5000;
+// Ölçüm için indirilecek en fazla bayt; aşılırsa boyut alt sınır olarak kaydedilir (truncated)
+const DOCUMENT_MAX_BYTES = 5 * 1024 * 1024;
+const RESOURCE_MAX_BYTES = 10 * 1024 * 1024;
+const COMPRESSIBLE = /(text\/|javascript|json|xml|svg)/i;
+
+const resolveUrl = (href, baseUrl) => {
+  try {
+    const u = new URL(href, baseUrl);
+    return u.protocol === 'http:' || u.protocol === 'https:' ? u.toString() : null;
+  } catch {
+    return null;
+  }
+};
+
+const hasCacheHeaders = (headers) => {
+  const cacheControl = headers['cache-control'] || '';
+  if (/no-store/i.test(cacheControl)) return false;
+  return /max-age=\d*[1-9]/i.test(cacheControl) || !!headers.expires || !!headers.etag || !!headers['last-modified'];
+};
+
+const errorCode = (error) => (error instanceof UrlSafetyError ? error.code : error.name === 'TimeoutError' ? 'timeout' : error.message);
+
+const pickHeaders = (response) => ({
+  'content-type': response.headers.get('content-type'),
+  'content-length': response.headers.get('content-length'),
+  'content-encoding': response.headers.get('content-encoding'),
+  'cache-control': response.headers.get('cache-control'),
+  expires: response.headers.get('expires'),
+  etag: response.headers.get('etag'),
+  'last-modified': response.headers.get('last-modified')
+});
+
+// Ana dokümanı zamanlayarak indir; compress: false ile aktarılan (sıkıştırılmış) bayt sayısı ölçülür
+export async function measureDocument(url, { timeout = 15000 } = {}) {
+  const startedAt = performance.now();
+  const { response, finalUrl } = await safeFetch(url, {
+    timeout,
+    compress: false,
+    headers: { ...DEFAULT_HEADERS, 'Accept-Encoding': 'gzip, deflate, br' }
+  });
+  const ttfb = performance.now() - startedAt;
+  const { bytes, truncated } = await readBody(response, { maxBytes: DOCUMENT_MAX_BYTES });
+  const total = performance.now() - startedAt;
+  const headers = pickHeaders(response);
+
+  return {
+    status: response.status,
+    finalUrl,
+    ttfbMs: Math.round(ttfb),
+    downloadMs: Math.round(total - ttfb),
+    totalMs: Math.round(total),
+    transferBytes: bytes,
+    truncated,
+    encoding: headers['content-encoding'] || null,
+    compressed: !!headers['content-encoding'] && headers['content-encoding'] !== 'identity',
+    cacheable: hasCacheHeaders(headers),
+    headers
+  };
+}
+
+// Alt kaynağın boyutunu ölç: önce HEAD, content-length yoksa GET ile say
+async function measureResource(resource) {
+  const base = { ...resource, status: 0, bytes: null, truncated: false, compressed: false, cacheable: false, error: null };
+  const options = {
+    timeout: RESOURCE_TIMEOUT,
+    compress: false,
+    headers: { ...DEFAULT_HEADERS, 'Accept': '*/*', 'Accept-Encoding': 'gzip, deflate, br' }
+  };
+
+  try {
+    let { response } = await safeFetch(resource.url, { ...options, method: 'HEAD' });
+    let headers = pickHeaders(response);
+    let bytes = headers['content-length'] !== null ? Number(headers['content-length']) : null;
+    let truncated = false;
+
+    if (!response.ok || bytes === null || Number.isNaN(bytes)) {
+      ({ response } = await safeFetch(resource.url, options));
+      headers = pickHeaders(response);
+      if (response.ok) {
+        ({ bytes, truncated } = await readBody(response, { maxBytes: RESOURCE_MAX_BYTES }));
+      } else {
+        response.body?.resume?.();
+        bytes = null;
+      }
+    }
+
+    return {
+      ...base,
+      status: response.status,
+      bytes,
+      truncated,
+      contentType: headers['content-type'],
+      compressed: !!headers['content-encoding'] && headers['content-encoding'] !== 'identity',
+      compressible: COMPRESSIBLE.test(headers['content-type'] || ''),
+      cacheable: hasCacheHeaders(headers)
+    };
+  } catch (error) {
+    return { ...base, error: errorCode(error) };
+  }
+}
+
+// HTML'den render-blocking script/stylesheet ve görselleri çıkar
+export function collectResources(html, baseUrl) {
+  const root = parseDocument(html);
+  const head = root.querySelector('head') || root;
+
+  const blockingScripts = head.querySelectorAll('script[src]')
+    .filter(el => el.getAttribute('async') === undefined && el.getAttribute('defer') === undefined && el.getAttribute('type') !== 'module')
+    .map(el => ({ kind: 'script', url: resolveUrl(el.getAttribute('src'), baseUrl) }));
+
+  const blockingStyles = root.querySelectorAll('link[rel]')
+    .filter(el => (el.getAttribute('rel') || '').toLowerCase().split(/\s+/).includes('stylesheet'))
+    .filter(el => !/^(print|not all)$/i.test((el.getAttribute('media') || '').trim()) && el.getAttribute('disabled') === undefined)
+    .map(el => ({ kind: 'stylesheet', url: resolveUrl(el.getAttribute('href'), baseUrl) }));
+
+  const images = root.querySelectorAll('img[src]')
+    .map(el => ({ kind: 'image', url: resolveUrl(el.getAttribute('src'), baseUrl), lazy: el.getAttribute('loading') === 'lazy' }));
+
+  const unique = (list) => {
+    const seen = new Set();
+    return list.filter(r => r.url && !seen.has(r.url) && seen.add(r.url));
+  };
+
+  return {
+    blockingScripts: unique(blockingScripts),
+    blockingStyles: unique(blockingStyles),
+    images: unique(images)
+  };
+}
+
+const sumBytes = (list) => list.reduce((sum, r) => sum + (r.bytes || 0), 0);
+
+// Ceza tabanlı, aynı girdiler için her zaman aynı sonucu veren skor
+export function scorePerformance(metrics) {
+  const penalties = [];
+  const penalize = (id, points) => {
+    if (points > 0) penalties.push({ id, points });
+  };
+
+  const { document: doc } = metrics;
+  penalize('ttfb', doc.ttfbMs <= 200 ? 0 : doc.ttfbMs <= 500 ? 5 : doc.ttfbMs <= 1000 ? 12 : doc.ttfbMs <= 2000 ? 20 : 30);
+  penalize('html-size', doc.transferBytes > 500 * 1024 ? 10 : doc.transferBytes > 100 * 1024 ? 5 : 0);
+  penalize('compression', !doc.compressed && doc.transferBytes > 1024 ? 10 : 0);
+  penalize('page-weight', metrics.totalBytes > 5 * 1024 * 1024 ? 25 : metrics.totalBytes > 3 * 1024 * 1024 ? 15 : metrics.totalBytes > 1024 * 1024 ? 5 : 0);
+  penalize('render-blocking-scripts', Math.min(metrics.renderBlocking.scripts * 3, 15));
+  penalize('render-blocking-styles', Math.min(Math.max(metrics.renderBlocking.stylesheets - 1, 0) * 2, 10));
+  penalize('uncompressed-assets', Math.min(metrics.uncompressedAssets * 2, 10));
+  penalize('caching', metrics.caching.measuredAssets > 0 && metrics.caching.uncachedAssets / metrics.caching.measuredAssets > 0.5 ? 5 : 0);
+  penalize('large-images', Math.min(metrics.images.largeCount * 2, 10));
+
+  const score = Math.max(0, 100 - penalties.reduce((sum, p) => sum + p.points, 0));
+  return { score, penalties };
+}
+
+export async function measurePerformance(url, html) {
+  const doc = await measureDocument(url);
+  const resources = html ? collectResources(html, doc.finalUrl) : { blockingScripts: [], blockingStyles: [], images: [] };
+
+  const toMeasure = [
+    ...resources.blockingScripts,
+    ...resources.blockingStyles,
+    ...resources.images
+  ].slice(0, RESOURCE_LIMIT);
+
+  const measured = await mapWithConcurrency(toMeasure, RESOURCE_CONCURRENCY, measureResource);
+  const scripts = measured.filter(r => r.kind === 'script');
+  const styles = measured.filter(r => r.kind === 'stylesheet');
+  const images = measured.filter(r => r.kind === 'image');
+  const okAssets = measured.filter(r => r.bytes !== null);
+
+  const metrics = {
+    document: {
+      status: doc.status,
+      ttfbMs: doc.ttfbMs,
+      downloadMs: doc.downloadMs,
+      totalMs: doc.totalMs,
+      transferBytes: doc.transferBytes,
+      truncated: doc.truncated,
+      encoding: doc.encoding,
+      compressed: doc.compressed,
+      cacheable: doc.cacheable,
+      cacheControl: doc.headers['cache-control']
+    },
+    renderBlocking: {
+      scripts: resources.blockingScripts.length,
+      stylesheets: resources.blockingStyles.length,
+      scriptBytes: sumBytes(scripts),
+      stylesheetBytes: sumBytes(styles),
+      urls: [...resources.blockingScripts, ...resources.blockingStyles].map(r => r.url).slice(0, 20)
+    },
+    images: {
+      count: resources.images.length,
+      measured: images.length,
+      bytes: sumBytes(images),
+      lazyCount: resources.images.filter(r => r.lazy).length,
+      largeCount: images.filter(r => (r.bytes || 0) > 200 * 1024).length,
+      largest: [...images].sort((a, b) => (b.bytes || 0) - (a.bytes || 0)).slice(0, 5).map(r => ({ url: r.url, bytes: r.bytes }))
+    },
+    uncompressedAssets: okAssets.filter(r => r.compressible && !r.compressed && r.bytes > 1024).length,
+    caching: {
+      measuredAssets: okAssets.length,
+      uncachedAssets: okAssets.filter(r => !r.cacheable).length
+    },
+    totalBytes: doc.transferBytes + sumBytes(measured),
+    // Boyut sınırında kesilen kaynaklar; baytları alt sınırdır
+    truncatedResources: measured.filter(r => r.truncated).length,
+    resourcesMeasured: measured.length,
+    resourcesSkipped: Math.max(0, resources.blockingScripts.length + resources.blockingStyles.length + resources.images.length - measured.length)
+  };
+
+  const { score, penalties } = scorePerformance(metrics);
+  return { score, penalties, metrics, measuredAt: new Date().toISOString() };
+}
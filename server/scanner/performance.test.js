@@ -0,0 +1,131 @@
+import http from 'node:http';
+import zlib from 'node:zlib';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { collectResources, measurePerformance, scorePerformance } from './performance.js';
+
+const baseMetrics = (overrides = {}) => ({
+  document: { ttfbMs: 100, transferBytes: 20 * 1024, compressed: true },
+  totalBytes: 200 * 1024,
+  renderBlocking: { scripts: 0, stylesheets: 1 },
+  uncompressedAssets: 0,
+  caching: { measuredAssets: 0, uncachedAssets: 0 },
+  images: { largeCount: 0 },
+  ...overrides
+});
+
+describe('collectResources', () => {
+  it('treats only synchronous head scripts and active stylesheets as render-blocking', () => {
+    const resources = collectResources(`<html><head>
+      <script src="/app.js"></script>
+      <script src="/app.js"></script>
+      <script src="/async.js" async></script>
+      <script src="/defer.js" defer></script>
+      <script src="/module.js" type="module"></script>
+      <link rel="stylesheet" href="/main.css">
+      <link rel="stylesheet" href="/print.css" media="print">
+      <link rel="preload stylesheet" href="https://cdn.example.com/font.css">
+    </head><body>
+      <script src="/body.js"></script>
+      <img src="/hero.jpg"><img src="/lazy.jpg" loading="lazy"><img src="data:image/png;base64,AAAA">
+    </body></html>`, 'https://example.com/page');
+
+    expect(resources.blockingScripts.map(r => r.url)).toEqual(['https://example.com/app.js']);
+    expect(resources.blockingStyles.map(r => r.url)).toEqual(['https://example.com/main.css', 'https://cdn.example.com/font.css']);
+    expect(resources.images).toEqual([
+      { kind: 'image', url: 'https://example.com/hero.jpg', lazy: false },
+      { kind: 'image', url: 'https://example.com/lazy.jpg', lazy: true }
+    ]);
+  });
+});
+
+describe('scorePerformance', () => {
+  it('scores a fast, light page as 100 without penalties', () => {
+    expect(scorePerformance(baseMetrics())).toEqual({ score: 100, penalties: [] });
+  });
+
+  it('is deterministic and applies the penalty thresholds', () => {
+    const metrics = baseMetrics({
+      document: { ttfbMs: 1500, transferBytes: 600 * 1024, compressed: false },
+      totalBytes: 4 * 1024 * 1024,
+      renderBlocking: { scripts: 10, stylesheets: 3 },
+      uncompressedAssets: 2,
+      caching: { measuredAssets: 4, uncachedAssets: 3 },
+      images: { largeCount: 1 }
+    });
+    const result = scorePerformance(metrics);
+    expect(result.penalties).toEqual([
+      { id: 'ttfb', points: 20 },
+      { id: 'html-size', points: 10 },
+      { id: 'compression', points: 10 },
+      { id: 'page-weight', points: 15 },
+      { id: 'render-blocking-scripts', points: 15 },
+      { id: 'render-blocking-styles', points: 4 },
+      { id: 'uncompressed-assets', points: 4 },
+      { id: 'caching', points: 5 },
+      { id: 'large-images', points: 2 }
+    ]);
+    expect(result.score).toBe(15);
+    expect(scorePerformance(metrics)).toEqual(result);
+  });
+
+  it('never goes below zero', () => {
+    const { score } = scorePerformance(baseMetrics({
+      document: { ttfbMs: 5000, transferBytes: 900 * 1024, compressed: false },
+      totalBytes: 9 * 1024 * 1024,
+      renderBlocking: { scripts: 20, stylesheets: 20 },
+      uncompressedAssets: 20,
+      caching: { measuredAssets: 10, uncachedAssets: 10 },
+      images: { largeCount: 20 }
+    }));
+    expect(score).toBe(0);
+  });
+});
+
+describe('measurePerformance against a local site', () => {
+  const html = `<html><head><script src="/app.js"></script><link rel="stylesheet" href="/main.css"></head>
+    <body><img src="/big.jpg"><img src="/missing.jpg"></body></html>`;
+  const css = 'body { color: red; }'.repeat(200);
+  const server = http.createServer((req, res) => {
+    if (req.url === '/') {
+      res.writeHead(200, { 'Content-Type': 'text/html', 'Content-Encoding': 'gzip' });
+      return res.end(zlib.gzipSync(html));
+    }
+    if (req.url === '/app.js') {
+      res.writeHead(200, { 'Content-Type': 'application/javascript', 'Cache-Control': 'max-age=3600', 'Content-Length': '10' });
+      return res.end(req.method === 'HEAD' ? undefined : 'var a = 1;');
+    }
+    if (req.url === '/main.css') {
+      // HEAD yanıtında boyut yok; ölçüm GET ile yapılır
+      res.writeHead(200, { 'Content-Type': 'text/css' });
+      return res.end(req.method === 'HEAD' ? undefined : css);
+    }
+    if (req.url === '/big.jpg') {
+      res.writeHead(200, { 'Content-Type': 'image/jpeg', 'Content-Length': String(300 * 1024), ETag: '"x"' });
+      return res.end(req.method === 'HEAD' ? undefined : Buffer.alloc(300 * 1024));
+    }
+    res.writeHead(404);
+    res.end();
+  });
+  let base;
+
+  beforeAll(async () => {
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${server.address().port}`;
+  });
+  afterAll(() => new Promise(resolve => server.close(resolve)));
+  afterEach(() => vi.unstubAllEnvs());
+
+  it('measures transferred bytes, compression, caching and resource sizes', async () => {
+    vi.stubEnv('SCANNER_ALLOW_PRIVATE_HOSTS', 'true');
+    const { score, metrics } = await measurePerformance(`${base}/`, html);
+
+    expect(metrics.document).toMatchObject({ status: 200, compressed: true, encoding: 'gzip', transferBytes: zlib.gzipSync(html).length });
+    expect(metrics.renderBlocking).toMatchObject({ scripts: 1, stylesheets: 1, scriptBytes: 10, stylesheetBytes: css.length });
+    expect(metrics.images).toMatchObject({ count: 2, measured: 2, bytes: 300 * 1024, largeCount: 1 });
+    // CSS sıkıştırılmadan ve önbellek başlığı olmadan sunuluyor
+    expect(metrics.uncompressedAssets).toBe(1);
+    expect(metrics.caching).toEqual({ measuredAssets: 3, uncachedAssets: 1 });
+    expect(metrics.totalBytes).toBe(metrics.document.transferBytes + 10 + css.length + 300 * 1024);
+    expect(score).toBe(scorePerformance(metrics).score);
+  });
+});
@@ -0,0 +1,91 @@
+// Tek bir URL için tüm denetimleri çalıştıran tarama hattı (ana site ve rakip taramaları ortak kullanır)
+import { fetchDocument } from './fetchers/index.js';
+import { auditHTML } from './audit.js';
+import { toAnalysis } from './analyze.js';
+import { CRAWL_DEFAULTS, crawlSite } from './crawler.js';
+import { fetchRobots } from './robots.js';
+import { measurePerformance } from './performance.js';
+import { analyzeRobotsAndSitemaps } from './sitemap.js';
+import { validateStructuredData } from './schema.js';
+import { checkHreflangAndCanonical } from './hreflang.js';
+import { checkLinks } from './links.js';
+import { auditAccessibility } from './accessibility.js';
+import { auditMobile } from './mobile.js';
+import { auditSecurity } from './security.js';
+import { analyzeContent } from './content.js';
+import { evaluateRules } from './rules/index.js';
+
+// Yan denetimlerden biri başarısız olursa tarama durmaz, ilgili alan null kalır
+const soft = (promise, label) => promise.catch(error => {
+  console.error(`[ERROR] ${label} failed:`, error.message);
+  return null;
+});
+
+// onStage(id) iş kuyruğuna aşama ilerlemesini bildirir: fetch → analyze → checks
+export async function runAudit(url, { crawl, disabledRules = [], lang = 'tr', fetcher, onStage = async () => {} } = {}) {
+  await onStage('fetch');
+  // robots.txt bir kez indirilir; crawler ve sitemap analizi aynı sonucu kullanır
+  const robotsPromise = soft(fetchRobots(new URL(url).origin, { timeout: CRAWL_DEFAULTS.timeout }), 'robots.txt fetch');
+  // crawl: false gönderilmedikçe site da taranır
+  const crawlPromise = crawl === false
+    ? Promise.resolve(null)
+    : soft(robotsPromise.then(robots => crawlSite(url, crawl || {}, { robots })), 'Crawl');
+  const indexabilityPromise = soft(robotsPromise.then(robots => analyzeRobotsAndSitemaps(url, { robots })), 'robots.txt/sitemap analysis');
+  const securityPromise = soft(auditSecurity(url), 'Security audit');
+  const page = await fetchDocument(url, fetcher ? { mode: fetcher } : {});
+  const { html, rawHtml } = page;
+
+  // Performans ölçümü ana doküman ve render-blocking/görsel kaynakları üzerinden yapılır (tarayıcının indirdiği ham HTML)
+  const performancePromise = soft(measurePerformance(url, rawHtml), 'Performance measurement');
+  const [crawlResult, performance, indexability, security] = await Promise.all([crawlPromise, performancePromise, indexabilityPromise, securityPromise]);
+
+  await onStage('analyze');
+  const audit = auditHTML(html, url);
+  const analysis = toAnalysis(audit, url);
+  const schema = validateStructuredData(audit.structuredData);
+  const accessibility = html ? auditAccessibility(html) : null;
+  const content = html ? analyzeContent(html, {
+    url,
+    lang: audit.lang,
+    title: analysis.title,
+    h1Tags: analysis.h1Tags,
+    metaDescription: analysis.metaDescription
+  }) : null;
+  await onStage('checks');
+  const [alternates, linkCheck, mobile] = await Promise.all([
+    soft(checkHreflangAndCanonical(url, audit), 'hreflang/canonical check'),
+    soft(checkLinks(url, audit), 'Link check'),
+    // Mobil içerik eşliği iki ham yanıt arasında karşılaştırılır
+    soft(auditMobile(url, rawHtml), 'Mobile audit')
+  ]);
+
+  // Kural motoru AI yanıtından bağımsız çalışır; skor açıklaması rapora eklenir
+  const scoring = evaluateRules(
+    { url, audit, analysis, crawl: crawlResult, performance, indexability, schema, alternates, linkCheck, mobile, content },
+    { disabled: Array.isArray(disabledRules) ? disabledRules : [], lang }
+  );
+
+  return {
+    url,
+    html,
+    fetcher: {
+      name: page.fetcher,
+      mode: page.mode,
+      fallbackReason: page.fallbackReason,
+      renderDiff: page.renderDiff
+    },
+    audit,
+    analysis,
+    schema,
+    accessibility,
+    content,
+    crawl: crawlResult,
+    performance,
+    indexability,
+    security,
+    alternates,
+    linkCheck,
+    mobile,
+    scoring
+  };
+}
@@ -0,0 +1,148 @@
+// robots.txt okuma ve kural eşleştirme
+import { fetchPage } from './fetch.js';
+
+const CRAWLER_TOKEN = 'weeme-ai';
+
+// robots.txt içeriğini user-agent gruplarına ayır
+export function parseRobotsTxt(text) {
+  const groups = [];
+  const sitemaps = [];
+  let current = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of (text || '').split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    if (!line) continue;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      if (!lastWasAgent || !current) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value);
+    } else if ((field === 'allow' || field === 'disallow') && current) {
+      current.rules.push({ type: field, path: value });
+    } else if (field === 'crawl-delay' && current) {
+      current.crawlDelay = Number(value) || undefined;
+    }
+  }
+
+  return { groups, sitemaps };
+}
+
+// User-agent satırındaki ürün token'ı ("Googlebot/2.1 (+http://...)" → "googlebot")
+const productToken = (agent) => (agent.match(/^[a-z_-]+/i)?.[0] || '').toLowerCase();
+
+// Bizim crawler'ımıza uygulanacak grubu seç (RFC 9309): grubun ürün token'ı crawler token'ının
+// büyük/küçük harf duyarsız önekiyse eşleşir, en uzun (en özel) eşleşme kazanır; yoksa *
+export function selectGroup(groups, token = CRAWLER_TOKEN) {
+  const crawler = token.toLowerCase();
+  let best = null;
+  let bestLength = 0;
+  for (const group of groups) {
+    for (const agent of group.agents) {
+      const product = productToken(agent);
+      if (product && crawler.startsWith(product) && product.length > bestLength) {
+        best = group;
+        bestLength = product.length;
+      }
+    }
+  }
+  return best || groups.find(g => g.agents.includes('*')) || null;
+}
+
+function patternToRegExp(pattern) {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+// En uzun eşleşen kural kazanır; eşitlikte Allow önceliklidir
+export function isPathAllowed(robots, pathWithQuery, token = CRAWLER_TOKEN) {
+  if (!robots) return true;
+  const group = selectGroup(robots.groups, token);
+  if (!group) return true;
+
+  let best = null;
+  for (const rule of group.rules) {
+    if (!rule.path) continue; // Boş Disallow = her şeye izin
+    if (!patternToRegExp(rule.path).test(pathWithQuery)) continue;
+
+    if (!best || rule.path.length > best.path.length ||
+        (rule.path.length === best.path.length && rule.type === 'allow')) {
+      best = rule;
+    }
+  }
+
+  return !best || best.type === 'allow';
+}
+
+// robots.txt'yi durum bilgisiyle getir (analiz için bulunamama nedeni de lazım)
+export async function fetchRobots(origin, options = {}) {
+  const robotsUrl = `${origin}/robots.txt`;
+  const page = await fetchPage(robotsUrl, { ...options, bodyTypes: ['text', 'octet-stream'], maxLength: 500000 });
+  const found = page.ok && page.body !== null;
+
+  return {
+    url: robotsUrl,
+    status: page.status,
+    error: page.error,
+    found,
+    ...(found ? parseRobotsTxt(page.body) : { groups: [], sitemaps: [] })
+  };
+}
+
+// Origin için robots.txt'yi getir; bulunamazsa null (her şeye izin)
+export async function loadRobots(origin, options = {}) {
+  const robots = await fetchRobots(origin, options);
+
+  if (!robots.found) {
+    console.log('[INFO] robots.txt not available:', robots.url, robots.status || robots.error);
+    return null;
+  }
+
+  return { url: robots.url, groups: robots.groups, sitemaps: robots.sitemaps };
+}
+
+// Rapor için özet: hangi yollar engelli, site tamamen kapalı mı
+export function summarizeRobots(robots, token = 'googlebot') {
+  const blockedPaths = [];
+  for (const group of robots?.groups || []) {
+    for (const rule of group.rules) {
+      if (rule.type === 'disallow' && rule.path) {
+        blockedPaths.push({ agents: group.agents, path: rule.path });
+      }
+    }
+  }
+
+  const group = robots ? selectGroup(robots.groups, token) : null;
+
+  return {
+    url: robots?.url || null,
+    found: !!robots?.found,
+    status: robots?.status ?? null,
+    error: robots?.error ?? null,
+    groupCount: robots?.groups.length || 0,
+    sitemapRefs: robots?.sitemaps || [],
+    blockedPaths: blockedPaths.slice(0, 50),
+    blocksSite: !!robots?.found && !isPathAllowed(robots, '/', token),
+    crawlDelay: group?.crawlDelay ?? null
+  };
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { isPathAllowed, parseRobotsTxt, selectGroup, summarizeRobots } from './robots.js';
+
+const robots = (text) => ({ found: true, url: 'https://example.com/robots.txt', ...parseRobotsTxt(text) });
+
+describe('parseRobotsTxt', () => {
+  it('groups consecutive user-agent lines and collects sitemaps', () => {
+    const parsed = parseRobotsTxt([
+      'User-agent: a',
+      'User-agent: B # yorum',
+      'Disallow: /private',
+      'Crawl-delay: 5',
+      '',
+      'User-agent: *',
+      'Allow: /',
+      'Sitemap: https://example.com/sitemap.xml'
+    ].join('\n'));
+
+    expect(parsed.groups).toHaveLength(2);
+    expect(parsed.groups[0]).toMatchObject({ agents: ['a', 'b'], rules: [{ type: 'disallow', path: '/private' }], crawlDelay: 5 });
+    expect(parsed.sitemaps).toEqual(['https://example.com/sitemap.xml']);
+  });
+});
+
+describe('selectGroup', () => {
+  it('does not match a group whose token only appears inside the crawler token', () => {
+    const { groups } = parseRobotsTxt('User-agent: ai\nDisallow: /\n\nUser-agent: *\nDisallow: /tmp');
+    expect(selectGroup(groups, 'weeme-ai').agents).toEqual(['*']);
+  });
+
+  it('matches the product token case-insensitively as a prefix of the crawler token', () => {
+    const { groups } = parseRobotsTxt('User-agent: Googlebot/2.1 (+http://www.google.com/bot.html)\nDisallow: /g\n\nUser-agent: *\nDisallow: /');
+    expect(selectGroup(groups, 'googlebot').rules[0].path).toBe('/g');
+    expect(selectGroup(groups, 'Googlebot-Image').rules[0].path).toBe('/g');
+  });
+
+  it('prefers the most specific matching group', () => {
+    const { groups } = parseRobotsTxt('User-agent: googlebot\nDisallow: /a\n\nUser-agent: googlebot-news\nDisallow: /b');
+    expect(selectGroup(groups, 'googlebot-news').rules[0].path).toBe('/b');
+  });
+
+  it('returns null without a matching or wildcard group', () => {
+    const { groups } = parseRobotsTxt('User-agent: bingbot\nDisallow: /');
+    expect(selectGroup(groups, 'weeme-ai')).toBeNull();
+  });
+});
+
+describe('isPathAllowed', () => {
+  const rules = robots([
+    'User-agent: *',
+    'Disallow: /private',
+    'Allow: /private/public',
+    'Disallow: /*.pdf$',
+    'Disallow:'
+  ].join('\n'));
+
+  it('applies the longest matching rule', () => {
+    expect(isPathAllowed(rules, '/private/page')).toBe(false);
+    expect(isPathAllowed(rules, '/private/public/page')).toBe(true);
+    expect(isPathAllowed(rules, '/open')).toBe(true);
+  });
+
+  it('supports * wildcards and $ anchors', () => {
+    expect(isPathAllowed(rules, '/files/report.pdf')).toBe(false);
+    expect(isPathAllowed(rules, '/files/report.pdf?x=1')).toBe(true);
+  });
+
+  it('allows everything without robots.txt', () => {
+    expect(isPathAllowed(null, '/anything')).toBe(true);
+  });
+});
+
+describe('summarizeRobots', () => {
+  it('reports a site-wide block for googlebot', () => {
+    const summary = summarizeRobots(robots('User-agent: *\nDisallow: /'));
+    expect(summary.blocksSite).toBe(true);
+    expect(summary.blockedPaths).toEqual([{ agents: ['*'], path: '/' }]);
+  });
+});
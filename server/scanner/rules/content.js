@@ -0,0 +1,91 @@
+// İçerik kuralları (ctx.content = analyzeContent sonucu)
+import { registerRules } from '../scoring.js';
+
+const PLACEMENT_LABELS = { title: 'title', h1: 'H1', metaDescription: 'meta description' };
+
+export const contentRules = [
+  {
+    id: 'content-length',
+    category: 'content',
+    weight: 6,
+    severity: 'major',
+    title: { tr: 'İçerik uzunluğu', en: 'Content length' },
+    check: ({ content }) => {
+      if (!content) return null;
+      return { passed: !content.thinContent, ratio: Math.min(content.wordCount / 300, 1), params: { words: content.wordCount } };
+    },
+    messages: {
+      pass: {
+        tr: ({ words }) => `Sayfada yeterli içerik var (${words} kelime)`,
+        en: ({ words }) => `Page has enough content (${words} words)`
+      },
+      fail: {
+        tr: ({ words }) => `Zayıf içerik: ana metin yalnızca ${words} kelime`,
+        en: ({ words }) => `Thin content: main text is only ${words} words`
+      },
+      suggestion: {
+        tr: 'Ana içeriği kullanıcı sorularını yanıtlayan en az 300 kelimelik özgün metinle genişletin',
+        en: 'Expand the main content with at least 300 words of original text that answers user questions'
+      }
+    }
+  },
+  {
+    id: 'keyword-placement',
+    category: 'content',
+    weight: 4,
+    severity: 'major',
+    title: { tr: 'Anahtar kelime yerleşimi', en: 'Keyword placement' },
+    check: ({ content }) => {
+      const primary = content?.keywordPlacement[0];
+      if (!primary) return null;
+      const missing = ['title', 'h1', 'metaDescription'].filter(key => !primary[key]);
+      return {
+        passed: missing.length === 0,
+        ratio: (3 - missing.length) / 3,
+        params: { term: primary.term, missing: missing.map(key => PLACEMENT_LABELS[key]).join(', ') }
+      };
+    },
+    messages: {
+      pass: {
+        tr: ({ term }) => `Ana terim "${term}" title, H1 ve meta description'da geçiyor`,
+        en: ({ term }) => `Primary term "${term}" appears in the title, H1 and meta description`
+      },
+      fail: {
+        tr: ({ term, missing }) => `Sayfanın ana terimi "${term}" şu alanlarda geçmiyor: ${missing}`,
+        en: ({ term, missing }) => `The page's primary term "${term}" is missing from: ${missing}`
+      },
+      suggestion: {
+        tr: ({ term }) => `"${term}" ifadesini title, H1 ve meta description'a doğal biçimde ekleyin`,
+        en: ({ term }) => `Work "${term}" naturally into the title, H1 and meta description`
+      }
+    }
+  },
+  {
+    id: 'readability',
+    category: 'content',
+    weight: 2,
+    severity: 'minor',
+    title: { tr: 'Okunabilirlik', en: 'Readability' },
+    check: ({ content }) => {
+      if (!content || content.readability.score === null) return null;
+      const { score, formula } = content.readability;
+      return { passed: score >= 50, ratio: score / 50, params: { score, formula: formula === 'atesman' ? 'Ateşman' : 'Flesch' } };
+    },
+    messages: {
+      pass: {
+        tr: ({ score, formula }) => `Metin okunabilirliği iyi (${formula}: ${score})`,
+        en: ({ score, formula }) => `Text is easy to read (${formula}: ${score})`
+      },
+      fail: {
+        tr: ({ score, formula }) => `Metin okunması zor (${formula}: ${score})`,
+        en: ({ score, formula }) => `Text is hard to read (${formula}: ${score})`
+      },
+      suggestion: {
+        tr: 'Cümleleri kısaltın, uzun kelimeler yerine yaygın ifadeler kullanın ve metni alt başlıklarla bölün',
+        en: 'Shorten sentences, prefer common words and break the text up with subheadings'
+      }
+    }
+  }
+];
+
+registerRules(contentRules);
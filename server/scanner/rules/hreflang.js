@@ -0,0 +1,116 @@
+// hreflang / canonical tutarlılık kuralları (ctx.alternates = checkHreflangAndCanonical sonucu)
+import { registerRules } from '../scoring.js';
+
+export const hreflangRules = [
+  {
+    id: 'canonical-self-reference',
+    category: 'technical',
+    weight: 3,
+    severity: 'major',
+    title: { tr: 'Canonical tutarlılığı', en: 'Canonical consistency' },
+    check: ({ alternates }) => {
+      if (!alternates?.canonical.present) return null;
+      const { issues, url } = alternates.canonical;
+      const broken = issues.includes('target-unreachable') || issues.includes('target-not-canonical');
+      return { passed: issues.length === 0, ratio: broken ? 0 : 0.5, params: { url, broken } };
+    },
+    messages: {
+      pass: { tr: 'Canonical etiketi sayfanın kendisini gösteriyor', en: 'Canonical tag is self-referencing' },
+      fail: {
+        tr: ({ url, broken }) => (broken ? `Canonical hedefi erişilemiyor veya başka bir URL'ye kanonik: ${url}` : `Canonical başka bir URL'yi gösteriyor: ${url}`),
+        en: ({ url, broken }) => (broken ? `Canonical target is unreachable or canonicalizes elsewhere: ${url}` : `Canonical points to a different URL: ${url}`)
+      },
+      suggestion: {
+        tr: 'Kopya değilse sayfanın canonical etiketini kendi URL\'sine ayarlayın; hedef sayfa 200 dönmeli ve kendine kanonik olmalı',
+        en: 'Unless the page is a duplicate, point its canonical to its own URL; the target must return 200 and be self-canonical'
+      }
+    }
+  },
+  {
+    id: 'hreflang-codes',
+    category: 'technical',
+    weight: 3,
+    severity: 'major',
+    title: { tr: 'Hreflang dil/bölge kodları', en: 'Hreflang language/region codes' },
+    check: ({ alternates }) => {
+      if (!alternates?.hreflang.present) return null;
+      const { invalidCodes, duplicateLangs, selfReference } = alternates.hreflang;
+      return {
+        passed: !invalidCodes.length && !duplicateLangs.length && selfReference,
+        ratio: invalidCodes.length ? 0 : 0.5,
+        params: { invalid: invalidCodes.map(h => h.lang).join(', '), duplicates: duplicateLangs.join(', '), selfReference }
+      };
+    },
+    messages: {
+      pass: { tr: 'Hreflang kodları geçerli ve sayfa kendini listeliyor', en: 'Hreflang codes are valid and the page lists itself' },
+      fail: {
+        tr: ({ invalid, duplicates, selfReference }) => [
+          invalid && `Geçersiz hreflang kodları: ${invalid}`,
+          duplicates && `Aynı dil için birden fazla URL: ${duplicates}`,
+          !selfReference && 'Hreflang listesinde sayfanın kendisi yok'
+        ].filter(Boolean).join('; '),
+        en: ({ invalid, duplicates, selfReference }) => [
+          invalid && `Invalid hreflang codes: ${invalid}`,
+          duplicates && `Multiple URLs for the same language: ${duplicates}`,
+          !selfReference && 'Hreflang set does not include the page itself'
+        ].filter(Boolean).join('; ')
+      },
+      suggestion: {
+        tr: 'ISO 639-1 dil ve ISO 3166-1 bölge kodları kullanın (ör. tr-TR, en-GB) ve sayfanın kendisini de listeleyin',
+        en: 'Use ISO 639-1 language and ISO 3166-1 region codes (e.g. tr-TR, en-GB) and include the page itself'
+      }
+    }
+  },
+  {
+    id: 'hreflang-x-default',
+    category: 'technical',
+    weight: 1,
+    severity: 'minor',
+    title: { tr: 'Hreflang x-default', en: 'Hreflang x-default' },
+    check: ({ alternates }) => {
+      if (!alternates?.hreflang.present) return null;
+      return { passed: alternates.hreflang.xDefault };
+    },
+    messages: {
+      pass: { tr: 'x-default hreflang tanımlı', en: 'x-default hreflang is defined' },
+      fail: { tr: 'x-default hreflang eksik', en: 'x-default hreflang is missing' },
+      suggestion: {
+        tr: 'Dil seçimi/varsayılan sayfa için hreflang="x-default" ekleyin',
+        en: 'Add hreflang="x-default" for the language selector or default page'
+      }
+    }
+  },
+  {
+    id: 'hreflang-reciprocal',
+    category: 'technical',
+    weight: 4,
+    severity: 'major',
+    title: { tr: 'Hreflang karşılıklılığı', en: 'Hreflang reciprocity' },
+    check: ({ alternates }) => {
+      if (!alternates?.hreflang.alternates.length) return null;
+      const list = alternates.hreflang.alternates;
+      const bad = list.filter(a => a.error || a.status >= 400 || !a.reciprocal || a.canonicalMatches === false);
+      return {
+        passed: bad.length === 0,
+        ratio: 1 - bad.length / list.length,
+        params: { bad: bad.length, total: list.length }
+      };
+    },
+    messages: {
+      pass: {
+        tr: ({ total }) => `Tüm alternatif sayfalar (${total}) geri bağlantı veriyor`,
+        en: ({ total }) => `All alternate pages (${total}) link back`
+      },
+      fail: {
+        tr: ({ bad, total }) => `${total} alternatif sayfanın ${bad} tanesi erişilemiyor, geri bağlantı vermiyor ya da başka URL'ye kanonik`,
+        en: ({ bad, total }) => `${bad} of ${total} alternate pages are unreachable, lack a return link or canonicalize elsewhere`
+      },
+      suggestion: {
+        tr: 'Her dil sürümü aynı hreflang setini içermeli ve kendine kanonik olmalı',
+        en: 'Every language version must carry the same hreflang set and be self-canonical'
+      }
+    }
+  }
+];
+
+registerRules(hreflangRules);
@@ -0,0 +1,10 @@
+// Kural modüllerini kaydet ve motoru dışa aç
+import './seo.js';
+import './performance.js';
+import './indexability.js';
+import './hreflang.js';
+import './links.js';
+import './mobile.js';
+import './content.js';
+
+export { evaluateRules, listRules, registerRule, registerRules } from '../scoring.js';
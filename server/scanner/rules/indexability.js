@@ -0,0 +1,124 @@
+// robots.txt / sitemap kuralları (ctx.indexability = analyzeRobotsAndSitemaps sonucu)
+import { registerRules } from '../scoring.js';
+
+export const indexabilityRules = [
+  {
+    id: 'robots-txt-present',
+    category: 'technical',
+    weight: 2,
+    severity: 'minor',
+    title: { tr: 'robots.txt dosyası', en: 'robots.txt file' },
+    check: ({ indexability }) => {
+      if (!indexability) return null;
+      return { passed: indexability.robots.found, params: { status: indexability.robots.status } };
+    },
+    messages: {
+      pass: { tr: 'robots.txt dosyası mevcut', en: 'robots.txt file present' },
+      fail: {
+        tr: ({ status }) => `robots.txt bulunamadı${status ? ` (HTTP ${status})` : ''}`,
+        en: ({ status }) => `robots.txt not found${status ? ` (HTTP ${status})` : ''}`
+      },
+      suggestion: {
+        tr: 'Site köküne tarama kurallarını ve sitemap adresini içeren bir robots.txt ekleyin',
+        en: 'Add a robots.txt at the site root with crawl rules and the sitemap location'
+      }
+    }
+  },
+  {
+    id: 'robots-not-blocking',
+    category: 'technical',
+    weight: 8,
+    severity: 'critical',
+    title: { tr: 'robots.txt siteyi engellemiyor', en: 'robots.txt does not block the site' },
+    check: ({ indexability }) => {
+      if (!indexability?.robots.found) return null;
+      return { passed: !indexability.robots.blocksSite };
+    },
+    messages: {
+      pass: { tr: 'robots.txt ana sayfanın taranmasına izin veriyor', en: 'robots.txt allows crawling the home page' },
+      fail: { tr: 'robots.txt tüm siteyi arama motorlarına kapatıyor (Disallow: /)', en: 'robots.txt blocks the entire site for search engines (Disallow: /)' },
+      suggestion: {
+        tr: 'robots.txt içindeki "Disallow: /" kuralını kaldırın, yalnızca gizli yolları engelleyin',
+        en: 'Remove the "Disallow: /" rule and only block private paths'
+      }
+    }
+  },
+  {
+    id: 'sitemap-present',
+    category: 'technical',
+    weight: 5,
+    severity: 'major',
+    title: { tr: 'XML sitemap', en: 'XML sitemap' },
+    check: ({ indexability }) => {
+      if (!indexability) return null;
+      const { found, urlCount, brokenSitemaps } = indexability.sitemaps;
+      return { passed: found && urlCount > 0, params: { urlCount, broken: brokenSitemaps.length } };
+    },
+    messages: {
+      pass: {
+        tr: ({ urlCount }) => `XML sitemap mevcut (${urlCount} URL)`,
+        en: ({ urlCount }) => `XML sitemap present (${urlCount} URLs)`
+      },
+      fail: {
+        tr: ({ broken }) => (broken ? 'Sitemap okunamadı (geçersiz veya erişilemiyor)' : 'Sitemap bulunamadı'),
+        en: ({ broken }) => (broken ? 'Sitemap could not be read (invalid or unreachable)' : 'Sitemap not found')
+      },
+      suggestion: {
+        tr: 'Geçerli bir XML sitemap oluşturup /sitemap.xml olarak yayınlayın ve Search Console\'a gönderin',
+        en: 'Publish a valid XML sitemap at /sitemap.xml and submit it to Search Console'
+      }
+    }
+  },
+  {
+    id: 'sitemap-in-robots',
+    category: 'technical',
+    weight: 2,
+    severity: 'minor',
+    title: { tr: 'robots.txt sitemap referansı', en: 'Sitemap reference in robots.txt' },
+    check: ({ indexability }) => {
+      if (!indexability?.robots.found) return null;
+      return { passed: indexability.sitemaps.referencedInRobots };
+    },
+    messages: {
+      pass: { tr: 'robots.txt sitemap adresini belirtiyor', en: 'robots.txt references the sitemap' },
+      fail: { tr: 'robots.txt içinde Sitemap satırı yok', en: 'robots.txt has no Sitemap line' },
+      suggestion: {
+        tr: 'robots.txt dosyasına "Sitemap: https://alanadiniz.com/sitemap.xml" satırını ekleyin',
+        en: 'Add a "Sitemap: https://yourdomain.com/sitemap.xml" line to robots.txt'
+      }
+    }
+  },
+  {
+    id: 'sitemap-urls-valid',
+    category: 'technical',
+    weight: 4,
+    severity: 'major',
+    title: { tr: 'Sitemap URL\'leri geçerli ve erişilebilir', en: 'Sitemap URLs are valid and reachable' },
+    check: ({ indexability }) => {
+      if (!indexability?.sitemaps.found) return null;
+      const { invalidUrls, blockedUrlCount, unreachable, checkedUrls, urlCount } = indexability.sitemaps;
+      const total = urlCount + invalidUrls.length;
+      if (!total) return null;
+
+      const problems = invalidUrls.length + blockedUrlCount + unreachable.length;
+      return {
+        passed: problems === 0,
+        ratio: 1 - Math.min(problems / Math.max(total, checkedUrls), 1),
+        params: { invalid: invalidUrls.length, blocked: blockedUrlCount, unreachable: unreachable.length }
+      };
+    },
+    messages: {
+      pass: { tr: 'Sitemap URL\'leri geçerli ve erişilebilir', en: 'Sitemap URLs are valid and reachable' },
+      fail: {
+        tr: ({ invalid, blocked, unreachable }) => `Sitemap'te sorunlu URL'ler var (${invalid} geçersiz, ${blocked} robots ile engelli, ${unreachable} erişilemiyor)`,
+        en: ({ invalid, blocked, unreachable }) => `Sitemap contains problem URLs (${invalid} invalid, ${blocked} blocked by robots, ${unreachable} unreachable)`
+      },
+      suggestion: {
+        tr: 'Sitemap\'te yalnızca 200 dönen, robots.txt ile engellenmeyen kanonik URL\'leri listeleyin',
+        en: 'List only canonical URLs that return 200 and are not blocked by robots.txt'
+      }
+    }
+  }
+];
+
+registerRules(indexabilityRules);
@@ -0,0 +1,82 @@
+// Bağlantı sağlığı kuralları (ctx.linkCheck = checkLinks sonucu)
+import { registerRules } from '../scoring.js';
+
+export const linkRules = [
+  {
+    id: 'broken-links',
+    category: 'technical',
+    weight: 6,
+    severity: 'major',
+    title: { tr: 'Kırık bağlantılar', en: 'Broken links' },
+    check: ({ linkCheck }) => {
+      if (!linkCheck?.checked) return null;
+      const broken = linkCheck.broken.length;
+      const internal = linkCheck.broken.filter(link => link.internal).length;
+      return {
+        passed: broken === 0,
+        ratio: 1 - Math.min(broken / linkCheck.checked * 5, 1),
+        params: { broken, internal, checked: linkCheck.checked }
+      };
+    },
+    messages: {
+      pass: {
+        tr: ({ checked }) => `Kontrol edilen ${checked} bağlantının hiçbiri kırık değil`,
+        en: ({ checked }) => `None of the ${checked} checked links are broken`
+      },
+      fail: {
+        tr: ({ broken, internal }) => `${broken} kırık bağlantı (4xx/5xx veya erişilemiyor, ${internal} tanesi site içi)`,
+        en: ({ broken, internal }) => `${broken} broken links (4xx/5xx or unreachable, ${internal} internal)`
+      },
+      suggestion: {
+        tr: 'Kırık bağlantıları düzeltin ya da kaldırın; taşınan sayfalar için 301 yönlendirme tanımlayın',
+        en: 'Fix or remove broken links and add 301 redirects for moved pages'
+      }
+    }
+  },
+  {
+    id: 'redirect-chains',
+    category: 'technical',
+    weight: 2,
+    severity: 'minor',
+    title: { tr: 'Yönlendirme zincirleri', en: 'Redirect chains' },
+    check: ({ linkCheck }) => {
+      if (!linkCheck?.checked) return null;
+      return { passed: linkCheck.redirectChains.length === 0, params: { count: linkCheck.redirectChains.length } };
+    },
+    messages: {
+      pass: { tr: 'Bağlantılarda çok adımlı yönlendirme zinciri yok', en: 'No multi-hop redirect chains in links' },
+      fail: {
+        tr: ({ count }) => `${count} bağlantı birden fazla yönlendirmeden geçiyor`,
+        en: ({ count }) => `${count} links go through more than one redirect`
+      },
+      suggestion: {
+        tr: 'Bağlantıları doğrudan son hedef URL\'ye güncelleyin',
+        en: 'Update links to point directly at the final destination URL'
+      }
+    }
+  },
+  {
+    id: 'mixed-content-links',
+    category: 'technical',
+    weight: 3,
+    severity: 'major',
+    title: { tr: 'Mixed content bağlantılar', en: 'Mixed content links' },
+    check: ({ url, linkCheck }) => {
+      if (!linkCheck?.checked || !url.startsWith('https://')) return null;
+      return { passed: linkCheck.mixedContent.length === 0, params: { count: linkCheck.mixedContent.length } };
+    },
+    messages: {
+      pass: { tr: 'HTTPS sayfada HTTP bağlantı yok', en: 'No HTTP links on the HTTPS page' },
+      fail: {
+        tr: ({ count }) => `HTTPS sayfada ${count} HTTP bağlantı var (mixed content)`,
+        en: ({ count }) => `${count} HTTP links on an HTTPS page (mixed content)`
+      },
+      suggestion: {
+        tr: 'Tüm bağlantıları https:// olarak güncelleyin',
+        en: 'Update all links to https://'
+      }
+    }
+  }
+];
+
+registerRules(linkRules);
@@ -0,0 +1,124 @@
+// Mobil uyumluluk kuralları (ctx.mobile = auditMobile sonucu)
+import { registerRules } from '../scoring.js';
+
+export const mobileRules = [
+  {
+    id: 'viewport-meta',
+    category: 'mobile',
+    weight: 8,
+    severity: 'critical',
+    title: { tr: 'Viewport meta etiketi', en: 'Viewport meta tag' },
+    check: ({ mobile }) => {
+      if (!mobile) return null;
+      const { viewport } = mobile;
+      return {
+        passed: !!viewport && viewport.deviceWidth && !viewport.zoomDisabled,
+        ratio: viewport?.deviceWidth ? 0.5 : 0,
+        params: { missing: !viewport, zoomDisabled: !!viewport?.zoomDisabled }
+      };
+    },
+    messages: {
+      pass: { tr: 'Viewport meta etiketi doğru yapılandırılmış', en: 'Viewport meta tag is configured correctly' },
+      fail: {
+        tr: ({ missing, zoomDisabled }) => (missing ? 'Viewport meta etiketi yok' : zoomDisabled ? 'Viewport yakınlaştırmayı engelliyor' : 'Viewport width=device-width değil'),
+        en: ({ missing, zoomDisabled }) => (missing ? 'Viewport meta tag is missing' : zoomDisabled ? 'Viewport disables zooming' : 'Viewport is not width=device-width')
+      },
+      suggestion: {
+        tr: '<meta name="viewport" content="width=device-width, initial-scale=1"> kullanın ve yakınlaştırmayı kapatmayın',
+        en: 'Use <meta name="viewport" content="width=device-width, initial-scale=1"> and do not disable zoom'
+      }
+    }
+  },
+  {
+    id: 'mobile-fixed-width',
+    category: 'mobile',
+    weight: 4,
+    severity: 'major',
+    title: { tr: 'Sabit genişlikli yerleşim', en: 'Fixed-width layout' },
+    check: ({ mobile }) => {
+      if (!mobile) return null;
+      const count = mobile.fixedWidths.length;
+      return { passed: count === 0, ratio: count <= 2 ? 0.5 : 0, params: { count } };
+    },
+    messages: {
+      pass: { tr: 'Ekran genişliğini aşan sabit genişlik tanımı yok', en: 'No fixed widths wider than a phone screen' },
+      fail: {
+        tr: ({ count }) => `${count} öğede 480px'ten geniş sabit genişlik var`,
+        en: ({ count }) => `${count} elements use fixed widths over 480px`
+      },
+      suggestion: {
+        tr: 'Sabit px genişlikler yerine max-width: 100% ve esnek (flex/grid) yerleşim kullanın',
+        en: 'Replace fixed px widths with max-width: 100% and flexible (flex/grid) layouts'
+      }
+    }
+  },
+  {
+    id: 'mobile-font-size',
+    category: 'mobile',
+    weight: 3,
+    severity: 'minor',
+    title: { tr: 'Okunabilir yazı boyutu', en: 'Legible font sizes' },
+    check: ({ mobile }) => {
+      if (!mobile) return null;
+      return { passed: mobile.smallFonts.length === 0, params: { count: mobile.smallFonts.length } };
+    },
+    messages: {
+      pass: { tr: '12px altında yazı boyutu tanımı yok', en: 'No font sizes below 12px' },
+      fail: {
+        tr: ({ count }) => `${count} yerde 12px altında yazı boyutu kullanılmış`,
+        en: ({ count }) => `${count} font-size declarations are below 12px`
+      },
+      suggestion: {
+        tr: 'Mobilde gövde metni için en az 16px, yardımcı metinler için en az 12px kullanın',
+        en: 'Use at least 16px for body text and 12px for secondary text on mobile'
+      }
+    }
+  },
+  {
+    id: 'mobile-tap-targets',
+    category: 'mobile',
+    weight: 2,
+    severity: 'minor',
+    title: { tr: 'Dokunma hedefi boyutu', en: 'Tap target size' },
+    check: ({ mobile }) => {
+      if (!mobile?.tapTargets.total) return null;
+      return { passed: mobile.tapTargets.smallCount === 0, params: { count: mobile.tapTargets.smallCount } };
+    },
+    messages: {
+      pass: { tr: 'Küçük dokunma hedefi tespit edilmedi', en: 'No undersized tap targets detected' },
+      fail: {
+        tr: ({ count }) => `${count} bağlantı/buton 24px'ten küçük boyutlandırılmış`,
+        en: ({ count }) => `${count} links/buttons are sized below 24px`
+      },
+      suggestion: {
+        tr: 'Bağlantı ve butonları en az 44×44px dokunma alanıyla ve aralarında boşlukla tasarlayın',
+        en: 'Give links and buttons at least a 44×44px tap area with spacing between them'
+      }
+    }
+  },
+  {
+    id: 'mobile-content-parity',
+    category: 'mobile',
+    weight: 4,
+    severity: 'major',
+    title: { tr: 'Mobil içerik eşliği', en: 'Mobile content parity' },
+    check: ({ mobile }) => {
+      if (!mobile?.served.fetched) return null;
+      const gaps = mobile.served.differences.filter(d => !['separate-mobile-host', 'title-differs'].includes(d));
+      return { passed: gaps.length === 0, params: { gaps: gaps.join(', ') } };
+    },
+    messages: {
+      pass: { tr: 'Mobil kullanıcı ajanına aynı temel içerik sunuluyor', en: 'The mobile user agent receives the same core content' },
+      fail: {
+        tr: ({ gaps }) => `Mobil sürümde içerik eksik: ${gaps}`,
+        en: ({ gaps }) => `Mobile version is missing content: ${gaps}`
+      },
+      suggestion: {
+        tr: 'Mobile-first indexing için mobil sürümde title, H1, meta description ve structured data\'yı koruyun',
+        en: 'For mobile-first indexing keep title, H1, meta description and structured data in the mobile version'
+      }
+    }
+  }
+];
+
+registerRules(mobileRules);
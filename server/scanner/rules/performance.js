@@ -0,0 +1,151 @@
+// Performans kuralları (ctx.performance = measurePerformance sonucu)
+import { registerRules } from '../scoring.js';
+
+const kb = (bytes) => Math.round(bytes / 1024);
+
+export const performanceRules = [
+  {
+    id: 'server-response-time',
+    category: 'performance',
+    weight: 6,
+    severity: 'major',
+    title: { tr: 'Sunucu yanıt süresi (TTFB)', en: 'Server response time (TTFB)' },
+    check: ({ performance }) => {
+      if (!performance) return null;
+      const ttfb = performance.metrics.document.ttfbMs;
+      return { passed: ttfb <= 600, ratio: ttfb <= 1500 ? 0.5 : 0, params: { ttfb } };
+    },
+    messages: {
+      pass: {
+        tr: ({ ttfb }) => `Sunucu yanıt süresi iyi (TTFB ${ttfb} ms)`,
+        en: ({ ttfb }) => `Server responds quickly (TTFB ${ttfb} ms)`
+      },
+      fail: {
+        tr: ({ ttfb }) => `Sunucu yanıt süresi yavaş (TTFB ${ttfb} ms)`,
+        en: ({ ttfb }) => `Slow server response (TTFB ${ttfb} ms)`
+      },
+      suggestion: {
+        tr: 'Sunucu tarafı önbellekleme ve CDN ile TTFB\'yi 600 ms altına indirin',
+        en: 'Use server-side caching and a CDN to bring TTFB under 600 ms'
+      }
+    }
+  },
+  {
+    id: 'text-compression',
+    category: 'performance',
+    weight: 5,
+    severity: 'major',
+    title: { tr: 'Metin sıkıştırma (gzip/br)', en: 'Text compression (gzip/br)' },
+    check: ({ performance }) => {
+      if (!performance) return null;
+      const { document: doc, uncompressedAssets } = performance.metrics;
+      // 1 KB altı dokümanlarda sıkıştırma kazancı yok denecek kadar azdır
+      const documentOk = doc.compressed || doc.transferBytes <= 1024;
+      return {
+        passed: documentOk && uncompressedAssets === 0,
+        ratio: documentOk ? 0.5 : 0,
+        params: { encoding: doc.encoding || 'identity', assets: uncompressedAssets, documentOk }
+      };
+    },
+    messages: {
+      pass: {
+        tr: ({ encoding }) => (encoding === 'identity' ? 'Sıkıştırılması gereken büyük metin kaynağı yok' : `HTML ve metin kaynakları sıkıştırılarak sunuluyor (${encoding})`),
+        en: ({ encoding }) => (encoding === 'identity' ? 'No large uncompressed text resources' : `HTML and text assets are served compressed (${encoding})`)
+      },
+      fail: {
+        tr: ({ documentOk, assets }) => (documentOk ? `${assets} metin kaynağı sıkıştırılmadan sunuluyor` : 'HTML sıkıştırılmadan sunuluyor (gzip/brotli yok)'),
+        en: ({ documentOk, assets }) => (documentOk ? `${assets} text assets are served uncompressed` : 'HTML is served uncompressed (no gzip/brotli)')
+      },
+      suggestion: {
+        tr: 'Sunucuda gzip veya brotli sıkıştırmayı HTML, CSS ve JS için etkinleştirin',
+        en: 'Enable gzip or brotli compression for HTML, CSS and JS'
+      }
+    }
+  },
+  {
+    id: 'render-blocking-resources',
+    category: 'performance',
+    weight: 5,
+    severity: 'minor',
+    title: { tr: 'Render-blocking kaynaklar', en: 'Render-blocking resources' },
+    check: ({ performance }) => {
+      if (!performance) return null;
+      const { scripts, stylesheets, scriptBytes, stylesheetBytes } = performance.metrics.renderBlocking;
+      return {
+        passed: scripts === 0 && stylesheets <= 1,
+        ratio: scripts <= 2 && stylesheets <= 3 ? 0.5 : 0,
+        params: { scripts, stylesheets, size: kb(scriptBytes + stylesheetBytes) }
+      };
+    },
+    messages: {
+      pass: { tr: 'Render-blocking script/stylesheet yok denecek kadar az', en: 'Few or no render-blocking scripts/stylesheets' },
+      fail: {
+        tr: ({ scripts, stylesheets, size }) => `${scripts} render-blocking script ve ${stylesheets} stylesheet var (${size} KB)`,
+        en: ({ scripts, stylesheets, size }) => `${scripts} render-blocking scripts and ${stylesheets} stylesheets (${size} KB)`
+      },
+      suggestion: {
+        tr: '<head> içindeki script\'lere defer/async ekleyin, kritik CSS\'i inline yapıp kalanını geç yükleyin',
+        en: 'Add defer/async to scripts in <head>, inline critical CSS and load the rest later'
+      }
+    }
+  },
+  {
+    id: 'page-weight',
+    category: 'performance',
+    weight: 4,
+    severity: 'minor',
+    title: { tr: 'Toplam sayfa ağırlığı', en: 'Total page weight' },
+    check: ({ performance }) => {
+      if (!performance) return null;
+      const { totalBytes, images } = performance.metrics;
+      return {
+        passed: totalBytes <= 1024 * 1024,
+        ratio: totalBytes <= 3 * 1024 * 1024 ? 0.5 : 0,
+        params: { total: kb(totalBytes), imageBytes: kb(images.bytes) }
+      };
+    },
+    messages: {
+      pass: {
+        tr: ({ total }) => `Sayfa ağırlığı düşük (${total} KB)`,
+        en: ({ total }) => `Page weight is low (${total} KB)`
+      },
+      fail: {
+        tr: ({ total, imageBytes }) => `Sayfa ağırlığı yüksek (${total} KB, görseller ${imageBytes} KB)`,
+        en: ({ total, imageBytes }) => `Page is heavy (${total} KB, images ${imageBytes} KB)`
+      },
+      suggestion: {
+        tr: 'Görselleri WebP/AVIF formatına çevirip sıkıştırın ve lazy-load uygulayın',
+        en: 'Convert images to WebP/AVIF, compress them and lazy-load below-the-fold images'
+      }
+    }
+  },
+  {
+    id: 'static-asset-caching',
+    category: 'performance',
+    weight: 3,
+    severity: 'minor',
+    title: { tr: 'Statik kaynak önbellekleme', en: 'Static asset caching' },
+    check: ({ performance }) => {
+      if (!performance || performance.metrics.caching.measuredAssets === 0) return null;
+      const { measuredAssets, uncachedAssets } = performance.metrics.caching;
+      return {
+        passed: uncachedAssets === 0,
+        ratio: (measuredAssets - uncachedAssets) / measuredAssets,
+        params: { uncached: uncachedAssets, total: measuredAssets }
+      };
+    },
+    messages: {
+      pass: { tr: 'Statik kaynaklar önbellek başlıklarıyla sunuluyor', en: 'Static assets are served with caching headers' },
+      fail: {
+        tr: ({ uncached, total }) => `${total} kaynaktan ${uncached} tanesinde önbellek başlığı yok`,
+        en: ({ uncached, total }) => `${uncached} of ${total} assets have no caching headers`
+      },
+      suggestion: {
+        tr: 'Statik dosyalar için uzun Cache-Control max-age ve sürümlenmiş dosya adları kullanın',
+        en: 'Serve static files with a long Cache-Control max-age and versioned filenames'
+      }
+    }
+  }
+];
+
+registerRules(performanceRules);
@@ -0,0 +1,333 @@
+// Temel on-page SEO kuralları
+import { registerRules } from '../scoring.js';
+
+const truncate = (text, max) => (text.length > max ? `${text.substring(0, max)}...` : text);
+
+export const seoRules = [
+  {
+    id: 'title-present',
+    category: 'meta',
+    weight: 10,
+    severity: 'critical',
+    title: { tr: 'Title etiketi', en: 'Title tag' },
+    check: ({ analysis }) => ({ passed: !!analysis.title, params: { title: analysis.title || '' } }),
+    messages: {
+      pass: {
+        tr: ({ title }) => `Title etiketi mevcut: "${truncate(title, 60)}"`,
+        en: ({ title }) => `Title tag present: "${truncate(title, 60)}"`
+      },
+      fail: { tr: 'Title etiketi eksik', en: 'Title tag is missing' },
+      suggestion: {
+        tr: 'Her sayfa için benzersiz ve açıklayıcı title etiketi ekleyin',
+        en: 'Add a unique, descriptive title tag to every page'
+      }
+    }
+  },
+  {
+    id: 'title-length',
+    category: 'meta',
+    weight: 4,
+    severity: 'minor',
+    title: { tr: 'Title uzunluğu (30-60)', en: 'Title length (30-60)' },
+    check: ({ analysis }) => {
+      if (!analysis.title) return null;
+      const length = analysis.title.length;
+      return { passed: length >= 30 && length <= 60, ratio: 0.5, params: { length, tooShort: length < 30 } };
+    },
+    messages: {
+      pass: {
+        tr: ({ length }) => `Title uzunluğu ideal (${length} karakter)`,
+        en: ({ length }) => `Title length is optimal (${length} characters)`
+      },
+      fail: {
+        tr: ({ tooShort }) => (tooShort ? 'Title çok kısa (30 karakterden az)' : 'Title çok uzun (60 karakterden fazla)'),
+        en: ({ tooShort }) => (tooShort ? 'Title is too short (under 30 characters)' : 'Title is too long (over 60 characters)')
+      },
+      suggestion: {
+        tr: ({ tooShort }) => (tooShort ? 'Title etiketini 50-60 karakter arasında optimize edin' : 'Title etiketini 50-60 karakter arasında kısaltın'),
+        en: ({ tooShort }) => (tooShort ? 'Expand the title to 50-60 characters' : 'Shorten the title to 50-60 characters')
+      }
+    }
+  },
+  {
+    id: 'meta-description-present',
+    category: 'meta',
+    weight: 8,
+    severity: 'major',
+    title: { tr: 'Meta description', en: 'Meta description' },
+    check: ({ analysis }) => ({ passed: !!analysis.metaDescription }),
+    messages: {
+      pass: { tr: 'Meta description mevcut', en: 'Meta description present' },
+      fail: { tr: 'Meta description eksik', en: 'Meta description is missing' },
+      suggestion: {
+        tr: '150-160 karakter arası meta description ekleyin',
+        en: 'Add a 150-160 character meta description'
+      }
+    }
+  },
+  {
+    id: 'meta-description-length',
+    category: 'meta',
+    weight: 2,
+    severity: 'minor',
+    title: { tr: 'Meta description uzunluğu', en: 'Meta description length' },
+    check: ({ analysis }) => {
+      if (!analysis.metaDescription) return null;
+      const length = analysis.metaDescription.length;
+      return { passed: length >= 120 && length <= 160, ratio: 0.5, params: { length, tooShort: length < 120 } };
+    },
+    messages: {
+      pass: {
+        tr: ({ length }) => `Meta description uzunluğu ideal (${length} karakter)`,
+        en: ({ length }) => `Meta description length is optimal (${length} characters)`
+      },
+      fail: {
+        tr: ({ tooShort }) => (tooShort ? 'Meta description çok kısa (120 karakterden az)' : 'Meta description çok uzun (160 karakterden fazla)'),
+        en: ({ tooShort }) => (tooShort ? 'Meta description is too short (under 120 characters)' : 'Meta description is too long (over 160 characters)')
+      },
+      suggestion: {
+        tr: ({ tooShort }) => (tooShort ? 'Meta description\'ı 150-160 karakter arasında genişletin' : 'Meta description\'ı 150-160 karakter arasında kısaltın'),
+        en: ({ tooShort }) => (tooShort ? 'Expand the meta description to 150-160 characters' : 'Shorten the meta description to 150-160 characters')
+      }
+    }
+  },
+  {
+    id: 'h1-present',
+    category: 'content',
+    weight: 8,
+    severity: 'major',
+    title: { tr: 'H1 etiketi', en: 'H1 heading' },
+    check: ({ analysis }) => ({ passed: analysis.h1Tags.length > 0, params: { count: analysis.h1Tags.length } }),
+    messages: {
+      pass: {
+        tr: ({ count }) => `H1 etiketi mevcut: ${count} adet`,
+        en: ({ count }) => `H1 heading present: ${count}`
+      },
+      fail: { tr: 'H1 etiketi eksik', en: 'H1 heading is missing' },
+      suggestion: {
+        tr: 'Ana sayfaya benzersiz H1 etiketi ekleyin',
+        en: 'Add a unique H1 heading to the page'
+      }
+    }
+  },
+  {
+    id: 'h1-single',
+    category: 'content',
+    weight: 3,
+    severity: 'minor',
+    title: { tr: 'Tek H1 kullanımı', en: 'Single H1' },
+    check: ({ analysis }) => (analysis.h1Tags.length === 0 ? null : { passed: analysis.h1Tags.length === 1 }),
+    messages: {
+      pass: { tr: 'Sayfada tek H1 etiketi kullanılmış', en: 'Page uses a single H1' },
+      fail: { tr: 'Birden fazla H1 etiketi var', en: 'Page has more than one H1' },
+      suggestion: {
+        tr: 'Her sayfada sadece bir H1 etiketi kullanın',
+        en: 'Use exactly one H1 per page'
+      }
+    }
+  },
+  {
+    id: 'heading-hierarchy',
+    category: 'content',
+    weight: 2,
+    severity: 'minor',
+    title: { tr: 'Başlık hiyerarşisi', en: 'Heading hierarchy' },
+    check: ({ audit }) => {
+      if (audit.headings.length < 2) return null;
+      const skipped = audit.headings.find((h, i) => i > 0 && h.level - audit.headings[i - 1].level > 1);
+      return { passed: !skipped, params: skipped ? { level: skipped.level, text: truncate(skipped.text, 40) } : {} };
+    },
+    messages: {
+      pass: { tr: 'Başlık hiyerarşisi düzgün', en: 'Heading hierarchy is consistent' },
+      fail: {
+        tr: ({ level, text }) => `Başlık hiyerarşisinde seviye atlanmış (H${level}: "${text}")`,
+        en: ({ level, text }) => `Heading level skipped (H${level}: "${text}")`
+      },
+      suggestion: {
+        tr: 'Başlıkları H1 → H2 → H3 sırasıyla, seviye atlamadan kullanın',
+        en: 'Use headings in order (H1 → H2 → H3) without skipping levels'
+      }
+    }
+  },
+  {
+    id: 'https',
+    category: 'technical',
+    weight: 10,
+    severity: 'critical',
+    title: { tr: 'HTTPS', en: 'HTTPS' },
+    check: ({ analysis }) => ({ passed: analysis.hasSSL }),
+    messages: {
+      pass: { tr: 'SSL sertifikası aktif (HTTPS)', en: 'SSL is active (HTTPS)' },
+      fail: { tr: 'SSL sertifikası yok (HTTP)', en: 'No SSL (served over HTTP)' },
+      suggestion: {
+        tr: 'SSL sertifikası alın ve HTTPS\'e geçin',
+        en: 'Get an SSL certificate and move to HTTPS'
+      }
+    }
+  },
+  {
+    id: 'canonical',
+    category: 'technical',
+    weight: 4,
+    severity: 'major',
+    title: { tr: 'Canonical etiketi', en: 'Canonical tag' },
+    check: ({ audit }) => ({ passed: !!audit.canonical }),
+    messages: {
+      pass: { tr: 'Canonical etiketi mevcut', en: 'Canonical tag present' },
+      fail: { tr: 'Canonical etiketi eksik', en: 'Canonical tag is missing' },
+      suggestion: {
+        tr: 'Kopya içerik riskine karşı her sayfaya self-referencing canonical ekleyin',
+        en: 'Add a self-referencing canonical to every page to avoid duplicate content'
+      }
+    }
+  },
+  {
+    id: 'html-lang',
+    category: 'technical',
+    weight: 3,
+    severity: 'minor',
+    title: { tr: 'HTML lang özniteliği', en: 'HTML lang attribute' },
+    check: ({ audit }) => ({ passed: !!audit.lang, params: { lang: audit.lang } }),
+    messages: {
+      pass: {
+        tr: ({ lang }) => `HTML lang özniteliği tanımlı: "${lang}"`,
+        en: ({ lang }) => `HTML lang attribute set: "${lang}"`
+      },
+      fail: { tr: 'HTML lang özniteliği eksik', en: 'HTML lang attribute is missing' },
+      suggestion: {
+        tr: '<html> etiketine sayfa dilini belirten lang özniteliği ekleyin (ör. lang="tr")',
+        en: 'Add a lang attribute to the <html> element (e.g. lang="en")'
+      }
+    }
+  },
+  {
+    id: 'structured-data',
+    category: 'technical',
+    weight: 4,
+    severity: 'minor',
+    title: { tr: 'Structured data', en: 'Structured data' },
+    check: ({ audit }) => ({ passed: audit.structuredData.types.length > 0, params: { types: audit.structuredData.types.join(', ') } }),
+    messages: {
+      pass: {
+        tr: ({ types }) => `Structured data mevcut: ${types}`,
+        en: ({ types }) => `Structured data present: ${types}`
+      },
+      fail: { tr: 'Structured data bulunamadı', en: 'No structured data found' },
+      suggestion: {
+        tr: 'Organization veya ilgili schema.org tipinde JSON-LD structured data ekleyin',
+        en: 'Add JSON-LD structured data (Organization or a relevant schema.org type)'
+      }
+    }
+  },
+  {
+    id: 'structured-data-valid',
+    category: 'technical',
+    weight: 4,
+    severity: 'major',
+    title: { tr: 'Structured data doğrulaması', en: 'Structured data validation' },
+    check: ({ schema }) => {
+      if (!schema || (!schema.items.length && !schema.jsonLdErrors)) return null;
+      const invalid = schema.items.filter(item => !item.valid);
+      const total = schema.items.length + schema.jsonLdErrors;
+      return {
+        passed: invalid.length === 0 && schema.jsonLdErrors === 0,
+        ratio: schema.validCount / total,
+        params: {
+          types: schema.items.map(item => item.schemaType).join(', '),
+          details: invalid.map(item => `${item.type} (${item.missingRequired.join(', ')})`).join('; '),
+          parseErrors: schema.jsonLdErrors
+        }
+      };
+    },
+    messages: {
+      pass: {
+        tr: ({ types }) => `Structured data zorunlu alanları eksiksiz: ${types}`,
+        en: ({ types }) => `Structured data has all required properties: ${types}`
+      },
+      fail: {
+        tr: ({ details, parseErrors }) => [
+          details && `Structured data zorunlu alanları eksik: ${details}`,
+          parseErrors && `${parseErrors} JSON-LD bloğu ayrıştırılamadı`
+        ].filter(Boolean).join('; '),
+        en: ({ details, parseErrors }) => [
+          details && `Structured data is missing required properties: ${details}`,
+          parseErrors && `${parseErrors} JSON-LD block(s) could not be parsed`
+        ].filter(Boolean).join('; ')
+      },
+      suggestion: {
+        tr: 'Eksik schema.org alanlarını tamamlayın ve Rich Results Test ile doğrulayın',
+        en: 'Fill in the missing schema.org properties and verify with the Rich Results Test'
+      }
+    }
+  },
+  {
+    id: 'open-graph',
+    category: 'social',
+    weight: 5,
+    severity: 'minor',
+    title: { tr: 'Open Graph etiketleri', en: 'Open Graph tags' },
+    check: ({ analysis }) => ({ passed: analysis.hasOG }),
+    messages: {
+      pass: { tr: 'Open Graph meta etiketleri mevcut', en: 'Open Graph meta tags present' },
+      fail: { tr: 'Open Graph meta etiketleri eksik', en: 'Open Graph meta tags are missing' },
+      suggestion: {
+        tr: 'Sosyal medya paylaşımları için OG etiketleri ekleyin',
+        en: 'Add OG tags for social media sharing'
+      }
+    }
+  },
+  {
+    id: 'image-alt',
+    category: 'media',
+    weight: 5,
+    severity: 'major',
+    title: { tr: 'Görsel alt text', en: 'Image alt text' },
+    check: ({ audit }) => {
+      if (audit.images.total === 0) return null;
+      return {
+        passed: audit.images.missingAlt === 0,
+        ratio: audit.images.coverage / 100,
+        params: { total: audit.images.total, missing: audit.images.missingAlt, coverage: audit.images.coverage }
+      };
+    },
+    messages: {
+      pass: {
+        tr: ({ total }) => `${total} görselin tamamında alt text mevcut`,
+        en: ({ total }) => `All ${total} images have alt text`
+      },
+      fail: {
+        tr: ({ missing, coverage }) => `${missing} görselde alt text eksik (kapsama: %${coverage})`,
+        en: ({ missing, coverage }) => `${missing} images are missing alt text (coverage: ${coverage}%)`
+      },
+      suggestion: { tr: 'Tüm görsellere alt text ekleyin', en: 'Add alt text to all images' }
+    }
+  },
+  {
+    id: 'duplicate-titles',
+    category: 'content',
+    weight: 3,
+    severity: 'minor',
+    title: { tr: 'Site genelinde tekrarlanan title', en: 'Duplicate titles across site' },
+    check: ({ crawl }) => {
+      if (!crawl || crawl.summary.pagesAnalyzed < 2) return null;
+      const groups = crawl.summary.duplicateTitles.length;
+      return { passed: groups === 0, params: { groups, pages: crawl.summary.pagesAnalyzed } };
+    },
+    messages: {
+      pass: {
+        tr: ({ pages }) => `Taranan ${pages} sayfada title etiketleri benzersiz`,
+        en: ({ pages }) => `Titles are unique across ${pages} crawled pages`
+      },
+      fail: {
+        tr: ({ groups }) => `${groups} grup sayfada aynı title kullanılmış`,
+        en: ({ groups }) => `${groups} groups of pages share the same title`
+      },
+      suggestion: {
+        tr: 'Her sayfaya içeriğini yansıtan benzersiz bir title yazın',
+        en: 'Write a unique title for every page that reflects its content'
+      }
+    }
+  }
+];
+
+registerRules(seoRules);
@@ -0,0 +1,186 @@
+// URL güvenlik katmanı (SSRF): DNS çözümleme, özel/loopback/link-local ağ engeli,
+// her yönlendirme adımında yeniden doğrulama, boyut ve süre sınırları
+import fetch from 'node-fetch';
+import dns from 'node:dns';
+import http from 'node:http';
+import https from 'node:https';
+import net from 'node:net';
+
+export const MAX_REDIRECTS = 5;
+export const DEFAULT_TIMEOUT = 10000;
+export const DEFAULT_MAX_BYTES = 2 * 1024 * 1024;
+
+// Dashboard'un gösterebileceği tipli hata; code istemciye aynen iletilir
+export class UrlSafetyError extends Error {
+  constructor(code, message, details = {}) {
+    super(message);
+    this.name = 'UrlSafetyError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+// Geliştirme ortamında yerel sunucuları taramak için açılabilir
+const allowPrivate = () => process.env.SCANNER_ALLOW_PRIVATE_HOSTS === 'true';
+
+const blockList = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24],
+  ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4]
+].forEach(([address, prefix]) => blockList.addSubnet(address, prefix, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([address, prefix]) => blockList.addSubnet(address, prefix, 'ipv6'));
+
+const stripBrackets = (host) => host.replace(/^\[|\]$/g, '');
+
+// IPv4-mapped IPv6 adresleri (::ffff:127.0.0.1) IPv4 kurallarıyla da eşleşir
+export function isBlockedAddress(address) {
+  const ip = stripBrackets(address || '');
+  const family = net.isIP(ip);
+  if (!family) return false;
+  return blockList.check(ip, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+const blockedAddressError = (host, address) =>
+  new UrlSafetyError('blocked-address', `Özel veya yerel ağ adresine erişim engellendi: ${host}`, { host, address });
+
+// Bağlantı anında çözümlenen adresleri de denetle (DNS rebinding'e karşı); agent dışı soketler
+// (ör. tls.connect) da `lookup` seçeneğiyle kullanır
+export function guardedLookup(hostname, options, callback) {
+  const opts = typeof options === 'function' ? {} : typeof options === 'number' ? { family: options } : options;
+  const done = typeof options === 'function' ? options : callback;
+  dns.lookup(hostname, { ...opts, all: true }, (error, addresses) => {
+    if (error) return done(error);
+    const blocked = allowPrivate() ? null : addresses.find(entry => isBlockedAddress(entry.address));
+    if (blocked) return done(blockedAddressError(hostname, blocked.address));
+    if (opts.all) return done(null, addresses);
+    return done(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+// Bağlantının gerçekte kurulduğu adresin denetimi; lookup'ı yönetemediğimiz istemciler
+// (headless Chromium) için yanıt geldikten sonra uygulanır
+export function assertSafeAddress(host, address) {
+  if (!allowPrivate() && isBlockedAddress(address)) throw blockedAddressError(host, stripBrackets(address));
+}
+
+// IP literal'ler lookup'a uğramaz; bağlantı kurulmadan önce kontrol edilir
+const guarded = (Base) => class extends Base {
+  createConnection(options, callback) {
+    const host = stripBrackets(options.host || options.hostname || '');
+    if (!allowPrivate() && isBlockedAddress(host)) {
+      process.nextTick(callback, blockedAddressError(host, host));
+      return undefined;
+    }
+    return super.createConnection(options, callback);
+  }
+};
+
+const httpAgent = new (guarded(http.Agent))({ lookup: guardedLookup });
+const httpsAgent = new (guarded(https.Agent))({ lookup: guardedLookup });
+
+// node-fetch `agent` seçeneği; tarayıcının yaptığı her istekte kullanılmalı
+export const safeAgent = (parsedUrl) => (parsedUrl.protocol === 'http:' ? httpAgent : httpsAgent);
+
+// URL'i ayrıştır, protokolü ve çözümlenen tüm adresleri doğrula
+export async function assertSafeUrl(value) {
+  let parsed;
+  try {
+    parsed = new URL(value);
+  } catch {
+    throw new UrlSafetyError('invalid-url', `Geçersiz URL: ${value}`);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new UrlSafetyError('unsupported-protocol', `Desteklenmeyen protokol: ${parsed.protocol}`);
+  }
+  if (parsed.username || parsed.password) {
+    throw new UrlSafetyError('credentials-in-url', 'URL içinde kullanıcı adı/parola kullanılamaz');
+  }
+  if (allowPrivate()) return parsed;
+
+  const host = stripBrackets(parsed.hostname).toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost')) throw blockedAddressError(host, null);
+  if (net.isIP(host)) {
+    if (isBlockedAddress(host)) throw blockedAddressError(host, host);
+    return parsed;
+  }
+
+  let addresses;
+  try {
+    addresses = await dns.promises.lookup(host, { all: true });
+  } catch (error) {
+    throw new UrlSafetyError('dns-failed', `Alan adı çözümlenemedi: ${host}`, { host, reason: error.code || error.message });
+  }
+  const blocked = addresses.find(entry => isBlockedAddress(entry.address));
+  if (blocked) throw blockedAddressError(host, blocked.address);
+  return parsed;
+}
+
+// Yönlendirmeleri elle izleyen fetch; her adımda URL yeniden doğrulanır, süre tüm zincir için geçerlidir.
+// compress: false aktarılan (sıkıştırılmış) baytları ölçmek isteyen çağıranlar içindir
+export async function safeFetch(url, { timeout = DEFAULT_TIMEOUT, maxRedirects = MAX_REDIRECTS, method = 'GET', headers, compress = true } = {}) {
+  const signal = AbortSignal.timeout(timeout);
+  const redirects = [];
+  let current = url;
+
+  for (;;) {
+    await assertSafeUrl(current);
+    let response;
+    try {
+      response = await fetch(current, { method, headers, compress, redirect: 'manual', agent: safeAgent, signal });
+    } catch (error) {
+      if (error.name === 'TimeoutError' || error.name === 'AbortError') {
+        throw new UrlSafetyError('timeout', `İstek ${timeout} ms içinde tamamlanamadı`, { url: current });
+      }
+      // node-fetch bağlantı hatasını FetchError'a sarar; engel kodu korunur
+      if (error.code === 'blocked-address') throw blockedAddressError(new URL(current).hostname, null);
+      throw error;
+    }
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, finalUrl: current, redirects };
+    }
+    response.body?.resume?.();
+    if (redirects.length >= maxRedirects) {
+      throw new UrlSafetyError('too-many-redirects', `${maxRedirects} yönlendirme sınırı aşıldı`, { url, redirects });
+    }
+    redirects.push(current);
+    current = new URL(location, current).toString();
+  }
+}
+
+// Gövdeyi en fazla maxBytes kadar oku; sınır aşılırsa akış kesilir ve truncated işaretlenir
+export async function readBody(response, { maxBytes = DEFAULT_MAX_BYTES } = {}) {
+  const declared = Number(response.headers.get('content-length'));
+  const chunks = [];
+  let size = 0;
+  let truncated = false;
+
+  if (!response.body) return { buffer: Buffer.alloc(0), text: '', bytes: 0, truncated };
+  for await (const chunk of response.body) {
+    const remaining = maxBytes - size;
+    if (chunk.length > remaining) {
+      chunks.push(chunk.subarray(0, remaining));
+      size += remaining;
+      truncated = true;
+      break;
+    }
+    chunks.push(chunk);
+    size += chunk.length;
+  }
+  if (truncated) response.body.destroy?.();
+
+  const buffer = Buffer.concat(chunks);
+  return {
+    buffer,
+    text: buffer.toString('utf8'),
+    bytes: size,
+    truncated: truncated || (Number.isFinite(declared) && declared > maxBytes)
+  };
+}
+
+// API yanıtı için hata gövdesi
+export const toSafetyResponse = (error) => ({ error: 'unsafe_url', code: error.code, message: error.message });
@@ -0,0 +1,122 @@
+// schema.org structured data doğrulaması (desteklenen tiplerin gömülü alt kümesi)
+//
+// required / recommended girdileri nokta ile ayrılmış yollardır ("acceptedAnswer.text").
+// Dizi verilen girdi "bunlardan en az biri" anlamına gelir.
+// items: liste tipindeki bir özelliğin her öğesi için ayrıca zorunlu alan kontrolü.
+
+export const SCHEMA_TYPES = {
+  Organization: {
+    subtypes: ['Corporation', 'NGO', 'EducationalOrganization', 'OnlineStore'],
+    required: ['name', 'url'],
+    recommended: ['logo', 'sameAs', 'contactPoint']
+  },
+  Product: {
+    subtypes: [],
+    required: ['name', ['offers', 'review', 'aggregateRating']],
+    recommended: ['image', 'description', 'brand', 'sku'],
+    items: { property: 'offers', required: [['price', 'lowPrice', 'priceSpecification'], 'priceCurrency'] }
+  },
+  Article: {
+    subtypes: ['NewsArticle', 'BlogPosting', 'TechArticle', 'Report'],
+    required: ['headline'],
+    recommended: ['author', 'datePublished', 'dateModified', 'image', 'publisher']
+  },
+  FAQPage: {
+    subtypes: [],
+    required: ['mainEntity'],
+    recommended: [],
+    items: { property: 'mainEntity', required: ['name', 'acceptedAnswer.text'] }
+  },
+  BreadcrumbList: {
+    subtypes: [],
+    required: ['itemListElement'],
+    recommended: [],
+    items: { property: 'itemListElement', required: ['position', ['name', 'item.name']] }
+  },
+  LocalBusiness: {
+    subtypes: ['Restaurant', 'Store', 'Dentist', 'MedicalBusiness', 'ProfessionalService', 'AutomotiveBusiness', 'LodgingBusiness', 'FoodEstablishment', 'HealthAndBeautyBusiness'],
+    required: ['name', 'address'],
+    recommended: ['telephone', 'url', 'openingHoursSpecification', 'geo', 'priceRange', 'image']
+  }
+};
+
+const typeName = (t) => String(t).replace(/^https?:\/\/schema\.org\//i, '');
+
+// Tipi desteklenen bir şemaya eşle (alt tipler ana tipin kurallarıyla doğrulanır)
+function resolveSchema(types) {
+  for (const type of types) {
+    if (SCHEMA_TYPES[type]) return type;
+    const parent = Object.keys(SCHEMA_TYPES).find(key => SCHEMA_TYPES[key].subtypes.includes(type));
+    if (parent) return parent;
+  }
+  return null;
+}
+
+const isPresent = (value) => {
+  if (value === undefined || value === null) return false;
+  if (typeof value === 'string') return value.trim().length > 0;
+  if (Array.isArray(value)) return value.some(isPresent);
+  return true;
+};
+
+// Yol üzerindeki değeri oku; ara adımda dizi varsa herhangi bir öğede bulunması yeterli
+function readPath(value, path) {
+  let current = [value];
+  for (const key of path.split('.')) {
+    current = current
+      .flatMap(v => (Array.isArray(v) ? v : [v]))
+      .filter(v => v && typeof v === 'object')
+      .map(v => v[key])
+      .filter(v => v !== undefined);
+  }
+  return current.length ? current : undefined;
+}
+
+const missingFrom = (item, requirements) => requirements
+  .filter(req => ![].concat(req).some(path => isPresent(readPath(item, path))))
+  .map(req => [].concat(req).join(' | '));
+
+function validateItem(item, source) {
+  const types = [].concat(item['@type'] || []).map(typeName);
+  const schemaType = resolveSchema(types);
+  if (!schemaType) return { source, type: types.join(', ') || null, supported: false };
+
+  const schema = SCHEMA_TYPES[schemaType];
+  const missingRequired = missingFrom(item, schema.required);
+
+  if (schema.items && isPresent(item[schema.items.property])) {
+    [].concat(item[schema.items.property]).forEach((child, index) => {
+      if (!child || typeof child !== 'object') return;
+      for (const path of missingFrom(child, schema.items.required)) {
+        missingRequired.push(`${schema.items.property}[${index}].${path}`);
+      }
+    });
+  }
+
+  return {
+    source,
+    type: types.join(', '),
+    schemaType,
+    supported: true,
+    valid: missingRequired.length === 0,
+    missingRequired: missingRequired.slice(0, 20),
+    missingRecommended: missingFrom(item, schema.recommended)
+  };
+}
+
+// audit.structuredData içindeki JSON-LD ve microdata öğelerini doğrula
+export function validateStructuredData(structuredData) {
+  const results = [
+    ...(structuredData?.jsonLd || []).map(item => validateItem(item, 'json-ld')),
+    ...(structuredData?.microdataItems || []).map(item => validateItem(item, 'microdata'))
+  ];
+  const supported = results.filter(r => r.supported);
+
+  return {
+    items: supported,
+    validCount: supported.filter(r => r.valid).length,
+    invalidCount: supported.filter(r => !r.valid).length,
+    unsupportedTypes: [...new Set(results.filter(r => !r.supported && r.type).map(r => r.type))],
+    jsonLdErrors: structuredData?.jsonLdErrors || 0
+  };
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { validateStructuredData } from './schema.js';
+import { seoRules } from './rules/seo.js';
+
+const validate = (jsonLd, extra = {}) => validateStructuredData({ jsonLd, microdataItems: [], jsonLdErrors: 0, ...extra });
+
+describe('validateStructuredData', () => {
+  it('accepts a complete item and lists missing recommended properties', () => {
+    const { items, validCount, invalidCount } = validate([{ '@type': 'Organization', name: 'Örnek', url: 'https://example.com', logo: '/logo.png' }]);
+    expect(validCount).toBe(1);
+    expect(invalidCount).toBe(0);
+    expect(items[0]).toMatchObject({ source: 'json-ld', schemaType: 'Organization', valid: true, missingRequired: [], missingRecommended: ['sameAs', 'contactPoint'] });
+  });
+
+  it('validates subtypes and schema.org URLs with the parent rules', () => {
+    const { items } = validate([
+      { '@type': 'https://schema.org/BlogPosting', headline: 'Yazı' },
+      { '@type': ['Thing', 'Restaurant'], name: 'Lokanta' }
+    ]);
+    expect(items.map(item => [item.type, item.schemaType, item.valid])).toEqual([
+      ['BlogPosting', 'Article', true],
+      ['Thing, Restaurant', 'LocalBusiness', false]
+    ]);
+    expect(items[1].missingRequired).toEqual(['address']);
+  });
+
+  it('treats blank strings as missing and alternatives as one requirement', () => {
+    const [product] = validate([{ '@type': 'Product', name: '  ' }]).items;
+    expect(product.missingRequired).toEqual(['name', 'offers | review | aggregateRating']);
+
+    const [rated] = validate([{ '@type': 'Product', name: 'Ayakkabı', aggregateRating: { ratingValue: 4.5 } }]).items;
+    expect(rated.valid).toBe(true);
+  });
+
+  it('checks required properties on each list item with its index', () => {
+    const [faq] = validate([{
+      '@type': 'FAQPage',
+      mainEntity: [
+        { '@type': 'Question', name: 'Kargo?', acceptedAnswer: { text: 'Ücretsiz' } },
+        { '@type': 'Question', name: 'İade?', acceptedAnswer: [{ '@type': 'Answer' }] }
+      ]
+    }]).items;
+    expect(faq.missingRequired).toEqual(['mainEntity[1].acceptedAnswer.text']);
+
+    const [offer] = validate([{ '@type': 'Product', name: 'A', offers: { lowPrice: 5 } }]).items;
+    expect(offer.missingRequired).toEqual(['offers[0].priceCurrency']);
+
+    const [breadcrumb] = validate([{ '@type': 'BreadcrumbList', itemListElement: [{ position: 1, item: { name: 'Ana sayfa' } }] }]).items;
+    expect(breadcrumb.valid).toBe(true);
+  });
+
+  it('separates unsupported types and merges microdata items', () => {
+    const result = validate([{ '@type': 'WebSite' }, { '@type': 'WebSite' }, { name: 'tipsiz' }], {
+      microdataItems: [{ '@type': ['Product'], name: 'B', offers: { price: '10', priceCurrency: 'TRY' } }],
+      jsonLdErrors: 2
+    });
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0]).toMatchObject({ source: 'microdata', valid: true });
+    expect(result.unsupportedTypes).toEqual(['WebSite']);
+    expect(result.jsonLdErrors).toBe(2);
+  });
+
+  it('handles a page without structured data', () => {
+    expect(validateStructuredData(undefined)).toEqual({ items: [], validCount: 0, invalidCount: 0, unsupportedTypes: [], jsonLdErrors: 0 });
+  });
+});
+
+describe('structured-data-valid rule', () => {
+  const check = (schema) => seoRules.find(rule => rule.id === 'structured-data-valid').check({ schema });
+
+  it('counts JSON-LD parse errors against the score', () => {
+    const schema = validate([{ '@type': 'Article', headline: 'A' }, { '@type': 'Article' }], { jsonLdErrors: 2 });
+    expect(check(schema)).toMatchObject({ passed: false, ratio: 0.25, params: { details: 'Article (headline)', parseErrors: 2 } });
+  });
+
+  it('is skipped when there is nothing to validate', () => {
+    expect(check(validate([{ '@type': 'WebSite' }]))).toBeNull();
+    expect(check(undefined)).toBeNull();
+  });
+});
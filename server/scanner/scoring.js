@@ -0,0 +1,134 @@
+// Kural tabanlı, açıklanabilir skor motoru
+//
+// Her kural bildirimsel olarak kaydedilir:
+//   { id, category, weight, severity, title: {tr, en}, check(ctx), messages: { pass, fail, suggestion } }
+// check(ctx) uygulanamıyorsa null, aksi halde { passed, ratio?, params? } döner.
+// Mesajlar { tr, en } nesnesidir; değerler string ya da params alan fonksiyon olabilir.
+
+export const SEVERITIES = ['critical', 'major', 'minor', 'info'];
+export const SUPPORTED_LANGS = ['tr', 'en'];
+
+const registry = new Map();
+
+export function registerRule(rule) {
+  if (!rule?.id || typeof rule.check !== 'function') {
+    throw new Error('Rule must have an id and a check function');
+  }
+  if (registry.has(rule.id)) {
+    throw new Error(`Rule already registered: ${rule.id}`);
+  }
+  if (!SEVERITIES.includes(rule.severity)) {
+    throw new Error(`Invalid severity for rule ${rule.id}: ${rule.severity}`);
+  }
+  registry.set(rule.id, { weight: 1, ...rule });
+}
+
+export function registerRules(rules) {
+  rules.forEach(registerRule);
+}
+
+// UI için kural listesi (check fonksiyonu olmadan)
+export function listRules(lang = 'tr') {
+  return [...registry.values()].map(rule => ({
+    id: rule.id,
+    category: rule.category,
+    weight: rule.weight,
+    severity: rule.severity,
+    title: localize(rule.title, lang) || rule.id
+  }));
+}
+
+function localize(message, lang, params = {}) {
+  if (!message) return null;
+  const value = message[lang] ?? message.tr;
+  return typeof value === 'function' ? value(params) : value;
+}
+
+const toScore = (earned, total) => (total > 0 ? Math.round((earned / total) * 100) : 100);
+
+// Tüm etkin kuralları çalıştır; skor = kazanılan ağırlık / uygulanabilir toplam ağırlık
+export function evaluateRules(context, { disabled = [], lang = 'tr' } = {}) {
+  const language = SUPPORTED_LANGS.includes(lang) ? lang : 'tr';
+  const disabledSet = new Set(disabled);
+  const results = [];
+  const positives = [];
+  const negatives = [];
+  const suggestions = [];
+  const refs = { positives: [], negatives: [], suggestions: [] };
+
+  const push = (list, key, ruleId, message) => {
+    if (!message) return;
+    list.push(message);
+    refs[key].push(ruleId);
+  };
+
+  for (const rule of registry.values()) {
+    if (disabledSet.has(rule.id)) {
+      results.push({ id: rule.id, category: rule.category, severity: rule.severity, weight: rule.weight, status: 'disabled', earned: 0 });
+      continue;
+    }
+
+    let outcome;
+    try {
+      outcome = rule.check(context);
+    } catch (error) {
+      console.error(`[ERROR] Rule ${rule.id} failed:`, error.message);
+      outcome = null;
+    }
+
+    if (!outcome) {
+      results.push({ id: rule.id, category: rule.category, severity: rule.severity, weight: rule.weight, status: 'skipped', earned: 0 });
+      continue;
+    }
+
+    const params = outcome.params || {};
+    const ratio = outcome.passed ? 1 : Math.min(Math.max(outcome.ratio ?? 0, 0), 1);
+    const earned = Math.round(rule.weight * ratio * 100) / 100;
+
+    const result = {
+      id: rule.id,
+      category: rule.category,
+      severity: rule.severity,
+      weight: rule.weight,
+      status: outcome.passed ? 'pass' : 'fail',
+      earned
+    };
+
+    if (outcome.passed) {
+      result.message = localize(rule.messages.pass, language, params);
+      push(positives, 'positives', rule.id, result.message);
+    } else {
+      result.message = localize(rule.messages.fail, language, params);
+      result.suggestion = localize(rule.messages.suggestion, language, params);
+      push(negatives, 'negatives', rule.id, result.message);
+      push(suggestions, 'suggestions', rule.id, result.suggestion);
+    }
+
+    results.push(result);
+  }
+
+  const evaluated = results.filter(r => r.status === 'pass' || r.status === 'fail');
+  const categories = {};
+  for (const r of evaluated) {
+    const bucket = categories[r.category] || (categories[r.category] = { earned: 0, total: 0, score: 0 });
+    bucket.earned += r.earned;
+    bucket.total += r.weight;
+  }
+  for (const bucket of Object.values(categories)) {
+    bucket.score = toScore(bucket.earned, bucket.total);
+  }
+
+  return {
+    score: toScore(
+      evaluated.reduce((sum, r) => sum + r.earned, 0),
+      evaluated.reduce((sum, r) => sum + r.weight, 0)
+    ),
+    lang: language,
+    categories,
+    rules: results,
+    positives,
+    negatives,
+    suggestions,
+    refs
+  };
+}
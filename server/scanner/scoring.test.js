@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateRules, listRules, registerRule } from './rules/index.js';
+import { auditHTML } from './audit.js';
+import { toAnalysis } from './analyze.js';
+
+// Kural bağlamı: yalnızca HTML'den türetilen alanlar; diğer denetimlere bağlı kurallar atlanır
+const contextFor = (html, url = 'https://example.com/') => {
+  const audit = auditHTML(html, url);
+  return { url, audit, analysis: toAnalysis(audit, url) };
+};
+
+const GOOD_PAGE = `<html lang="tr"><head>
+  <title>Örnek Mağaza – El yapımı deri ayakkabı ve çanta</title>
+  <meta name="description" content="${'Türkiye\'nin her yerine ücretsiz kargo ile el yapımı deri ayakkabı, çanta ve aksesuarlar. '.repeat(2).slice(0, 150)}">
+  <meta property="og:title" content="Örnek">
+  <link rel="canonical" href="https://example.com/">
+  <script type="application/ld+json">{"@type":"Organization","name":"Örnek"}</script>
+</head><body><h1>Örnek Mağaza</h1><h2>Ürünler</h2><img src="/a.png" alt="Ayakkabı"></body></html>`;
+
+const statusOf = (scoring, id) => scoring.rules.find(rule => rule.id === id)?.status;
+
+describe('evaluateRules', () => {
+  it('scores earned weight over the weight of applicable rules only', () => {
+    const scoring = evaluateRules(contextFor(GOOD_PAGE));
+    expect(statusOf(scoring, 'title-present')).toBe('pass');
+    // Tarama verisi olmayan kurallar skoru düşürmez
+    expect(statusOf(scoring, 'duplicate-titles')).toBe('skipped');
+    expect(scoring.categories.meta.score).toBe(100);
+
+    const evaluated = scoring.rules.filter(rule => rule.status === 'pass' || rule.status === 'fail');
+    const earned = evaluated.reduce((sum, rule) => sum + rule.earned, 0);
+    const total = evaluated.reduce((sum, rule) => sum + rule.weight, 0);
+    expect(scoring.score).toBe(Math.round((earned / total) * 100));
+  });
+
+  it('gives partial credit by ratio and keeps messages aligned with rule ids', () => {
+    const scoring = evaluateRules(contextFor('<title>Kısa</title><img src="/a.png"><img src="/b.png" alt="B"><img src="/c.png" alt="C"><img src="/d.png" alt="D">'));
+    const imageAlt = scoring.rules.find(rule => rule.id === 'image-alt');
+    expect(imageAlt).toMatchObject({ status: 'fail', earned: Math.round(imageAlt.weight * 0.75 * 100) / 100 });
+    expect(scoring.rules.find(rule => rule.id === 'title-length')).toMatchObject({ status: 'fail', earned: 2 });
+
+    expect(scoring.negatives).toHaveLength(scoring.refs.negatives.length);
+    expect(scoring.refs.negatives).not.toContain('title-present');
+    expect(scoring.negatives[scoring.refs.negatives.indexOf('title-length')]).toBe('Title çok kısa (30 karakterden az)');
+  });
+
+  it('leaves disabled rules out of the score', () => {
+    const context = contextFor('<title>Başlık</title>');
+    const all = evaluateRules(context);
+    const without = evaluateRules(context, { disabled: ['meta-description-present', 'canonical', 'html-lang', 'open-graph'] });
+    expect(statusOf(without, 'canonical')).toBe('disabled');
+    expect(without.score).toBeGreaterThan(all.score);
+  });
+
+  it('localizes messages and falls back to Turkish for unknown languages', () => {
+    const context = contextFor('<title>Başlık</title>');
+    expect(evaluateRules(context, { lang: 'en' }).negatives).toContain('Meta description is missing');
+    const unknown = evaluateRules(context, { lang: 'de' });
+    expect(unknown.lang).toBe('tr');
+    expect(unknown.negatives).toContain('Meta description eksik');
+  });
+
+  it('scores an empty rule set as 100', () => {
+    const ids = listRules().map(rule => rule.id);
+    expect(evaluateRules(contextFor(''), { disabled: ids }).score).toBe(100);
+  });
+});
+
+describe('registerRule', () => {
+  const rule = { id: 'test-rule', category: 'meta', severity: 'minor', title: { tr: 'Test' }, messages: {}, check: () => { throw new Error('boom'); } };
+
+  it('validates rules and rejects duplicate ids', () => {
+    expect(() => registerRule({ ...rule, check: undefined })).toThrow('check function');
+    expect(() => registerRule({ ...rule, severity: 'blocker' })).toThrow('Invalid severity');
+    expect(() => registerRule({ ...rule, id: 'title-present' })).toThrow('already registered');
+  });
+
+  it('skips a rule whose check throws instead of failing the scan', () => {
+    registerRule(rule);
+    const scoring = evaluateRules(contextFor(GOOD_PAGE));
+    expect(statusOf(scoring, 'test-rule')).toBe('skipped');
+    expect(listRules('tr').find(item => item.id === 'test-rule')).toMatchObject({ weight: 1, title: 'Test' });
+  });
+});
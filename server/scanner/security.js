@@ -0,0 +1,182 @@
+// Güvenlik başlıkları, http→https yönlendirmesi ve TLS sertifikası denetimi
+import fetch from 'node-fetch';
+import tls from 'node:tls';
+import net from 'node:net';
+import { DEFAULT_HEADERS } from './fetch.js';
+import { safeAgent, safeFetch, assertSafeUrl, guardedLookup } from './safety.js';
+
+const SECURITY_TIMEOUT = 8000;
+const HSTS_MIN_MAX_AGE = 15552000; // 180 gün
+const CERT_WARNING_DAYS = 14;
+const SAFE_REFERRER_POLICIES = [
+  'no-referrer', 'same-origin', 'strict-origin', 'strict-origin-when-cross-origin', 'origin', 'origin-when-cross-origin', 'no-referrer-when-downgrade'
+];
+
+// Kontrol ağırlıkları; skor = kazanılan / uygulanabilir toplam
+const CHECK_WEIGHTS = {
+  https: 20,
+  certificate: 20,
+  'https-redirect': 15,
+  hsts: 15,
+  csp: 10,
+  'x-content-type-options': 8,
+  'referrer-policy': 6,
+  'permissions-policy': 6
+};
+
+// TLS el sıkışmasıyla sertifika bilgilerini oku (doğrulama hatası olsa da bağlantı kurulur);
+// bağlantı anındaki DNS çözümlemesi de engelli adreslere karşı denetlenir
+export function inspectCertificate(host, { port = 443, timeout = SECURITY_TIMEOUT } = {}) {
+  return new Promise((resolve) => {
+    const options = { host, port, rejectUnauthorized: false, timeout, lookup: guardedLookup };
+    if (!net.isIP(host)) options.servername = host;
+
+    const socket = tls.connect(options, () => {
+      const cert = socket.getPeerCertificate();
+      const validTo = cert?.valid_to ? new Date(cert.valid_to) : null;
+      resolve({
+        authorized: socket.authorized,
+        authorizationError: socket.authorizationError ? String(socket.authorizationError) : null,
+        subject: cert?.subject?.CN || null,
+        issuer: cert?.issuer?.O || cert?.issuer?.CN || null,
+        validFrom: cert?.valid_from ? new Date(cert.valid_from).toISOString() : null,
+        validTo: validTo ? validTo.toISOString() : null,
+        daysRemaining: validTo ? Math.floor((validTo.getTime() - Date.now()) / 86400000) : null,
+        protocol: socket.getProtocol(),
+        error: null
+      });
+      socket.end();
+    });
+
+    socket.on('timeout', () => {
+      socket.destroy();
+      resolve({ error: 'timeout' });
+    });
+    socket.on('error', (error) => resolve({ error: error.code || error.message }));
+  });
+}
+
+// http:// sürümünün https'e kalıcı yönlendirip yönlendirmediği
+async function checkHttpsRedirect(host) {
+  const httpUrl = `http://${host}/`;
+  try {
+    const response = await fetch(httpUrl, { redirect: 'manual', agent: safeAgent, headers: DEFAULT_HEADERS, signal: AbortSignal.timeout(SECURITY_TIMEOUT) });
+    response.body?.resume?.();
+    const location = response.headers.get('location');
+    const target = location ? new URL(location, httpUrl) : null;
+    return {
+      status: response.status,
+      location: target ? target.toString() : null,
+      redirectsToHttps: !!target && target.protocol === 'https:' && response.status >= 300 && response.status < 400,
+      permanent: response.status === 301 || response.status === 308,
+      error: null
+    };
+  } catch (error) {
+    const timedOut = error.name === 'TimeoutError' || error.name === 'AbortError';
+    return { status: 0, location: null, redirectsToHttps: false, permanent: false, error: timedOut ? 'timeout' : error.message };
+  }
+}
+
+async function fetchHeaders(url) {
+  const { response, finalUrl } = await safeFetch(url, { headers: DEFAULT_HEADERS, timeout: SECURITY_TIMEOUT });
+  response.body?.resume?.();
+  const pick = (name) => response.headers.get(name);
+  return {
+    finalUrl,
+    status: response.status,
+    headers: {
+      'strict-transport-security': pick('strict-transport-security'),
+      'content-security-policy': pick('content-security-policy'),
+      'content-security-policy-report-only': pick('content-security-policy-report-only'),
+      'x-content-type-options': pick('x-content-type-options'),
+      'referrer-policy': pick('referrer-policy'),
+      'permissions-policy': pick('permissions-policy'),
+      'x-frame-options': pick('x-frame-options'),
+      server: pick('server'),
+      'x-powered-by': pick('x-powered-by')
+    }
+  };
+}
+
+export function parseHsts(value) {
+  if (!value) return null;
+  const maxAge = Number((value.match(/max-age\s*=\s*"?(\d+)/i) || [])[1] ?? NaN);
+  return {
+    maxAge: Number.isNaN(maxAge) ? null : maxAge,
+    includeSubDomains: /includesubdomains/i.test(value),
+    preload: /preload/i.test(value)
+  };
+}
+
+// Başlık ve TLS verilerinden kontrol listesi + alt skor üret
+export function evaluateSecurity({ isHttps, headers, certificate, redirect }) {
+  const checks = [];
+  const add = (id, status, value = null, note = null) => checks.push({ id, status, value, note });
+
+  add('https', isHttps ? 'pass' : 'fail');
+
+  if (!certificate) add('certificate', 'skipped');
+  else if (certificate.error) add('certificate', 'fail', null, certificate.error);
+  else if (!certificate.authorized) add('certificate', 'fail', certificate.validTo, certificate.authorizationError);
+  else if (certificate.daysRemaining < CERT_WARNING_DAYS) add('certificate', 'warn', certificate.validTo, `${certificate.daysRemaining} gün kaldı`);
+  else add('certificate', 'pass', certificate.validTo, `${certificate.daysRemaining} gün kaldı`);
+
+  if (!redirect) add('https-redirect', 'skipped');
+  else if (redirect.redirectsToHttps) add('https-redirect', redirect.permanent ? 'pass' : 'warn', redirect.location, redirect.permanent ? null : `HTTP ${redirect.status} (kalıcı değil)`);
+  else add('https-redirect', 'fail', redirect.location, redirect.error || `HTTP ${redirect.status}`);
+
+  const hsts = parseHsts(headers['strict-transport-security']);
+  if (!isHttps) add('hsts', 'skipped');
+  else if (!hsts) add('hsts', 'fail');
+  else if ((hsts.maxAge ?? 0) < HSTS_MIN_MAX_AGE) add('hsts', 'warn', headers['strict-transport-security'], 'max-age 180 günden kısa');
+  else add('hsts', 'pass', headers['strict-transport-security']);
+
+  const csp = headers['content-security-policy'];
+  if (csp) {
+    const weak = /'unsafe-inline'/.test(csp) && !/'nonce-|'sha(256|384|512)-/.test(csp);
+    add('csp', weak ? 'warn' : 'pass', csp.substring(0, 200), weak ? "'unsafe-inline' nonce/hash olmadan kullanılıyor" : null);
+  } else {
+    add('csp', 'fail', null, headers['content-security-policy-report-only'] ? 'Yalnızca report-only modunda' : null);
+  }
+
+  const xcto = headers['x-content-type-options'];
+  add('x-content-type-options', xcto && xcto.toLowerCase().includes('nosniff') ? 'pass' : 'fail', xcto);
+
+  const referrer = headers['referrer-policy'];
+  const lastPolicy = referrer ? referrer.split(',').map(p => p.trim().toLowerCase()).pop() : null;
+  add('referrer-policy', !referrer ? 'fail' : SAFE_REFERRER_POLICIES.includes(lastPolicy) ? 'pass' : 'warn', referrer);
+
+  add('permissions-policy', headers['permissions-policy'] ? 'pass' : 'fail', headers['permissions-policy']);
+
+  let earned = 0;
+  let total = 0;
+  for (const check of checks) {
+    if (check.status === 'skipped') continue;
+    total += CHECK_WEIGHTS[check.id];
+    earned += CHECK_WEIGHTS[check.id] * (check.status === 'pass' ? 1 : check.status === 'warn' ? 0.5 : 0);
+  }
+
+  return { score: total > 0 ? Math.round((earned / total) * 100) : 0, checks };
+}
+
+export async function auditSecurity(url) {
+  const [page, redirect] = await Promise.all([
+    fetchHeaders(url),
+    checkHttpsRedirect(new URL(url).host)
+  ]);
+
+  // Sertifika yönlendirme sonrası ulaşılan https host'undan okunur; TLS bağlantısı da güvenlik katmanından geçer
+  const final = await assertSafeUrl(page.finalUrl);
+  const isHttps = final.protocol === 'https:';
+  const certificate = isHttps ? await inspectCertificate(final.hostname, { port: Number(final.port) || 443 }) : null;
+  const { score, checks } = evaluateSecurity({ isHttps, headers: page.headers, certificate, redirect });
+
+  return {
+    score,
+    checks,
+    headers: page.headers,
+    certificate,
+    httpsRedirect: redirect,
+    checkedAt: new Date().toISOString()
+  };
+}
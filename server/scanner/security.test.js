@@ -0,0 +1,116 @@
+import http from 'node:http';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { auditSecurity, evaluateSecurity, inspectCertificate, parseHsts } from './security.js';
+
+const statusOf = (result, id) => result.checks.find(check => check.id === id)?.status;
+
+const SECURE_HEADERS = {
+  'strict-transport-security': 'max-age=31536000; includeSubDomains; preload',
+  'content-security-policy': "default-src 'self'",
+  'x-content-type-options': 'nosniff',
+  'referrer-policy': 'strict-origin-when-cross-origin',
+  'permissions-policy': 'camera=()'
+};
+const VALID_CERT = { authorized: true, validTo: '2030-01-01T00:00:00.000Z', daysRemaining: 90, error: null };
+const PERMANENT_REDIRECT = { status: 301, location: 'https://example.com/', redirectsToHttps: true, permanent: true, error: null };
+
+describe('inspectCertificate', () => {
+  it('refuses a TLS handshake when the host resolves to a private address', async () => {
+    // localhost assertSafeUrl'den geçmiş bir alan adının bağlantı anında yerel adrese çözüldüğü durumu temsil eder
+    await expect(inspectCertificate('localhost', { port: 9, timeout: 2000 })).resolves.toEqual({ error: 'blocked-address' });
+  });
+});
+
+describe('parseHsts', () => {
+  it('reads max-age and flags case-insensitively', () => {
+    expect(parseHsts('Max-Age="600"; IncludeSubDomains')).toEqual({ maxAge: 600, includeSubDomains: true, preload: false });
+    expect(parseHsts('includeSubDomains')).toEqual({ maxAge: null, includeSubDomains: true, preload: false });
+    expect(parseHsts(null)).toBeNull();
+  });
+});
+
+describe('evaluateSecurity', () => {
+  const evaluate = (overrides = {}) => evaluateSecurity({
+    isHttps: true, headers: SECURE_HEADERS, certificate: VALID_CERT, redirect: PERMANENT_REDIRECT, ...overrides
+  });
+
+  it('scores a fully hardened HTTPS site as 100', () => {
+    const result = evaluate();
+    expect(result.score).toBe(100);
+    expect(result.checks.every(check => check.status === 'pass')).toBe(true);
+  });
+
+  it('gives half credit for warnings', () => {
+    const result = evaluate({
+      headers: {
+        ...SECURE_HEADERS,
+        'strict-transport-security': 'max-age=86400',
+        'content-security-policy': "script-src 'self' 'unsafe-inline'",
+        'referrer-policy': 'no-referrer, unsafe-url'
+      },
+      certificate: { ...VALID_CERT, daysRemaining: 5 },
+      redirect: { ...PERMANENT_REDIRECT, status: 302, permanent: false }
+    });
+    expect(result.checks.filter(check => check.status === 'warn').map(check => check.id)).toEqual([
+      'certificate', 'https-redirect', 'hsts', 'csp', 'referrer-policy'
+    ]);
+    // 34 puan tam (https, nosniff, permissions-policy) + 66 puanın yarısı
+    expect(result.score).toBe(67);
+  });
+
+  it('accepts unsafe-inline next to a nonce and falls back to the last referrer policy', () => {
+    const result = evaluate({
+      headers: { ...SECURE_HEADERS, 'content-security-policy': "script-src 'nonce-abc' 'unsafe-inline'", 'referrer-policy': 'unsafe-url, same-origin' }
+    });
+    expect(statusOf(result, 'csp')).toBe('pass');
+    expect(statusOf(result, 'referrer-policy')).toBe('pass');
+  });
+
+  it('skips HTTPS-only checks on plain HTTP and notes a report-only CSP', () => {
+    const result = evaluate({ isHttps: false, certificate: null, redirect: null, headers: { 'content-security-policy-report-only': "default-src 'self'" } });
+    expect(result.checks.filter(check => check.status === 'skipped').map(check => check.id)).toEqual(['certificate', 'https-redirect', 'hsts']);
+    expect(result.checks.find(check => check.id === 'csp')).toMatchObject({ status: 'fail', note: 'Yalnızca report-only modunda' });
+    expect(result.score).toBe(0);
+  });
+
+  it('fails an untrusted or unreachable certificate', () => {
+    expect(evaluate({ certificate: { ...VALID_CERT, authorized: false, authorizationError: 'CERT_HAS_EXPIRED' } }).checks[1]).toMatchObject({ status: 'fail', note: 'CERT_HAS_EXPIRED' });
+    expect(evaluate({ certificate: { error: 'timeout' } }).checks[1]).toMatchObject({ status: 'fail', note: 'timeout' });
+  });
+});
+
+describe('auditSecurity against a local site', () => {
+  const server = http.createServer((req, res) => {
+    // http:// kökü https'e geçici olarak yönlendiriliyor; sayfa başlıklarla sunuluyor
+    if (req.url === '/') {
+      res.writeHead(302, { Location: 'https://example.com/' });
+      return res.end();
+    }
+    res.writeHead(200, { 'Content-Type': 'text/html', 'X-Content-Type-Options': 'nosniff', 'X-Powered-By': 'Express' });
+    res.end('<html></html>');
+  });
+  let base;
+
+  beforeAll(async () => {
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${server.address().port}`;
+  });
+  afterAll(() => new Promise(resolve => server.close(resolve)));
+  afterEach(() => vi.unstubAllEnvs());
+
+  it('reads the served headers and the http→https redirect', async () => {
+    vi.stubEnv('SCANNER_ALLOW_PRIVATE_HOSTS', 'true');
+    const result = await auditSecurity(`${base}/page`);
+
+    expect(result.certificate).toBeNull();
+    expect(result.headers).toMatchObject({ 'x-content-type-options': 'nosniff', 'x-powered-by': 'Express', 'content-security-policy': null });
+    expect(result.httpsRedirect).toEqual({ status: 302, location: 'https://example.com/', redirectsToHttps: true, permanent: false, error: null });
+    expect(statusOf(result, 'https')).toBe('fail');
+    expect(statusOf(result, 'https-redirect')).toBe('warn');
+    expect(statusOf(result, 'x-content-type-options')).toBe('pass');
+  });
+
+  it('refuses private addresses unless allowed', async () => {
+    await expect(auditSecurity(`${base}/page`)).rejects.toMatchObject({ code: 'blocked-address' });
+  });
+});
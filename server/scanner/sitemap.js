@@ -0,0 +1,199 @@
+// robots.txt + sitemap.xml analizi (sitemap index'ler dahil)
+import { gunzipSync } from 'node:zlib';
+import { DEFAULT_HEADERS, CRAWLER_USER_AGENT } from './fetch.js';
+import { fetchRobots, summarizeRobots, isPathAllowed } from './robots.js';
+import { mapWithConcurrency } from './concurrency.js';
+import { safeFetch, readBody, UrlSafetyError } from './safety.js';
+
+const SITEMAP_LIMIT = 10;
+const SITEMAP_MAX_BYTES = 10 * 1024 * 1024;
+const SITEMAP_TIMEOUT = 10000;
+const URL_CHECK_LIMIT = 20;
+const URL_CHECK_CONCURRENCY = 4;
+const URL_CHECK_TIMEOUT = 5000;
+const DEFAULT_SITEMAP_PATHS = ['/sitemap.xml', '/sitemap_index.xml'];
+
+const errorCode = (error) => (error instanceof UrlSafetyError ? error.code : error.name === 'TimeoutError' ? 'timeout' : error.message);
+
+const decodeEntities = (value) => value
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, '\'')
+  .replace(/&amp;/g, '&');
+
+const readTag = (block, tag) => {
+  const match = block.match(new RegExp(`<${tag}\\b[^>]*>\\s*(?:<!\\[CDATA\\[)?([\\s\\S]*?)(?:\\]\\]>)?\\s*</${tag}>`, 'i'));
+  return match ? decodeEntities(match[1].trim()) : null;
+};
+
+// <urlset> ya da <sitemapindex> içeriğini { type, entries[{loc, lastmod}] } olarak döndür
+export function parseSitemapXml(xml) {
+  const text = xml || '';
+  const type = /<sitemapindex[\s>]/i.test(text) ? 'sitemapindex' : /<urlset[\s>]/i.test(text) ? 'urlset' : null;
+  if (!type) return { type: null, entries: [] };
+
+  const blockTag = type === 'sitemapindex' ? 'sitemap' : 'url';
+  const blockPattern = new RegExp(`<${blockTag}\\b[^>]*>([\\s\\S]*?)</${blockTag}>`, 'gi');
+  const entries = [];
+
+  for (const match of text.matchAll(blockPattern)) {
+    entries.push({ loc: readTag(match[1], 'loc'), lastmod: readTag(match[1], 'lastmod') });
+  }
+
+  return { type, entries };
+}
+
+// Sitemap'i indir; .gz dosyaları açılır
+async function fetchSitemap(url) {
+  const result = { url, status: 0, type: null, entries: [], error: null };
+
+  try {
+    const { response } = await safeFetch(url, {
+      timeout: SITEMAP_TIMEOUT,
+      headers: { ...DEFAULT_HEADERS, 'User-Agent': CRAWLER_USER_AGENT, 'Accept': 'application/xml,text/xml;q=0.9,*/*;q=0.8' }
+    });
+    result.status = response.status;
+
+    if (!response.ok) {
+      response.body?.resume?.();
+      result.error = `HTTP ${response.status}`;
+      return result;
+    }
+
+    // Sınırı aşan gövde tamamen indirilmeden kesilir
+    const { buffer, truncated } = await readBody(response, { maxBytes: SITEMAP_MAX_BYTES });
+    let body = buffer;
+    if (truncated) {
+      result.error = 'too-large';
+      return result;
+    }
+    if (body[0] === 0x1f && body[1] === 0x8b) {
+      body = gunzipSync(body, { maxOutputLength: SITEMAP_MAX_BYTES * 5 });
+    }
+
+    const parsed = parseSitemapXml(body.toString('utf8'));
+    result.type = parsed.type;
+    result.entries = parsed.entries;
+    if (!parsed.type) result.error = 'invalid-xml';
+  } catch (error) {
+    result.error = errorCode(error);
+  }
+
+  return result;
+}
+
+// Sitemap'teki URL'ye HEAD at, izin verilmezse GET ile tekrar dene (yönlendirmeler güvenlik katmanında izlenir)
+async function checkUrl(url) {
+  const options = { timeout: URL_CHECK_TIMEOUT, headers: { ...DEFAULT_HEADERS, 'User-Agent': CRAWLER_USER_AGENT } };
+
+  try {
+    let result = await safeFetch(url, { ...options, method: 'HEAD' });
+    if (result.response.status === 405 || result.response.status === 501) {
+      result = await safeFetch(url, options);
+    }
+    result.response.body?.resume?.();
+    return { url, status: result.response.status, redirected: result.redirects.length > 0, finalUrl: result.finalUrl, error: null };
+  } catch (error) {
+    return { url, status: 0, redirected: false, finalUrl: url, error: errorCode(error) };
+  }
+}
+
+// Sitemap girdisini doğrula: geçerli mutlak URL ve sitemap ile aynı host olmalı
+function validateLoc(loc, sitemapUrl) {
+  if (!loc) return 'missing-loc';
+  let parsed;
+  try {
+    parsed = new URL(loc);
+  } catch {
+    return 'invalid-url';
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return 'invalid-url';
+  if (parsed.host !== new URL(sitemapUrl).host) return 'cross-host';
+  return null;
+}
+
+// robots.txt ve sitemap'leri (robots referansları, yoksa varsayılan yollar) analiz et;
+// robots tarama hattında zaten indirildiyse yeniden istenmez
+export async function analyzeRobotsAndSitemaps(siteUrl, { robots: preloaded } = {}) {
+  const origin = new URL(siteUrl).origin;
+  const robots = preloaded || await fetchRobots(origin, { timeout: SITEMAP_TIMEOUT });
+  const robotsSummary = summarizeRobots(robots);
+
+  const referenced = robots.sitemaps.filter(u => /^https?:\/\//i.test(u));
+  const queue = (referenced.length ? referenced : DEFAULT_SITEMAP_PATHS.map(p => `${origin}${p}`))
+    .map(url => ({ url, source: referenced.length ? 'robots' : 'default' }));
+
+  const seen = new Set();
+  const sitemaps = [];
+  const pageUrls = new Map();
+  const invalidUrls = [];
+  let truncated = false;
+
+  while (queue.length) {
+    const { url, source } = queue.shift();
+    if (seen.has(url)) continue;
+    if (seen.size >= SITEMAP_LIMIT) {
+      truncated = true;
+      break;
+    }
+    seen.add(url);
+
+    const sitemap = await fetchSitemap(url);
+    sitemaps.push({
+      url,
+      source,
+      status: sitemap.status,
+      type: sitemap.type,
+      entryCount: sitemap.entries.length,
+      error: sitemap.error
+    });
+
+    for (const entry of sitemap.entries) {
+      const reason = validateLoc(entry.loc, url);
+      if (reason) {
+        if (invalidUrls.length < 50) invalidUrls.push({ url: entry.loc, sitemap: url, reason });
+        continue;
+      }
+      if (sitemap.type === 'sitemapindex') {
+        queue.push({ url: entry.loc, source: 'index' });
+      } else if (!pageUrls.has(entry.loc)) {
+        pageUrls.set(entry.loc, url);
+      }
+    }
+  }
+
+  // Varsayılan yollar yalnızca denendi; bulunamayanları "keşfedilmedi" say
+  const discovered = sitemaps.filter(s => s.source !== 'default' || s.type);
+  const brokenSitemaps = discovered.filter(s => !s.type);
+
+  const blockedUrls = robots.found
+    ? [...pageUrls.keys()].filter(u => {
+        const parsed = new URL(u);
+        return !isPathAllowed(robots, parsed.pathname + parsed.search, 'googlebot');
+      })
+    : [];
+
+  const checks = await mapWithConcurrency([...pageUrls.keys()].slice(0, URL_CHECK_LIMIT), URL_CHECK_CONCURRENCY, checkUrl);
+  const unreachable = checks.filter(c => c.error || c.status >= 400);
+  const redirected = checks.filter(c => !c.error && c.status < 400 && c.redirected);
+
+  return {
+    robots: robotsSummary,
+    sitemaps: {
+      found: discovered.some(s => s.type === 'urlset' || s.type === 'sitemapindex'),
+      referencedInRobots: referenced.length > 0,
+      list: discovered,
+      brokenSitemaps: brokenSitemaps.map(s => ({ url: s.url, status: s.status, error: s.error })),
+      urlCount: pageUrls.size,
+      invalidUrls,
+      blockedUrls: blockedUrls.slice(0, 50),
+      blockedUrlCount: blockedUrls.length,
+      checkedUrls: checks.length,
+      unreachable: unreachable.map(c => ({ url: c.url, status: c.status, error: c.error })),
+      redirected: redirected.map(c => ({ url: c.url, finalUrl: c.finalUrl })),
+      truncated
+    },
+    analyzedAt: new Date().toISOString()
+  };
+}
@@ -0,0 +1,141 @@
+import http from 'node:http';
+import zlib from 'node:zlib';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { analyzeRobotsAndSitemaps, parseSitemapXml } from './sitemap.js';
+import { indexabilityRules } from './rules/indexability.js';
+
+const urlset = (locs) => `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${locs.map(loc => `<url><loc>${loc}</loc></url>`).join('')}</urlset>`;
+
+describe('parseSitemapXml', () => {
+  it('reads urlset entries with CDATA and entities', () => {
+    expect(parseSitemapXml(`<urlset>
+      <url><loc> https://example.com/a?x=1&amp;y=2 </loc><lastmod>2025-10-01</lastmod></url>
+      <url><loc><![CDATA[https://example.com/b]]></loc></url>
+    </urlset>`)).toEqual({
+      type: 'urlset',
+      entries: [
+        { loc: 'https://example.com/a?x=1&y=2', lastmod: '2025-10-01' },
+        { loc: 'https://example.com/b', lastmod: null }
+      ]
+    });
+  });
+
+  it('recognizes sitemap indexes and rejects other documents', () => {
+    const index = parseSitemapXml('<sitemapindex><sitemap><loc>https://example.com/posts.xml</loc></sitemap></sitemapindex>');
+    expect(index).toEqual({ type: 'sitemapindex', entries: [{ loc: 'https://example.com/posts.xml', lastmod: null }] });
+    expect(parseSitemapXml('<html><body>404</body></html>')).toEqual({ type: null, entries: [] });
+    expect(parseSitemapXml(null)).toEqual({ type: null, entries: [] });
+  });
+});
+
+describe('analyzeRobotsAndSitemaps against a local site', () => {
+  // Her test yol → yanıt eşlemesini belirler; listede olmayan yollar 404 döner
+  let routes = {};
+  const server = http.createServer((req, res) => {
+    const route = routes[req.url];
+    if (!route) {
+      res.writeHead(404);
+      return res.end();
+    }
+    const { status = 200, headers = {}, body = '' } = typeof route === 'function' ? route(req) : route;
+    res.writeHead(status, headers);
+    res.end(req.method === 'HEAD' ? undefined : body);
+  });
+  let base;
+
+  beforeAll(async () => {
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${server.address().port}`;
+  });
+  afterAll(() => new Promise(resolve => server.close(resolve)));
+  beforeEach(() => vi.stubEnv('SCANNER_ALLOW_PRIVATE_HOSTS', 'true'));
+  afterEach(() => vi.unstubAllEnvs());
+
+  it('follows robots references through an index into a gzipped sitemap', async () => {
+    const page = { headers: { 'Content-Type': 'text/html' }, body: '<html></html>' };
+    routes = {
+      '/robots.txt': { headers: { 'Content-Type': 'text/plain' }, body: `User-agent: *\nDisallow: /private\n\nSitemap: ${base}/index.xml\n` },
+      '/index.xml': {
+        headers: { 'Content-Type': 'application/xml' },
+        body: `<sitemapindex><sitemap><loc>${base}/posts.xml.gz</loc></sitemap><sitemap><loc>https://other.example/x.xml</loc></sitemap></sitemapindex>`
+      },
+      '/posts.xml.gz': {
+        headers: { 'Content-Type': 'application/gzip' },
+        body: zlib.gzipSync(urlset([`${base}/a`, `${base}/a`, `${base}/gone`, `${base}/private/c`, `${base}/old`, `${base}/get-only`, 'ftp://example.com/x']))
+      },
+      '/a': page,
+      '/private/c': page,
+      '/old': { status: 301, headers: { Location: '/a' } },
+      // HEAD desteklenmiyorsa GET ile tekrar denenir
+      '/get-only': req => (req.method === 'HEAD' ? { status: 405 } : page)
+    };
+
+    const { robots, sitemaps } = await analyzeRobotsAndSitemaps(`${base}/`);
+
+    expect(robots).toMatchObject({ found: true, blocksSite: false, sitemapRefs: [`${base}/index.xml`] });
+    expect(sitemaps).toMatchObject({ found: true, referencedInRobots: true, brokenSitemaps: [], urlCount: 5, checkedUrls: 5, truncated: false });
+    expect(sitemaps.list.map(s => [s.source, s.type, s.entryCount])).toEqual([
+      ['robots', 'sitemapindex', 2],
+      ['index', 'urlset', 7]
+    ]);
+    expect(sitemaps.invalidUrls.map(u => u.reason)).toEqual(['cross-host', 'invalid-url']);
+    expect(sitemaps.blockedUrls).toEqual([`${base}/private/c`]);
+    expect(sitemaps.unreachable).toEqual([{ url: `${base}/gone`, status: 404, error: null }]);
+    expect(sitemaps.redirected).toEqual([{ url: `${base}/old`, finalUrl: `${base}/a` }]);
+  });
+
+  it('falls back to the default paths without reporting them as broken', async () => {
+    routes = {
+      '/sitemap.xml': { headers: { 'Content-Type': 'text/html' }, body: '<html>Sayfa bulunamadı</html>' }
+    };
+
+    const { robots, sitemaps } = await analyzeRobotsAndSitemaps(`${base}/blog`);
+
+    expect(robots).toMatchObject({ found: false, status: 404 });
+    expect(sitemaps).toMatchObject({ found: false, referencedInRobots: false, urlCount: 0, checkedUrls: 0 });
+    // Varsayılan yollar yalnızca denenir; sitemap olmayan yanıt bozuk sitemap sayılmaz
+    expect(sitemaps.list).toEqual([]);
+    expect(sitemaps.brokenSitemaps).toEqual([]);
+  });
+
+  it('reuses robots already fetched by the scan pipeline', async () => {
+    routes = { '/sitemap.xml': { headers: { 'Content-Type': 'application/xml' }, body: urlset([`${base}/`]) }, '/': { body: 'ok' } };
+    const preloaded = { url: `${base}/robots.txt`, status: 200, error: null, found: true, groups: [{ agents: ['*'], rules: [{ type: 'disallow', path: '/' }] }], sitemaps: [] };
+
+    const { robots, sitemaps } = await analyzeRobotsAndSitemaps(`${base}/`, { robots: preloaded });
+
+    expect(robots.blocksSite).toBe(true);
+    expect(sitemaps).toMatchObject({ found: true, referencedInRobots: false, urlCount: 1, blockedUrlCount: 1 });
+  });
+});
+
+describe('indexability rules', () => {
+  const check = (id, indexability) => indexabilityRules.find(rule => rule.id === id).check({ indexability });
+  const sitemaps = (overrides = {}) => ({
+    found: true, referencedInRobots: true, brokenSitemaps: [], urlCount: 8, invalidUrls: [], blockedUrlCount: 0, unreachable: [], checkedUrls: 8, ...overrides
+  });
+
+  it('skips robots rules when robots.txt is missing', () => {
+    const indexability = { robots: { found: false, status: 404 }, sitemaps: sitemaps() };
+    expect(check('robots-txt-present', indexability)).toEqual({ passed: false, params: { status: 404 } });
+    expect(check('robots-not-blocking', indexability)).toBeNull();
+    expect(check('sitemap-in-robots', indexability)).toBeNull();
+    expect(check('robots-txt-present', undefined)).toBeNull();
+  });
+
+  it('fails an empty or broken sitemap', () => {
+    const robots = { found: true, blocksSite: true };
+    expect(check('robots-not-blocking', { robots })).toEqual({ passed: false });
+    expect(check('sitemap-present', { robots, sitemaps: sitemaps({ urlCount: 0, brokenSitemaps: [{}] }) })).toMatchObject({ passed: false, params: { broken: 1 } });
+  });
+
+  it('gives partial credit for problem URLs in the sitemap', () => {
+    const result = check('sitemap-urls-valid', {
+      robots: { found: true },
+      sitemaps: sitemaps({ invalidUrls: [{}, {}], blockedUrlCount: 1, unreachable: [{}] })
+    });
+    expect(result).toEqual({ passed: false, ratio: 0.6, params: { invalid: 2, blocked: 1, unreachable: 1 } });
+    expect(check('sitemap-urls-valid', { robots: { found: true }, sitemaps: sitemaps({ urlCount: 0, checkedUrls: 0 }) })).toBeNull();
+  });
+});
@@ -0,0 +1,18 @@
+// Sunucu tarafı Supabase istemcisi (service role): RLS'i aşar, yalnızca sunucuda kullanılır
+import { createClient } from '@supabase/supabase-js';
+
+let client;
+
+// SUPABASE_URL yoksa frontend'in VITE_SUPABASE_URL değeri kullanılır; anahtar yoksa null döner
+export function getServiceClient() {
+  if (client !== undefined) return client;
+  const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  client = url && key
+    ? createClient(url, key, {
+      auth: { persistSession: false, autoRefreshToken: false },
+      global: { headers: { 'X-Client-Info': 'weeme-ai-server@1.0.0' } }
+    })
+    : null;
+  return client;
+}
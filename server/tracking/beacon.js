@@ -0,0 +1,156 @@
+// seo.js'in gönderdiği sayfa gözlemleri: doğrulama, takip kodu eşleştirme ve page_observations'a kayıt
+export const MAX_BEACON_BYTES = 16 * 1024;
+const CODE_CACHE_TTL = 5 * 60 * 1000;
+const CODE_CACHE_SIZE = 1000;
+const MAX_TIMING_MS = 10 * 60 * 1000;
+
+export class BeaconError extends Error {
+  constructor(code, message, status = 400) {
+    super(message);
+    this.name = 'BeaconError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+const text = (value, max) => (typeof value === 'string' && value.trim() ? value.trim().slice(0, max) : null);
+
+const timing = (value) => (typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= MAX_TIMING_MS ? Math.round(value) : null);
+
+const hostOf = (value) => new URL(value).hostname.toLowerCase().replace(/^www\./, '');
+
+// Sitenin kendisi ya da alt alan adları kabul edilir
+const sameSite = (host, siteHost) => host === siteHost || host.endsWith(`.${siteHost}`);
+
+export function parseBeacon(raw) {
+  let payload;
+  try {
+    payload = typeof raw === 'string' ? JSON.parse(raw) : raw;
+  } catch {
+    throw new BeaconError('invalid-json', 'Beacon gövdesi JSON değil');
+  }
+  if (!payload || typeof payload !== 'object') throw new BeaconError('invalid-json', 'Beacon gövdesi JSON değil');
+
+  const siteId = text(payload.siteId, 200);
+  if (!siteId) throw new BeaconError('missing-site-id', 'siteId gerekli');
+
+  let url;
+  try {
+    url = new URL(payload.url);
+  } catch {
+    throw new BeaconError('invalid-url', 'Geçersiz sayfa URL’i');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new BeaconError('invalid-url', 'Geçersiz sayfa URL’i');
+  url.hash = '';
+
+  const t = payload.timing || {};
+  const cls = typeof t.cls === 'number' && Number.isFinite(t.cls) && t.cls >= 0 && t.cls < 100 ? Math.round(t.cls * 1000) / 1000 : null;
+  return {
+    siteId,
+    url: url.toString().slice(0, 2000),
+    path: url.pathname.slice(0, 1000),
+    title: text(payload.title, 300),
+    metaDescription: text(payload.metaDescription, 500),
+    robots: text(payload.robots, 100),
+    canonical: text(payload.canonical, 2000),
+    lang: text(payload.lang, 20),
+    h1Count: Number.isInteger(payload.h1Count) && payload.h1Count >= 0 ? Math.min(payload.h1Count, 1000) : null,
+    viewportWidth: Number.isInteger(payload.viewport?.width) ? payload.viewport.width : null,
+    timing: {
+      ttfb: timing(t.ttfb),
+      fcp: timing(t.fcp),
+      lcp: timing(t.lcp),
+      domContentLoaded: timing(t.domContentLoaded),
+      load: timing(t.load),
+      cls
+    }
+  };
+}
+
+// Ham User-Agent saklanmaz, yalnızca cihaz sınıfı
+const deviceOf = (userAgent, viewportWidth) => {
+  if (/Mobi|Android|iPhone|iPod/i.test(userAgent || '')) return 'mobile';
+  if (/iPad|Tablet/i.test(userAgent || '')) return 'tablet';
+  if (viewportWidth && viewportWidth < 768) return 'mobile';
+  return 'desktop';
+};
+
+// requireOwnership: yalnızca sahipliği doğrulanmış sitelerin gözlemleri kaydedilir
+export function createBeaconIngestor({ supabase, cacheTtl = CODE_CACHE_TTL, cacheSize = CODE_CACHE_SIZE, requireOwnership = true }) {
+  // Her beacon'da veritabanına gitmemek için takip kodları kısa süre önbelleklenir (bulunamayanlar dahil).
+  // Rastgele siteId'lerle bellek şişirilemesin diye önbellek LRU sırasıyla cacheSize kayıtla sınırlıdır
+  const codes = new Map();
+
+  const findTrackingCode = async (siteId) => {
+    const cached = codes.get(siteId);
+    if (cached) {
+      codes.delete(siteId);
+      if (cached.expires > Date.now()) {
+        // Map ekleme sırasını korur; okunan kayıt en sona taşınır
+        codes.set(siteId, cached);
+        return cached.code;
+      }
+    }
+    const { data, error } = await supabase
+      .from('tracking_codes')
+      .select('id, user_id, website_url, code, ownership_verified_at')
+      .eq('code', siteId)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    codes.set(siteId, { code: data, expires: Date.now() + cacheTtl });
+    if (codes.size > cacheSize) codes.delete(codes.keys().next().value);
+    return data;
+  };
+
+  return {
+    async ingest(raw, { origin, userAgent } = {}) {
+      const beacon = parseBeacon(raw);
+      const code = await findTrackingCode(beacon.siteId);
+      if (!code) throw new BeaconError('unknown-site-id', 'Takip kodu bulunamadı', 404);
+      if (requireOwnership && !code.ownership_verified_at) {
+        throw new BeaconError('ownership-unverified', 'Site sahipliği doğrulanmadan gözlem kaydedilmez', 403);
+      }
+
+      // Takip kodu sayfa kaynağında açık olduğundan yalnızca kayıtlı sitenin sayfaları kabul edilir
+      let siteHost;
+      try {
+        siteHost = hostOf(code.website_url);
+      } catch {
+        throw new BeaconError('invalid-site-url', 'Takip kodunun site adresi geçersiz', 403);
+      }
+      let originHost = null;
+      try {
+        originHost = origin ? hostOf(origin) : null;
+      } catch {
+        originHost = null;
+      }
+      if (!sameSite(hostOf(beacon.url), siteHost) || (originHost && !sameSite(originHost, siteHost))) {
+        throw new BeaconError('site-mismatch', 'Sayfa, takip kodunun sitesine ait değil', 403);
+      }
+
+      const observation = {
+        tracking_code_id: code.id,
+        user_id: code.user_id,
+        url: beacon.url,
+        path: beacon.path,
+        title: beacon.title,
+        meta_description: beacon.metaDescription,
+        robots: beacon.robots,
+        canonical: beacon.canonical,
+        lang: beacon.lang,
+        h1_count: beacon.h1Count,
+        device: deviceOf(userAgent, beacon.viewportWidth),
+        ttfb_ms: beacon.timing.ttfb,
+        fcp_ms: beacon.timing.fcp,
+        lcp_ms: beacon.timing.lcp,
+        dom_content_loaded_ms: beacon.timing.domContentLoaded,
+        load_ms: beacon.timing.load,
+        cls: beacon.timing.cls,
+        observed_at: new Date().toISOString()
+      };
+      const { error } = await supabase.from('page_observations').insert(observation);
+      if (error) throw new Error(error.message);
+      return observation;
+    }
+  };
+}
@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BeaconError, createBeaconIngestor, parseBeacon } from './beacon.js';
+
+// tracking_codes sorgularını sayan, page_observations eklemelerini toplayan sahte istemci
+function fakeSupabase(rows) {
+  const state = { lookups: 0, inserted: [] };
+  return {
+    state,
+    from(table) {
+      if (table === 'page_observations') {
+        return { insert: async (row) => { state.inserted.push(row); return { error: null }; } };
+      }
+      let siteId;
+      const query = {
+        select: () => query,
+        eq: (column, value) => { siteId = value; return query; },
+        maybeSingle: async () => {
+          state.lookups++;
+          return { data: rows[siteId] ?? null, error: null };
+        }
+      };
+      return query;
+    }
+  };
+}
+
+const row = (id, websiteUrl = 'https://example.com') => ({
+  id, user_id: 'user-1', website_url: websiteUrl, code: id, ownership_verified_at: '2025-10-01T00:00:00Z'
+});
+const beacon = (siteId, url = 'https://www.example.com/page') => JSON.stringify({ siteId, url });
+
+afterEach(() => vi.useRealTimers());
+
+describe('parseBeacon', () => {
+  it('rejects non-http page URLs', () => {
+    expect(() => parseBeacon({ siteId: 'a', url: 'javascript:alert(1)' })).toThrow(BeaconError);
+  });
+
+  it('drops out-of-range timings', () => {
+    const parsed = parseBeacon({ siteId: 'a', url: 'https://example.com/#x', timing: { ttfb: 120.4, lcp: -1, cls: 0.12345 } });
+    expect(parsed.url).toBe('https://example.com/');
+    expect(parsed.timing).toMatchObject({ ttfb: 120, lcp: null, cls: 0.123 });
+  });
+});
+
+describe('createBeaconIngestor', () => {
+  it('stores observations for the registered site and its subdomains', async () => {
+    const supabase = fakeSupabase({ a: row('a') });
+    const ingestor = createBeaconIngestor({ supabase });
+    await ingestor.ingest(beacon('a'), { origin: 'https://shop.example.com' });
+    expect(supabase.state.inserted).toHaveLength(1);
+    await expect(ingestor.ingest(beacon('a', 'https://evil.test/'))).rejects.toMatchObject({ code: 'site-mismatch', status: 403 });
+  });
+
+  it('rejects beacons when the stored site URL cannot be parsed', async () => {
+    const supabase = fakeSupabase({ a: row('a', 'example.com') });
+    const ingestor = createBeaconIngestor({ supabase });
+    await expect(ingestor.ingest(beacon('a'))).rejects.toMatchObject({ name: 'BeaconError', code: 'invalid-site-url', status: 403 });
+  });
+
+  it('bounds the tracking code cache and evicts the least recently used entry', async () => {
+    const supabase = fakeSupabase({ a: row('a'), b: row('b'), c: row('c') });
+    const ingestor = createBeaconIngestor({ supabase, cacheSize: 2 });
+    await ingestor.ingest(beacon('a'));
+    await ingestor.ingest(beacon('b'));
+    await ingestor.ingest(beacon('a'));
+    expect(supabase.state.lookups).toBe(2);
+
+    // c eklenince en uzun süredir okunmayan b düşer
+    await ingestor.ingest(beacon('c'));
+    await ingestor.ingest(beacon('a'));
+    expect(supabase.state.lookups).toBe(3);
+    await ingestor.ingest(beacon('b'));
+    expect(supabase.state.lookups).toBe(4);
+  });
+
+  it('reloads expired cache entries', async () => {
+    vi.useFakeTimers();
+    const supabase = fakeSupabase({});
+    const ingestor = createBeaconIngestor({ supabase, cacheTtl: 1000 });
+    await expect(ingestor.ingest(beacon('missing'))).rejects.toMatchObject({ code: 'unknown-site-id' });
+    await expect(ingestor.ingest(beacon('missing'))).rejects.toMatchObject({ code: 'unknown-site-id' });
+    expect(supabase.state.lookups).toBe(1);
+    vi.advanceTimersByTime(1001);
+    await expect(ingestor.ingest(beacon('missing'))).rejects.toMatchObject({ code: 'unknown-site-id' });
+    expect(supabase.state.lookups).toBe(2);
+  });
+});
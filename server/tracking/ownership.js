@@ -0,0 +1,132 @@
+// Site sahipliği doğrulaması: takip kodundan türetilen token DNS TXT kaydında, ana sayfadaki meta etiketinde
+// ya da kök dizine yüklenen HTML dosyasında aranır
+import crypto from 'node:crypto';
+import dns from 'node:dns';
+import { parseDocument } from '../scanner/audit.js';
+import { safeFetch, readBody, UrlSafetyError } from '../scanner/safety.js';
+import { DEFAULT_HEADERS } from '../scanner/fetch.js';
+
+export const OWNERSHIP_METHODS = ['dns', 'meta', 'file'];
+export const META_NAME = 'weeme-site-verification';
+export const VERIFICATION_FILE = 'weeme-verification.html';
+const TOKEN_PREFIX = `${META_NAME}=`;
+const FETCH_TIMEOUT = 10000;
+
+// Token takip kodundan OWNERSHIP_TOKEN_SECRET ile HMAC olarak türetilir. Takip kodu sayfada açık olduğundan
+// varsayılan bir sır yoktur; sır tanımlı değilse token üretilmez
+export function ownershipToken(code, secret = process.env.OWNERSHIP_TOKEN_SECRET) {
+  if (!secret) throw new Error('OWNERSHIP_TOKEN_SECRET is not configured');
+  return crypto.createHmac('sha256', secret).update(code).digest('hex').slice(0, 32);
+}
+
+export const ownershipConfigured = () => !!process.env.OWNERSHIP_TOKEN_SECRET;
+
+const hostOf = (value) => new URL(value).hostname.toLowerCase();
+const bareHost = (host) => host.replace(/^www\./, '');
+
+export function ownershipInstructions(websiteUrl, code) {
+  const token = ownershipToken(code);
+  const { origin, hostname } = new URL(websiteUrl);
+  return {
+    token,
+    dns: { type: 'TXT', host: bareHost(hostname), value: `${TOKEN_PREFIX}${token}` },
+    meta: { tag: `<meta name="${META_NAME}" content="${token}">` },
+    file: { url: `${origin}/${VERIFICATION_FILE}`, content: `${TOKEN_PREFIX}${token}` }
+  };
+}
+
+// OWNERSHIP_DNS_SERVERS (ör. "127.0.0.1:5353") ile yerel bir DNS sunucusu kullanılabilir
+export function createResolver(servers = process.env.OWNERSHIP_DNS_SERVERS) {
+  const resolver = new dns.promises.Resolver({ timeout: 5000, tries: 2 });
+  const list = (servers || '').split(',').map(s => s.trim()).filter(Boolean);
+  if (list.length) resolver.setServers(list);
+  return resolver;
+}
+
+async function checkDns(websiteUrl, token, resolver) {
+  const host = hostOf(websiteUrl);
+  // www.example.com için kayıt kök alan adına da eklenebilir
+  const hosts = [...new Set([host, bareHost(host)])];
+  for (const name of hosts) {
+    let records;
+    try {
+      records = await resolver.resolveTxt(name);
+    } catch (error) {
+      if (error.code === 'ENOTFOUND' || error.code === 'ENODATA') continue;
+      return { ok: false, reason: 'dns-failed', message: `DNS sorgusu başarısız: ${error.code || error.message}` };
+    }
+    // Uzun TXT kayıtları parçalara bölünmüş gelir
+    if (records.some(chunks => chunks.join('').trim() === `${TOKEN_PREFIX}${token}`)) return { ok: true };
+  }
+  return { ok: false, reason: 'dns-record-missing', message: `${hosts.join(' / ')} için doğrulama TXT kaydı bulunamadı` };
+}
+
+// Yönlendirme başka bir alan adına gidiyorsa oradaki token bu siteyi kanıtlamaz
+async function fetchOnSite(url, timeout) {
+  const { response, finalUrl } = await safeFetch(url, { timeout, headers: DEFAULT_HEADERS });
+  if (bareHost(hostOf(finalUrl)) !== bareHost(hostOf(url))) {
+    response.body?.resume?.();
+    return { offSite: true, finalUrl };
+  }
+  if (!response.ok) {
+    response.body?.resume?.();
+    return { status: response.status };
+  }
+  const { text } = await readBody(response, { maxBytes: 512 * 1024 });
+  return { status: response.status, text };
+}
+
+async function checkMeta(websiteUrl, token, timeout) {
+  const page = await fetchOnSite(new URL('/', websiteUrl).toString(), timeout);
+  if (page.offSite) return { ok: false, reason: 'redirected-off-site', message: `Ana sayfa başka bir alan adına yönlendiriyor (${page.finalUrl})` };
+  if (!page.text) return { ok: false, reason: 'http-error', message: `Ana sayfa HTTP ${page.status} döndü` };
+  const values = parseDocument(page.text)
+    .querySelectorAll(`meta[name="${META_NAME}"]`)
+    .map(meta => (meta.getAttribute('content') || '').trim());
+  if (!values.length) return { ok: false, reason: 'meta-tag-missing', message: 'Ana sayfada doğrulama meta etiketi bulunamadı' };
+  if (!values.includes(token)) return { ok: false, reason: 'meta-token-mismatch', message: 'Meta etiketindeki token bu takip koduna ait değil' };
+  return { ok: true };
+}
+
+async function checkFile(websiteUrl, token, timeout) {
+  const page = await fetchOnSite(new URL(`/${VERIFICATION_FILE}`, websiteUrl).toString(), timeout);
+  if (page.offSite) return { ok: false, reason: 'redirected-off-site', message: `Doğrulama dosyası başka bir alan adına yönlendiriyor (${page.finalUrl})` };
+  if (page.status === 404 || page.status === 410) return { ok: false, reason: 'file-missing', message: `/${VERIFICATION_FILE} bulunamadı` };
+  if (!page.text) return { ok: false, reason: 'http-error', message: `Doğrulama dosyası HTTP ${page.status} döndü` };
+  // Aynı dosyada birden fazla hesabın token'ı olabilir
+  if (!page.text.includes(`${TOKEN_PREFIX}${token}`)) return { ok: false, reason: 'file-token-mismatch', message: 'Doğrulama dosyası bu takip kodunun token\'ını içermiyor' };
+  return { ok: true };
+}
+
+// method verilmezse tüm yöntemler sırayla denenir; biri başarılıysa site doğrulanmış sayılır
+export async function verifyOwnership(websiteUrl, code, { method, resolver = createResolver(), timeout = FETCH_TIMEOUT } = {}) {
+  const token = ownershipToken(code);
+  const methods = method ? [method] : OWNERSHIP_METHODS;
+  const attempts = [];
+
+  for (const current of methods) {
+    let outcome;
+    try {
+      if (current === 'dns') outcome = await checkDns(websiteUrl, token, resolver);
+      else if (current === 'meta') outcome = await checkMeta(websiteUrl, token, timeout);
+      else outcome = await checkFile(websiteUrl, token, timeout);
+    } catch (error) {
+      outcome = error instanceof UrlSafetyError
+        ? { ok: false, reason: error.code, message: error.message }
+        : { ok: false, reason: 'fetch-failed', message: `Site indirilemedi: ${error.message}` };
+    }
+    attempts.push({ method: current, ...outcome });
+    if (outcome.ok) break;
+  }
+
+  const success = attempts.find(attempt => attempt.ok);
+  const last = attempts[attempts.length - 1];
+  return {
+    status: success ? 'verified' : 'unverified',
+    method: success ? success.method : null,
+    checkedAt: new Date().toISOString(),
+    reason: success ? null : last.reason,
+    message: success ? null : last.message,
+    attempts
+  };
+}
@@ -0,0 +1,145 @@
+import http from 'node:http';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { META_NAME, VERIFICATION_FILE, ownershipInstructions, ownershipToken, verifyOwnership } from './ownership.js';
+
+const SECRET = 'test-secret';
+const CODE = 'weeme-user-1-1700000000000';
+const TOKEN = ownershipToken(CODE, SECRET);
+
+// resolveTxt yanıtları ada göre verilir; tanımsız ad ENOTFOUND döner
+const fakeResolver = (records) => ({
+  resolveTxt: async (name) => {
+    const value = records[name];
+    if (value instanceof Error) throw value;
+    if (!value) throw Object.assign(new Error(`queryTxt ENOTFOUND ${name}`), { code: 'ENOTFOUND' });
+    return value;
+  }
+});
+
+describe('ownershipToken', () => {
+  afterEach(() => vi.unstubAllEnvs());
+
+  it('requires a secret instead of falling back to a default', () => {
+    vi.stubEnv('OWNERSHIP_TOKEN_SECRET', '');
+    expect(() => ownershipToken(CODE)).toThrow('OWNERSHIP_TOKEN_SECRET');
+  });
+
+  it('derives a stable token per code and secret', () => {
+    vi.stubEnv('OWNERSHIP_TOKEN_SECRET', SECRET);
+    expect(ownershipToken(CODE)).toBe(TOKEN);
+    expect(TOKEN).toMatch(/^[0-9a-f]{32}$/);
+    expect(ownershipToken(CODE, 'other-secret')).not.toBe(TOKEN);
+  });
+
+  it('builds instructions for every method from the same token', () => {
+    vi.stubEnv('OWNERSHIP_TOKEN_SECRET', SECRET);
+    const instructions = ownershipInstructions('https://www.example.com/blog', CODE);
+    expect(instructions.dns).toEqual({ type: 'TXT', host: 'example.com', value: `${META_NAME}=${TOKEN}` });
+    expect(instructions.meta.tag).toContain(`content="${TOKEN}"`);
+    expect(instructions.file.url).toBe(`https://www.example.com/${VERIFICATION_FILE}`);
+  });
+});
+
+describe('verifyOwnership via DNS', () => {
+  beforeEach(() => vi.stubEnv('OWNERSHIP_TOKEN_SECRET', SECRET));
+  afterEach(() => vi.unstubAllEnvs());
+
+  it('accepts a split TXT record on the bare domain of a www site', async () => {
+    const resolver = fakeResolver({ 'example.com': [['v=spf1 -all'], [`${META_NAME}=`, TOKEN]] });
+    const result = await verifyOwnership('https://www.example.com', CODE, { method: 'dns', resolver });
+    expect(result).toMatchObject({ status: 'verified', method: 'dns', reason: null });
+  });
+
+  it('rejects a record carrying another token', async () => {
+    const resolver = fakeResolver({ 'example.com': [[`${META_NAME}=${ownershipToken(CODE, 'other-secret')}`]] });
+    const result = await verifyOwnership('https://example.com', CODE, { method: 'dns', resolver });
+    expect(result).toMatchObject({ status: 'unverified', method: null, reason: 'dns-record-missing' });
+  });
+
+  it('reports resolver timeouts as a DNS failure', async () => {
+    const resolver = fakeResolver({ 'example.com': Object.assign(new Error('queryTxt ETIMEOUT example.com'), { code: 'ETIMEOUT' }) });
+    const result = await verifyOwnership('https://example.com', CODE, { method: 'dns', resolver });
+    expect(result).toMatchObject({ status: 'unverified', reason: 'dns-failed' });
+  });
+});
+
+describe('verifyOwnership via meta tag and file against a local site', () => {
+  // Her test sitenin yanıtlarını yol bazında belirler
+  let routes = {};
+  const server = http.createServer((req, res) => {
+    const route = routes[req.url];
+    if (!route) {
+      res.writeHead(404);
+      return res.end();
+    }
+    route(req, res);
+  });
+  const html = (body) => (req, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    res.end(body);
+  };
+  let base;
+  let port;
+
+  beforeAll(async () => {
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = server.address().port;
+    base = `http://127.0.0.1:${port}`;
+  });
+  afterAll(() => new Promise(resolve => {
+    server.closeAllConnections();
+    server.close(resolve);
+  }));
+  beforeEach(() => {
+    routes = {};
+    vi.stubEnv('OWNERSHIP_TOKEN_SECRET', SECRET);
+    vi.stubEnv('SCANNER_ALLOW_PRIVATE_HOSTS', 'true');
+  });
+  afterEach(() => vi.unstubAllEnvs());
+
+  it('verifies the meta tag on the home page', async () => {
+    routes['/'] = html(`<html><head><meta name="${META_NAME}" content="${TOKEN}"></head><body></body></html>`);
+    const result = await verifyOwnership(base, CODE, { method: 'meta' });
+    expect(result).toMatchObject({ status: 'verified', method: 'meta' });
+  });
+
+  it('rejects a meta tag with the wrong token', async () => {
+    routes['/'] = html(`<html><head><meta name="${META_NAME}" content="not-the-token"></head></html>`);
+    const result = await verifyOwnership(base, CODE, { method: 'meta' });
+    expect(result).toMatchObject({ status: 'unverified', reason: 'meta-token-mismatch' });
+  });
+
+  it('verifies the file and tells a missing file from a wrong token', async () => {
+    routes[`/${VERIFICATION_FILE}`] = html(`${META_NAME}=other\n${META_NAME}=${TOKEN}\n`);
+    expect(await verifyOwnership(base, CODE, { method: 'file' })).toMatchObject({ status: 'verified', method: 'file' });
+
+    routes[`/${VERIFICATION_FILE}`] = html(`${META_NAME}=other\n`);
+    expect(await verifyOwnership(base, CODE, { method: 'file' })).toMatchObject({ reason: 'file-token-mismatch' });
+
+    routes = {};
+    expect(await verifyOwnership(base, CODE, { method: 'file' })).toMatchObject({ reason: 'file-missing' });
+  });
+
+  it('does not accept a token served after a redirect to another host', async () => {
+    routes['/'] = (req, res) => {
+      res.writeHead(302, { Location: `http://localhost:${port}/elsewhere` });
+      res.end();
+    };
+    routes['/elsewhere'] = html(`<meta name="${META_NAME}" content="${TOKEN}">`);
+    const result = await verifyOwnership(base, CODE, { method: 'meta' });
+    expect(result).toMatchObject({ status: 'unverified', reason: 'redirected-off-site' });
+  });
+
+  it('gives up on a site that does not answer in time', async () => {
+    routes['/'] = () => {};
+    const result = await verifyOwnership(base, CODE, { method: 'meta', timeout: 200 });
+    expect(result).toMatchObject({ status: 'unverified', reason: 'timeout' });
+  });
+
+  it('tries the methods in order and stops at the first success', async () => {
+    routes['/'] = html(`<meta name="${META_NAME}" content="${TOKEN}">`);
+    const result = await verifyOwnership(base, CODE, { resolver: fakeResolver({}) });
+    expect(result).toMatchObject({ status: 'verified', method: 'meta' });
+    expect(result.attempts.map(attempt => [attempt.method, attempt.ok])).toEqual([['dns', false], ['meta', true]]);
+  });
+});
@@ -0,0 +1,148 @@
+// Takip kodu kurulum doğrulaması: site indirilir, seo.js betiği ve data-site-id aranır,
+// kurumsal kurulumda nonce/integrity/crossorigin ve sayfanın CSP'si kontrol edilir
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseDocument } from '../scanner/audit.js';
+import { safeFetch, readBody, UrlSafetyError } from '../scanner/safety.js';
+import { DEFAULT_HEADERS } from '../scanner/fetch.js';
+
+const SNIPPET_PATH = path.join(path.dirname(fileURLToPath(import.meta.url)), '../public/seo.js');
+// InstallationPanel'deki örnek değerler; değiştirilmeden yayınlanırsa betik tarayıcıda engellenir
+const NONCE_PLACEHOLDER = 'YOUR_NONCE_HERE';
+const INTEGRITY_PLACEHOLDER = 'sha384-EXAMPLE_HASH';
+
+let snippetSource;
+const readSnippet = () => (snippetSource ??= fs.readFileSync(SNIPPET_PATH));
+
+const digest = (algorithm) => crypto.createHash(algorithm).update(readSnippet()).digest('base64');
+
+// Kurumsal kurulum için SRI değeri (seo.js değiştikçe değişir)
+export const snippetIntegrity = () => `sha384-${digest('sha384')}`;
+
+// integrity birden fazla boşlukla ayrılmış hash içerebilir; biri eşleşirse yeterli
+function checkIntegrity(value) {
+  if (value === INTEGRITY_PLACEHOLDER) return 'placeholder';
+  const matches = value.split(/\s+/).filter(Boolean).some(token => {
+    const [, algorithm, hash] = token.match(/^(sha256|sha384|sha512)-([A-Za-z0-9+/=]+)/) || [];
+    return algorithm && hash === digest(algorithm);
+  });
+  return matches ? 'valid' : 'mismatch';
+}
+
+const parsePolicy = (policy) => Object.fromEntries(
+  policy.split(';').map(part => part.trim().split(/\s+/)).filter(([name]) => name).map(([name, ...sources]) => [name.toLowerCase(), sources])
+);
+
+// Betiğin CSP tarafından yüklenmesine izin veriliyor mu (header ve <meta http-equiv> politikaları).
+// pageUrl: 'self' kaynağı sayfanın origin'ine göre değerlendirilir
+function allowedByPolicy(policy, { src, nonce, integrity, pageUrl }) {
+  const directives = parsePolicy(policy);
+  const sources = directives['script-src-elem'] || directives['script-src'] || directives['default-src'];
+  if (!sources) return true;
+  if (nonce && sources.includes(`'nonce-${nonce}'`)) return true;
+  if (integrity && integrity.split(/\s+/).some(hash => sources.includes(`'${hash}'`))) return true;
+  // strict-dynamic varken host listesi yok sayılır
+  if (sources.includes("'strict-dynamic'")) return false;
+
+  const url = new URL(src);
+  const page = new URL(pageUrl);
+  return sources.some(source => {
+    if (source === '*') return true;
+    // 'self' aynı origin'i ve http sayfadan aynı host'un https adresini kapsar
+    if (source.toLowerCase() === "'self'") {
+      return url.origin === page.origin || (page.protocol === 'http:' && url.protocol === 'https:' && url.hostname === page.hostname);
+    }
+    if (/^[a-z][a-z0-9+.-]*:$/i.test(source)) return url.protocol === source.toLowerCase();
+    const match = source.match(/^(?:([a-z][a-z0-9+.-]*):\/\/)?(\*\.)?([^/:]+)(?::(\d+|\*))?/i);
+    if (!match || source.startsWith("'")) return false;
+    const [, scheme, wildcard, host, port] = match;
+    if (scheme && `${scheme.toLowerCase()}:` !== url.protocol) return false;
+    if (port && port !== '*' && port !== (url.port || (url.protocol === 'https:' ? '443' : '80'))) return false;
+    const hostname = url.hostname.toLowerCase();
+    return wildcard ? hostname.endsWith(`.${host.toLowerCase()}`) : hostname === host.toLowerCase();
+  });
+}
+
+const isSnippet = (script) => {
+  const src = script.getAttribute('src') || '';
+  return script.hasAttribute('data-site-id') || /\/seo\.js(\?|$)/.test(src);
+};
+
+const failure = (reason, message, details = {}) => ({ status: 'unverified', reason, message, ...details });
+
+// Sonuç: { status: 'verified' | 'unverified', checkedAt, url, reason, message, snippet, warnings }
+export async function verifyInstallation(websiteUrl, code) {
+  const checkedAt = new Date().toISOString();
+  const result = (fields) => ({ checkedAt, url: websiteUrl, reason: null, message: null, snippet: null, warnings: [], ...fields });
+
+  let response;
+  let finalUrl;
+  try {
+    ({ response, finalUrl } = await safeFetch(websiteUrl, { timeout: 10000, headers: DEFAULT_HEADERS }));
+  } catch (error) {
+    if (error instanceof UrlSafetyError) return result(failure(error.code, error.message));
+    return result(failure('fetch-failed', `Site indirilemedi: ${error.message}`));
+  }
+  if (!response.ok) {
+    response.body?.resume?.();
+    return result(failure('http-error', `Site HTTP ${response.status} döndü`, { url: finalUrl }));
+  }
+
+  const { text: html } = await readBody(response);
+  const root = parseDocument(html);
+  const scripts = root.querySelectorAll('script').filter(isSnippet);
+  if (!scripts.length) {
+    return result(failure('snippet-missing', 'Sayfada seo.js betiği bulunamadı', { url: finalUrl }));
+  }
+
+  const script = scripts.find(s => s.getAttribute('data-site-id') === code);
+  if (!script) {
+    const found = scripts.map(s => s.getAttribute('data-site-id')).filter(Boolean);
+    return result(failure('site-id-mismatch', `Betik bulundu ancak data-site-id bu takip koduyla eşleşmiyor${found.length ? ` (${found.join(', ')})` : ''}`, { url: finalUrl }));
+  }
+
+  const src = new URL(script.getAttribute('src') || '', finalUrl).toString();
+  const nonce = script.getAttribute('nonce') || null;
+  const integrity = script.getAttribute('integrity') || null;
+  const crossorigin = script.getAttribute('crossorigin');
+  const snippet = {
+    src,
+    variant: nonce || integrity ? 'enterprise' : 'simple',
+    nonce: !!nonce,
+    integrity: integrity ? checkIntegrity(integrity) : null,
+    crossorigin: crossorigin ?? null
+  };
+  const details = { url: finalUrl, snippet };
+
+  if (nonce === NONCE_PLACEHOLDER) {
+    return result(failure('nonce-placeholder', 'nonce değeri örnek değer olarak bırakılmış; sunucunuzun ürettiği nonce kullanılmalı', details));
+  }
+  if (snippet.integrity === 'placeholder') {
+    return result(failure('integrity-placeholder', 'integrity değeri örnek değer olarak bırakılmış', details));
+  }
+  if (snippet.integrity === 'mismatch') {
+    return result(failure('integrity-mismatch', 'integrity hash\'i güncel seo.js ile eşleşmiyor; tarayıcı betiği engeller', details));
+  }
+  // Farklı origin'den SRI ile yüklenen betik CORS modunda istenmeli
+  if (integrity && new URL(src).origin !== new URL(finalUrl).origin && !script.hasAttribute('crossorigin')) {
+    return result(failure('crossorigin-missing', 'integrity kullanıldığında crossorigin="anonymous" gerekli', details));
+  }
+
+  const policies = [
+    response.headers.get('content-security-policy'),
+    ...root.querySelectorAll('meta[http-equiv]')
+      .filter(meta => meta.getAttribute('http-equiv').toLowerCase() === 'content-security-policy')
+      .map(meta => meta.getAttribute('content'))
+  ].filter(Boolean);
+  if (policies.some(policy => !allowedByPolicy(policy, { src, nonce, integrity, pageUrl: finalUrl }))) {
+    return result(failure('csp-blocked', 'Sayfanın Content-Security-Policy başlığı seo.js betiğine izin vermiyor', details));
+  }
+
+  const warnings = [];
+  if (scripts.length > 1) warnings.push('Sayfada birden fazla seo.js betiği var');
+  if (!script.hasAttribute('defer') && !script.hasAttribute('async')) warnings.push('Betik defer/async olmadan yükleniyor; sayfa oluşturmayı geciktirebilir');
+
+  return result({ status: 'verified', ...details, warnings });
+}
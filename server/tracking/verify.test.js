@@ -0,0 +1,84 @@
+import http from 'node:http';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { snippetIntegrity, verifyInstallation } from './verify.js';
+
+const CODE = 'weeme-user-1-1700000000000';
+
+describe('verifyInstallation against a local site', () => {
+  // Her test ana sayfanın HTML'ini ve CSP başlığını belirler
+  let page = { html: '', csp: null };
+  const server = http.createServer((req, res) => {
+    const headers = { 'Content-Type': 'text/html' };
+    if (page.csp) headers['Content-Security-Policy'] = page.csp;
+    res.writeHead(200, headers);
+    res.end(page.html);
+  });
+  let base;
+
+  const snippet = (attributes = '', src = `${base}/seo.js`) =>
+    `<html><head><script src="${src}" data-site-id="${CODE}" defer ${attributes}></script></head><body></body></html>`;
+  const verify = (html, csp = null) => {
+    page = { html, csp };
+    return verifyInstallation(base, CODE);
+  };
+
+  beforeAll(async () => {
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${server.address().port}`;
+  });
+  afterAll(() => new Promise(resolve => server.close(resolve)));
+  beforeEach(() => vi.stubEnv('SCANNER_ALLOW_PRIVATE_HOSTS', 'true'));
+  afterEach(() => vi.unstubAllEnvs());
+
+  it('verifies the simple snippet and reports a missing or foreign one', async () => {
+    expect(await verify(snippet())).toMatchObject({ status: 'verified', snippet: { variant: 'simple' }, warnings: [] });
+    expect(await verify('<html><head></head></html>')).toMatchObject({ reason: 'snippet-missing' });
+    expect(await verify(snippet().replace(CODE, 'weeme-other'))).toMatchObject({ reason: 'site-id-mismatch' });
+  });
+
+  describe('SRI', () => {
+    it('accepts the current hash and flags placeholders and stale hashes', async () => {
+      expect(await verify(snippet(`integrity="${snippetIntegrity()}"`))).toMatchObject({ status: 'verified', snippet: { variant: 'enterprise', integrity: 'valid' } });
+      expect(await verify(snippet('integrity="sha384-EXAMPLE_HASH"'))).toMatchObject({ reason: 'integrity-placeholder' });
+      expect(await verify(snippet('integrity="sha384-AAAA"'))).toMatchObject({ reason: 'integrity-mismatch' });
+    });
+
+    it('requires crossorigin only for a snippet from another origin', async () => {
+      const integrity = `integrity="${snippetIntegrity()}"`;
+      expect(await verify(snippet(integrity, 'https://cdn.weeme.ai/seo.js'))).toMatchObject({ reason: 'crossorigin-missing' });
+      expect(await verify(snippet(`${integrity} crossorigin="anonymous"`, 'https://cdn.weeme.ai/seo.js'))).toMatchObject({ status: 'verified' });
+    });
+  });
+
+  describe('nonce', () => {
+    it('rejects the example nonce', async () => {
+      expect(await verify(snippet('nonce="YOUR_NONCE_HERE"'))).toMatchObject({ reason: 'nonce-placeholder' });
+    });
+
+    it('passes a strict-dynamic policy only with the matching nonce', async () => {
+      const csp = "script-src 'nonce-r4nd0m' 'strict-dynamic'";
+      expect(await verify(snippet('nonce="r4nd0m"'), csp)).toMatchObject({ status: 'verified' });
+      expect(await verify(snippet('nonce="other"'), csp)).toMatchObject({ reason: 'csp-blocked' });
+    });
+  });
+
+  describe('CSP', () => {
+    it("allows a self-hosted snippet under script-src 'self'", async () => {
+      expect(await verify(snippet(), "default-src 'none'; script-src 'self'")).toMatchObject({ status: 'verified' });
+      expect(await verify(snippet('', 'https://cdn.weeme.ai/seo.js'), "script-src 'self'")).toMatchObject({ reason: 'csp-blocked' });
+    });
+
+    it('matches host sources, wildcards and the script hash', async () => {
+      const cdn = 'https://cdn.weeme.ai/seo.js';
+      expect(await verify(snippet('', cdn), 'script-src https://*.weeme.ai')).toMatchObject({ status: 'verified' });
+      expect(await verify(snippet('', cdn), 'script-src https://weeme.ai')).toMatchObject({ reason: 'csp-blocked' });
+      const hash = snippetIntegrity();
+      expect(await verify(snippet(`integrity="${hash}"`), `script-src '${hash}'`)).toMatchObject({ status: 'verified' });
+    });
+
+    it('reads policies from <meta http-equiv> as well as the header', async () => {
+      const html = snippet().replace('<head>', `<head><meta http-equiv="Content-Security-Policy" content="script-src https://cdn.weeme.ai">`);
+      expect(await verify(html)).toMatchObject({ reason: 'csp-blocked' });
+    });
+  });
+});
@@ -1,9 +1,14 @@
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import { useAuth } from '../contexts/AuthContext';
 import { db } from '../lib/database';
 import { config } from '../lib/config';
-import type { SEOReport } from '../types';
+import { authHeaders } from '../lib/supabase';
+import { diffReports, earlierReports } from '../lib/reportDiff';
+import { buildReportHtml, downloadFile, exportFileName, latestAISuggestions, printAsPdf } from '../lib/reportExport';
+import { TREND_SERIES, buildSiteTrends, filterByRange, siteStats } from '../lib/scoreTrends';
+import type { SiteTrend, TrendPoint, TrendSeries } from '../lib/scoreTrends';
+import type { AlertSettings, SEOReport } from '../types';
 import {
   Globe,
   PlayCircle,
@@ -35,6 +40,8 @@ import {
   Eye,
   Users,
   Clock,
+  PauseCircle,
+  Play,
   Rocket,
   Brain,
   Code,
@@ -42,10 +49,14 @@ import {
   Star,
   Heart,
   MessageCircle,
-  Share
+  Share,
+  BadgeCheck,
+  KeyRound,
+  Building2,
+  Bell
 } from 'lucide-react';
 
-type ScanFrequency = 'weekly' | 'biweekly' | 'monthly';
+type ScanFrequency = 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'custom';
 
 interface TrackingCode {
   id: string;
@@ -55,9 +66,78 @@ interface TrackingCode {
   isActive: boolean;
   scanFrequency: ScanFrequency;
   lastScan: string;
-  nextScan: string;
+  nextScan: string | null;
+  disabledRules?: string[];
+  competitors?: string[];
+  scanCron?: string | null;
+  scanWindowStart?: string | null;
+  scanWindowEnd?: string | null;
+  timezone?: string;
+  installationStatus?: 'verified' | 'unverified' | null;
+  installationCheckedAt?: string | null;
+  installationError?: string | null;
+  ownershipMethod?: OwnershipMethod | null;
+  ownershipVerifiedAt?: string | null;
+  ownershipCheckedAt?: string | null;
+  ownershipError?: string | null;
+  alertSettings?: Partial<AlertSettings>;
 }
 
+type OwnershipMethod = 'dns' | 'meta' | 'file';
+
+interface OwnershipVerification {
+  status: 'verified' | 'unverified';
+  method: OwnershipMethod | null;
+  checkedAt: string;
+  reason: string | null;
+  message: string | null;
+}
+
+interface OwnershipInstructions {
+  token: string;
+  dns: { type: string; host: string; value: string };
+  meta: { tag: string };
+  file: { url: string; content: string };
+}
+
+interface InstallationVerification {
+  status: 'verified' | 'unverified';
+  checkedAt: string;
+  reason: string | null;
+  message: string | null;
+  warnings: string[];
+}
+
+interface ScoringRule {
+  id: string;
+  category: string;
+  weight: number;
+  severity: 'critical' | 'major' | 'minor' | 'info';
+  title: string;
+}
+
+type ScanStageStatus = 'pending' | 'running' | 'done' | 'skipped' | 'failed';
+
+interface ScanJob {
+  id: string;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  stage: string | null;
+  stages: Array<{ id: string; status: ScanStageStatus }>;
+  progress: number;
+  result: {
+    score: number;
+    positives?: string[];
+    negatives?: string[];
+    suggestions?: string[];
+    reportData?: Record<string, unknown>;
+  } | null;
+  error: { code: string; message: string } | null;
+  finishedAt: string | null;
+}
+
+// Sayfa yenilense de takip edilebilmesi için devam eden taramalar localStorage'da tutulur
+type ActiveScans = Record<string, { jobId: string; websiteUrl: string }>;
+
 interface DashboardProps {
   onOpenBilling?: () => void;
 }
@@ -70,7 +150,7 @@ const addDays = (date: Date, days: number) => {
 
 const getNextScanDate = (freq: ScanFrequency, from: Date = new Date()) => {
   const next =
-    freq === 'weekly' ? addDays(from, 7) : freq === 'biweekly' ? addDays(from, 14) : addDays(from, 30);
+    freq === 'daily' ? addDays(from, 1) : freq === 'weekly' ? addDays(from, 7) : freq === 'biweekly' ? addDays(from, 14) : addDays(from, 30);
   return next.toISOString();
 };
 
@@ -86,23 +166,90 @@ const normalizeUrl = (raw: string) => {
   }
 };
 
+// Sunucunun URL güvenlik katmanından dönen hata kodları
+const SCAN_ERROR_MESSAGES: Record<string, string> = {
+  'invalid-url': 'Geçersiz URL formatı. Lütfen doğru URL girin.',
+  'unsupported-protocol': 'Yalnızca http:// ve https:// adresleri taranabilir.',
+  'credentials-in-url': 'URL içinde kullanıcı adı veya parola bulunamaz.',
+  'blocked-address': 'Bu adres özel veya yerel bir ağa işaret ediyor, güvenlik nedeniyle taranamaz.',
+  'dns-failed': 'Alan adı çözümlenemedi. Adresin doğru yazıldığından emin olun.',
+  'too-many-redirects': 'Site çok fazla yönlendirme yapıyor, sayfaya ulaşılamadı.',
+  timeout: 'Site zamanında yanıt vermedi. Lütfen daha sonra tekrar deneyin.',
+  'ownership-unverified': 'Ajans modunda yalnızca sahipliği doğrulanmış siteler taranabilir. Lütfen önce site sahipliğini doğrulayın.',
+  'auth-required': 'Oturumunuzun süresi dolmuş. Lütfen yeniden giriş yapın.',
+  'insufficient-credits': 'Kredi bakiyeniz yetersiz. Lütfen kredi satın alın veya üyeliğinizi yükseltin.'
+};
+
+// Kurulum doğrulamasının (/api/tracking-codes/verify) hata kodları
+const INSTALLATION_ERROR_MESSAGES: Record<string, string> = {
+  'snippet-missing': 'Sayfada seo.js betiği bulunamadı. Kodu <head> bölümüne eklediğinizden emin olun.',
+  'site-id-mismatch': 'Betik bulundu ancak data-site-id bu takip koduyla eşleşmiyor.',
+  'nonce-placeholder': 'nonce değeri örnek değer olarak bırakılmış; sunucunuzun ürettiği nonce kullanılmalı.',
+  'integrity-placeholder': 'integrity değeri örnek değer olarak bırakılmış.',
+  'integrity-mismatch': 'integrity hash\'i güncel seo.js ile eşleşmiyor; tarayıcı betiği engeller.',
+  'crossorigin-missing': 'integrity kullanıldığında crossorigin="anonymous" özniteliği gerekli.',
+  'csp-blocked': 'Sitenin Content-Security-Policy ayarı seo.js betiğine izin vermiyor.',
+  'http-error': 'Site hata durum kodu döndürdü.',
+  'fetch-failed': 'Site indirilemedi.'
+};
+
 // Helper Components
 const InstallationPanel: React.FC<{ 
   trackingCode: TrackingCode; 
-  user: any;
-}> = ({ trackingCode, user }) => {
+  onVerified: (verification: InstallationVerification) => void;
+}> = ({ trackingCode, onVerified }) => {
   const [installTab, setInstallTab] = useState<'simple' | 'enterprise'>('simple');
   const [copiedSnippet, setCopiedSnippet] = useState<string | null>(null);
+  const [integrity, setIntegrity] = useState('sha384-EXAMPLE_HASH');
+  const [verifying, setVerifying] = useState(false);
+  const [verification, setVerification] = useState<InstallationVerification | null>(null);
+
+  // Kurumsal kurulumda gerçek SRI değeri gösterilir
+  useEffect(() => {
+    if (installTab !== 'enterprise') return;
+    fetch(`${config.apiBase}/api/tracking/snippet`)
+      .then(resp => (resp.ok ? resp.json() : Promise.reject(new Error(`API Error: ${resp.status}`))))
+      .then(json => setIntegrity(json.integrity))
+      .catch(err => console.error('Snippet integrity failed:', err));
+  }, [installTab]);
+
+  const verify = async () => {
+    setVerifying(true);
+    try {
+      const resp = await fetch(`${config.apiBase}/api/tracking-codes/verify`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ trackingCodeId: trackingCode.id, websiteUrl: trackingCode.websiteUrl, code: trackingCode.code })
+      });
+      const json = await resp.json();
+      const result: InstallationVerification = resp.ok
+        ? json.verification
+        : { status: 'unverified', checkedAt: new Date().toISOString(), reason: json.code || 'fetch-failed', message: json.message || null, warnings: [] };
+      setVerification(result);
+      onVerified(result);
+    } catch (err) {
+      console.error('Installation check failed:', err);
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const status = trackingCode.installationStatus;
+  const errorCode = trackingCode.installationError;
+  const errorMessage = errorCode
+    ? INSTALLATION_ERROR_MESSAGES[errorCode] || SCAN_ERROR_MESSAGES[errorCode] || verification?.message || errorCode
+    : null;
 
-  const simpleSnippet = `<script src="https://cdn.weeme.ai/seo.js" data-site-id="${user.id}" data-url="${trackingCode.websiteUrl}" defer></script>`;
+  // seo.js API sunucusundan servis edilir; data-site-id takip kodunun kendisidir (/api/beacon bununla doğrular)
+  const scriptSrc = `${config.apiBase}/seo.js`;
+  const simpleSnippet = `<script src="${scriptSrc}" data-site-id="${trackingCode.code}" defer></script>`;
   
   const enterpriseSnippet = `<script
-  src="https://cdn.weeme.ai/seo.js"
-  data-site-id="${user.id}"
-  data-url="${trackingCode.websiteUrl}"
+  src="${scriptSrc}"
+  data-site-id="${trackingCode.code}"
   defer
   nonce="YOUR_NONCE_HERE"
-  integrity="sha384-EXAMPLE_HASH"
+  integrity="${integrity}"
   crossorigin="anonymous"
 ></script>`;
 
@@ -118,6 +265,43 @@ const InstallationPanel: React.FC<{
 
   return (
     <div className="mt-6 space-y-4">
+      {/* Kurulum durumu */}
+      <div className={`flex flex-wrap items-center justify-between gap-3 rounded-xl border p-4 ${
+        status === 'verified' ? 'bg-green-50 border-green-200' : status === 'unverified' ? 'bg-red-50 border-red-200' : 'bg-gray-50 border-gray-200'
+      }`}>
+        <div className="flex items-center gap-2 text-sm">
+          {status === 'verified' ? (
+            <ShieldCheck className="h-5 w-5 text-green-600" />
+          ) : status === 'unverified' ? (
+            <AlertCircle className="h-5 w-5 text-red-600" />
+          ) : (
+            <Eye className="h-5 w-5 text-gray-500" />
+          )}
+          <div>
+            <div className="font-medium text-gray-900">
+              {status === 'verified' && 'Kurulum doğrulandı'}
+              {status === 'unverified' && 'Kurulum doğrulanamadı'}
+              {!status && 'Kurulum henüz doğrulanmadı'}
+              {trackingCode.installationCheckedAt && (
+                <span className="text-gray-500 font-normal"> · {new Date(trackingCode.installationCheckedAt).toLocaleString('tr-TR')}</span>
+              )}
+            </div>
+            {status === 'unverified' && errorMessage && <div className="text-red-700">{errorMessage}</div>}
+            {verification?.warnings.map(warning => (
+              <div key={warning} className="text-yellow-700">{warning}</div>
+            ))}
+          </div>
+        </div>
+        <button
+          onClick={verify}
+          disabled={verifying}
+          className="px-4 py-2 rounded-xl bg-purple-600 text-white text-sm font-semibold hover:bg-purple-700 disabled:opacity-50 flex items-center gap-2"
+        >
+          {verifying ? <Loader className="h-4 w-4 animate-spin" /> : <ShieldCheck className="h-4 w-4" />}
+          Kurulumu Doğrula
+        </button>
+      </div>
+
       {/* Tab Controls */}
       <div className="inline-flex rounded-xl border border-gray-200 overflow-hidden bg-white shadow-sm">
         <button
@@ -206,7 +390,8 @@ const InstallationPanel: React.FC<{
             <ul className="text-xs text-gray-600 space-y-1 list-disc ml-4">
               <li>Nonce değeri server tarafından üretilmeli</li>
               <li>Integrity hash'i sürüm güncellemesinde değişir</li>
-              <li>cdn.weeme.ai alan adını CSP allowlist'e ekleyin</li>
+              <li>{new URL(config.apiBase).host} alan adını CSP script-src ve connect-src allowlist'ine ekleyin</li>
+              <li>Betik Do Not Track açık olan ziyaretçilerde veri göndermez</li>
             </ul>
           </div>
         </div>
@@ -215,15 +400,691 @@ const InstallationPanel: React.FC<{
   );
 };
 
+const CATEGORY_LABELS: Record<string, string> = {
+  meta: 'Meta Etiketleri',
+  content: 'İçerik',
+  technical: 'Teknik',
+  social: 'Sosyal',
+  media: 'Görseller',
+  performance: 'Performans',
+  mobile: 'Mobil'
+};
+
+const RuleSettingsPanel: React.FC<{
+  trackingCode: TrackingCode;
+  onChange: (disabledRules: string[]) => void;
+}> = ({ trackingCode, onChange }) => {
+  const [rules, setRules] = useState<ScoringRule[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const disabled = useMemo(() => new Set(trackingCode.disabledRules || []), [trackingCode.disabledRules]);
+
+  useEffect(() => {
+    fetch(`${config.apiBase}/api/seo-rules`)
+      .then(resp => (resp.ok ? resp.json() : Promise.reject(new Error(`API Error: ${resp.status}`))))
+      .then(json => setRules(json.rules || []))
+      .catch(err => {
+        console.error('Rule list failed:', err);
+        setError('Kural listesi alınamadı.');
+      });
+  }, []);
+
+  const grouped = useMemo(() => {
+    const groups: Record<string, ScoringRule[]> = {};
+    rules.forEach(rule => {
+      (groups[rule.category] ||= []).push(rule);
+    });
+    return groups;
+  }, [rules]);
+
+  const toggle = (ruleId: string) => {
+    const next = new Set(disabled);
+    if (next.has(ruleId)) next.delete(ruleId);
+    else next.add(ruleId);
+    onChange([...next]);
+  };
+
+  return (
+    <div className="mt-6 bg-gray-50 rounded-2xl p-6 border border-gray-200">
+      <div className="flex items-center gap-2 mb-4">
+        <Settings className="h-5 w-5 text-gray-600" />
+        <span className="font-semibold text-gray-900">Skor Kuralları</span>
+        <span className="text-sm text-gray-500">— kapatılan kurallar bu sitenin skoruna dahil edilmez</span>
+      </div>
+      {error && <div className="text-sm text-red-600">{error}</div>}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {Object.entries(grouped).map(([category, items]) => (
+          <div key={category}>
+            <div className="text-sm font-semibold text-gray-700 mb-2">{CATEGORY_LABELS[category] || category}</div>
+            <ul className="space-y-2">
+              {items.map(rule => (
+                <li key={rule.id}>
+                  <label className="flex items-center gap-3 text-sm text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                      checked={!disabled.has(rule.id)}
+                      onChange={() => toggle(rule.id)}
+                    />
+                    <span>{rule.title}</span>
+                    <span className="text-xs text-gray-400">({rule.weight})</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Sunucu tarafındaki COMPETITOR_LIMIT varsayılanıyla aynı
+const MAX_COMPETITORS = 3;
+
+const CompetitorSettingsPanel: React.FC<{
+  trackingCode: TrackingCode;
+  onChange: (competitors: string[]) => void;
+}> = ({ trackingCode, onChange }) => {
+  const competitors = trackingCode.competitors || [];
+  const [draft, setDraft] = useState('');
+
+  const add = () => {
+    const url = normalizeUrl(draft.trim());
+    if (!url || competitors.includes(url) || competitors.length >= MAX_COMPETITORS) return;
+    onChange([...competitors, url]);
+    setDraft('');
+  };
+
+  return (
+    <div className="mt-6 bg-gray-50 rounded-2xl p-6 border border-gray-200">
+      <div className="flex items-center gap-2 mb-4">
+        <Users className="h-5 w-5 text-gray-600" />
+        <span className="font-semibold text-gray-900">Rakipler</span>
+        <span className="text-sm text-gray-500">— her taramada aynı denetim rakiplerde de çalışır (en fazla {MAX_COMPETITORS})</span>
+      </div>
+      <ul className="space-y-2 mb-4">
+        {competitors.map(url => (
+          <li key={url} className="flex items-center justify-between gap-3 bg-white rounded-xl px-4 py-2 border border-gray-200 text-sm">
+            <span className="text-gray-700 truncate">{url}</span>
+            <button
+              onClick={() => onChange(competitors.filter(c => c !== url))}
+              className="text-red-500 hover:text-red-700"
+              title="Rakibi kaldır"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </li>
+        ))}
+        {competitors.length === 0 && <li className="text-sm text-gray-500">Henüz rakip eklenmedi.</li>}
+      </ul>
+      {competitors.length < MAX_COMPETITORS && (
+        <div className="flex gap-3">
+          <input
+            type="url"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && add()}
+            placeholder="https://rakip.com"
+            className="flex-1 px-4 py-2 rounded-xl border border-gray-300 text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          />
+          <button
+            onClick={add}
+            disabled={!draft.trim()}
+            className="px-4 py-2 rounded-xl bg-purple-600 text-white text-sm font-semibold hover:bg-purple-700 disabled:opacity-50"
+          >
+            Ekle
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const SCAN_FREQUENCY_LABELS: Record<ScanFrequency, string> = {
+  daily: 'Günlük',
+  weekly: 'Haftalık',
+  biweekly: 'İki haftada bir',
+  monthly: 'Aylık',
+  custom: 'Özel (cron)'
+};
+
+const DEFAULT_TIMEZONE = 'Europe/Istanbul';
+
+const TIMEZONES = [
+  'Europe/Istanbul', 'UTC', 'Europe/London', 'Europe/Berlin', 'Europe/Paris', 'Europe/Amsterdam', 'Europe/Moscow',
+  'Asia/Dubai', 'Asia/Baku', 'Asia/Tokyo', 'America/New_York', 'America/Chicago', 'America/Los_Angeles', 'Australia/Sydney'
+];
+
+const describeSchedule = (code: TrackingCode) => {
+  const frequency = code.scanFrequency === 'custom' ? `cron: ${code.scanCron}` : SCAN_FREQUENCY_LABELS[code.scanFrequency];
+  const window = code.scanWindowStart && code.scanWindowEnd ? ` · ${code.scanWindowStart}–${code.scanWindowEnd}` : '';
+  return `${frequency}${window} · ${code.timezone || DEFAULT_TIMEZONE}`;
+};
+
+// Sunucudaki takvim motoru (server/jobs/schedule.js) takvimi doğrular ve sonraki çalışma zamanlarını hesaplar
+const fetchSchedulePreview = async (schedule: Partial<TrackingCode>) => {
+  const resp = await fetch(`${config.apiBase}/api/scan-schedule/preview`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(schedule)
+  });
+  const json = await resp.json();
+  if (!resp.ok) throw new Error(json.message || `API Error: ${resp.status}`);
+  return json.nextRuns as string[];
+};
+
+type ScheduleSettings = Pick<TrackingCode, 'scanFrequency' | 'scanCron' | 'scanWindowStart' | 'scanWindowEnd' | 'timezone' | 'nextScan'>;
+
+const ScheduleSettingsPanel: React.FC<{
+  trackingCode: TrackingCode;
+  onChange: (settings: ScheduleSettings) => void;
+}> = ({ trackingCode, onChange }) => {
+  const [frequency, setFrequency] = useState<ScanFrequency>(trackingCode.scanFrequency);
+  const [cron, setCron] = useState(trackingCode.scanCron || '0 3 * * 1');
+  const [useWindow, setUseWindow] = useState(!!trackingCode.scanWindowStart);
+  const [windowStart, setWindowStart] = useState(trackingCode.scanWindowStart || '02:00');
+  const [windowEnd, setWindowEnd] = useState(trackingCode.scanWindowEnd || '06:00');
+  const [timezone, setTimezone] = useState(trackingCode.timezone || DEFAULT_TIMEZONE);
+  const [nextRuns, setNextRuns] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const timezones = TIMEZONES.includes(timezone) ? TIMEZONES : [timezone, ...TIMEZONES];
+
+  const save = async () => {
+    const settings = {
+      scanFrequency: frequency,
+      scanCron: frequency === 'custom' ? cron.trim() : null,
+      scanWindowStart: useWindow ? windowStart : null,
+      scanWindowEnd: useWindow ? windowEnd : null,
+      timezone
+    };
+    setSaving(true);
+    setError(null);
+    try {
+      const runs = await fetchSchedulePreview(settings);
+      setNextRuns(runs);
+      onChange({ ...settings, nextScan: runs[0] });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Takvim kaydedilemedi.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'px-4 py-2 rounded-xl border border-gray-300 text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent';
+
+  return (
+    <div className="mt-6 bg-gray-50 rounded-2xl p-6 border border-gray-200">
+      <div className="flex items-center gap-2 mb-4">
+        <CalendarClock className="h-5 w-5 text-gray-600" />
+        <span className="font-semibold text-gray-900">Tarama Takvimi</span>
+        <span className="text-sm text-gray-500">— otomatik taramalar sitenin saat dilimine göre planlanır</span>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <label className="flex flex-col gap-1 text-sm text-gray-700">
+          Sıklık
+          <select value={frequency} onChange={(e) => setFrequency(e.target.value as ScanFrequency)} className={inputClass}>
+            {(Object.keys(SCAN_FREQUENCY_LABELS) as ScanFrequency[]).map(value => (
+              <option key={value} value={value}>{SCAN_FREQUENCY_LABELS[value]}</option>
+            ))}
+          </select>
+        </label>
+        {frequency === 'custom' && (
+          <label className="flex flex-col gap-1 text-sm text-gray-700">
+            Cron ifadesi
+            <input
+              value={cron}
+              onChange={(e) => setCron(e.target.value)}
+              placeholder="dakika saat gün ay haftanın-günü"
+              className={`${inputClass} font-mono`}
+            />
+          </label>
+        )}
+        <label className="flex flex-col gap-1 text-sm text-gray-700">
+          Saat dilimi
+          <select value={timezone} onChange={(e) => setTimezone(e.target.value)} className={inputClass}>
+            {timezones.map(zone => <option key={zone} value={zone}>{zone}</option>)}
+          </select>
+        </label>
+      </div>
+      <div className="flex flex-wrap items-center gap-3 mb-4 text-sm text-gray-700">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={useWindow} onChange={(e) => setUseWindow(e.target.checked)} />
+          Yalnızca şu saatler arasında tara:
+        </label>
+        <input type="time" value={windowStart} disabled={!useWindow} onChange={(e) => setWindowStart(e.target.value)} className={`${inputClass} disabled:opacity-50`} />
+        <span>–</span>
+        <input type="time" value={windowEnd} disabled={!useWindow} onChange={(e) => setWindowEnd(e.target.value)} className={`${inputClass} disabled:opacity-50`} />
+      </div>
+      <div className="flex items-center gap-4">
+        <button
+          onClick={save}
+          disabled={saving || (frequency === 'custom' && !cron.trim())}
+          className="px-4 py-2 rounded-xl bg-purple-600 text-white text-sm font-semibold hover:bg-purple-700 disabled:opacity-50"
+        >
+          {saving ? 'Kaydediliyor...' : 'Kaydet'}
+        </button>
+        {error && <span className="text-sm text-red-600">{error}</span>}
+      </div>
+      {nextRuns.length > 0 && (
+        <div className="mt-4 text-sm text-gray-600">
+          Sonraki taramalar: {nextRuns.map(run => new Date(run).toLocaleString('tr-TR', { timeZone: timezone })).join(' · ')}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Sunucudaki DEFAULT_ALERT_SETTINGS ile aynı
+const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  enabled: true,
+  scoreDrop: 10,
+  newCritical: true,
+  unreachable: true,
+  titleRemoved: true,
+  email: null,
+  webhookUrl: null
+};
+
+// /api/alerts/* doğrulama ve teslim hata kodları
+const ALERT_ERROR_MESSAGES: Record<string, string> = {
+  'invalid-score-drop': 'Skor düşüş eşiği 1 ile 100 arasında bir tam sayı olmalı.',
+  'invalid-email': 'Geçersiz e-posta adresi.',
+  'invalid-webhook-url': 'Webhook adresi http:// ya da https:// ile başlamalı.',
+  'no-targets': 'Test için bir e-posta ya da webhook adresi girin.',
+  'email-not-configured': 'Sunucuda e-posta gönderimi yapılandırılmamış (ALERT_SMTP_URL).'
+};
+
+const AlertSettingsPanel: React.FC<{
+  trackingCode: TrackingCode;
+  onChange: (settings: AlertSettings) => Promise<void>;
+}> = ({ trackingCode, onChange }) => {
+  const initial = { ...DEFAULT_ALERT_SETTINGS, ...(trackingCode.alertSettings || {}) };
+  const [enabled, setEnabled] = useState(initial.enabled);
+  const [scoreDrop, setScoreDrop] = useState(String(initial.scoreDrop));
+  const [newCritical, setNewCritical] = useState(initial.newCritical);
+  const [unreachable, setUnreachable] = useState(initial.unreachable);
+  const [titleRemoved, setTitleRemoved] = useState(initial.titleRemoved);
+  const [email, setEmail] = useState(initial.email || '');
+  const [webhookUrl, setWebhookUrl] = useState(initial.webhookUrl || '');
+  const [busy, setBusy] = useState<'save' | 'test' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const current = () => ({
+    enabled,
+    scoreDrop: Number(scoreDrop),
+    newCritical,
+    unreachable,
+    titleRemoved,
+    email: email.trim() || null,
+    webhookUrl: webhookUrl.trim() || null
+  });
+
+  const request = async (path: string, body: object) => {
+    const resp = await fetch(`${config.apiBase}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    const json = await resp.json();
+    if (!resp.ok) throw new Error(ALERT_ERROR_MESSAGES[json.code] || json.message || `API Error: ${resp.status}`);
+    return json;
+  };
+
+  const save = async () => {
+    setBusy('save');
+    setError(null);
+    setNotice(null);
+    try {
+      const json = await request('/api/alerts/settings', { settings: current() });
+      await onChange(json.settings);
+      setNotice('Uyarı ayarları kaydedildi.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Uyarı ayarları kaydedilemedi.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const sendTest = async () => {
+    setBusy('test');
+    setError(null);
+    setNotice(null);
+    try {
+      // Sunucu test uyarısını kayıtlı hedeflere gönderir; önce ayarlar kaydedilir
+      const saved = await request('/api/alerts/settings', { settings: current() });
+      await onChange(saved.settings);
+      const json = await request('/api/alerts/test', { trackingCodeId: trackingCode.id, code: trackingCode.code });
+      const failed = (json.deliveries as Array<{ channel: string; ok: boolean; error?: string }>).filter(d => !d.ok);
+      if (failed.length) {
+        setError(failed.map(d => `${d.channel}: ${ALERT_ERROR_MESSAGES[d.error || ''] || d.error}`).join(' · '));
+      } else {
+        setNotice('Test uyarısı gönderildi.');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Test uyarısı gönderilemedi.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const inputClass = 'px-4 py-2 rounded-xl border border-gray-300 text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent disabled:opacity-50';
+
+  return (
+    <div className="mt-6 bg-gray-50 rounded-2xl p-6 border border-gray-200">
+      <div className="flex items-center gap-2 mb-4">
+        <Bell className="h-5 w-5 text-gray-600" />
+        <span className="font-semibold text-gray-900">Gerileme Uyarıları</span>
+        <span className="text-sm text-gray-500">— zamanlanmış taramalar bir önceki raporla karşılaştırılır</span>
+      </div>
+      <label className="flex items-center gap-2 mb-4 text-sm font-medium text-gray-700">
+        <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+        Bu site için uyarıları etkinleştir
+      </label>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4 text-sm text-gray-700">
+        <label className="flex items-center gap-2">
+          SEO skoru en az
+          <input
+            type="number"
+            min={1}
+            max={100}
+            value={scoreDrop}
+            disabled={!enabled}
+            onChange={(e) => setScoreDrop(e.target.value)}
+            className={`${inputClass} w-20`}
+          />
+          puan düştüğünde
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={newCritical} disabled={!enabled} onChange={(e) => setNewCritical(e.target.checked)} />
+          Yeni kritik sorun çıktığında
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={unreachable} disabled={!enabled} onChange={(e) => setUnreachable(e.target.checked)} />
+          Site erişilemez olduğunda
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={titleRemoved} disabled={!enabled} onChange={(e) => setTitleRemoved(e.target.checked)} />
+          Sayfa başlığı (title) kaldırıldığında
+        </label>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <label className="flex flex-col gap-1 text-sm text-gray-700">
+          E-posta (isteğe bağlı)
+          <input type="email" value={email} disabled={!enabled} onChange={(e) => setEmail(e.target.value)} placeholder="seo@ornek.com" className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-700">
+          Webhook URL (isteğe bağlı)
+          <input value={webhookUrl} disabled={!enabled} onChange={(e) => setWebhookUrl(e.target.value)} placeholder="https://hooks.ornek.com/seo" className={`${inputClass} font-mono`} />
+        </label>
+      </div>
+      <div className="flex flex-wrap items-center gap-4">
+        <button
+          onClick={save}
+          disabled={!!busy}
+          className="px-4 py-2 rounded-xl bg-purple-600 text-white text-sm font-semibold hover:bg-purple-700 disabled:opacity-50"
+        >
+          {busy === 'save' ? 'Kaydediliyor...' : 'Kaydet'}
+        </button>
+        <button
+          onClick={sendTest}
+          disabled={!!busy || !enabled || (!email.trim() && !webhookUrl.trim())}
+          className="px-4 py-2 rounded-xl border border-gray-300 bg-white text-gray-700 text-sm font-semibold hover:bg-gray-100 disabled:opacity-50"
+        >
+          {busy === 'test' ? 'Gönderiliyor...' : 'Kaydet ve Test Gönder'}
+        </button>
+        {error && <span className="text-sm text-red-600">{error}</span>}
+        {notice && <span className="text-sm text-green-700">{notice}</span>}
+      </div>
+      <p className="mt-3 text-xs text-gray-500">Uyarılar ayrıca sağ üstteki bildirim merkezinde listelenir.</p>
+    </div>
+  );
+};
+
+const SCAN_STAGE_LABELS: Record<string, string> = {
+  fetch: 'Sayfa indiriliyor',
+  analyze: 'HTML ve içerik analizi',
+  checks: 'Bağlantı, mobil ve hreflang kontrolleri',
+  competitors: 'Rakip taramaları',
+  ai: 'AI değerlendirmesi',
+  report: 'Rapor hazırlanıyor'
+};
+
+// Sahiplik doğrulamasının (/api/ownership/verify) hata kodları
+const OWNERSHIP_ERROR_MESSAGES: Record<string, string> = {
+  'dns-record-missing': 'Doğrulama TXT kaydı bulunamadı. DNS değişikliklerinin yayılması birkaç saat sürebilir.',
+  'dns-failed': 'DNS sorgusu başarısız oldu. Lütfen daha sonra tekrar deneyin.',
+  'meta-tag-missing': 'Ana sayfada doğrulama meta etiketi bulunamadı.',
+  'meta-token-mismatch': 'Meta etiketindeki token bu takip koduna ait değil.',
+  'file-missing': 'Doğrulama dosyası sitenin kök dizininde bulunamadı.',
+  'file-token-mismatch': 'Doğrulama dosyası bu takip kodunun token\'ını içermiyor.',
+  'redirected-off-site': 'Site başka bir alan adına yönlendiriyor; doğrulama o alan adında yapılamaz.',
+  'http-error': 'Site hata durum kodu döndürdü.',
+  'fetch-failed': 'Site indirilemedi.'
+};
+
+const OWNERSHIP_METHOD_LABELS: Record<OwnershipMethod, string> = {
+  dns: 'DNS TXT Kaydı',
+  meta: 'Meta Etiketi',
+  file: 'HTML Dosyası'
+};
+
+const OwnershipPanel: React.FC<{
+  trackingCode: TrackingCode;
+  onVerified: (verification: OwnershipVerification) => void;
+}> = ({ trackingCode, onVerified }) => {
+  const [method, setMethod] = useState<OwnershipMethod>(trackingCode.ownershipMethod || 'dns');
+  const [instructions, setInstructions] = useState<OwnershipInstructions | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [verification, setVerification] = useState<OwnershipVerification | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`${config.apiBase}/api/ownership/instructions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ websiteUrl: trackingCode.websiteUrl, code: trackingCode.code })
+    })
+      .then(resp => (resp.ok ? resp.json() : Promise.reject(new Error(`API Error: ${resp.status}`))))
+      .then(json => setInstructions(json.instructions))
+      .catch(err => console.error('Ownership instructions failed:', err));
+  }, [trackingCode.websiteUrl, trackingCode.code]);
+
+  const verify = async () => {
+    setVerifying(true);
+    try {
+      const resp = await fetch(`${config.apiBase}/api/ownership/verify`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ trackingCodeId: trackingCode.id, code: trackingCode.code, method })
+      });
+      const json = await resp.json();
+      const result: OwnershipVerification = resp.ok
+        ? json.verification
+        : { status: 'unverified', method: null, checkedAt: new Date().toISOString(), reason: json.code || 'fetch-failed', message: json.message || null };
+      setVerification(result);
+      onVerified(result);
+    } catch (err) {
+      console.error('Ownership check failed:', err);
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const handleCopy = async (value: string, key: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      setCopied(key);
+      setTimeout(() => setCopied(null), 2000);
+    } catch (err) {
+      console.error('Copy failed:', err);
+    }
+  };
+
+  const verified = !!trackingCode.ownershipVerifiedAt;
+  const errorCode = trackingCode.ownershipError;
+  const errorMessage = errorCode
+    ? OWNERSHIP_ERROR_MESSAGES[errorCode] || SCAN_ERROR_MESSAGES[errorCode] || verification?.message || errorCode
+    : null;
+
+  const copyable = (value: string, key: string) => (
+    <div className="relative group">
+      <pre className="bg-gray-900 text-gray-100 border border-gray-700 rounded-xl p-4 text-xs overflow-x-auto pr-12 font-mono">{value}</pre>
+      <button
+        onClick={() => handleCopy(value, key)}
+        className="absolute top-3 right-3 p-2 rounded-lg bg-gray-800 hover:bg-gray-700 transition-colors group-hover:opacity-100 opacity-70"
+        title="Kopyala"
+      >
+        {copied === key ? <Check className="h-4 w-4 text-green-400" /> : <Copy className="h-4 w-4 text-gray-300" />}
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="mt-6 bg-gray-50 rounded-2xl p-6 border border-gray-200 space-y-4">
+      <div className="flex items-center gap-2">
+        <KeyRound className="h-5 w-5 text-gray-600" />
+        <span className="font-semibold text-gray-900">Site Sahipliği</span>
+        <span className="text-sm text-gray-500">— beacon verileri yalnızca sahipliği doğrulanmış sitelerden kabul edilir</span>
+      </div>
+
+      <div className={`flex flex-wrap items-center justify-between gap-3 rounded-xl border p-4 ${
+        verified ? 'bg-green-50 border-green-200' : errorCode ? 'bg-red-50 border-red-200' : 'bg-white border-gray-200'
+      }`}>
+        <div className="flex items-center gap-2 text-sm">
+          {verified ? <BadgeCheck className="h-5 w-5 text-green-600" /> : errorCode ? <AlertCircle className="h-5 w-5 text-red-600" /> : <Eye className="h-5 w-5 text-gray-500" />}
+          <div>
+            <div className="font-medium text-gray-900">
+              {verified
+                ? `Sahiplik doğrulandı (${OWNERSHIP_METHOD_LABELS[trackingCode.ownershipMethod || 'dns']})`
+                : errorCode ? 'Sahiplik doğrulanamadı' : 'Sahiplik henüz doğrulanmadı'}
+              {trackingCode.ownershipCheckedAt && (
+                <span className="text-gray-500 font-normal"> · {new Date(trackingCode.ownershipCheckedAt).toLocaleString('tr-TR')}</span>
+              )}
+            </div>
+            {!verified && errorMessage && <div className="text-red-700">{errorMessage}</div>}
+          </div>
+        </div>
+        <button
+          onClick={verify}
+          disabled={verifying}
+          className="px-4 py-2 rounded-xl bg-purple-600 text-white text-sm font-semibold hover:bg-purple-700 disabled:opacity-50 flex items-center gap-2"
+        >
+          {verifying ? <Loader className="h-4 w-4 animate-spin" /> : <BadgeCheck className="h-4 w-4" />}
+          Sahipliği Doğrula
+        </button>
+      </div>
+
+      <div className="inline-flex rounded-xl border border-gray-200 overflow-hidden bg-white shadow-sm">
+        {(Object.keys(OWNERSHIP_METHOD_LABELS) as OwnershipMethod[]).map(value => (
+          <button
+            key={value}
+            onClick={() => setMethod(value)}
+            className={`px-4 py-2 text-sm font-medium transition-all duration-200 ${
+              method === value
+                ? 'bg-gradient-to-r from-purple-600 to-pink-600 text-white shadow-lg'
+                : 'bg-white hover:bg-gray-50 text-gray-700'
+            }`}
+          >
+            {OWNERSHIP_METHOD_LABELS[value]}
+          </button>
+        ))}
+      </div>
+
+      {!instructions ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader className="h-4 w-4 animate-spin" /> Doğrulama bilgileri yükleniyor...
+        </div>
+      ) : method === 'dns' ? (
+        <div className="space-y-2 text-sm text-gray-700">
+          <p>
+            Alan adınızın DNS ayarlarına <strong>{instructions.dns.host}</strong> için aşağıdaki <strong>TXT</strong> kaydını ekleyin.
+          </p>
+          {copyable(instructions.dns.value, 'dns')}
+        </div>
+      ) : method === 'meta' ? (
+        <div className="space-y-2 text-sm text-gray-700">
+          <p>
+            Ana sayfanızın <code className="bg-gray-100 px-2 py-1 rounded text-xs">&lt;head&gt;</code> bölümüne bu etiketi ekleyin.
+          </p>
+          {copyable(instructions.meta.tag, 'meta')}
+        </div>
+      ) : (
+        <div className="space-y-2 text-sm text-gray-700">
+          <p>
+            Aşağıdaki içerikle bir dosya oluşturup <strong>{instructions.file.url}</strong> adresinden erişilebilir olacak şekilde yükleyin.
+          </p>
+          {copyable(instructions.file.content, 'file')}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ScanProgressPanel: React.FC<{ job: ScanJob; onDismiss: () => void }> = ({ job, onDismiss }) => {
+  const finished = job.status === 'completed' || job.status === 'failed';
+  const errorMessage = job.error ? SCAN_ERROR_MESSAGES[job.error.code] || job.error.message : null;
+
+  return (
+    <div className="mt-6 bg-gray-50 rounded-2xl p-6 border border-gray-200">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2 font-semibold text-gray-900">
+          {job.status === 'completed' ? (
+            <CheckCircle2 className="h-5 w-5 text-green-500" />
+          ) : job.status === 'failed' ? (
+            <AlertCircle className="h-5 w-5 text-red-500" />
+          ) : (
+            <Loader className="h-5 w-5 text-purple-600 animate-spin" />
+          )}
+          {job.status === 'queued' && 'Tarama sırada bekliyor'}
+          {job.status === 'running' && 'Tarama sürüyor'}
+          {job.status === 'completed' && `Tarama tamamlandı — skor ${job.result?.score ?? '—'}/100`}
+          {job.status === 'failed' && 'Tarama başarısız oldu'}
+        </div>
+        {finished && (
+          <button onClick={onDismiss} className="text-gray-400 hover:text-gray-600" title="Kapat">
+            <X className="h-5 w-5" />
+          </button>
+        )}
+      </div>
+      <div className="h-2 bg-gray-200 rounded-full overflow-hidden mb-4">
+        <div
+          className={`h-full rounded-full transition-all duration-500 ${job.status === 'failed' ? 'bg-red-500' : 'bg-gradient-to-r from-purple-600 to-pink-600'}`}
+          style={{ width: `${job.progress}%` }}
+        ></div>
+      </div>
+      <ul className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
+        {job.stages.map(stage => (
+          <li key={stage.id} className={`flex items-center gap-2 text-sm ${stage.status === 'pending' || stage.status === 'skipped' ? 'text-gray-400' : 'text-gray-700'}`}>
+            {stage.status === 'done' && <CheckCircle2 className="h-4 w-4 text-green-500" />}
+            {stage.status === 'running' && <Loader className="h-4 w-4 text-purple-600 animate-spin" />}
+            {stage.status === 'failed' && <AlertCircle className="h-4 w-4 text-red-500" />}
+            {(stage.status === 'pending' || stage.status === 'skipped') && <div className="h-4 w-4 rounded-full border-2 border-gray-300"></div>}
+            <span className={stage.status === 'skipped' ? 'line-through' : ''}>{SCAN_STAGE_LABELS[stage.id] || stage.id}</span>
+          </li>
+        ))}
+      </ul>
+      {errorMessage && <div className="mt-4 text-sm text-red-600">{errorMessage}</div>}
+    </div>
+  );
+};
+
 const Dashboard: React.FC<DashboardProps> = ({ onOpenBilling }) => {
-  const { user } = useAuth();
+  const { user, updateCredits, reloadCredits, setRequireSiteOwnership } = useAuth();
   const [reports, setReports] = useState<SEOReport[]>([]);
   const [trackingCodes, setTrackingCodes] = useState<TrackingCode[]>([]);
   const [loading, setLoading] = useState(true);
   const [expandedReport, setExpandedReport] = useState<string | null>(null);
   const [newWebsite, setNewWebsite] = useState('');
   const [scanFreq, setScanFreq] = useState<ScanFrequency>('weekly');
-  const [isScanning, setIsScanning] = useState(false);
+  const [scanJobs, setScanJobs] = useState<Record<string, ScanJob>>({});
+  const scanStreams = useRef<Record<string, EventSource>>({});
+  const [ruleSettingsFor, setRuleSettingsFor] = useState<string | null>(null);
+  const [competitorSettingsFor, setCompetitorSettingsFor] = useState<string | null>(null);
+  const [scheduleSettingsFor, setScheduleSettingsFor] = useState<string | null>(null);
+  const [ownershipSettingsFor, setOwnershipSettingsFor] = useState<string | null>(null);
+  const [alertSettingsFor, setAlertSettingsFor] = useState<string | null>(null);
   const [stats, setStats] = useState({
     totalScans: 0,
     avgScore: 0,
@@ -237,23 +1098,33 @@ const Dashboard: React.FC<DashboardProps> = ({ onOpenBilling }) => {
     }
   }, [user]);
 
+  // Yarıda kalan taramaları (sayfa yenilendiyse) yeniden takip et
+  useEffect(() => {
+    if (!user || loading) return;
+    Object.entries(readActiveScans()).forEach(([codeId, { jobId, websiteUrl }]) => {
+      if (!scanStreams.current[codeId]) followScan(codeId, websiteUrl, jobId);
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user, loading]);
+
+  useEffect(() => {
+    const streams = scanStreams.current;
+    return () => Object.values(streams).forEach(source => source.close());
+  }, []);
+
+  const siteTrends = useMemo(() => buildSiteTrends(reports), [reports]);
+
   // Calculate stats from reports
   useEffect(() => {
     if (reports.length > 0) {
       const totalScans = reports.length;
-      const avgScore = Math.round(reports.reduce((sum, r) => sum + r.score, 0) / reports.length);
       const activeSites = trackingCodes.filter(c => c.isActive).length;
-      
-      // Calculate improvement (mock calculation)
-      const recentReports = reports.slice(0, 5);
-      const olderReports = reports.slice(-5);
-      const recentAvg = recentReports.reduce((sum, r) => sum + r.score, 0) / recentReports.length;
-      const olderAvg = olderReports.reduce((sum, r) => sum + r.score, 0) / olderReports.length;
-      const improvement = Math.round(((recentAvg - olderAvg) / olderAvg) * 100) || 0;
+      // Farklı sitelerin skorları karıştırılmaz: her sitenin son skoru ve kendi geçmişine göre değişimi
+      const { avgScore, improvement } = siteStats(siteTrends);
 
       setStats({ totalScans, avgScore, improvement, activeSites });
     }
-  }, [reports, trackingCodes]);
+  }, [reports, trackingCodes, siteTrends]);
 
   const loadData = async () => {
     try {
@@ -290,6 +1161,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onOpenBilling }) => {
       scanFrequency: scanFreq,
       lastScan: new Date().toISOString(),
       nextScan: getNextScanDate(scanFreq),
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIMEZONE,
       createdAt: new Date().toISOString()
     };
 
@@ -299,8 +1171,106 @@ const Dashboard: React.FC<DashboardProps> = ({ onOpenBilling }) => {
     setNewWebsite('');
   };
 
-  const handleScanNow = async (websiteUrl: string) => {
+  const activeScansKey = () => `activeScans_${user?.id}`;
+
+  const readActiveScans = (): ActiveScans => {
+    try {
+      return JSON.parse(localStorage.getItem(activeScansKey()) || '{}');
+    } catch {
+      return {};
+    }
+  };
+
+  const rememberScan = (codeId: string, scan: ActiveScans[string] | null) => {
+    const active = readActiveScans();
+    if (scan) active[codeId] = scan;
+    else delete active[codeId];
+    localStorage.setItem(activeScansKey(), JSON.stringify(active));
+  };
+
+  // Tamamlanan iş rapora dönüştürülür; localStorage kaydı aynı işin iki kez işlenmesini önler
+  const completeScan = async (codeId: string, websiteUrl: string, job: ScanJob) => {
+    if (readActiveScans()[codeId]?.jobId !== job.id) return;
+    rememberScan(codeId, null);
+    if (job.status !== 'completed' || !job.result || !user) return;
+
+    const newReport: SEOReport = {
+      id: job.id,
+      userId: user.id,
+      websiteUrl: websiteUrl,
+      score: job.result.score,
+      positives: job.result.positives || [],
+      negatives: job.result.negatives || [],
+      suggestions: job.result.suggestions || [],
+      createdAt: job.finishedAt || new Date().toISOString(),
+      reportData: job.result.reportData || {}
+    };
+
+    setReports(prev => [newReport, ...prev.filter(r => r.id !== newReport.id)]);
+    setExpandedReport(newReport.id);
+    await db.saveReport(newReport);
+
+    // Kredi sunucuda düşülür; yerel düşüm yalnızca Supabase'siz modda kalıcıdır ve ardından sunucu bakiyesi okunur
+    if (user.membershipType === 'Free') {
+      updateCredits(user.credits - 1);
+    }
+    await reloadCredits();
+  };
+
+  // Sunucu her aşama değişikliğinde `progress`, bitişte `done` olayı gönderir
+  const followScan = (codeId: string, websiteUrl: string, jobId: string) => {
+    scanStreams.current[codeId]?.close();
+    const source = new EventSource(`${config.apiBase}/api/scans/${jobId}/events`);
+    scanStreams.current[codeId] = source;
+
+    const stop = () => {
+      source.close();
+      delete scanStreams.current[codeId];
+    };
+
+    source.addEventListener('progress', (event) => {
+      const job = JSON.parse((event as MessageEvent).data) as ScanJob;
+      setScanJobs(prev => ({ ...prev, [codeId]: job }));
+    });
+    source.addEventListener('done', (event) => {
+      const job = JSON.parse((event as MessageEvent).data) as ScanJob;
+      stop();
+      setScanJobs(prev => ({ ...prev, [codeId]: job }));
+      completeScan(codeId, websiteUrl, job).catch(error => console.error('Scan completion failed:', error));
+    });
+    source.onerror = () => {
+      // Bağlantı koptuysa tarayıcı yeniden bağlanır; iş sunucuda yoksa bağlantı kapanır
+      if (source.readyState !== EventSource.CLOSED) return;
+      stop();
+      rememberScan(codeId, null);
+      setScanJobs(prev => {
+        const next = { ...prev };
+        delete next[codeId];
+        return next;
+      });
+    };
+  };
+
+  const dismissScan = (codeId: string) => {
+    setScanJobs(prev => {
+      const next = { ...prev };
+      delete next[codeId];
+      return next;
+    });
+  };
+
+  // Ajans modunda yalnızca sahipliği doğrulanmış siteler taranabilir
+  const needsOwnership = (code: TrackingCode) => !!user?.requireSiteOwnership && !code.ownershipVerifiedAt;
+
+  const handleScanNow = async (code: TrackingCode) => {
     if (!user) return;
+    const websiteUrl = code.websiteUrl;
+
+    if (needsOwnership(code)) {
+      alert('Ajans modunda yalnızca sahipliği doğrulanmış siteler taranabilir. Lütfen önce site sahipliğini doğrulayın.');
+      setOwnershipSettingsFor(code.id);
+      return;
+    }
     
     if (user.membershipType === 'Free' && user.credits <= 0) {
       alert('Kredi bakiyeniz yetersiz. Lütfen kredi satın alın veya üyeliğinizi yükseltin.');
@@ -308,62 +1278,112 @@ const Dashboard: React.FC<DashboardProps> = ({ onOpenBilling }) => {
       return;
     }
     
-    setIsScanning(true);
     try {
-      const base = import.meta.env.VITE_API_BASE || 'http://localhost:8787';
-      
-      const response = await fetch(`${base}/api/seo-scan`, {
+      const response = await fetch(`${config.apiBase}/api/scans`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ url: websiteUrl })
+        headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+        body: JSON.stringify({ url: websiteUrl, trackingCodeId: code.id, disabledRules: code.disabledRules || [], competitors: code.competitors || [] })
       });
       
-      if (response.ok) {
-        const result = await response.json();
-        
-        if (result.ok && result.report) {
-          const newReport: SEOReport = {
-            id: uuidv4(),
-            userId: user.id,
-            websiteUrl: websiteUrl,
-            score: result.report.score,
-            positives: result.report.positives || [],
-            negatives: result.report.negatives || [],
-            suggestions: result.report.suggestions || [],
-            createdAt: new Date().toISOString(),
-            reportData: result.report.reportData || {}
-          };
-          
-          const updatedReports = [newReport, ...reports];
-          setReports(updatedReports);
-          await db.saveReport(newReport);
-          
-          if (user.membershipType === 'Free') {
-            const { updateCredits } = useAuth();
-            updateCredits(user.credits - 1);
-          }
-          
-          alert(`🎉 SEO taraması tamamlandı!\n\n📊 Skor: ${result.report.score}/100\n✅ ${result.report.positives?.length || 0} olumlu nokta\n⚠️ ${result.report.negatives?.length || 0} iyileştirme alanı`);
-        } else {
-          throw new Error(result.message || 'Tarama başarısız');
-        }
-      } else {
+      if (!response.ok) {
         const errorText = await response.text();
         console.error('SEO scan failed:', response.status, errorText);
         
+        let errorCode: string | undefined;
+        try {
+          errorCode = JSON.parse(errorText).code;
+        } catch {
+          errorCode = undefined;
+        }
+
         let userMessage = 'Tarama başarısız oldu.';
-        if (response.status === 400) userMessage = 'Geçersiz URL formatı. Lütfen doğru URL girin.';
+        if (errorCode && SCAN_ERROR_MESSAGES[errorCode]) userMessage = SCAN_ERROR_MESSAGES[errorCode];
+        else if (response.status === 400) userMessage = 'Geçersiz URL formatı. Lütfen doğru URL girin.';
         else if (response.status === 429) userMessage = 'Çok fazla istek. Lütfen biraz bekleyin.';
         else if (response.status >= 500) userMessage = 'Server hatası. Lütfen daha sonra tekrar deneyin.';
         
         throw new Error(userMessage);
       }
-    } catch (error) {
-      console.error('Scan error:', error);
-      alert(`❌ ${error.message}`);
-    } finally {
-      setIsScanning(false);
+
+      const { job } = await response.json() as { job: ScanJob };
+      setScanJobs(prev => ({ ...prev, [code.id]: job }));
+      rememberScan(code.id, { jobId: job.id, websiteUrl });
+      followScan(code.id, websiteUrl, job.id);
+    } catch (error) {
+      console.error('Scan error:', error);
+      alert(`❌ ${error instanceof Error ? error.message : 'Tarama başlatılamadı.'}`);
+    }
+  };
+
+  const isScanActive = (codeId: string) => {
+    const job = scanJobs[codeId];
+    return !!job && (job.status === 'queued' || job.status === 'running');
+  };
+
+  const handleRulesChange = async (code: TrackingCode, disabledRules: string[]) => {
+    const updated = { ...code, disabledRules };
+    setTrackingCodes(trackingCodes.map(c => (c.id === code.id ? updated : c)));
+    await db.saveTrackingCode(updated);
+  };
+
+  const handleCompetitorsChange = async (code: TrackingCode, competitors: string[]) => {
+    const updated = { ...code, competitors };
+    setTrackingCodes(trackingCodes.map(c => (c.id === code.id ? updated : c)));
+    await db.saveTrackingCode(updated);
+  };
+
+  const handleScheduleChange = async (code: TrackingCode, settings: ScheduleSettings) => {
+    const updated = { ...code, ...settings };
+    setTrackingCodes(trackingCodes.map(c => (c.id === code.id ? updated : c)));
+    await db.saveTrackingCode(updated);
+  };
+
+  const handleAlertSettingsChange = async (code: TrackingCode, alertSettings: AlertSettings) => {
+    const updated = { ...code, alertSettings };
+    setTrackingCodes(trackingCodes.map(c => (c.id === code.id ? updated : c)));
+    await db.saveTrackingCode(updated);
+  };
+
+  // Duraklatılan siteler zamanlayıcı tarafından taranmaz; devam ettirilince sonraki tarama sunucuda yeniden
+  // hesaplanır, burada yalnızca gösterim için önizlenir
+  const handleToggleActive = async (code: TrackingCode) => {
+    let nextScan = code.nextScan;
+    if (!code.isActive) {
+      try {
+        [nextScan] = await fetchSchedulePreview(code);
+      } catch (error) {
+        console.error('Schedule preview failed:', error);
+        nextScan = getNextScanDate(code.scanFrequency === 'custom' ? 'weekly' : code.scanFrequency);
+      }
     }
+    const updated = { ...code, isActive: !code.isActive, nextScan };
+    setTrackingCodes(trackingCodes.map(c => (c.id === code.id ? updated : c)));
+    await db.saveTrackingCode(updated);
+  };
+
+  // Kurulum alanları sunucuda yazılır; burada yalnızca yerel durum ve önbellek güncellenir
+  const handleInstallationVerified = async (code: TrackingCode, verification: InstallationVerification) => {
+    const updated = {
+      ...code,
+      installationStatus: verification.status,
+      installationCheckedAt: verification.checkedAt,
+      installationError: verification.reason
+    };
+    setTrackingCodes(prev => prev.map(c => (c.id === code.id ? updated : c)));
+    await db.saveTrackingCode(updated);
+  };
+
+  // Sahiplik alanları sunucuda yazılır; burada yalnızca yerel durum ve önbellek güncellenir
+  const handleOwnershipVerified = async (code: TrackingCode, verification: OwnershipVerification) => {
+    const updated = {
+      ...code,
+      ownershipMethod: verification.method,
+      ownershipVerifiedAt: verification.status === 'verified' ? verification.checkedAt : null,
+      ownershipCheckedAt: verification.checkedAt,
+      ownershipError: verification.reason
+    };
+    setTrackingCodes(prev => prev.map(c => (c.id === code.id ? updated : c)));
+    await db.saveTrackingCode(updated);
   };
 
   const handleRemoveWebsite = (codeId: string) => {
@@ -566,6 +1586,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onOpenBilling }) => {
                   onChange={(e) => setScanFreq(e.target.value as ScanFrequency)}
                   className="w-full px-6 py-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-purple-500 glass transition-all duration-200 text-lg"
                 >
+                  <option value="daily">⏰ Günlük</option>
                   <option value="weekly">🗓️ Haftalık</option>
                   <option value="biweekly">📅 İki Haftada Bir</option>
                   <option value="monthly">🗓️ Aylık</option>
@@ -582,6 +1603,19 @@ const Dashboard: React.FC<DashboardProps> = ({ onOpenBilling }) => {
                 </button>
               </div>
             </div>
+
+            <label className="flex items-center gap-3 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!!user?.requireSiteOwnership}
+                onChange={(e) => setRequireSiteOwnership(e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+              />
+              <Building2 className="h-4 w-4 text-gray-500" />
+              <span>
+                <strong>Ajans modu</strong> — yalnızca sahipliği doğrulanmış siteler (manuel ve zamanlanmış) taransın
+              </span>
+            </label>
           </div>
         </div>
 
@@ -607,7 +1641,18 @@ const Dashboard: React.FC<DashboardProps> = ({ onOpenBilling }) => {
                         <Globe className="h-6 w-6 text-white" />
                       </div>
                       <div>
-                        <div className="font-bold text-gray-900 text-xl">{code.websiteUrl}</div>
+                        <div className="font-bold text-gray-900 text-xl flex items-center gap-3">
+                          {code.websiteUrl}
+                          {!code.isActive && (
+                            <span className="px-3 py-1 rounded-full bg-yellow-100 text-yellow-800 text-xs font-semibold">Duraklatıldı</span>
+                          )}
+                          {code.ownershipVerifiedAt && (
+                            <span className="px-3 py-1 rounded-full bg-green-100 text-green-800 text-xs font-semibold flex items-center gap-1">
+                              <BadgeCheck className="h-3 w-3" />
+                              Sahiplik doğrulandı
+                            </span>
+                          )}
+                        </div>
                         <div className="text-gray-500 flex items-center gap-6 mt-2">
                           <span className="flex items-center gap-2">
                             <Clock className="h-4 w-4" />
@@ -616,24 +1661,69 @@ const Dashboard: React.FC<DashboardProps> = ({ onOpenBilling }) => {
                           <span>•</span>
                           <span className="flex items-center gap-2">
                             <CalendarClock className="h-4 w-4" />
-                            Sonraki: {new Date(code.nextScan).toLocaleDateString('tr-TR')}
+                            Sonraki: {code.isActive && code.nextScan ? new Date(code.nextScan).toLocaleString('tr-TR', { timeZone: code.timezone || DEFAULT_TIMEZONE }) : '—'}
                           </span>
+                          <span>•</span>
+                          <span>{describeSchedule(code)}</span>
                         </div>
                       </div>
                     </div>
                     <div className="flex items-center gap-4">
                       <button
-                        onClick={() => handleScanNow(code.websiteUrl)}
-                        disabled={isScanning || (user?.membershipType === 'Free' && user.credits <= 0)}
+                        onClick={() => handleScanNow(code)}
+                        disabled={isScanActive(code.id) || needsOwnership(code) || (user?.membershipType === 'Free' && user.credits <= 0)}
+                        title={needsOwnership(code) ? 'Ajans modunda önce site sahipliğini doğrulayın' : undefined}
                         className="bg-gradient-to-r from-green-600 to-blue-600 text-white px-8 py-3 rounded-2xl hover:from-green-700 hover:to-blue-700 transition-all duration-200 disabled:opacity-50 flex items-center gap-3 font-bold shadow-xl hover:shadow-2xl transform hover:scale-105"
                       >
-                        {isScanning ? (
+                        {isScanActive(code.id) ? (
                           <Loader className="h-5 w-5 animate-spin" />
                         ) : (
                           <PlayCircle className="h-5 w-5" />
                         )}
                         Şimdi Tara
                       </button>
+                      <button
+                        onClick={() => handleToggleActive(code)}
+                        className="p-3 rounded-2xl text-gray-500 hover:text-gray-700 hover:bg-gray-100 transition-all duration-200"
+                        title={code.isActive ? 'Otomatik taramayı duraklat' : 'Otomatik taramayı sürdür'}
+                      >
+                        {code.isActive ? <PauseCircle className="h-6 w-6" /> : <Play className="h-6 w-6" />}
+                      </button>
+                      <button
+                        onClick={() => setOwnershipSettingsFor(ownershipSettingsFor === code.id ? null : code.id)}
+                        className={`p-3 rounded-2xl transition-all duration-200 ${ownershipSettingsFor === code.id ? 'bg-purple-100 text-purple-700' : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'}`}
+                        title="Site sahipliği"
+                      >
+                        <KeyRound className="h-6 w-6" />
+                      </button>
+                      <button
+                        onClick={() => setAlertSettingsFor(alertSettingsFor === code.id ? null : code.id)}
+                        className={`p-3 rounded-2xl transition-all duration-200 ${alertSettingsFor === code.id ? 'bg-purple-100 text-purple-700' : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'}`}
+                        title="Gerileme uyarıları"
+                      >
+                        <Bell className="h-6 w-6" />
+                      </button>
+                      <button
+                        onClick={() => setScheduleSettingsFor(scheduleSettingsFor === code.id ? null : code.id)}
+                        className={`p-3 rounded-2xl transition-all duration-200 ${scheduleSettingsFor === code.id ? 'bg-purple-100 text-purple-700' : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'}`}
+                        title="Tarama takvimi"
+                      >
+                        <CalendarClock className="h-6 w-6" />
+                      </button>
+                      <button
+                        onClick={() => setRuleSettingsFor(ruleSettingsFor === code.id ? null : code.id)}
+                        className={`p-3 rounded-2xl transition-all duration-200 ${ruleSettingsFor === code.id ? 'bg-purple-100 text-purple-700' : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'}`}
+                        title="Skor kuralları"
+                      >
+                        <Settings className="h-6 w-6" />
+                      </button>
+                      <button
+                        onClick={() => setCompetitorSettingsFor(competitorSettingsFor === code.id ? null : code.id)}
+                        className={`p-3 rounded-2xl transition-all duration-200 ${competitorSettingsFor === code.id ? 'bg-purple-100 text-purple-700' : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'}`}
+                        title="Rakipler"
+                      >
+                        <Users className="h-6 w-6" />
+                      </button>
                       <button
                         onClick={() => handleRemoveWebsite(code.id)}
                         className="text-red-500 hover:text-red-700 p-3 rounded-2xl hover:bg-red-50 transition-all duration-200"
@@ -644,13 +1734,58 @@ const Dashboard: React.FC<DashboardProps> = ({ onOpenBilling }) => {
                     </div>
                   </div>
                   
-                  <InstallationPanel trackingCode={code} user={user} />
+                  {ruleSettingsFor === code.id && (
+                    <RuleSettingsPanel
+                      trackingCode={code}
+                      onChange={(disabledRules) => handleRulesChange(code, disabledRules)}
+                    />
+                  )}
+
+                  {scanJobs[code.id] && (
+                    <ScanProgressPanel job={scanJobs[code.id]} onDismiss={() => dismissScan(code.id)} />
+                  )}
+
+                  {scheduleSettingsFor === code.id && (
+                    <ScheduleSettingsPanel
+                      trackingCode={code}
+                      onChange={(settings) => handleScheduleChange(code, settings)}
+                    />
+                  )}
+
+                  {alertSettingsFor === code.id && (
+                    <AlertSettingsPanel
+                      trackingCode={code}
+                      onChange={(settings) => handleAlertSettingsChange(code, settings)}
+                    />
+                  )}
+
+                  {ownershipSettingsFor === code.id && (
+                    <OwnershipPanel
+                      trackingCode={code}
+                      onVerified={(verification) => handleOwnershipVerified(code, verification)}
+                    />
+                  )}
+
+                  {competitorSettingsFor === code.id && (
+                    <CompetitorSettingsPanel
+                      trackingCode={code}
+                      onChange={(competitors) => handleCompetitorsChange(code, competitors)}
+                    />
+                  )}
+
+                  <InstallationPanel
+                    trackingCode={code}
+                    onVerified={(verification) => handleInstallationVerified(code, verification)}
+                  />
                 </div>
               ))}
             </div>
           </div>
         )}
 
+        {/* Skor Trendleri */}
+        {siteTrends.length > 0 && <ScoreTrendsPanel trends={siteTrends} />}
+
         {/* Enhanced SEO Reports */}
         {reports.length > 0 && (
           <div className="glass rounded-3xl border border-white/20 shadow-xl p-8">
@@ -669,6 +1804,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onOpenBilling }) => {
                 <div key={report.id}>
                   <CompactReportRow
                     report={report}
+                    earlier={earlierReports(report, reports)}
                     expanded={expandedReport === report.id}
                     onToggle={() => setExpandedReport(expandedReport === report.id ? null : report.id)}
                   />
@@ -724,11 +1860,40 @@ const Dashboard: React.FC<DashboardProps> = ({ onOpenBilling }) => {
   );
 };
 
+// Müşteriye verilecek çıktı: markalı HTML/PDF (son AI önerileri ve takip geçmişiyle) ya da ham JSON
+const ReportExportBar: React.FC<{ report: SEOReport; earlier: SEOReport[] }> = ({ report, earlier }) => {
+  const { user } = useAuth();
+  const html = () => buildReportHtml(report, { earlier, aiSuggestions: user ? latestAISuggestions(user.id) : null });
+  const buttonClass = 'inline-flex items-center gap-2 px-4 py-2 rounded-xl border border-gray-200 bg-white text-sm font-semibold text-gray-700 hover:bg-gray-50 hover:border-purple-300 transition-all duration-200';
+
+  return (
+    <div className="flex flex-wrap items-center justify-end gap-3 mb-6">
+      <span className="text-sm text-gray-500 mr-auto">Raporu dışa aktar</span>
+      <button onClick={() => printAsPdf(html())} className={buttonClass} title="Yazdırma penceresinde 'PDF olarak kaydet'i seçin">
+        <Download className="h-4 w-4 text-purple-600" />
+        PDF
+      </button>
+      <button onClick={() => downloadFile(html(), exportFileName(report.websiteUrl, 'seo-raporu', 'html'), 'text/html;charset=utf-8')} className={buttonClass}>
+        <FileCode2 className="h-4 w-4 text-purple-600" />
+        HTML
+      </button>
+      <button
+        onClick={() => downloadFile(JSON.stringify(report, null, 2), exportFileName(report.websiteUrl, 'seo-raporu', 'json'), 'application/json')}
+        className={buttonClass}
+      >
+        <FileJson className="h-4 w-4 text-purple-600" />
+        JSON
+      </button>
+    </div>
+  );
+};
+
 const CompactReportRow: React.FC<{
   report: SEOReport;
+  earlier: SEOReport[];
   expanded: boolean;
   onToggle: () => void;
-}> = ({ report, expanded, onToggle }) => (
+}> = ({ report, earlier, expanded, onToggle }) => (
   <div className="group glass rounded-3xl border border-gray-200 p-8 hover:shadow-2xl transition-all duration-500 hover:-translate-y-1">
     <div className="flex items-center justify-between cursor-pointer" onClick={onToggle}>
       <div className="flex items-center gap-6">
@@ -767,6 +1932,12 @@ const CompactReportRow: React.FC<{
               <AlertTriangle className="h-4 w-4 text-yellow-500" />
               {report.negatives.length} iyileştirme
             </span>
+            {earlier.length > 0 && (
+              <>
+                <span>•</span>
+                <ScoreDeltaBadge delta={report.score - earlier[0].score} />
+              </>
+            )}
           </div>
         </div>
       </div>
@@ -787,6 +1958,7 @@ const CompactReportRow: React.FC<{
 
     {expanded && (
       <div className="mt-8 pt-8 border-t border-gray-200">
+        <ReportExportBar report={report} earlier={earlier} />
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           <div className="bg-gradient-to-br from-green-50 to-emerald-50 border border-green-200 rounded-2xl p-6">
             <div className="flex items-center gap-3 text-green-700 font-bold mb-4">
@@ -819,6 +1991,14 @@ const CompactReportRow: React.FC<{
           </div>
         </div>
 
+        {earlier.length > 0 && <ReportChangesCard report={report} earlier={earlier} />}
+        <ScoreBreakdown report={report} />
+        <LinkHealthSection report={report} />
+        <AccessibilityCard report={report} />
+        <SecurityCard report={report} />
+        <CompetitorMatrix report={report} />
+        <RenderDiffCard report={report} />
+
         {report.suggestions.length > 0 && (
           <div className="mt-8 bg-gradient-to-br from-blue-50 to-purple-50 border border-blue-200 rounded-2xl p-6">
             <div className="flex items-center gap-3 text-blue-700 font-bold mb-4">
@@ -840,6 +2020,731 @@ const CompactReportRow: React.FC<{
   </div>
 );
 
+type ScoringData = {
+  score: number;
+  categories: Record<string, { earned: number; total: number; score: number }>;
+  rules: Array<{ id: string; status: 'pass' | 'fail' | 'skipped' | 'disabled' }>;
+};
+
+const ScoreBreakdown: React.FC<{ report: SEOReport }> = ({ report }) => {
+  const scoring = report.reportData?.scoring as ScoringData | undefined;
+  if (!scoring?.categories) return null;
+
+  const disabledCount = scoring.rules.filter(r => r.status === 'disabled').length;
+
+  return (
+    <div className="mt-8 bg-white/60 border border-gray-200 rounded-2xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3 text-gray-800 font-bold">
+          <BarChart3 className="h-6 w-6 text-purple-600" />
+          Skor Dökümü
+        </div>
+        <div className="text-sm text-gray-500">
+          Kural skoru: <b>{scoring.score}/100</b>{disabledCount > 0 && ` • ${disabledCount} kural kapalı`}
+        </div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+        {Object.entries(scoring.categories).map(([category, c]) => (
+          <div key={category}>
+            <div className="flex items-center justify-between text-sm mb-1">
+              <span className="text-gray-700 font-medium">{CATEGORY_LABELS[category] || category}</span>
+              <span className="text-gray-500">{c.score}</span>
+            </div>
+            <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className={`h-full rounded-full ${c.score >= 80 ? 'bg-green-500' : c.score >= 50 ? 'bg-yellow-500' : 'bg-red-500'}`}
+                style={{ width: `${c.score}%` }}
+              ></div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+type LinkCheckData = {
+  total: number;
+  checked: number;
+  truncated: boolean;
+  okCount: number;
+  redirectedCount: number;
+  broken: Array<{ url: string; internal: boolean; status: number; error: string | null }>;
+  redirectChains: Array<{ url: string; hops: number; finalUrl: string }>;
+  mixedContent: Array<{ url: string }>;
+};
+
+const LinkHealthSection: React.FC<{ report: SEOReport }> = ({ report }) => {
+  const links = report.reportData?.linkCheck as LinkCheckData | undefined;
+  if (!links?.checked) return null;
+
+  const issues = [
+    ...links.broken.map(l => ({ url: l.url, label: l.error ? `Hata: ${l.error}` : `HTTP ${l.status}`, tone: 'text-red-700' })),
+    ...links.redirectChains.map(l => ({ url: l.url, label: `${l.hops} yönlendirme → ${l.finalUrl}`, tone: 'text-yellow-700' })),
+    ...links.mixedContent.map(l => ({ url: l.url, label: 'Mixed content (HTTP)', tone: 'text-orange-700' }))
+  ];
+
+  return (
+    <div className="mt-8 bg-white/60 border border-gray-200 rounded-2xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3 text-gray-800 font-bold">
+          <ExternalLink className="h-6 w-6 text-blue-600" />
+          Bağlantı Sağlığı
+        </div>
+        <div className="text-sm text-gray-500">
+          {links.checked}/{links.total} bağlantı kontrol edildi{links.truncated && ' (sınırlı)'}
+        </div>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+        <div className="glass rounded-xl p-4">
+          <div className="text-sm text-gray-500">Sağlam</div>
+          <div className="text-2xl font-bold text-green-600">{links.okCount}</div>
+        </div>
+        <div className="glass rounded-xl p-4">
+          <div className="text-sm text-gray-500">Kırık</div>
+          <div className="text-2xl font-bold text-red-600">{links.broken.length}</div>
+        </div>
+        <div className="glass rounded-xl p-4">
+          <div className="text-sm text-gray-500">Yönlendirme zinciri</div>
+          <div className="text-2xl font-bold text-yellow-600">{links.redirectChains.length}</div>
+        </div>
+        <div className="glass rounded-xl p-4">
+          <div className="text-sm text-gray-500">Mixed content</div>
+          <div className="text-2xl font-bold text-orange-600">{links.mixedContent.length}</div>
+        </div>
+      </div>
+      {issues.length > 0 && (
+        <ul className="space-y-2 max-h-64 overflow-y-auto">
+          {issues.slice(0, 20).map((issue, i) => (
+            <li key={i} className="flex items-center justify-between gap-4 text-sm">
+              <a href={issue.url} target="_blank" rel="noopener noreferrer" className="text-gray-700 truncate hover:underline">{issue.url}</a>
+              <span className={`flex-shrink-0 font-medium ${issue.tone}`}>{issue.label}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const ACCESSIBILITY_CHECK_LABELS: Record<string, string> = {
+  'image-alt': 'Görsel alt metinleri',
+  'form-labels': 'Form etiketleri',
+  'html-lang': 'Sayfa dili (lang)',
+  'heading-order': 'Başlık sırası',
+  'link-names': 'Boş bağlantılar',
+  'button-names': 'Boş butonlar',
+  'color-contrast': 'Renk kontrastı (inline)'
+};
+
+type AccessibilityData = {
+  score: number;
+  issueCount: number;
+  checks: Array<{ id: string; status: 'pass' | 'fail' | 'skipped'; total: number; failed: number; samples: string[] }>;
+};
+
+const AccessibilityCard: React.FC<{ report: SEOReport }> = ({ report }) => {
+  const a11y = report.reportData?.accessibility as AccessibilityData | undefined;
+  if (!a11y?.checks) return null;
+
+  return (
+    <div className="mt-8 bg-gradient-to-br from-indigo-50 to-sky-50 border border-indigo-200 rounded-2xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3 text-indigo-700 font-bold">
+          <Eye className="h-6 w-6" />
+          Erişilebilirlik
+        </div>
+        <div className={`text-2xl font-bold ${a11y.score >= 80 ? 'text-green-600' : a11y.score >= 50 ? 'text-yellow-600' : 'text-red-600'}`}>
+          {a11y.score}/100
+        </div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {a11y.checks.map(check => (
+          <div key={check.id} className="glass rounded-xl p-4">
+            <div className="flex items-center justify-between">
+              <span className="text-gray-800 font-medium">{ACCESSIBILITY_CHECK_LABELS[check.id] || check.id}</span>
+              {check.status === 'pass' ? (
+                <CheckCircle2 className="h-5 w-5 text-green-500" />
+              ) : check.status === 'fail' ? (
+                <span className="text-sm font-semibold text-red-600">{check.failed}/{check.total}</span>
+              ) : (
+                <span className="text-sm text-gray-400">Uygulanamaz</span>
+              )}
+            </div>
+            {check.status === 'fail' && check.samples.length > 0 && (
+              <div className="mt-2 text-xs text-gray-500 truncate" title={check.samples.join('\n')}>
+                {check.samples.slice(0, 2).join(', ')}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const SECURITY_CHECK_LABELS: Record<string, string> = {
+  https: 'HTTPS',
+  certificate: 'TLS sertifikası',
+  'https-redirect': 'http → https yönlendirmesi',
+  hsts: 'HSTS',
+  csp: 'Content-Security-Policy',
+  'x-content-type-options': 'X-Content-Type-Options',
+  'referrer-policy': 'Referrer-Policy',
+  'permissions-policy': 'Permissions-Policy'
+};
+
+type SecurityData = {
+  score: number;
+  checks: Array<{ id: string; status: 'pass' | 'warn' | 'fail' | 'skipped'; value: string | null; note: string | null }>;
+  certificate: { validTo?: string | null; daysRemaining?: number | null; issuer?: string | null; error?: string | null } | null;
+};
+
+const SecurityCard: React.FC<{ report: SEOReport }> = ({ report }) => {
+  const security = report.reportData?.security as SecurityData | undefined;
+  if (!security?.checks) return null;
+
+  const statusClass = {
+    pass: 'bg-green-100 text-green-700',
+    warn: 'bg-yellow-100 text-yellow-700',
+    fail: 'bg-red-100 text-red-700',
+    skipped: 'bg-gray-100 text-gray-500'
+  };
+  const statusLabel = { pass: 'Tamam', warn: 'Zayıf', fail: 'Eksik', skipped: 'Uygulanamaz' };
+
+  return (
+    <div className="mt-8 bg-white/60 border border-gray-200 rounded-2xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3 text-gray-800 font-bold">
+          <ShieldCheck className="h-6 w-6 text-emerald-600" />
+          Güvenlik
+        </div>
+        <div className={`text-2xl font-bold ${security.score >= 80 ? 'text-green-600' : security.score >= 50 ? 'text-yellow-600' : 'text-red-600'}`}>
+          {security.score}/100
+        </div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {security.checks.map(check => (
+          <div key={check.id} className="flex items-center justify-between gap-3 glass rounded-xl px-4 py-3">
+            <div className="min-w-0">
+              <div className="text-gray-800 font-medium">{SECURITY_CHECK_LABELS[check.id] || check.id}</div>
+              {check.note && <div className="text-xs text-gray-500 truncate">{check.note}</div>}
+            </div>
+            <span className={`flex-shrink-0 px-3 py-1 rounded-full text-xs font-semibold ${statusClass[check.status]}`}>
+              {statusLabel[check.status]}
+            </span>
+          </div>
+        ))}
+      </div>
+      {security.certificate?.validTo && (
+        <div className="mt-4 text-sm text-gray-500">
+          Sertifika: {security.certificate.issuer || '—'} • bitiş {new Date(security.certificate.validTo).toLocaleDateString('tr-TR')}
+        </div>
+      )}
+    </div>
+  );
+};
+
+type CompetitorRow = {
+  url: string;
+  fetched: boolean;
+  score?: number;
+  titleLength?: number;
+  schemaTypes?: string[];
+  performance?: number | null;
+  wordCount?: number | null;
+  mobile?: number | null;
+  error: string | null;
+};
+
+type CompetitorData = {
+  site: CompetitorRow;
+  competitors: CompetitorRow[];
+  gaps: Array<{ metric: string; message: string; leader: string }>;
+};
+
+const COMPETITOR_METRICS: Array<{ key: keyof CompetitorRow; label: string; format?: (row: CompetitorRow) => string }> = [
+  { key: 'score', label: 'Kural skoru' },
+  { key: 'titleLength', label: 'Title uzunluğu' },
+  { key: 'schemaTypes', label: 'Structured data', format: row => (row.schemaTypes?.length ? row.schemaTypes.join(', ') : 'Yok') },
+  { key: 'performance', label: 'Performans' },
+  { key: 'wordCount', label: 'Kelime sayısı' },
+  { key: 'mobile', label: 'Mobil' }
+];
+
+const hostLabel = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+const CompetitorMatrix: React.FC<{ report: SEOReport }> = ({ report }) => {
+  const comparison = report.reportData?.competitors as CompetitorData | undefined;
+  if (!comparison?.competitors?.length) return null;
+
+  const columns = [comparison.site, ...comparison.competitors];
+  const cell = (row: CompetitorRow, metric: typeof COMPETITOR_METRICS[number]) => {
+    if (!row.fetched) return '—';
+    if (metric.format) return metric.format(row);
+    const value = row[metric.key];
+    return value === null || value === undefined ? '—' : String(value);
+  };
+
+  return (
+    <div className="mt-8 bg-white/60 border border-gray-200 rounded-2xl p-6">
+      <div className="flex items-center gap-3 text-gray-800 font-bold mb-4">
+        <Users className="h-6 w-6 text-pink-600" />
+        Rakip Karşılaştırması
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="py-2 pr-4 font-medium"></th>
+              {columns.map((row, i) => (
+                <th key={row.url} className={`py-2 pr-4 font-semibold ${i === 0 ? 'text-purple-700' : 'text-gray-700'}`} title={row.url}>
+                  {i === 0 ? 'Siteniz' : hostLabel(row.url)}
+                  {!row.fetched && (
+                    <span className="ml-1 text-xs font-normal text-red-500" title={row.error ? SCAN_ERROR_MESSAGES[row.error] || row.error : undefined}>
+                      (alınamadı)
+                    </span>
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {COMPETITOR_METRICS.map(metric => (
+              <tr key={metric.key} className="border-t border-gray-100">
+                <td className="py-2 pr-4 text-gray-600">{metric.label}</td>
+                {columns.map((row, i) => (
+                  <td key={row.url} className={`py-2 pr-4 ${i === 0 ? 'font-semibold text-gray-900' : 'text-gray-700'}`}>
+                    {cell(row, metric)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {comparison.gaps.length > 0 && (
+        <div className="mt-6">
+          <div className="text-sm font-semibold text-gray-700 mb-2">Kapatılması gereken farklar</div>
+          <ul className="space-y-2">
+            {comparison.gaps.map((gap, i) => (
+              <li key={i} className="text-sm text-orange-800 flex items-start gap-3">
+                <div className="w-2 h-2 bg-orange-500 rounded-full mt-1.5 flex-shrink-0"></div>
+                {gap.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const RENDER_FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  metaDescription: 'Meta description',
+  h1: 'H1',
+  canonical: 'Canonical',
+  wordCount: 'Kelime sayısı',
+  linkCount: 'Bağlantı sayısı',
+  structuredDataTypes: 'Structured data'
+};
+
+type FetcherData = {
+  name: string;
+  mode: string;
+  fallbackReason: string | null;
+  renderDiff: {
+    changed: string[];
+    raw: Record<string, unknown>;
+    rendered: Record<string, unknown>;
+  } | null;
+};
+
+const formatRenderValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length ? value.join(', ') : '—';
+  return String(value);
+};
+
+const RenderDiffCard: React.FC<{ report: SEOReport }> = ({ report }) => {
+  const fetcher = report.reportData?.fetcher as FetcherData | undefined;
+  if (!fetcher || (!fetcher.renderDiff && !fetcher.fallbackReason)) return null;
+
+  return (
+    <div className="mt-8 bg-white/60 border border-gray-200 rounded-2xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3 text-gray-800 font-bold">
+          <Code className="h-6 w-6 text-purple-600" />
+          JavaScript Render
+        </div>
+        <div className="text-sm text-gray-500">
+          Analiz: <b>{fetcher.name === 'http' ? 'Ham HTML' : `${fetcher.name} (render)`}</b>
+        </div>
+      </div>
+      {fetcher.fallbackReason && (
+        <div className="text-sm text-yellow-700 mb-4">
+          Render yapılamadı, ham HTML kullanıldı: {fetcher.fallbackReason}
+        </div>
+      )}
+      {fetcher.renderDiff && (
+        fetcher.renderDiff.changed.length === 0 ? (
+          <div className="text-sm text-gray-600">Ham HTML ile render edilmiş sayfa arasında SEO açısından fark yok.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-2 pr-4 font-medium"></th>
+                  <th className="py-2 pr-4 font-semibold text-gray-700">Ham HTML</th>
+                  <th className="py-2 pr-4 font-semibold text-gray-700">Render sonrası</th>
+                </tr>
+              </thead>
+              <tbody>
+                {fetcher.renderDiff.changed.map(field => (
+                  <tr key={field} className="border-t border-gray-100">
+                    <td className="py-2 pr-4 text-gray-600">{RENDER_FIELD_LABELS[field] || field}</td>
+                    <td className="py-2 pr-4 text-red-700">{formatRenderValue(fetcher.renderDiff?.raw[field])}</td>
+                    <td className="py-2 pr-4 text-green-700">{formatRenderValue(fetcher.renderDiff?.rendered[field])}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+const TREND_SERIES_STYLES: Record<TrendSeries, { label: string; color: string }> = {
+  score: { label: 'Genel Skor', color: '#9333ea' },
+  performance: { label: 'Performans', color: '#f97316' },
+  technical: { label: 'Teknik', color: '#2563eb' },
+  content: { label: 'İçerik', color: '#16a34a' }
+};
+
+type TrendRange = '30' | '90' | '365' | 'all' | 'custom';
+
+const TREND_RANGE_LABELS: Record<TrendRange, string> = {
+  '30': 'Son 30 gün',
+  '90': 'Son 90 gün',
+  '365': 'Son 1 yıl',
+  all: 'Tümü',
+  custom: 'Özel aralık'
+};
+
+const TrendChart: React.FC<{ points: TrendPoint[]; series: TrendSeries[] }> = ({ points, series }) => {
+  const width = 720;
+  const height = 260;
+  const pad = { top: 16, right: 16, bottom: 44, left: 36 };
+  const times = points.map(p => new Date(p.date).getTime());
+  const minTime = Math.min(...times);
+  const span = Math.max(...times) - minTime;
+  const x = (time: number) => pad.left + (span ? ((time - minTime) / span) * (width - pad.left - pad.right) : (width - pad.left - pad.right) / 2);
+  const y = (value: number) => pad.top + ((100 - value) / 100) * (height - pad.top - pad.bottom);
+  // Çok sayıda taramada tarih etiketleri seyreltilir
+  const labelEvery = Math.ceil(points.length / 8);
+
+  // Alt skoru olmayan raporlarda çizgi kesilir
+  const segments = (key: TrendSeries) => {
+    const result: Array<Array<[number, number]>> = [];
+    let current: Array<[number, number]> = [];
+    points.forEach((point, i) => {
+      const value = point[key];
+      if (value === null) {
+        if (current.length) result.push(current);
+        current = [];
+      } else {
+        current.push([x(times[i]), y(value)]);
+      }
+    });
+    if (current.length) result.push(current);
+    return result;
+  };
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label="Skor trendi">
+      {[0, 25, 50, 75, 100].map(value => (
+        <g key={value}>
+          <line x1={pad.left} x2={width - pad.right} y1={y(value)} y2={y(value)} stroke="#e5e7eb" />
+          <text x={pad.left - 8} y={y(value) + 4} textAnchor="end" fontSize="11" fill="#6b7280">{value}</text>
+        </g>
+      ))}
+      {/* Tarama tarihleri */}
+      {points.map((point, i) => (
+        <g key={point.reportId}>
+          <line x1={x(times[i])} x2={x(times[i])} y1={pad.top} y2={height - pad.bottom} stroke="#d1d5db" strokeDasharray="3 4" />
+          {(i % labelEvery === 0 || i === points.length - 1) && (
+            <text x={x(times[i])} y={height - pad.bottom + 16} textAnchor="middle" fontSize="10" fill="#6b7280">
+              {new Date(point.date).toLocaleDateString('tr-TR', { day: '2-digit', month: 'short' })}
+            </text>
+          )}
+        </g>
+      ))}
+      {series.map(key => (
+        <g key={key}>
+          {segments(key).map((segment, i) => (
+            <polyline
+              key={i}
+              points={segment.map(([px, py]) => `${px},${py}`).join(' ')}
+              fill="none"
+              stroke={TREND_SERIES_STYLES[key].color}
+              strokeWidth={key === 'score' ? 3 : 2}
+              strokeLinejoin="round"
+            />
+          ))}
+          {points.map((point, i) => {
+            const value = point[key];
+            return value === null ? null : (
+              <circle key={point.reportId} cx={x(times[i])} cy={y(value)} r={key === 'score' ? 4 : 3} fill={TREND_SERIES_STYLES[key].color}>
+                <title>{`${TREND_SERIES_STYLES[key].label}: ${value} · ${new Date(point.date).toLocaleString('tr-TR')}`}</title>
+              </circle>
+            );
+          })}
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+// Site bazında skor ve alt skor zaman serileri, tarih aralığı filtresiyle
+const ScoreTrendsPanel: React.FC<{ trends: SiteTrend[] }> = ({ trends }) => {
+  const [siteKey, setSiteKey] = useState(trends[0].key);
+  const [range, setRange] = useState<TrendRange>('90');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [series, setSeries] = useState<TrendSeries[]>([...TREND_SERIES]);
+
+  const trend = trends.find(t => t.key === siteKey) || trends[0];
+  const points = useMemo(() => {
+    if (range === 'all') return trend.points;
+    if (range === 'custom') return filterByRange(trend.points, from ? new Date(`${from}T00:00`) : null, to ? new Date(`${to}T00:00`) : null);
+    return filterByRange(trend.points, addDays(new Date(), -Number(range)), null);
+  }, [trend, range, from, to]);
+
+  const toggleSeries = (key: TrendSeries) =>
+    setSeries(prev => (prev.includes(key) ? prev.filter(k => k !== key) : TREND_SERIES.filter(k => k === key || prev.includes(k))));
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const inputClass = 'px-3 py-2 rounded-xl border border-gray-300 text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent';
+
+  return (
+    <div className="glass rounded-3xl border border-white/20 shadow-xl p-8 mb-8">
+      <div className="flex flex-wrap items-center gap-4 mb-6">
+        <div className="p-4 bg-gradient-to-r from-purple-600 to-blue-600 rounded-2xl shadow-lg">
+          <TrendingUp className="h-8 w-8 text-white" />
+        </div>
+        <div>
+          <h3 className="text-3xl font-bold text-gray-900">Skor Trendleri</h3>
+          <p className="text-gray-600 text-lg">Site bazında skor ve alt skorların zaman içindeki değişimi</p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        <label className="flex flex-col gap-1 text-sm text-gray-700">
+          Site
+          <select value={trend.key} onChange={(e) => setSiteKey(e.target.value)} className={inputClass}>
+            {trends.map(t => (
+              <option key={t.key} value={t.key}>{t.websiteUrl} ({t.points.length})</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-700">
+          Tarih aralığı
+          <select value={range} onChange={(e) => setRange(e.target.value as TrendRange)} className={inputClass}>
+            {(Object.keys(TREND_RANGE_LABELS) as TrendRange[]).map(value => (
+              <option key={value} value={value}>{TREND_RANGE_LABELS[value]}</option>
+            ))}
+          </select>
+        </label>
+        {range === 'custom' && (
+          <>
+            <label className="flex flex-col gap-1 text-sm text-gray-700">
+              Başlangıç
+              <input type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1 text-sm text-gray-700">
+              Bitiş
+              <input type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+            </label>
+          </>
+        )}
+        <div className="flex flex-wrap items-center gap-2 ml-auto">
+          {TREND_SERIES.map(key => (
+            <button
+              key={key}
+              onClick={() => toggleSeries(key)}
+              className={`px-3 py-1 rounded-full text-xs font-semibold border transition-all duration-200 ${
+                series.includes(key) ? 'text-white border-transparent' : 'bg-white text-gray-500 border-gray-300'
+              }`}
+              style={series.includes(key) ? { backgroundColor: TREND_SERIES_STYLES[key].color } : undefined}
+            >
+              {TREND_SERIES_STYLES[key].label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {points.length === 0 ? (
+        <div className="text-sm text-gray-600 py-12 text-center">Seçilen aralıkta bu site için tarama yok.</div>
+      ) : (
+        <>
+          <TrendChart points={points} series={series} />
+          <div className="flex flex-wrap items-center gap-6 mt-4 text-sm text-gray-600">
+            <span>{points.length} tarama</span>
+            <span>Son skor: <b className="text-gray-900">{last.score}</b></span>
+            {points.length > 1 && (
+              <span className="flex items-center gap-2">
+                Aralıktaki değişim: <ScoreDeltaBadge delta={last.score - first.score} />
+              </span>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+const ScoreDeltaBadge: React.FC<{ delta: number }> = ({ delta }) => (
+  <span className={`flex items-center gap-1 font-semibold ${delta > 0 ? 'text-green-600' : delta < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+    <TrendingUp className={`h-4 w-4 ${delta < 0 ? 'rotate-180' : ''}`} />
+    {delta > 0 ? '+' : ''}{delta} puan
+  </span>
+);
+
+const DIFF_FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  metaDescription: 'Meta description',
+  h1: 'H1'
+};
+
+// Aynı sitenin önceki bir raporuyla karşılaştırma; varsayılan olarak bir önceki tarama
+const ReportChangesCard: React.FC<{ report: SEOReport; earlier: SEOReport[] }> = ({ report, earlier }) => {
+  const [baseId, setBaseId] = useState(earlier[0].id);
+  const base = earlier.find(r => r.id === baseId) || earlier[0];
+  const diff = useMemo(() => diffReports(base, report), [base, report]);
+
+  return (
+    <div className="mt-8 bg-white/60 border border-gray-200 rounded-2xl p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3 text-gray-800 font-bold">
+          <Activity className="h-6 w-6 text-purple-600" />
+          Değişiklikler
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-500">
+          Karşılaştır:
+          <select
+            value={base.id}
+            onChange={(e) => setBaseId(e.target.value)}
+            className="px-3 py-1 rounded-xl border border-gray-300 text-sm focus:ring-2 focus:ring-purple-500"
+          >
+            {earlier.map(r => (
+              <option key={r.id} value={r.id}>
+                {new Date(r.createdAt).toLocaleString('tr-TR')} ({r.score})
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {!diff.hasChanges ? (
+        <div className="text-sm text-gray-600">Seçilen taramadan bu yana değişiklik yok.</div>
+      ) : (
+        <div className="space-y-5 text-sm">
+          <div className="flex flex-wrap items-center gap-4">
+            <span className="text-gray-700">
+              Skor: <b>{base.score}</b> → <b>{report.score}</b>
+            </span>
+            <ScoreDeltaBadge delta={diff.scoreDelta} />
+            {diff.categoryDeltas.map(c => (
+              <span key={c.category} className={`px-3 py-1 rounded-full text-xs font-semibold ${c.delta > 0 ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+                {CATEGORY_LABELS[c.category] || c.category} {c.delta > 0 ? '+' : ''}{c.delta}
+              </span>
+            ))}
+          </div>
+
+          {diff.fieldChanges.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-2 pr-4 font-medium"></th>
+                    <th className="py-2 pr-4 font-semibold text-gray-700">Önceki</th>
+                    <th className="py-2 pr-4 font-semibold text-gray-700">Şimdi</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.fieldChanges.map(change => (
+                    <tr key={change.field} className="border-t border-gray-100">
+                      <td className="py-2 pr-4 text-gray-600">{DIFF_FIELD_LABELS[change.field]}</td>
+                      <td className="py-2 pr-4 text-red-700">{change.before ?? '—'}</td>
+                      <td className="py-2 pr-4 text-green-700">{change.after ?? '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {diff.newIssues.length > 0 && (
+              <div>
+                <div className="font-semibold text-red-700 mb-2">Yeni sorunlar ({diff.newIssues.length})</div>
+                <ul className="space-y-2">
+                  {diff.newIssues.map(issue => (
+                    <li key={issue.ruleId || issue.message} className="text-red-800 flex items-start gap-2">
+                      <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {diff.resolvedIssues.length > 0 && (
+              <div>
+                <div className="font-semibold text-green-700 mb-2">Çözülen sorunlar ({diff.resolvedIssues.length})</div>
+                <ul className="space-y-2">
+                  {diff.resolvedIssues.map(issue => (
+                    <li key={issue.ruleId || issue.message} className="text-green-800 flex items-start gap-2">
+                      <CheckCircle2 className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          {(diff.newBrokenLinks.length > 0 || diff.fixedBrokenLinks.length > 0) && (
+            <ul className="space-y-2">
+              {diff.newBrokenLinks.map(link => (
+                <li key={`new-${link.url}`} className="flex items-center justify-between gap-4">
+                  <span className="truncate text-gray-700">{link.url}</span>
+                  <span className="text-red-700 flex-shrink-0">Yeni kırık bağlantı · {link.error ? link.error : `HTTP ${link.status}`}</span>
+                </li>
+              ))}
+              {diff.fixedBrokenLinks.map(link => (
+                <li key={`fixed-${link.url}`} className="flex items-center justify-between gap-4">
+                  <span className="truncate text-gray-700">{link.url}</span>
+                  <span className="text-green-700 flex-shrink-0">Artık kırık değil</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
 const AISummaryCard: React.FC<{ report: SEOReport }> = ({ report }) => (
   <div className="mt-6 bg-gradient-to-r from-purple-50 via-pink-50 to-blue-50 border border-purple-200 rounded-3xl p-8">
     <div className="flex items-center gap-4 mb-6">
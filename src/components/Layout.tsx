@@ -1,7 +1,9 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { LogOut, BarChart3, Lightbulb, Sparkles, CreditCard, Settings, User, Crown } from 'lucide-react';
+import { db } from '../lib/database';
+import type { Alert, AlertType } from '../types';
+import { LogOut, BarChart3, Lightbulb, Sparkles, CreditCard, Settings, User, Crown, Bell } from 'lucide-react';
 
 type Tab = 'dashboard' | 'suggestions' | 'ai-content';
 
@@ -14,6 +16,103 @@ interface LayoutProps {
   onLogout?: () => void;
 }
 
+const ALERT_POLL_INTERVAL = 60 * 1000;
+
+const ALERT_TYPE_LABELS: Record<AlertType, string> = {
+  'score-drop': 'Skor düşüşü',
+  'new-critical': 'Yeni kritik sorun',
+  'unreachable': 'Site erişilemez',
+  'title-removed': 'Başlık kaldırıldı'
+};
+
+// Zamanlanmış taramalardan doğan gerileme uyarıları; sunucu tarafında oluşturulur, burada yalnızca okunur
+const NotificationCenter: React.FC<{ userId: string }> = ({ userId }) => {
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => db.getAlerts(userId).then(items => { if (!cancelled) setAlerts(items); });
+    load();
+    const timer = setInterval(load, ALERT_POLL_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const unread = alerts.filter(alert => !alert.readAt);
+
+  const markAllRead = async () => {
+    const readAt = new Date().toISOString();
+    setAlerts(prev => prev.map(alert => (alert.readAt ? alert : { ...alert, readAt })));
+    await db.markAlertsRead(unread.map(alert => alert.id));
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative text-gray-600 hover:text-gray-900 glass p-3 rounded-2xl hover:bg-white/80 transition-all duration-200"
+        aria-label={`Bildirimler${unread.length ? ` (${unread.length} okunmamış)` : ''}`}
+      >
+        <Bell className="h-5 w-5" />
+        {unread.length > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-gradient-to-r from-red-500 to-pink-500 text-white text-xs font-bold flex items-center justify-center shadow-lg">
+            {unread.length > 9 ? '9+' : unread.length}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-3 w-96 max-w-[90vw] bg-white rounded-2xl shadow-2xl border border-gray-200 overflow-hidden z-50">
+          <div className="flex items-center justify-between px-5 py-4 border-b border-gray-100">
+            <span className="font-bold text-gray-900">Bildirimler</span>
+            {unread.length > 0 && (
+              <button onClick={markAllRead} className="text-sm text-purple-600 hover:text-purple-800 font-medium">
+                Tümünü okundu işaretle
+              </button>
+            )}
+          </div>
+          <div className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+            {alerts.length === 0 ? (
+              <div className="px-5 py-8 text-center text-sm text-gray-500">Henüz uyarı yok.</div>
+            ) : alerts.map(alert => (
+              <div key={alert.id} className={`px-5 py-4 ${alert.readAt ? '' : 'bg-purple-50/60'}`}>
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
+                    alert.severity === 'critical' ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-800'
+                  }`}>
+                    {ALERT_TYPE_LABELS[alert.type] || alert.type}
+                  </span>
+                  <span className="text-xs text-gray-500">{new Date(alert.createdAt).toLocaleString('tr-TR')}</span>
+                </div>
+                <div className="text-sm font-medium text-gray-900 truncate">{alert.websiteUrl}</div>
+                <div className="text-sm text-gray-700">{alert.message}</div>
+                {alert.deliveries.some(delivery => !delivery.ok) && (
+                  <div className="mt-1 text-xs text-red-600">
+                    Teslim edilemedi: {alert.deliveries.filter(delivery => !delivery.ok).map(delivery => delivery.channel).join(', ')}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
 const Layout: React.FC<LayoutProps> = ({
   children,
   activeTab,
@@ -99,6 +198,8 @@ const Layout: React.FC<LayoutProps> = ({
                 <div className="hidden md:block">{creditLabel}</div>
               </div>
 
+              {user && <NotificationCenter userId={user.id} />}
+
               <button
                 onClick={onOpenBilling}
                 className="inline-flex items-center gap-3 px-6 py-3 rounded-2xl bg-gradient-to-r from-purple-600 to-pink-600 text-white hover:from-purple-700 hover:to-pink-700 transition-all duration-200 font-bold shadow-2xl hover:shadow-3xl transform hover:scale-105"
@@ -1,6 +1,7 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { config } from '../lib/config';
+import { buildSuggestionsHtml, downloadFile, exportFileName, printAsPdf } from '../lib/reportExport';
 import type { SEOReport } from '../types';
 import {
   Sparkles,
@@ -27,7 +28,8 @@ import {
   Wand2,
   Star,
   Clock,
-  Award
+  Award,
+  Download
 } from 'lucide-react';
 
 type AIStruct = {
@@ -38,6 +40,47 @@ type AIStruct = {
   notes?: string[];
 };
 
+type IndexabilityData = {
+  robots: { found: boolean; blocksSite: boolean };
+  sitemaps: { found: boolean; referencedInRobots: boolean; urlCount: number; brokenSitemaps: unknown[]; invalidUrls: unknown[]; blockedUrlCount: number; unreachable: unknown[] };
+};
+
+type AlternatesData = {
+  canonical: { present: boolean; url: string | null; issues: string[] };
+  hreflang: { present: boolean; count: number; alternates: unknown[]; issues: string[] };
+};
+
+type CrawlSummaryData = {
+  pagesCrawled: number;
+  duplicateTitles: unknown[];
+  duplicateMetaDescriptions: unknown[];
+};
+
+const CONSISTENCY_ISSUE_LABELS: Record<string, string> = {
+  'missing': 'Canonical yok',
+  'not-self-referencing': 'Canonical başka URL\'yi gösteriyor',
+  'cross-origin': 'Canonical farklı alan adında',
+  'target-unreachable': 'Canonical hedefi erişilemiyor',
+  'target-not-canonical': 'Canonical hedefi başka URL\'ye kanonik',
+  'missing-x-default': 'x-default yok',
+  'missing-self-reference': 'Sayfa kendini listelemiyor',
+  'invalid-codes': 'Geçersiz dil/bölge kodu',
+  'duplicate-langs': 'Aynı dil için birden fazla URL',
+  'missing-return-links': 'Geri dönüş bağlantısı eksik',
+  'alternate-unreachable': 'Alternatif sayfa erişilemiyor',
+  'alternate-canonical-mismatch': 'Alternatif sayfa başka URL\'ye kanonik'
+};
+
+const issueNote = (issues: string[]) => issues.map(i => CONSISTENCY_ISSUE_LABELS[i] || i).join(', ');
+
+type ContentData = {
+  wordCount: number;
+  thinContent: boolean;
+  readability: { score: number | null };
+  topKeywords: Array<{ term: string; count: number }>;
+  keywordPlacement: Array<{ term: string; title: boolean; h1: boolean; metaDescription: boolean; url: boolean }>;
+};
+
 type CheckRow = { id: string; title: string; status: 'pass' | 'fail' | 'check'; note?: string };
 
 interface SuggestionsProps {
@@ -53,6 +96,8 @@ const Suggestions: React.FC<SuggestionsProps> = ({ onOpenBilling }) => {
   const [result, setResult] = useState<AIStruct | null>(null);
   const [copiedKey, setCopiedKey] = useState<string | null>(null);
   const [history, setHistory] = useState<Array<{ id: string; at: string; prompt: string; res: AIStruct }>>([]);
+  // Dışa aktarma sonucu üreten isteğe göre yapılır; prompt ve site sonradan değişse de sonuçla birlikte saklanır
+  const [resultMeta, setResultMeta] = useState<{ at: string; prompt: string; websiteUrl?: string } | null>(null);
 
   // Load latest report
   const latestReport: SEOReport | null = useMemo(() => {
@@ -73,7 +118,7 @@ const Suggestions: React.FC<SuggestionsProps> = ({ onOpenBilling }) => {
       `Olumlu: ${latestReport.positives?.slice(0,5).join('; ')}`,
       `Eksikler: ${latestReport.negatives?.slice(0,5).join('; ')}`,
       `PageSpeed: ${rd.pageSpeed ?? '—'}`,
-      `Mobil: ${rd.mobileOptimization ? 'evet' : 'hayır'}`,
+      `Mobil: ${typeof rd.mobile?.score === 'number' ? `${rd.mobile.score}/100` : rd.mobileOptimization ? 'evet' : 'hayır'}`,
       `SSL: ${rd.sslCertificate ? 'evet' : 'hayır'}`,
       `Örnek Anahtar Kelimeler: ${(rd.keywords || []).join(', ') || '—'}`,
       `Site: ${latestReport.websiteUrl}`,
@@ -86,23 +131,87 @@ const Suggestions: React.FC<SuggestionsProps> = ({ onOpenBilling }) => {
     const rd = (latestReport as any)?.reportData || {};
     const negativesText = (latestReport?.negatives || []).join(' ').toLowerCase();
 
-    const hasSitemapNeg = negativesText.includes('sitemap bulunamadı');
+    // robots.txt / sitemap analizi (reportData.indexability); eski raporlarda yoksa 'check' kalır
+    const idx = rd.indexability as IndexabilityData | undefined;
+    let robotsSitemap: Pick<CheckRow, 'status' | 'note'> = { status: 'check' };
+    if (idx) {
+      const problems: string[] = [];
+      if (!idx.robots.found) problems.push('robots.txt yok');
+      if (idx.robots.blocksSite) problems.push('robots.txt tüm siteyi engelliyor');
+      if (!idx.sitemaps.found) problems.push(idx.sitemaps.brokenSitemaps.length ? 'Sitemap okunamadı' : 'Sitemap eksik');
+      else if (!idx.sitemaps.referencedInRobots && idx.robots.found) problems.push('robots.txt sitemap referansı yok');
+      const badUrls = idx.sitemaps.invalidUrls.length + idx.sitemaps.blockedUrlCount + idx.sitemaps.unreachable.length;
+      if (badUrls) problems.push(`${badUrls} sorunlu sitemap URL'si`);
+      robotsSitemap = problems.length
+        ? { status: 'fail', note: problems.join(', ') }
+        : { status: 'pass', note: `robots.txt ve sitemap geçerli (${idx.sitemaps.urlCount} URL)` };
+    }
+
+    // hreflang / canonical tutarlılığı (reportData.alternates)
+    const alt = rd.alternates as AlternatesData | undefined;
+    let hreflangRow: Pick<CheckRow, 'status' | 'note'> = { status: 'check', note: 'Doğrulama önerilir' };
+    let canonicalRow: Pick<CheckRow, 'status' | 'note'> = { status: 'check' };
+    if (alt) {
+      hreflangRow = !alt.hreflang.present
+        ? { status: 'check', note: 'Hreflang etiketi yok (tek dilli sitelerde gerekmez)' }
+        : alt.hreflang.issues.length
+          ? { status: 'fail', note: issueNote(alt.hreflang.issues) }
+          : { status: 'pass', note: `${alt.hreflang.count} dil sürümü, karşılıklı ve geçerli` };
+      canonicalRow = alt.canonical.issues.length
+        ? { status: 'fail', note: issueNote(alt.canonical.issues) }
+        : { status: 'pass', note: 'Self-referencing canonical' };
+      if (alt.hreflang.present && alt.hreflang.issues.length) {
+        robotsSitemap = { status: 'fail', note: [robotsSitemap.status === 'fail' ? robotsSitemap.note : null, `hreflang: ${issueNote(alt.hreflang.issues)}`].filter(Boolean).join(', ') };
+      }
+    }
+
+    // Kopya içerik: site taramasındaki tekrarlanan title/description grupları + canonical durumu
+    const crawlSummary = rd.crawl?.summary as CrawlSummaryData | undefined;
+    let duplicateRow: Pick<CheckRow, 'status' | 'note'> = { status: 'check', note: 'Olası kopya içerik için kanonik kontrol' };
+    if (crawlSummary) {
+      const groups = crawlSummary.duplicateTitles.length + crawlSummary.duplicateMetaDescriptions.length;
+      if (groups) duplicateRow = { status: 'fail', note: `${crawlSummary.pagesCrawled} sayfada ${groups} tekrarlanan title/description grubu` };
+      else if (alt && !alt.canonical.present) duplicateRow = { status: 'fail', note: 'Tekrar yok ancak canonical etiketi eksik' };
+      else duplicateRow = { status: 'pass', note: `${crawlSummary.pagesCrawled} sayfada tekrarlanan title/description yok` };
+    }
+
+    // Mobil uyumluluk skoru (reportData.mobile); eski raporlarda mobileOptimization her zaman true idi
+    const mobileScore = typeof rd.mobile?.score === 'number' ? rd.mobile.score as number : null;
+    const mobileRow: Pick<CheckRow, 'status' | 'note'> = mobileScore !== null
+      ? { status: mobileScore >= 70 ? 'pass' : 'fail', note: `Mobil skor: ${mobileScore}${rd.mobile.viewport ? '' : ' (viewport yok)'}` }
+      : { status: 'check' };
+
+    // Anahtar kelime: sayfa metninden çıkarılan ana terimin title/H1/meta'daki yerleşimi (reportData.content)
+    const content = rd.content as ContentData | undefined;
+    let keywordsRow: Pick<CheckRow, 'status' | 'note'> = { status: (rd.keywords || []).length ? 'pass' : 'check' };
+    const primary = content?.keywordPlacement[0];
+    if (content && primary) {
+      const mark = (ok: boolean) => (ok ? '✓' : '✗');
+      const placed = primary.title && primary.h1;
+      keywordsRow = {
+        status: placed && !content.thinContent ? 'pass' : 'fail',
+        note: `Ana terim "${primary.term}" (title ${mark(primary.title)}, H1 ${mark(primary.h1)}, meta ${mark(primary.metaDescription)})${content.thinContent ? `, zayıf içerik: ${content.wordCount} kelime` : ''}`
+      };
+    } else if (content) {
+      keywordsRow = { status: 'fail', note: `Belirgin terim bulunamadı (${content.wordCount} kelime)` };
+    }
+
     const hasH1Neg = negativesText.includes('h1');
     const hasOgNeg = negativesText.includes('sosyal medya meta');
     const perf = typeof rd.pageSpeed === 'number' ? rd.pageSpeed : null;
 
     const rows: CheckRow[] = [
-      { id: 'hreflang', title: 'Hreflang etiketleri', status: 'check', note: 'Doğrulama önerilir' },
-      { id: 'duplicate', title: 'Duplicate içerik / canonical', status: 'check', note: 'Olası kopya içerik için kanonik kontrol' },
+      { id: 'hreflang', title: 'Hreflang etiketleri', ...hreflangRow },
+      { id: 'duplicate', title: 'Duplicate içerik / canonical', ...duplicateRow },
       { id: 'url-strategy', title: 'URL stratejisi (diller için)', status: 'check' },
       { id: 'intl-speed', title: 'Uluslararası erişim / hız', status: perf !== null && perf >= 80 ? 'pass' : perf !== null ? 'fail' : 'check', note: perf !== null ? `PageSpeed: ${perf}` : undefined },
       { id: 'l10n', title: 'Çeviri & lokal uyum', status: 'check' },
       { id: 'local-engines', title: 'Lokal arama motorlarında görünürlük', status: 'check' },
-      { id: 'keywords', title: 'Anahtar kelime seçimi', status: (rd.keywords || []).length ? 'pass' : 'check' },
-      { id: 'robots-sitemap-hreflang', title: 'robots.txt / sitemap.xml / hreflang', status: hasSitemapNeg ? 'fail' : 'check', note: hasSitemapNeg ? 'Sitemap eksik' : undefined },
-      { id: 'canonical', title: 'Canonical etiketleri', status: 'check' },
+      { id: 'keywords', title: 'Anahtar kelime seçimi', ...keywordsRow },
+      { id: 'robots-sitemap-hreflang', title: 'robots.txt / sitemap.xml / hreflang', ...robotsSitemap },
+      { id: 'canonical', title: 'Canonical etiketleri', ...canonicalRow },
       { id: 'indexing', title: 'Search Console index sorunları', status: 'check' },
-      { id: 'mobile', title: 'Responsive tasarım', status: (rd.mobileOptimization ? 'pass' : 'check') },
+      { id: 'mobile', title: 'Responsive tasarım', ...mobileRow },
     ];
     return rows;
   }, [latestReport]);
@@ -155,8 +264,18 @@ const Suggestions: React.FC<SuggestionsProps> = ({ onOpenBilling }) => {
       if (user?.membershipType === 'Advanced' && snippet) snippets.push(snippet);
     };
 
-    const sitemapRow = checks.find(c => c.id === 'robots-sitemap-hreflang');
-    if (sitemapRow?.status === 'fail') {
+    const idx = latestReport?.reportData.indexability as IndexabilityData | undefined;
+    if (idx?.robots.blocksSite) {
+      quickWins.push('robots.txt içindeki "Disallow: /" kuralını kaldırın.');
+      addIssue(
+        'robots.txt siteyi engelliyor',
+        'Arama motorları hiçbir sayfayı tarayamıyor.',
+        ['Genel "Disallow: /" kuralını kaldırın.', 'Yalnızca yönetim/özel yolları engelleyin.', 'Search Console robots.txt testini çalıştırın.']
+      );
+    }
+
+    const sitemapMissing = !!idx && !idx.sitemaps.found;
+    if (sitemapMissing) {
       quickWins.push('XML sitemap oluşturup /sitemap.xml olarak yayınlayın ve Search Console\'a ekleyin.');
       addIssue(
         'Sitemap eksik',
@@ -174,6 +293,70 @@ const Suggestions: React.FC<SuggestionsProps> = ({ onOpenBilling }) => {
       );
     }
 
+    const hreflangRow = checks.find(c => c.id === 'hreflang');
+    if (hreflangRow?.status === 'fail') {
+      addIssue(
+        'Hreflang tutarsızlıkları',
+        `Arama motorları dil sürümlerini eşleştiremiyor: ${hreflangRow.note}.`,
+        ['Her dil sürümünde aynı hreflang setini kullanın.', 'Sayfanın kendisini ve x-default\'u listeleyin.', 'Alternatif sayfaların kendine kanonik olduğundan emin olun.'],
+        {
+          title: 'Örnek hreflang seti',
+          language: 'html',
+          code: `<link rel="alternate" hreflang="tr-TR" href="${latestReport?.websiteUrl || 'https://www.example.com/'}" />
+<link rel="alternate" hreflang="en-GB" href="https://www.example.com/en/" />
+<link rel="alternate" hreflang="x-default" href="${latestReport?.websiteUrl || 'https://www.example.com/'}" />`
+        }
+      );
+    }
+
+    const canonicalRow = checks.find(c => c.id === 'canonical');
+    if (canonicalRow?.status === 'fail') {
+      quickWins.push('Sayfaya kendini gösteren bir canonical etiketi ekleyin.');
+      addIssue(
+        'Canonical sorunları',
+        `${canonicalRow.note}.`,
+        ['Her sayfada kendi URL\'sini gösteren canonical kullanın.', 'Canonical hedefi 200 dönmeli ve yönlendirme içermemeli.']
+      );
+    }
+
+    const content = latestReport?.reportData.content as ContentData | undefined;
+    const primaryTerm = content?.keywordPlacement[0];
+    if (content && primaryTerm && !(primaryTerm.title && primaryTerm.h1 && primaryTerm.metaDescription)) {
+      const missing = [!primaryTerm.title && 'title', !primaryTerm.h1 && 'H1', !primaryTerm.metaDescription && 'meta description'].filter(Boolean).join(', ');
+      quickWins.push(`"${primaryTerm.term}" ifadesini ${missing} alanına ekleyin.`);
+      addIssue(
+        'Anahtar kelime yerleşimi zayıf',
+        `Sayfa metninde en sık geçen "${primaryTerm.term}" terimi ${missing} içinde yok; arama motorları sayfanın konusunu net okuyamıyor.`,
+        [
+          `Title'ı "${primaryTerm.term}" ile başlatın (50-60 karakter).`,
+          'H1\'de aynı konuyu doğal bir ifadeyle kullanın.',
+          `Destekleyici terimler: ${content.topKeywords.slice(1, 6).map(k => k.term).join(', ') || '—'}.`
+        ]
+      );
+    }
+    if (content?.thinContent) {
+      addIssue(
+        'Zayıf içerik',
+        `Ana metin yalnızca ${content.wordCount} kelime; arama niyetini karşılamak için yetersiz.`,
+        ['Sık sorulan soruları yanıtlayan bölümler ekleyin.', 'Ürün/hizmet detaylarını ve örnekleri genişletin.', 'En az 300 kelimelik özgün metin hedefleyin.']
+      );
+    }
+
+    const mobileRow = checks.find(c => c.id === 'mobile');
+    if (mobileRow?.status === 'fail') {
+      quickWins.push('Viewport etiketini ekleyin ve sabit px genişlikleri esnek yerleşimle değiştirin.');
+      addIssue(
+        'Mobil uyumluluk düşük',
+        `Mobile-first indexing mobil sürümü esas alır (${mobileRow.note}).`,
+        ['width=device-width viewport kullanın.', 'Sabit genişlikleri max-width: 100% ile değiştirin.', 'Yazıları en az 16px, dokunma alanlarını en az 44px yapın.'],
+        {
+          title: 'Viewport etiketi',
+          language: 'html',
+          code: '<meta name="viewport" content="width=device-width, initial-scale=1">'
+        }
+      );
+    }
+
     const negativesText = (latestReport?.negatives || []).join(' ').toLowerCase();
     if (negativesText.includes('h1')) {
       quickWins.push('Ana sayfaya benzersiz bir H1 ekleyin.');
@@ -282,15 +465,27 @@ const Suggestions: React.FC<SuggestionsProps> = ({ onOpenBilling }) => {
     
     setLoading(true);
     setResult(null);
+    setResultMeta(null);
+    const usedPrompt = prompt;
+    const websiteUrl = useReportBase ? latestReport?.websiteUrl : undefined;
     try {
       const res = await callOpenAI();
       setResult(res);
-      saveHistory(res, prompt || '(boş)');
+      setResultMeta({ at: new Date().toISOString(), prompt: usedPrompt, websiteUrl });
+      saveHistory(res, usedPrompt || '(boş)');
     } finally {
       setLoading(false);
     }
   };
 
+  const exportResult = (format: 'pdf' | 'html') => {
+    if (!result || !resultMeta) return;
+    const { at, prompt: usedPrompt, websiteUrl } = resultMeta;
+    const html = buildSuggestionsHtml({ at, prompt: usedPrompt, res: result }, { websiteUrl });
+    if (format === 'pdf') printAsPdf(html);
+    else downloadFile(html, exportFileName(websiteUrl, 'ai-onerileri', 'html'), 'text/html;charset=utf-8');
+  };
+
   // Membership views
   if (!user) {
     return (
@@ -605,6 +800,23 @@ const Suggestions: React.FC<SuggestionsProps> = ({ onOpenBilling }) => {
             {/* Results */}
             {result && (
               <div className="space-y-8 pt-8 border-t border-gray-200">
+                <div className="flex flex-wrap items-center justify-end gap-3">
+                  <button
+                    onClick={() => exportResult('pdf')}
+                    className="inline-flex items-center gap-2 px-4 py-2 rounded-xl border border-gray-200 bg-white text-sm font-semibold text-gray-700 hover:bg-gray-50 hover:border-purple-300 transition-all duration-200"
+                    title="Yazdırma penceresinde 'PDF olarak kaydet'i seçin"
+                  >
+                    <Download className="h-4 w-4 text-purple-600" />
+                    PDF
+                  </button>
+                  <button
+                    onClick={() => exportResult('html')}
+                    className="inline-flex items-center gap-2 px-4 py-2 rounded-xl border border-gray-200 bg-white text-sm font-semibold text-gray-700 hover:bg-gray-50 hover:border-purple-300 transition-all duration-200"
+                  >
+                    <FileCode2 className="h-4 w-4 text-purple-600" />
+                    HTML
+                  </button>
+                </div>
                 {Array.isArray(result.quickWins) && result.quickWins.length > 0 && (
                   <div className="bg-gradient-to-br from-green-50 to-emerald-50 border border-green-200 rounded-2xl p-8">
                     <div className="flex items-center gap-3 text-green-700 font-bold mb-6 text-xl">
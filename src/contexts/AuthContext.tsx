@@ -19,6 +19,7 @@ export interface User {
   email: string;
   membershipType: MembershipType;
   credits: number;
+  requireSiteOwnership?: boolean;
   createdAt: string;
 }
 
@@ -32,8 +33,10 @@ interface AuthContextType {
   updateCredits: (credits: number) => void;
   addCredits: (amount: number) => void;
   upgradeMembership: (type: MembershipType) => void;
+  setRequireSiteOwnership: (enabled: boolean) => void;
 
   refreshUser: () => void;
+  reloadCredits: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -81,6 +84,18 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     setUser(u);
   };
 
+  // Supabase kullanılıyorsa kredi bakiyesi veritabanından okunur; yerel değer yalnızca önbellektir
+  const syncCredits = async (u: User) => {
+    const credits = await db.fetchCredits(u.id);
+    if (credits === null) return;
+    setUser(current => {
+      if (!current || current.id !== u.id || current.credits === credits) return current;
+      const next = { ...current, credits };
+      saveUserById(toPersisted(next));
+      return next;
+    });
+  };
+
   const login = async (username: string, password: string) => {
     if (!username || !password) return false;
     const index = getUserIndex();
@@ -90,6 +105,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       const existing = loadUserById(existingId);
       if (existing) {
         persistAndSet(existing);
+        void syncCredits(existing);
         return true;
       }
     }
@@ -107,6 +123,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     index[username] = id;
     setUserIndex(index);
     persistAndSet(fresh);
+    void syncCredits(fresh);
     return true;
   };
 
@@ -141,6 +158,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     index[username] = id;
     setUserIndex(index);
     persistAndSet(fresh);
+    void syncCredits(fresh);
     return true;
   };
 
@@ -167,11 +185,21 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     persistAndSet(next);
   };
 
+  const setRequireSiteOwnership = (enabled: boolean) => {
+    if (!user) return;
+    const next = { ...user, requireSiteOwnership: enabled };
+    persistAndSet(next);
+  };
+
   const refreshUser = () => {
     const u = loadCurrentUser();
     setUser(u ? toRuntime(u) : null);
   };
 
+  const reloadCredits = async () => {
+    if (user) await syncCredits(user);
+  };
+
   const value = useMemo<AuthContextType>(
     () => ({
       user,
@@ -182,7 +210,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       updateCredits,
       addCredits,
       upgradeMembership,
+      setRequireSiteOwnership,
       refreshUser,
+      reloadCredits,
     }),
     [user, isLoading]
   );
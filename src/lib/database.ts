@@ -1,7 +1,7 @@
 // Database service layer - Hybrid approach (localStorage + Supabase)
 import { supabase } from './supabase';
 import { v4 as uuidv4 } from 'uuid';
-import type { User, SEOReport, TrackingCode, AIContent } from '../types';
+import type { User, SEOReport, TrackingCode, AIContent, Alert } from '../types';
 import { 
   loadCurrentUser, 
   saveUserById, 
@@ -111,7 +111,7 @@ export class DatabaseService {
           username: user.username,
           email: user.email,
           membership_type: user.membershipType,
-          credits: user.credits,
+          require_site_ownership: user.requireSiteOwnership || false,
           updated_at: new Date().toISOString()
         });
 
@@ -123,6 +123,29 @@ export class DatabaseService {
     }
   }
 
+  // Kredi bakiyesi sunucuya aittir (taramalar veritabanında düşer); yerel önbellek atlanarak okunur.
+  // Supabase yoksa null döner ve yerel bakiye geçerli kalır
+  async fetchCredits(userId: string): Promise<number | null> {
+    if (!this.isSupabaseAvailable) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('users')
+        .select('credits')
+        .eq('id', userId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('[DB] Failed to load credits from Supabase:', error);
+        return null;
+      }
+      return data?.credits ?? null;
+    } catch (error) {
+      console.error('[DB] Supabase credits load error:', error);
+      return null;
+    }
+  }
+
   async getUser(userId: string): Promise<User | null> {
     // Try localStorage first (faster)
     const localUser = loadCurrentUser();
@@ -147,6 +170,7 @@ export class DatabaseService {
         email: data.email,
         membershipType: data.membership_type,
         credits: data.credits,
+        requireSiteOwnership: data.require_site_ownership,
         createdAt: data.created_at
       };
 
@@ -266,8 +290,15 @@ export class DatabaseService {
           code: code.code,
           is_active: code.isActive,
           scan_frequency: code.scanFrequency,
-          last_scan: code.lastScan,
-          next_scan: code.nextScan,
+          disabled_rules: code.disabledRules || [],
+          competitors: code.competitors || [],
+          scan_cron: code.scanCron || null,
+          scan_window_start: code.scanWindowStart || null,
+          scan_window_end: code.scanWindowEnd || null,
+          timezone: code.timezone || 'Europe/Istanbul',
+          alert_settings: code.alertSettings || {},
+          // last_scan/next_scan, installation_* ve ownership_* sütunları burada yazılmaz; zamanlayıcı ve doğrulama
+          // uç noktaları (API sunucusu) günceller. Takvim değişince next_scan sunucuda yeniden hesaplanır
           created_at: code.createdAt || new Date().toISOString()
         });
 
@@ -306,6 +337,20 @@ export class DatabaseService {
         scanFrequency: row.scan_frequency,
         lastScan: row.last_scan,
         nextScan: row.next_scan,
+        disabledRules: row.disabled_rules || [],
+        competitors: row.competitors || [],
+        scanCron: row.scan_cron,
+        scanWindowStart: row.scan_window_start ? row.scan_window_start.slice(0, 5) : null,
+        scanWindowEnd: row.scan_window_end ? row.scan_window_end.slice(0, 5) : null,
+        timezone: row.timezone || 'Europe/Istanbul',
+        installationStatus: row.installation_status,
+        installationCheckedAt: row.installation_checked_at,
+        installationError: row.installation_error,
+        ownershipMethod: row.ownership_method,
+        ownershipVerifiedAt: row.ownership_verified_at,
+        ownershipCheckedAt: row.ownership_checked_at,
+        ownershipError: row.ownership_error,
+        alertSettings: row.alert_settings || {},
         createdAt: row.created_at
       }));
 
@@ -411,6 +456,60 @@ export class DatabaseService {
       return localContent;
     }
   }
+
+  // Uyarılar zamanlanmış taramalardan sonra sunucuda oluşturulur; yalnızca Supabase ile kullanılabilir
+  async getAlerts(userId: string): Promise<Alert[]> {
+    if (!this.isSupabaseAvailable) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('alerts')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) {
+        console.error('[DB] Failed to get alerts from Supabase:', error);
+        return [];
+      }
+
+      return (data || []).map(row => ({
+        id: row.id,
+        userId: row.user_id,
+        trackingCodeId: row.tracking_code_id,
+        reportId: row.report_id,
+        websiteUrl: row.website_url,
+        type: row.type,
+        severity: row.severity,
+        message: row.message,
+        details: row.details || {},
+        deliveries: row.deliveries || [],
+        readAt: row.read_at,
+        createdAt: row.created_at
+      }));
+    } catch (error) {
+      console.error('[DB] Supabase alerts fetch error:', error);
+      return [];
+    }
+  }
+
+  async markAlertsRead(alertIds: string[]): Promise<void> {
+    if (!this.isSupabaseAvailable || alertIds.length === 0) return;
+
+    try {
+      const { error } = await supabase
+        .from('alerts')
+        .update({ read_at: new Date().toISOString() })
+        .in('id', alertIds);
+
+      if (error) {
+        console.error('[DB] Failed to mark alerts as read:', error);
+      }
+    } catch (error) {
+      console.error('[DB] Supabase alert update error:', error);
+    }
+  }
 }
 
 export const db = DatabaseService.getInstance();
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import type { SEOReport } from '../types';
+import { diffReports, earlierReports, siteKey } from './reportDiff';
+
+const report = (id: string, overrides: Partial<SEOReport> = {}, reportData: Record<string, unknown> = {}): SEOReport => ({
+  id,
+  userId: 'user-1',
+  websiteUrl: 'https://example.com',
+  score: 70,
+  positives: [],
+  negatives: [],
+  suggestions: [],
+  createdAt: '2025-10-01T09:00:00.000Z',
+  reportData,
+  ...overrides
+});
+
+const rule = (id: string, status: 'pass' | 'fail' | 'skipped' | 'disabled', message = `${id} mesajı`) =>
+  ({ id, status, message, severity: 'critical' });
+
+describe('diffReports', () => {
+  it('matches rule issues by id and free negatives by text', () => {
+    const base = report('a', { negatives: ['title-missing mesajı', 'AI: içerik zayıf'] }, {
+      scoring: { rules: [rule('title-missing', 'fail'), rule('noindex', 'pass'), rule('hreflang', 'fail')] }
+    });
+    const target = report('b', { negatives: ['noindex mesajı', 'AI: görseller eksik'] }, {
+      scoring: { rules: [rule('title-missing', 'pass'), rule('noindex', 'fail'), rule('hreflang', 'disabled')] }
+    });
+
+    const diff = diffReports(base, target);
+    expect(diff.newIssues).toEqual([
+      { message: 'noindex mesajı', ruleId: 'noindex', severity: 'critical' },
+      { message: 'AI: görseller eksik' }
+    ]);
+    // Kapatılan kural çözülmüş sayılmaz
+    expect(diff.resolvedIssues).toEqual([
+      { message: 'title-missing mesajı', ruleId: 'title-missing', severity: 'critical' },
+      { message: 'AI: içerik zayıf' }
+    ]);
+  });
+
+  it('reports score, category and field changes ignoring whitespace', () => {
+    const base = report('a', { score: 80 }, {
+      scoring: { categories: { technical: { score: 90 }, content: { score: 70 } } },
+      audit: { title: 'Ana  Sayfa', meta: { description: 'Açıklama' }, headings: [{ level: 1, text: 'Merhaba' }] }
+    });
+    const target = report('b', { score: 75 }, {
+      scoring: { categories: { technical: { score: 85 }, content: { score: 70 }, performance: { score: 50 } } },
+      audit: { title: 'Ana Sayfa ', meta: { description: null }, headings: [{ level: 1, text: 'Selam' }] }
+    });
+
+    const diff = diffReports(base, target);
+    expect(diff.scoreDelta).toBe(-5);
+    expect(diff.categoryDeltas).toEqual([{ category: 'technical', before: 90, after: 85, delta: -5 }]);
+    expect(diff.fieldChanges).toEqual([
+      { field: 'metaDescription', before: 'Açıklama', after: null },
+      { field: 'h1', before: 'Merhaba', after: 'Selam' }
+    ]);
+    expect(diff.hasChanges).toBe(true);
+  });
+
+  it('tracks broken links only when the new report checked links', () => {
+    const broken = (url: string) => ({ url, status: 404, error: null });
+    const base = report('a', {}, { linkCheck: { broken: [broken('/eski'), broken('/kalan')] } });
+    const target = report('b', {}, { linkCheck: { broken: [broken('/kalan'), broken('/yeni')] } });
+
+    const diff = diffReports(base, target);
+    expect(diff.newBrokenLinks.map(link => link.url)).toEqual(['/yeni']);
+    expect(diff.fixedBrokenLinks.map(link => link.url)).toEqual(['/eski']);
+    expect(diffReports(base, report('c')).fixedBrokenLinks).toEqual([]);
+  });
+
+  it('reports no changes for identical reports', () => {
+    expect(diffReports(report('a'), report('b')).hasChanges).toBe(false);
+  });
+});
+
+describe('earlierReports', () => {
+  it('returns older reports of the same site, newest first', () => {
+    const current = report('c', { createdAt: '2025-10-03T09:00:00.000Z' });
+    const reports = [
+      report('a', { websiteUrl: 'http://www.Example.com/', createdAt: '2025-10-01T09:00:00.000Z' }),
+      report('b', { createdAt: '2025-10-02T09:00:00.000Z' }),
+      current,
+      report('d', { createdAt: '2025-10-04T09:00:00.000Z' }),
+      report('e', { websiteUrl: 'https://other.com', createdAt: '2025-10-01T09:00:00.000Z' })
+    ];
+    expect(earlierReports(current, reports).map(r => r.id)).toEqual(['b', 'a']);
+    expect(siteKey('HTTPS://www.example.com//')).toBe('example.com');
+  });
+});
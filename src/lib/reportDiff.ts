@@ -0,0 +1,161 @@
+// src/lib/reportDiff.ts
+// Aynı site için iki SEOReport arasındaki farklar: skor, kategori skorları, yeni/çözülen sorunlar,
+// title/meta description/H1 değişiklikleri ve yeni kırık bağlantılar
+import type { SEOReport } from '../types';
+
+type RuleResult = {
+  id: string;
+  category?: string;
+  severity?: string;
+  status: 'pass' | 'fail' | 'skipped' | 'disabled';
+  message?: string;
+};
+
+type ScoringSnapshot = {
+  categories?: Record<string, { score: number }>;
+  rules?: RuleResult[];
+};
+
+type AuditSnapshot = {
+  title?: string | null;
+  meta?: Record<string, string | null>;
+  headings?: Array<{ level: number; text: string }>;
+};
+
+type BrokenLink = { url: string; internal?: boolean; status: number; error: string | null };
+
+export interface DiffIssue {
+  message: string;
+  ruleId?: string;
+  severity?: string;
+}
+
+export interface FieldChange {
+  field: 'title' | 'metaDescription' | 'h1';
+  before: string | null;
+  after: string | null;
+}
+
+export interface ReportDiff {
+  baseId: string;
+  targetId: string;
+  scoreDelta: number;
+  categoryDeltas: Array<{ category: string; before: number; after: number; delta: number }>;
+  newIssues: DiffIssue[];
+  resolvedIssues: DiffIssue[];
+  fieldChanges: FieldChange[];
+  newBrokenLinks: BrokenLink[];
+  fixedBrokenLinks: BrokenLink[];
+  hasChanges: boolean;
+}
+
+const scoringOf = (report: SEOReport) => (report.reportData?.scoring as ScoringSnapshot | undefined) || {};
+const auditOf = (report: SEOReport) => (report.reportData?.audit as AuditSnapshot | undefined) || {};
+const brokenOf = (report: SEOReport) =>
+  ((report.reportData?.linkCheck as { broken?: BrokenLink[] } | undefined)?.broken || []);
+
+// Karşılaştırmada boşluk farkları değişiklik sayılmaz
+const normalize = (value: string | null | undefined) => {
+  const text = (value || '').replace(/\s+/g, ' ').trim();
+  return text || null;
+};
+
+const h1Of = (report: SEOReport) =>
+  normalize((auditOf(report).headings || []).filter(h => h.level === 1).map(h => h.text).join(' | '));
+
+const fieldsOf = (report: SEOReport): Record<FieldChange['field'], string | null> => ({
+  title: normalize(auditOf(report).title),
+  metaDescription: normalize(auditOf(report).meta?.description),
+  h1: h1Of(report)
+});
+
+// Kural motoru sonuçları varsa sorunlar kural kimliğiyle eşleştirilir (mesaj metni parametrelerle değişebilir);
+// kurallara bağlı olmayan negatifler (AI analizi) metin olarak karşılaştırılır
+function diffIssues(base: SEOReport, target: SEOReport) {
+  const baseRules = new Map((scoringOf(base).rules || []).map(rule => [rule.id, rule]));
+  const targetRules = new Map((scoringOf(target).rules || []).map(rule => [rule.id, rule]));
+  const toIssue = (rule: RuleResult): DiffIssue => ({ message: rule.message || rule.id, ruleId: rule.id, severity: rule.severity });
+
+  const newIssues: DiffIssue[] = [];
+  const resolvedIssues: DiffIssue[] = [];
+  for (const rule of targetRules.values()) {
+    if (rule.status === 'fail' && baseRules.get(rule.id)?.status !== 'fail') newIssues.push(toIssue(rule));
+  }
+  for (const rule of baseRules.values()) {
+    // Kapatılan ya da değerlendirilemeyen kural çözülmüş sayılmaz
+    if (rule.status === 'fail' && targetRules.get(rule.id)?.status === 'pass') resolvedIssues.push(toIssue(rule));
+  }
+
+  const ruleMessages = (report: SEOReport) => new Set((scoringOf(report).rules || []).map(rule => normalize(rule.message)));
+  const freeNegatives = (report: SEOReport) => {
+    const messages = ruleMessages(report);
+    return new Set(report.negatives.map(n => normalize(n)).filter((n): n is string => !!n && !messages.has(n)));
+  };
+  const baseNegatives = freeNegatives(base);
+  const targetNegatives = freeNegatives(target);
+  for (const message of targetNegatives) {
+    if (!baseNegatives.has(message)) newIssues.push({ message });
+  }
+  for (const message of baseNegatives) {
+    if (!targetNegatives.has(message)) resolvedIssues.push({ message });
+  }
+
+  return { newIssues, resolvedIssues };
+}
+
+// base: eski rapor, target: yeni rapor
+export function diffReports(base: SEOReport, target: SEOReport): ReportDiff {
+  const baseCategories = scoringOf(base).categories || {};
+  const targetCategories = scoringOf(target).categories || {};
+  const categoryDeltas = Object.keys(targetCategories)
+    .filter(category => category in baseCategories)
+    .map(category => {
+      const before = baseCategories[category].score;
+      const after = targetCategories[category].score;
+      return { category, before, after, delta: after - before };
+    })
+    .filter(c => c.delta !== 0);
+
+  const baseFields = fieldsOf(base);
+  const targetFields = fieldsOf(target);
+  const fieldChanges = (Object.keys(targetFields) as FieldChange['field'][])
+    .filter(field => baseFields[field] !== targetFields[field])
+    .map(field => ({ field, before: baseFields[field], after: targetFields[field] }));
+
+  const baseBroken = brokenOf(base);
+  const targetBroken = brokenOf(target);
+  const baseBrokenUrls = new Set(baseBroken.map(link => link.url));
+  const targetBrokenUrls = new Set(targetBroken.map(link => link.url));
+  const newBrokenLinks = targetBroken.filter(link => !baseBrokenUrls.has(link.url));
+  // Artık kırık görünmeyen bağlantılar (düzeltilmiş ya da sayfadan kaldırılmış); yeni raporda bağlantı kontrolü yoksa boş kalır
+  const fixedBrokenLinks = target.reportData?.linkCheck ? baseBroken.filter(link => !targetBrokenUrls.has(link.url)) : [];
+
+  const { newIssues, resolvedIssues } = diffIssues(base, target);
+  const scoreDelta = target.score - base.score;
+
+  return {
+    baseId: base.id,
+    targetId: target.id,
+    scoreDelta,
+    categoryDeltas,
+    newIssues,
+    resolvedIssues,
+    fieldChanges,
+    newBrokenLinks,
+    fixedBrokenLinks,
+    hasChanges: scoreDelta !== 0 || categoryDeltas.length > 0 || newIssues.length > 0 || resolvedIssues.length > 0 ||
+      fieldChanges.length > 0 || newBrokenLinks.length > 0 || fixedBrokenLinks.length > 0
+  };
+}
+
+// Aynı sitenin raporlarını eşleştirmek için protokol, www ve sondaki / yok sayılır
+export const siteKey = (url: string) => url.replace(/^https?:\/\/(www\.)?/i, '').replace(/\/+$/, '').toLowerCase();
+
+// Aynı sitenin bu rapordan önceki raporları, en yeniden eskiye
+export function earlierReports(report: SEOReport, reports: SEOReport[]): SEOReport[] {
+  const key = siteKey(report.websiteUrl);
+  const createdAt = new Date(report.createdAt).getTime();
+  return reports
+    .filter(r => r.id !== report.id && siteKey(r.websiteUrl) === key && new Date(r.createdAt).getTime() < createdAt)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
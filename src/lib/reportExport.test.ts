@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { SEOReport } from '../types';
+import { buildReportHtml, buildSuggestionsHtml, exportFileName, latestAISuggestions } from './reportExport';
+
+const report = (overrides: Partial<SEOReport> = {}): SEOReport => ({
+  id: 'r2',
+  userId: 'user-1',
+  websiteUrl: 'https://www.example.com',
+  score: 72,
+  positives: ['HTTPS aktif'],
+  negatives: ['Meta açıklaması eksik'],
+  suggestions: ['Meta açıklaması ekleyin'],
+  createdAt: '2025-10-10T09:00:00.000Z',
+  reportData: {},
+  ...overrides
+});
+
+const generatedAt = new Date('2025-10-11T09:00:00.000Z');
+
+describe('buildReportHtml', () => {
+  it('escapes scanned text instead of rendering it as markup', () => {
+    const html = buildReportHtml(report({
+      websiteUrl: 'https://example.com/?q="><script>alert(1)</script>',
+      negatives: ['<img src=x onerror=alert(2)> başlığı'],
+      suggestions: ["Tom & Jerry's <b>"]
+    }), { generatedAt });
+
+    expect(html).not.toContain('<script>alert(1)</script>');
+    expect(html).not.toContain('<img src=x');
+    expect(html).toContain('&lt;img src=x onerror=alert(2)&gt; başlığı');
+    expect(html).toContain('Tom &amp; Jerry&#39;s &lt;b&gt;');
+    expect(html).toContain('&quot;&gt;&lt;script&gt;');
+  });
+
+  it('is a self-contained document without external resources', () => {
+    const html = buildReportHtml(report(), { generatedAt });
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<title>SEO Raporu – example.com</title>');
+    expect(html).not.toMatch(/<link\b|<script\b|src="https?:/);
+    expect(html.match(/<section/g)).toHaveLength(4);
+  });
+
+  it('adds category gauges, AI suggestions and history only when there is data', () => {
+    const scored = report({ reportData: { scoring: { categories: { meta: { score: 90 }, performance: { score: 40 } } } } });
+    const html = buildReportHtml(scored, {
+      generatedAt,
+      earlier: [report({ id: 'r1', score: 60, createdAt: '2025-10-01T09:00:00.000Z' })],
+      aiSuggestions: { at: '2025-10-10T10:00:00.000Z', prompt: 'Blog', res: { quickWins: ['Başlıkları kısaltın'] } }
+    });
+
+    expect(html).toContain('Kategori Skorları');
+    expect(html).toContain('aria-label="Meta Etiketleri: 90/100"');
+    expect(html).toContain('AI Önerileri');
+    expect(html).toContain('Takip Geçmişi');
+    expect(html).toContain('(+12)');
+    expect(buildReportHtml(report(), { generatedAt })).not.toMatch(/Kategori Skorları|AI Önerileri|Takip Geçmişi/);
+  });
+});
+
+describe('buildSuggestionsHtml', () => {
+  it('exports the prompt stored with the result, escaped', () => {
+    const html = buildSuggestionsHtml({
+      at: '2025-10-10T10:00:00.000Z',
+      prompt: 'Ürün sayfaları <için>',
+      res: { snippets: [{ title: 'Schema', language: 'html', code: '</pre><script>x()</script>' }] }
+    }, { websiteUrl: 'https://shop.example.com', generatedAt });
+
+    expect(html).toContain('İstek: Ürün sayfaları &lt;için&gt;');
+    expect(html).toContain('<pre>&lt;/pre&gt;&lt;script&gt;x()&lt;/script&gt;</pre>');
+    expect(html).toContain('<title>AI SEO Önerileri – shop.example.com</title>');
+  });
+
+  it('omits the empty prompt marker and notes an empty result', () => {
+    const empty = buildSuggestionsHtml({ at: '2025-10-10T10:00:00.000Z', prompt: '(boş)', res: {} }, { generatedAt });
+    expect(empty).toContain('Genel öneriler');
+    expect(empty).toContain('dışa aktarılacak içerik yok');
+
+    const html = buildSuggestionsHtml({ at: '2025-10-10T10:00:00.000Z', prompt: '(boş)', res: { notes: ['Not'] } }, { generatedAt });
+    expect(html).not.toContain('İstek:');
+  });
+});
+
+describe('exportFileName', () => {
+  it('uses the bare host, or a generic name without a site', () => {
+    const today = new Date().toISOString().slice(0, 10);
+    expect(exportFileName('https://www.example.com/blog', 'seo-raporu', 'html')).toBe(`weeme-seo-raporu-example.com-${today}.html`);
+    expect(exportFileName(undefined, 'ai-onerileri', 'html')).toBe(`weeme-ai-onerileri-genel-${today}.html`);
+  });
+});
+
+describe('latestAISuggestions', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('returns the newest saved set and tolerates broken storage', () => {
+    const items: Record<string, string> = {
+      aiSuggestions_u1: JSON.stringify([{ at: '2', res: {} }, { at: '1', res: {} }]),
+      aiSuggestions_u2: '{not json'
+    };
+    vi.stubGlobal('localStorage', { getItem: (key: string) => items[key] ?? null });
+
+    expect(latestAISuggestions('u1')).toMatchObject({ at: '2' });
+    expect(latestAISuggestions('u2')).toBeNull();
+    expect(latestAISuggestions('u3')).toBeNull();
+  });
+});
@@ -0,0 +1,289 @@
+// src/lib/reportExport.ts
+// Müşteriye verilecek markalı rapor çıktısı: tek dosyalık HTML (satır içi CSS/SVG, dış kaynak yok) ve
+// aynı belgenin tarayıcı yazdırma penceresiyle PDF'e dönüştürülmesi
+import type { SEOReport } from '../types';
+import { buildSiteTrends } from './scoreTrends';
+import type { TrendPoint } from './scoreTrends';
+
+// Suggestions ekranının /api/seo-suggestions yanıtı (localStorage'daki aiSuggestions_<userId> geçmişi)
+export interface AISuggestionsSnapshot {
+  at: string;
+  prompt?: string;
+  res: {
+    quickWins?: string[];
+    issues?: Array<{ title: string; why?: string; how?: string[] }>;
+    snippets?: Array<{ title: string; language?: string; code: string; note?: string }>;
+    roadmap?: { d30?: string[]; d60?: string[]; d90?: string[] };
+    notes?: string[];
+  };
+}
+
+export interface ReportExportOptions {
+  earlier?: SEOReport[];              // aynı sitenin önceki raporları; takip geçmişi bunlardan çıkarılır
+  aiSuggestions?: AISuggestionsSnapshot | null;
+  generatedAt?: Date;
+}
+
+const CATEGORY_LABELS: Record<string, string> = {
+  meta: 'Meta Etiketleri',
+  content: 'İçerik',
+  technical: 'Teknik',
+  social: 'Sosyal',
+  media: 'Görseller',
+  performance: 'Performans',
+  mobile: 'Mobil'
+};
+
+const BRAND = { name: 'weeme.ai', purple: '#9333ea' };
+
+const escapeHtml = (value: unknown) => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const scoreColor = (score: number) => (score >= 80 ? '#16a34a' : score >= 50 ? '#ca8a04' : '#dc2626');
+
+const formatDate = (value: string | Date) => new Date(value).toLocaleString('tr-TR');
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+// Yuvarlak skor göstergesi; size piksel cinsinden
+function gauge(score: number, label: string, size = 120) {
+  const radius = size / 2 - 10;
+  const circumference = 2 * Math.PI * radius;
+  const value = Math.max(0, Math.min(100, Math.round(score)));
+  const color = scoreColor(value);
+  return `<div class="gauge">
+  <svg width="${size}" height="${size}" viewBox="0 0 ${size} ${size}" role="img" aria-label="${escapeHtml(label)}: ${value}/100">
+    <circle cx="${size / 2}" cy="${size / 2}" r="${radius}" fill="none" stroke="#e5e7eb" stroke-width="10" />
+    <circle cx="${size / 2}" cy="${size / 2}" r="${radius}" fill="none" stroke="${color}" stroke-width="10" stroke-linecap="round"
+      stroke-dasharray="${(circumference * value) / 100} ${circumference}" transform="rotate(-90 ${size / 2} ${size / 2})" />
+    <text x="50%" y="50%" text-anchor="middle" dominant-baseline="central" font-size="${size / 4}" font-weight="700" fill="${color}">${value}</text>
+  </svg>
+  <div class="gauge-label">${escapeHtml(label)}</div>
+</div>`;
+}
+
+const list = (items: string[], className: string) => (items.length
+  ? `<ul class="${className}">${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+  : '<p class="muted">Bu bölüm için kayıt yok.</p>');
+
+function categoryGauges(report: SEOReport) {
+  const categories = (report.reportData?.scoring as { categories?: Record<string, { score: number }> } | undefined)?.categories;
+  if (!categories || !Object.keys(categories).length) return '';
+  const gauges = Object.entries(categories)
+    .map(([category, c]) => gauge(c.score, CATEGORY_LABELS[category] || category, 96))
+    .join('');
+  return `<section><h2>Kategori Skorları</h2><div class="gauges">${gauges}</div></section>`;
+}
+
+// Takip geçmişi: genel skorun zaman içindeki çizgi grafiği ve tarama tablosu
+function historySection(points: TrendPoint[]) {
+  if (points.length < 2) return '';
+  const width = 640;
+  const height = 180;
+  const pad = 28;
+  const x = (i: number) => pad + (i * (width - pad * 2)) / (points.length - 1);
+  const y = (score: number) => height - pad - (score * (height - pad * 2)) / 100;
+  const path = points.map((point, i) => `${i ? 'L' : 'M'}${x(i).toFixed(1)},${y(point.score).toFixed(1)}`).join(' ');
+  const grid = [0, 50, 100]
+    .map(v => `<line x1="${pad}" x2="${width - pad}" y1="${y(v)}" y2="${y(v)}" stroke="#e5e7eb" /><text x="4" y="${y(v) + 4}" font-size="10" fill="#6b7280">${v}</text>`)
+    .join('');
+  const dots = points.map((point, i) => `<circle cx="${x(i).toFixed(1)}" cy="${y(point.score).toFixed(1)}" r="3.5" fill="${BRAND.purple}" />`).join('');
+  const cell = (value: number | null) => (value === null ? '—' : String(value));
+  const rows = [...points].reverse().map((point, i, all) => {
+    const previous = all[i + 1];
+    const delta = previous ? point.score - previous.score : null;
+    const deltaText = delta === null || delta === 0 ? '' : ` <span style="color:${delta > 0 ? '#16a34a' : '#dc2626'}">(${delta > 0 ? '+' : ''}${delta})</span>`;
+    return `<tr><td>${escapeHtml(formatDate(point.date))}</td><td><b>${point.score}</b>${deltaText}</td><td>${cell(point.performance)}</td><td>${cell(point.technical)}</td><td>${cell(point.content)}</td></tr>`;
+  }).join('');
+  return `<section class="page-break"><h2>Takip Geçmişi</h2>
+  <svg width="100%" viewBox="0 0 ${width} ${height}" role="img" aria-label="SEO skoru geçmişi">${grid}<path d="${path}" fill="none" stroke="${BRAND.purple}" stroke-width="2.5" />${dots}</svg>
+  <table><thead><tr><th>Tarama</th><th>Skor</th><th>Performans</th><th>Teknik</th><th>İçerik</th></tr></thead><tbody>${rows}</tbody></table>
+</section>`;
+}
+
+function aiSuggestionsSection(snapshot: AISuggestionsSnapshot) {
+  const { res } = snapshot;
+  const parts: string[] = [];
+  if (res.quickWins?.length) parts.push(`<h3>Hızlı Kazanımlar</h3>${list(res.quickWins, 'numbered')}`);
+  if (res.issues?.length) {
+    parts.push(`<h3>Sorunlar ve Çözümler</h3>${res.issues.map(issue => `<div class="card">
+      <div class="card-title">${escapeHtml(issue.title)}</div>
+      ${issue.why ? `<p>${escapeHtml(issue.why)}</p>` : ''}
+      ${issue.how?.length ? list(issue.how, 'plain') : ''}
+    </div>`).join('')}`);
+  }
+  if (res.snippets?.length) {
+    parts.push(`<h3>Kod Örnekleri</h3>${res.snippets.map(snippet => `<div class="card">
+      <div class="card-title">${escapeHtml(snippet.title)}${snippet.language ? ` <span class="muted">(${escapeHtml(snippet.language)})</span>` : ''}</div>
+      <pre>${escapeHtml(snippet.code)}</pre>
+      ${snippet.note ? `<p class="muted">${escapeHtml(snippet.note)}</p>` : ''}
+    </div>`).join('')}`);
+  }
+  const roadmap = res.roadmap;
+  if (roadmap && (roadmap.d30?.length || roadmap.d60?.length || roadmap.d90?.length)) {
+    const column = (title: string, items?: string[]) => `<div class="roadmap-col"><div class="card-title">${title}</div>${list(items || [], 'plain')}</div>`;
+    parts.push(`<h3>30-60-90 Gün Yol Haritası</h3><div class="roadmap">${column('30 Gün', roadmap.d30)}${column('60 Gün', roadmap.d60)}${column('90 Gün', roadmap.d90)}</div>`);
+  }
+  if (res.notes?.length) parts.push(`<h3>Notlar</h3>${list(res.notes, 'plain')}`);
+  if (!parts.length) return '';
+  return `<section class="page-break"><h2>AI Önerileri</h2>
+  <p class="muted">Oluşturulma: ${escapeHtml(formatDate(snapshot.at))}${snapshot.prompt && snapshot.prompt !== '(boş)' ? ` · İstek: ${escapeHtml(snapshot.prompt)}` : ''}</p>
+  ${parts.join('\n')}
+</section>`;
+}
+
+function cover(title: string, subtitle: string, generatedAt: Date, badge = '') {
+  return `<section class="cover">
+  <div class="brand">${BRAND.name}</div>
+  <h1>${escapeHtml(title)}</h1>
+  <div class="subtitle">${escapeHtml(subtitle)}</div>
+  ${badge}
+  <div class="cover-meta">Hazırlanma tarihi: ${escapeHtml(formatDate(generatedAt))}</div>
+</section>`;
+}
+
+function documentShell(title: string, body: string) {
+  return `<!DOCTYPE html>
+<html lang="tr">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { size: A4; margin: 16mm; }
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; color: #111827; margin: 0; line-height: 1.5; }
+  main { max-width: 900px; margin: 0 auto; padding: 32px; }
+  h1 { font-size: 40px; margin: 16px 0 8px; }
+  h2 { font-size: 22px; margin: 32px 0 12px; padding-bottom: 6px; border-bottom: 3px solid ${BRAND.purple}; }
+  h3 { font-size: 16px; margin: 20px 0 8px; color: #374151; }
+  .cover { min-height: 90vh; display: flex; flex-direction: column; justify-content: center; align-items: center; text-align: center;
+    background: linear-gradient(135deg, #f5f3ff, #fdf2f8); border-radius: 24px; padding: 48px; }
+  .brand { font-size: 28px; font-weight: 800; color: ${BRAND.purple}; letter-spacing: -0.5px; }
+  .subtitle { font-size: 18px; color: #4b5563; margin-bottom: 32px; word-break: break-all; }
+  .cover-meta { margin-top: 32px; color: #6b7280; font-size: 14px; }
+  .gauges { display: flex; flex-wrap: wrap; gap: 16px; justify-content: center; }
+  .gauge { text-align: center; }
+  .gauge-label { font-size: 13px; color: #4b5563; font-weight: 600; margin-top: 4px; }
+  .columns { display: grid; grid-template-columns: 1fr 1fr; gap: 16px; }
+  .box { border-radius: 16px; padding: 16px 20px; border: 1px solid; }
+  .box.good { background: #f0fdf4; border-color: #bbf7d0; }
+  .box.bad { background: #fef2f2; border-color: #fecaca; }
+  .box.tip { background: #eff6ff; border-color: #bfdbfe; }
+  ul { margin: 0; padding-left: 20px; }
+  li { margin: 4px 0; }
+  ul.numbered { list-style: decimal; }
+  .card { border: 1px solid #e5e7eb; border-radius: 12px; padding: 12px 16px; margin: 8px 0; break-inside: avoid; }
+  .card-title { font-weight: 700; }
+  .roadmap { display: grid; grid-template-columns: repeat(3, 1fr); gap: 12px; }
+  .roadmap-col { border: 1px solid #e9d5ff; background: #faf5ff; border-radius: 12px; padding: 12px; }
+  pre { background: #111827; color: #f3f4f6; padding: 12px; border-radius: 8px; font-size: 12px; white-space: pre-wrap; word-break: break-word; }
+  table { width: 100%; border-collapse: collapse; margin-top: 12px; font-size: 13px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e5e7eb; }
+  th { background: #f9fafb; }
+  .muted { color: #6b7280; font-size: 13px; }
+  footer { margin-top: 48px; padding-top: 12px; border-top: 1px solid #e5e7eb; color: #9ca3af; font-size: 12px; text-align: center; }
+  @media print {
+    main { padding: 0; max-width: none; }
+    .cover { min-height: 250mm; break-after: page; }
+    .page-break { break-before: page; }
+    section, .box, table { break-inside: avoid; }
+  }
+  @media (max-width: 640px) { .columns, .roadmap { grid-template-columns: 1fr; } }
+</style>
+</head>
+<body>
+<main>
+${body}
+<footer>${BRAND.name} tarafından oluşturuldu</footer>
+</main>
+</body>
+</html>`;
+}
+
+// Raporun aynı sitedeki önceki taramalarla birlikte skor geçmişi (eskiden yeniye)
+const historyPoints = (report: SEOReport, earlier: SEOReport[]) => buildSiteTrends([report, ...earlier])[0]?.points || [];
+
+export function buildReportHtml(report: SEOReport, { earlier = [], aiSuggestions = null, generatedAt = new Date() }: ReportExportOptions = {}) {
+  const title = `SEO Raporu – ${hostOf(report.websiteUrl)}`;
+  const body = [
+    cover('SEO Analiz Raporu', report.websiteUrl, generatedAt, `${gauge(report.score, 'Genel SEO Skoru', 180)}
+  <div class="muted">Tarama tarihi: ${escapeHtml(formatDate(report.createdAt))}</div>`),
+    `<section><h2>Özet</h2>
+  <p>${escapeHtml(report.websiteUrl)} için yapılan taramada <b>${report.positives.length}</b> güçlü yön,
+  <b>${report.negatives.length}</b> iyileştirme alanı ve <b>${report.suggestions.length}</b> öneri bulundu.</p>
+</section>`,
+    categoryGauges(report),
+    `<section><h2>Bulgular</h2><div class="columns">
+  <div class="box good"><h3>Güçlü Yönler (${report.positives.length})</h3>${list(report.positives, 'plain')}</div>
+  <div class="box bad"><h3>İyileştirme Alanları (${report.negatives.length})</h3>${list(report.negatives, 'plain')}</div>
+</div></section>`,
+    `<section><h2>Öneriler</h2><div class="box tip">${list(report.suggestions, 'numbered')}</div></section>`,
+    aiSuggestions ? aiSuggestionsSection(aiSuggestions) : '',
+    historySection(historyPoints(report, earlier))
+  ].filter(Boolean).join('\n');
+  return documentShell(title, body);
+}
+
+export function buildSuggestionsHtml(snapshot: AISuggestionsSnapshot, { websiteUrl, generatedAt = new Date() }: { websiteUrl?: string; generatedAt?: Date } = {}) {
+  const title = websiteUrl ? `AI SEO Önerileri – ${hostOf(websiteUrl)}` : 'AI SEO Önerileri';
+  const body = [
+    cover('AI SEO Önerileri', websiteUrl || 'Genel öneriler', generatedAt),
+    aiSuggestionsSection(snapshot) || '<p class="muted">Bu öneri setinde dışa aktarılacak içerik yok.</p>'
+  ].join('\n');
+  return documentShell(title, body);
+}
+
+// Suggestions ekranının kaydettiği son AI öneri seti
+export function latestAISuggestions(userId: string): AISuggestionsSnapshot | null {
+  try {
+    const history = JSON.parse(localStorage.getItem(`aiSuggestions_${userId}`) || '[]') as AISuggestionsSnapshot[];
+    return history[0] || null;
+  } catch {
+    return null;
+  }
+}
+
+export const exportFileName = (websiteUrl: string | undefined, kind: string, extension: string) =>
+  `weeme-${kind}-${websiteUrl ? hostOf(websiteUrl).replace(/[^a-z0-9.-]+/gi, '-') : 'genel'}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+export function downloadFile(content: string, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// PDF, belge gizli bir iframe'e yüklenip yazdırma penceresi açılarak üretilir ("PDF olarak kaydet");
+// ek bağımlılık gerekmez ve çıktı HTML dışa aktarımıyla birebir aynıdır
+export function printAsPdf(html: string) {
+  const frame = document.createElement('iframe');
+  frame.setAttribute('aria-hidden', 'true');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.srcdoc = html;
+  frame.onload = () => {
+    const view = frame.contentWindow;
+    if (!view) return;
+    view.addEventListener('afterprint', () => setTimeout(() => frame.remove(), 0));
+    view.focus();
+    view.print();
+  };
+  document.body.appendChild(frame);
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import type { SEOReport } from '../types';
+import { buildSiteTrends, filterByRange, siteStats } from './scoreTrends';
+
+const report = (id: string, websiteUrl: string, createdAt: string, score: number, reportData: Record<string, unknown> = {}): SEOReport => ({
+  id, userId: 'user-1', websiteUrl, score, positives: [], negatives: [], suggestions: [], createdAt, reportData
+});
+
+describe('buildSiteTrends', () => {
+  const reports = [
+    report('a2', 'https://a.com', '2025-10-05T09:00:00.000Z', 80, { scoring: { categories: { performance: { score: 60 }, technical: { score: 90 } } } }),
+    report('b1', 'https://b.com', '2025-10-06T09:00:00.000Z', 50),
+    report('a1', 'http://www.a.com/', '2025-10-01T09:00:00.000Z', 60, { performance: 40 })
+  ];
+
+  it('groups reports per site, oldest point first, most recently scanned site first', () => {
+    const trends = buildSiteTrends(reports);
+    expect(trends.map(trend => trend.key)).toEqual(['b.com', 'a.com']);
+    expect(trends[1].points.map(point => point.reportId)).toEqual(['a1', 'a2']);
+  });
+
+  it('reads category scores and falls back to the legacy performance field', () => {
+    const [, a] = buildSiteTrends(reports);
+    expect(a.points[0]).toMatchObject({ performance: 40, technical: null, content: null });
+    expect(a.points[1]).toMatchObject({ performance: 60, technical: 90 });
+  });
+
+  it('summarizes latest scores and per-site improvement', () => {
+    expect(siteStats(buildSiteTrends(reports))).toEqual({ avgScore: 65, improvement: 33 });
+    expect(siteStats([])).toEqual({ avgScore: 0, improvement: 0 });
+  });
+});
+
+describe('filterByRange', () => {
+  // filterByRange yerel gün sınırlarıyla çalışır; tarihler yerel saatle üretilir
+  const local = (day: number, hour: number, minute = 0) => new Date(2025, 9, day, hour, minute).toISOString();
+  const [trend] = buildSiteTrends([
+    report('1', 'https://a.com', local(1, 9), 50),
+    report('2', 'https://a.com', local(10, 23, 30), 60),
+    report('3', 'https://a.com', local(11, 0, 0), 70)
+  ]);
+
+  it('includes the whole end day', () => {
+    expect(filterByRange(trend.points, null, new Date(2025, 9, 10)).map(point => point.reportId)).toEqual(['1', '2']);
+  });
+
+  it('applies the start date and keeps everything without bounds', () => {
+    expect(filterByRange(trend.points, new Date(2025, 9, 11), null).map(point => point.reportId)).toEqual(['3']);
+    expect(filterByRange(trend.points, null, null)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,79 @@
+// src/lib/scoreTrends.ts
+// Kayıtlı raporlardan site bazında skor ve alt skor (performans, teknik, içerik) zaman serileri
+import type { SEOReport } from '../types';
+import { siteKey } from './reportDiff';
+
+export const TREND_SERIES = ['score', 'performance', 'technical', 'content'] as const;
+export type TrendSeries = typeof TREND_SERIES[number];
+
+export interface TrendPoint {
+  reportId: string;
+  date: string;
+  score: number;
+  performance: number | null;
+  technical: number | null;
+  content: number | null;
+}
+
+export interface SiteTrend {
+  key: string;
+  websiteUrl: string;
+  points: TrendPoint[]; // eskiden yeniye
+}
+
+type CategoryScores = Record<string, { score: number } | undefined>;
+
+const categoryScore = (report: SEOReport, category: string) => {
+  const categories = (report.reportData?.scoring as { categories?: CategoryScores } | undefined)?.categories;
+  const value = categories?.[category]?.score;
+  return typeof value === 'number' ? value : null;
+};
+
+// Kural motorundan önceki raporlarda performans skoru yalnızca reportData.performance alanında bulunur
+const performanceScore = (report: SEOReport) => {
+  const legacy = report.reportData?.performance;
+  return categoryScore(report, 'performance') ?? (typeof legacy === 'number' ? legacy : null);
+};
+
+export function buildSiteTrends(reports: SEOReport[]): SiteTrend[] {
+  const sites = new Map<string, SiteTrend>();
+  for (const report of reports) {
+    const key = siteKey(report.websiteUrl);
+    const trend = sites.get(key) || { key, websiteUrl: report.websiteUrl, points: [] };
+    sites.set(key, trend);
+    trend.points.push({
+      reportId: report.id,
+      date: report.createdAt,
+      score: report.score,
+      performance: performanceScore(report),
+      technical: categoryScore(report, 'technical'),
+      content: categoryScore(report, 'content')
+    });
+  }
+  const trends = [...sites.values()];
+  trends.forEach(trend => trend.points.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()));
+  // Son taranan site önce
+  return trends.sort((a, b) => new Date(b.points[b.points.length - 1].date).getTime() - new Date(a.points[a.points.length - 1].date).getTime());
+}
+
+// from/to dahil; to günün sonuna kadar kabul edilir
+export function filterByRange(points: TrendPoint[], from: Date | null, to: Date | null): TrendPoint[] {
+  const end = to ? new Date(to.getFullYear(), to.getMonth(), to.getDate() + 1).getTime() : Infinity;
+  const start = from ? from.getTime() : -Infinity;
+  return points.filter(point => {
+    const time = new Date(point.date).getTime();
+    return time >= start && time < end;
+  });
+}
+
+// Dashboard özet kartları: her sitenin son skorunun ortalaması ve site bazında ilk-son tarama değişiminin ortalaması
+export function siteStats(trends: SiteTrend[]) {
+  if (!trends.length) return { avgScore: 0, improvement: 0 };
+  const latest = trends.map(trend => trend.points[trend.points.length - 1].score);
+  const avgScore = Math.round(latest.reduce((sum, score) => sum + score, 0) / latest.length);
+  const changes = trends
+    .filter(trend => trend.points.length > 1 && trend.points[0].score > 0)
+    .map(trend => (trend.points[trend.points.length - 1].score - trend.points[0].score) / trend.points[0].score);
+  const improvement = changes.length ? Math.round((changes.reduce((sum, change) => sum + change, 0) / changes.length) * 100) : 0;
+  return { avgScore, improvement };
+}
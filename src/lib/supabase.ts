@@ -21,6 +21,13 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   }
 });
 
+// API sunucusunun isteği hesaba bağlaması için Supabase oturum token'ı (oturum yoksa boş)
+export async function authHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
 // Database types
 export interface Database {
   public: {
@@ -32,6 +39,7 @@ export interface Database {
           email: string;
           membership_type: 'Free' | 'Pro' | 'Advanced';
           credits: number;
+          require_site_ownership: boolean;
           created_at: string;
           updated_at: string;
         };
@@ -41,6 +49,7 @@ export interface Database {
           email: string;
           membership_type?: 'Free' | 'Pro' | 'Advanced';
           credits?: number;
+          require_site_ownership?: boolean;
           created_at?: string;
           updated_at?: string;
         };
@@ -50,6 +59,7 @@ export interface Database {
           email?: string;
           membership_type?: 'Free' | 'Pro' | 'Advanced';
           credits?: number;
+          require_site_ownership?: boolean;
           updated_at?: string;
         };
       };
@@ -94,9 +104,23 @@ export interface Database {
           website_url: string;
           code: string;
           is_active: boolean;
-          scan_frequency: 'weekly' | 'biweekly' | 'monthly';
+          scan_frequency: 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'custom';
           last_scan: string;
           next_scan: string;
+          disabled_rules: string[];
+          competitors: string[];
+          scan_cron: string | null;
+          scan_window_start: string | null;
+          scan_window_end: string | null;
+          timezone: string;
+          installation_status: 'verified' | 'unverified' | null;
+          installation_checked_at: string | null;
+          installation_error: string | null;
+          ownership_method: 'dns' | 'meta' | 'file' | null;
+          ownership_verified_at: string | null;
+          ownership_checked_at: string | null;
+          ownership_error: string | null;
+          alert_settings: Record<string, unknown>;
           created_at: string;
         };
         Insert: {
@@ -105,9 +129,23 @@ export interface Database {
           website_url: string;
           code: string;
           is_active?: boolean;
-          scan_frequency?: 'weekly' | 'biweekly' | 'monthly';
+          scan_frequency?: 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'custom';
           last_scan?: string;
           next_scan?: string;
+          disabled_rules?: string[];
+          competitors?: string[];
+          scan_cron?: string | null;
+          scan_window_start?: string | null;
+          scan_window_end?: string | null;
+          timezone?: string;
+          installation_status?: 'verified' | 'unverified' | null;
+          installation_checked_at?: string | null;
+          installation_error?: string | null;
+          ownership_method?: 'dns' | 'meta' | 'file' | null;
+          ownership_verified_at?: string | null;
+          ownership_checked_at?: string | null;
+          ownership_error?: string | null;
+          alert_settings?: Record<string, unknown>;
           created_at?: string;
         };
         Update: {
@@ -116,9 +154,23 @@ export interface Database {
           website_url?: string;
           code?: string;
           is_active?: boolean;
-          scan_frequency?: 'weekly' | 'biweekly' | 'monthly';
+          scan_frequency?: 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'custom';
           last_scan?: string;
           next_scan?: string;
+          disabled_rules?: string[];
+          competitors?: string[];
+          scan_cron?: string | null;
+          scan_window_start?: string | null;
+          scan_window_end?: string | null;
+          timezone?: string;
+          installation_status?: 'verified' | 'unverified' | null;
+          installation_checked_at?: string | null;
+          installation_error?: string | null;
+          ownership_method?: 'dns' | 'meta' | 'file' | null;
+          ownership_verified_at?: string | null;
+          ownership_checked_at?: string | null;
+          ownership_error?: string | null;
+          alert_settings?: Record<string, unknown>;
         };
       };
       ai_content: {
@@ -146,6 +198,48 @@ export interface Database {
           content?: string;
         };
       };
+      page_observations: {
+        Row: {
+          id: string;
+          tracking_code_id: string;
+          user_id: string;
+          url: string;
+          path: string;
+          title: string | null;
+          meta_description: string | null;
+          robots: string | null;
+          canonical: string | null;
+          lang: string | null;
+          h1_count: number | null;
+          device: 'mobile' | 'tablet' | 'desktop' | null;
+          ttfb_ms: number | null;
+          fcp_ms: number | null;
+          lcp_ms: number | null;
+          dom_content_loaded_ms: number | null;
+          load_ms: number | null;
+          cls: number | null;
+          observed_at: string;
+        };
+      };
+      alerts: {
+        Row: {
+          id: string;
+          user_id: string;
+          tracking_code_id: string;
+          report_id: string | null;
+          website_url: string;
+          type: 'score-drop' | 'new-critical' | 'unreachable' | 'title-removed';
+          severity: 'critical' | 'warning';
+          message: string;
+          details: Record<string, unknown>;
+          deliveries: Array<{ channel: string; target: string; ok: boolean; error?: string; at: string }>;
+          read_at: string | null;
+          created_at: string;
+        };
+        Update: {
+          read_at?: string | null;
+        };
+      };
     };
   };
 }
\ No newline at end of file
@@ -7,18 +7,62 @@ export interface User {
   email: string;
   membershipType: MembershipType;
   credits: number;           // sadece Free için anlamlı
+  requireSiteOwnership?: boolean; // ajans modu: yalnızca sahipliği doğrulanmış siteler taranır
   createdAt: string;
 }
 
+export type ScanFrequency = 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'custom';
+
 export interface TrackingCode {
   id: string;
   userId: string;
   websiteUrl: string;
   code: string;
   isActive: boolean;
-  scanFrequency: 'weekly' | 'biweekly' | 'monthly';
+  scanFrequency: ScanFrequency;
   lastScan: string;
-  nextScan: string;
+  nextScan: string | null;
+  disabledRules?: string[];  // site bazında kapatılan skor kuralları
+  competitors?: string[];    // her taramada karşılaştırılan rakip URL'leri
+  scanCron?: string | null;  // scanFrequency 'custom' iken 5 alanlı cron ifadesi
+  scanWindowStart?: string | null; // tercih edilen tarama aralığı (yerel saat, SS:DD)
+  scanWindowEnd?: string | null;
+  timezone?: string;         // IANA saat dilimi, varsayılan Europe/Istanbul
+  installationStatus?: 'verified' | 'unverified' | null; // son kurulum doğrulamasının sonucu
+  installationCheckedAt?: string | null;
+  installationError?: string | null; // doğrulama başarısızsa neden kodu
+  ownershipMethod?: 'dns' | 'meta' | 'file' | null; // sahipliği kanıtlayan yöntem (yalnızca sunucu yazar)
+  ownershipVerifiedAt?: string | null;
+  ownershipCheckedAt?: string | null;
+  ownershipError?: string | null;
+  alertSettings?: Partial<AlertSettings>; // gerileme uyarısı eşikleri; eksik alanlar sunucu varsayılanlarıyla tamamlanır
+}
+
+export interface AlertSettings {
+  enabled: boolean;
+  scoreDrop: number;         // bu kadar puan ve üzeri düşüşte uyarı
+  newCritical: boolean;
+  unreachable: boolean;
+  titleRemoved: boolean;
+  email: string | null;
+  webhookUrl: string | null;
+}
+
+export type AlertType = 'score-drop' | 'new-critical' | 'unreachable' | 'title-removed';
+
+export interface Alert {
+  id: string;
+  userId: string;
+  trackingCodeId: string;
+  reportId: string | null;
+  websiteUrl: string;
+  type: AlertType;
+  severity: 'critical' | 'warning';
+  message: string;
+  details: Record<string, unknown>;
+  deliveries: Array<{ channel: string; target: string; ok: boolean; error?: string; at: string }>;
+  readAt: string | null;
+  createdAt: string;
 }
 
 export interface SEOReport {
@@ -0,0 +1,11 @@
+/*
+  # Add per-site scoring rule overrides
+
+  1. Changes
+    - `tracking_codes`
+      - `disabled_rules` (text array) - rule ids from the scoring registry that are
+        skipped when this site is scanned
+*/
+
+ALTER TABLE tracking_codes
+  ADD COLUMN IF NOT EXISTS disabled_rules text[] DEFAULT '{}';
@@ -0,0 +1,11 @@
+/*
+  # Add competitor URLs to tracking codes
+
+  1. Changes
+    - `tracking_codes`
+      - `competitors` (text array) - competitor URLs that are audited alongside
+        this site on every scan and compared in the report
+*/
+
+ALTER TABLE tracking_codes
+  ADD COLUMN IF NOT EXISTS competitors text[] DEFAULT '{}';
@@ -0,0 +1,36 @@
+/*
+  # Custom scan schedules and scan windows
+
+  1. Changes
+    - `scan_frequency` enum
+      - new values `daily` and `custom` (custom uses `scan_cron`)
+    - `tracking_codes`
+      - `scan_cron` (text) - 5-field cron expression, evaluated in `timezone`
+      - `scan_window_start` / `scan_window_end` (time) - preferred local time-of-day
+        window for scheduled scans; may cross midnight
+      - `timezone` (text) - IANA timezone of the site, default Europe/Istanbul
+
+  2. Indexes
+    - partial index on `next_scan` for active codes (scheduler lookups);
+      paused codes (`is_active = false`) are never picked up
+*/
+
+ALTER TYPE scan_frequency ADD VALUE IF NOT EXISTS 'daily' BEFORE 'weekly';
+ALTER TYPE scan_frequency ADD VALUE IF NOT EXISTS 'custom';
+
+ALTER TABLE tracking_codes
+  ADD COLUMN IF NOT EXISTS scan_cron text,
+  ADD COLUMN IF NOT EXISTS scan_window_start time,
+  ADD COLUMN IF NOT EXISTS scan_window_end time,
+  ADD COLUMN IF NOT EXISTS timezone text NOT NULL DEFAULT 'Europe/Istanbul';
+
+-- New enum values cannot be used in the transaction that adds them, so compare as text
+ALTER TABLE tracking_codes
+  ADD CONSTRAINT tracking_codes_custom_cron_check
+    CHECK (scan_frequency::text <> 'custom' OR scan_cron IS NOT NULL),
+  ADD CONSTRAINT tracking_codes_scan_window_check
+    CHECK ((scan_window_start IS NULL) = (scan_window_end IS NULL));
+
+CREATE INDEX IF NOT EXISTS idx_tracking_codes_due
+  ON tracking_codes(next_scan)
+  WHERE is_active;
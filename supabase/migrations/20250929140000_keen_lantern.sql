@@ -0,0 +1,57 @@
+/*
+  # Create page observations table
+
+  1. New Tables
+    - `page_observations`
+      - `id` (uuid, primary key)
+      - `tracking_code_id` (uuid, foreign key to tracking_codes)
+      - `user_id` (uuid, foreign key to users)
+      - `url`, `path` (text) - observed page, without fragment
+      - `title`, `meta_description`, `robots`, `canonical`, `lang` (text) - as rendered in the visitor's browser
+      - `h1_count` (integer)
+      - `device` (text: mobile, tablet, desktop) - derived from the user agent, which is not stored
+      - `ttfb_ms`, `fcp_ms`, `lcp_ms`, `dom_content_loaded_ms`, `load_ms` (integer) - real-user timings
+      - `cls` (numeric)
+      - `observed_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `page_observations` table
+    - Rows are written by the API server with the service role key (`/api/beacon`);
+      users can read their own observations
+*/
+
+CREATE TABLE IF NOT EXISTS page_observations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tracking_code_id uuid REFERENCES tracking_codes(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE,
+  url text NOT NULL,
+  path text NOT NULL,
+  title text,
+  meta_description text,
+  robots text,
+  canonical text,
+  lang text,
+  h1_count integer,
+  device text CHECK (device IN ('mobile', 'tablet', 'desktop')),
+  ttfb_ms integer,
+  fcp_ms integer,
+  lcp_ms integer,
+  dom_content_loaded_ms integer,
+  load_ms integer,
+  cls numeric(6, 3),
+  observed_at timestamptz DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE page_observations ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can read own page observations"
+  ON page_observations
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_page_observations_tracking_code ON page_observations(tracking_code_id, observed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_page_observations_path ON page_observations(tracking_code_id, path);
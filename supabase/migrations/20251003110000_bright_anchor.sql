@@ -0,0 +1,16 @@
+/*
+  # Track snippet installation status on tracking codes
+
+  1. Changes
+    - `tracking_codes`
+      - `installation_status` (text: verified, unverified) - result of the last
+        installation check; NULL until the user runs one
+      - `installation_checked_at` (timestamp) - when the last check ran
+      - `installation_error` (text) - failure reason code of the last check
+        (e.g. snippet-missing, site-id-mismatch, integrity-mismatch, csp-blocked)
+*/
+
+ALTER TABLE tracking_codes
+  ADD COLUMN IF NOT EXISTS installation_status text CHECK (installation_status IN ('verified', 'unverified')),
+  ADD COLUMN IF NOT EXISTS installation_checked_at timestamptz,
+  ADD COLUMN IF NOT EXISTS installation_error text;
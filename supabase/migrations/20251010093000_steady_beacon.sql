@@ -0,0 +1,54 @@
+/*
+  # Site ownership verification
+
+  1. Changes
+    - `tracking_codes`
+      - `ownership_method` (text: dns, meta, file) - method that proved ownership
+      - `ownership_verified_at` (timestamp) - set when the last check succeeded,
+        cleared when a later check fails
+      - `ownership_checked_at` (timestamp) - when the last check ran
+      - `ownership_error` (text) - failure reason code of the last check
+        (e.g. dns-record-missing, meta-token-mismatch, file-missing)
+    - `users`
+      - `require_site_ownership` (boolean) - agency mode; scheduled and manual
+        scans are limited to sites with verified ownership
+
+  2. Security
+    - ownership columns are written only by the API server (service role);
+      values sent by clients are discarded by a trigger
+*/
+
+ALTER TABLE tracking_codes
+  ADD COLUMN IF NOT EXISTS ownership_method text CHECK (ownership_method IN ('dns', 'meta', 'file')),
+  ADD COLUMN IF NOT EXISTS ownership_verified_at timestamptz,
+  ADD COLUMN IF NOT EXISTS ownership_checked_at timestamptz,
+  ADD COLUMN IF NOT EXISTS ownership_error text;
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS require_site_ownership boolean NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION protect_tracking_code_ownership()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'INSERT' THEN
+    NEW.ownership_method = NULL;
+    NEW.ownership_verified_at = NULL;
+    NEW.ownership_checked_at = NULL;
+    NEW.ownership_error = NULL;
+  ELSE
+    NEW.ownership_method = OLD.ownership_method;
+    NEW.ownership_verified_at = OLD.ownership_verified_at;
+    NEW.ownership_checked_at = OLD.ownership_checked_at;
+    NEW.ownership_error = OLD.ownership_error;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER protect_tracking_codes_ownership
+  BEFORE INSERT OR UPDATE ON tracking_codes
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_tracking_code_ownership();
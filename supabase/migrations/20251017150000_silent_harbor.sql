@@ -0,0 +1,67 @@
+/*
+  # Regression alerts
+
+  1. Changes
+    - `tracking_codes`
+      - `alert_settings` (jsonb) - per-site alert thresholds and delivery targets:
+        `enabled`, `scoreDrop` (points), `newCritical`, `unreachable`, `titleRemoved`,
+        `email`, `webhookUrl`; missing keys fall back to server defaults
+
+  2. New Tables
+    - `alerts`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to users)
+      - `tracking_code_id` (uuid, foreign key to tracking_codes)
+      - `report_id` (uuid) - report that triggered the alert; NULL when the scan failed
+      - `website_url` (text)
+      - `type` (text: score-drop, new-critical, unreachable, title-removed)
+      - `severity` (text: critical, warning)
+      - `message` (text)
+      - `details` (jsonb) - type specific values (scores, rule ids, previous title)
+      - `deliveries` (jsonb) - email/webhook delivery results
+      - `read_at` (timestamp) - set when the user opens the notification center
+      - `created_at` (timestamp)
+
+  3. Security
+    - Enable RLS on `alerts` table
+    - Alerts are written by the API server with the service role key after scheduled
+      scans; users can read their own alerts and mark them as read
+*/
+
+ALTER TABLE tracking_codes
+  ADD COLUMN IF NOT EXISTS alert_settings jsonb NOT NULL DEFAULT '{}';
+
+CREATE TABLE IF NOT EXISTS alerts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE,
+  tracking_code_id uuid REFERENCES tracking_codes(id) ON DELETE CASCADE,
+  report_id uuid,
+  website_url text NOT NULL,
+  type text NOT NULL CHECK (type IN ('score-drop', 'new-critical', 'unreachable', 'title-removed')),
+  severity text NOT NULL CHECK (severity IN ('critical', 'warning')),
+  message text NOT NULL,
+  details jsonb DEFAULT '{}',
+  deliveries jsonb DEFAULT '[]',
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE alerts ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can read own alerts"
+  ON alerts
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own alerts"
+  ON alerts
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_alerts_user_created ON alerts(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_alerts_tracking_code_type ON alerts(tracking_code_id, type, created_at DESC);
@@ -0,0 +1,25 @@
+/*
+  # Atomic scan credit consumption
+
+  1. New Functions
+    - `consume_scan_credit(target_user_id uuid)` - decrements `users.credits` by one
+      for Free members in a single conditional UPDATE; returns the remaining credits,
+      or NULL when the user is not on the Free plan or has no credits left
+
+  2. Security
+    - callable only by the API server (service role); concurrent scheduled scans
+      cannot read the same balance and both write it back
+*/
+
+CREATE OR REPLACE FUNCTION consume_scan_credit(target_user_id uuid)
+RETURNS integer AS $$
+  UPDATE users
+     SET credits = credits - 1
+   WHERE id = target_user_id
+     AND membership_type = 'Free'
+     AND credits > 0
+  RETURNING credits;
+$$ language 'sql';
+
+REVOKE EXECUTE ON FUNCTION consume_scan_credit(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_scan_credit(uuid) TO service_role;
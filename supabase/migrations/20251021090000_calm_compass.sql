@@ -0,0 +1,41 @@
+/*
+  # Reset site ownership when the website URL changes
+
+  1. Changes
+    - `protect_tracking_code_ownership()` trigger function
+      - when `website_url` changes, `ownership_method`, `ownership_verified_at`,
+        `ownership_checked_at` and `ownership_error` are cleared; a verified
+        site can no longer be swapped for an unverified one while keeping
+        the verified state
+
+  2. Security
+    - ownership columns are still written only by the API server (service role)
+*/
+
+CREATE OR REPLACE FUNCTION protect_tracking_code_ownership()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.website_url IS DISTINCT FROM OLD.website_url THEN
+    NEW.ownership_method = NULL;
+    NEW.ownership_verified_at = NULL;
+    NEW.ownership_checked_at = NULL;
+    NEW.ownership_error = NULL;
+    RETURN NEW;
+  END IF;
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'INSERT' THEN
+    NEW.ownership_method = NULL;
+    NEW.ownership_verified_at = NULL;
+    NEW.ownership_checked_at = NULL;
+    NEW.ownership_error = NULL;
+  ELSE
+    NEW.ownership_method = OLD.ownership_method;
+    NEW.ownership_verified_at = OLD.ownership_verified_at;
+    NEW.ownership_checked_at = OLD.ownership_checked_at;
+    NEW.ownership_error = OLD.ownership_error;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
@@ -0,0 +1,32 @@
+/*
+  # Server-owned scan credits
+
+  1. Changes
+    - `users.credits` is no longer written by clients; scheduled and manual
+      scans consume credits through `consume_scan_credit` on the API server
+
+  2. Security
+    - values sent by clients are discarded by a trigger: inserts start with
+      the column default, updates keep the stored balance, so a stale cached
+      balance cannot give back credits that were already consumed
+*/
+
+CREATE OR REPLACE FUNCTION protect_user_credits()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'INSERT' THEN
+    NEW.credits = 3;
+  ELSE
+    NEW.credits = OLD.credits;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER protect_users_credits
+  BEFORE INSERT OR UPDATE ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_user_credits();
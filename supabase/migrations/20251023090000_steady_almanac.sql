@@ -0,0 +1,49 @@
+/*
+  # Server-owned scan times
+
+  1. Changes
+    - `tracking_codes.last_scan` and `tracking_codes.next_scan` are written only
+      by the API server (service role); values sent by clients are discarded
+    - a new code, a changed schedule (`scan_frequency`, `scan_cron`,
+      `scan_window_start`, `scan_window_end`, `timezone`) or a resumed code gets
+      `next_scan = NULL`; the scheduler computes the next run for such rows
+
+  2. Security
+    - a stale client copy can no longer move `next_scan` back after the
+      scheduler claimed a run, or overwrite `last_scan`
+*/
+
+CREATE OR REPLACE FUNCTION protect_tracking_code_schedule()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'INSERT' THEN
+    NEW.last_scan = now();
+    NEW.next_scan = NULL;
+    RETURN NEW;
+  END IF;
+  NEW.last_scan = OLD.last_scan;
+  IF NEW.scan_frequency IS DISTINCT FROM OLD.scan_frequency
+    OR NEW.scan_cron IS DISTINCT FROM OLD.scan_cron
+    OR NEW.scan_window_start IS DISTINCT FROM OLD.scan_window_start
+    OR NEW.scan_window_end IS DISTINCT FROM OLD.scan_window_end
+    OR NEW.timezone IS DISTINCT FROM OLD.timezone
+    OR (NEW.is_active AND NOT OLD.is_active) THEN
+    NEW.next_scan = NULL;
+  ELSE
+    NEW.next_scan = OLD.next_scan;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER protect_tracking_codes_schedule
+  BEFORE INSERT OR UPDATE ON tracking_codes
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_tracking_code_schedule();
+
+CREATE INDEX IF NOT EXISTS idx_tracking_codes_unplanned
+  ON tracking_codes(created_at)
+  WHERE is_active AND next_scan IS NULL;
@@ -0,0 +1,36 @@
+/*
+  # Server-owned installation status
+
+  1. Changes
+    - `tracking_codes.installation_status`, `installation_checked_at` and
+      `installation_error` are written only by `/api/tracking-codes/verify`
+      on the API server (service role)
+
+  2. Security
+    - values sent by clients are discarded by a trigger: inserts start
+      unchecked, updates keep the stored result
+*/
+
+CREATE OR REPLACE FUNCTION protect_tracking_code_installation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'INSERT' THEN
+    NEW.installation_status = NULL;
+    NEW.installation_checked_at = NULL;
+    NEW.installation_error = NULL;
+  ELSE
+    NEW.installation_status = OLD.installation_status;
+    NEW.installation_checked_at = OLD.installation_checked_at;
+    NEW.installation_error = OLD.installation_error;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER protect_tracking_codes_installation
+  BEFORE INSERT OR UPDATE ON tracking_codes
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_tracking_code_installation();
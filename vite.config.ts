@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
@@ -31,4 +32,9 @@ export default defineConfig(({ mode }) => ({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  // Birim testleri: src altındaki yardımcılar ve sunucu modülleri (node ortamı)
+  test: {
+    include: ['src/**/*.test.ts', 'server/**/*.test.js'],
+    environment: 'node'
+  }
 }));